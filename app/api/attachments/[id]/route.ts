@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getAttachmentFile } from '@/lib/attachmentFiles';
+
+// Files attached to agent replies are read with Prisma
+export const runtime = 'nodejs';
+
+// Serves a download or the working copy of an inline dataset attached to an agent reply
+export async function GET(req: NextRequest, context: any) {
+  const { params } = context;
+
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+  const file = await getAttachmentFile(params.id, session?.user?.id);
+  if (!file) {
+    return NextResponse.json({ error: 'File not found or expired' }, { status: 404 });
+  }
+
+  return new NextResponse(file.content, {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${encodeURIComponent(file.fileName)}"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
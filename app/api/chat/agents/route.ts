@@ -11,480 +11,96 @@ import {
   ChatMessage,
   HumanMessage,
   SystemMessage,
+  ToolMessage,
 } from "@langchain/core/messages";
-import { StructuredTool } from "@langchain/core/tools";
 import { z } from "zod";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import {
+  appendChatMessages,
+  resolveChatHistory,
+  toolStepToMessage,
+  type ToolStep,
+} from "@/lib/chatHistory";
+import {
+  CSVDataProcessor,
+  downloadFileName,
+  generateDownloadableFile,
+} from "@/lib/csv/processor";
+import { SQLQueryTool } from "@/lib/csv/sqlQuery";
+import { validateCSVData } from "@/lib/csv/validation";
+import { ATTACHMENT_BLOCK_PATTERN, formatAttachment, splitToolResult } from "@/lib/csv/attachments";
+import { attachmentFileUrl, storeAttachmentFile, storeDataUrl } from "@/lib/attachmentFiles";
+import { NORMALIZED_CSV, parseCSV } from "@/lib/csv/parser";
+import { describeDataset, previewLines } from "@/lib/csv/summary";
+import { hasProtection, parsePiiPolicy, PiiError, type PiiPolicy } from "@/lib/csv/pii";
+import { inlinePiiPolicy, protectCSV, protectForModel, revealCSV, revealTokens, storePiiTokens } from "@/lib/privacy";
+import {
+  addDatasetVersion,
+  DatasetHistoryError,
+  findDataset,
+  getDatasetActionLog,
+  getDatasetVersion,
+  moveDatasetHead,
+  type DatasetVersionInfo,
+} from "@/lib/datasets";
+import type { DatasetVersion } from "@prisma/client";
 
-export const runtime = "edge";
+// Chat turns are persisted with Prisma, which needs the Node.js runtime
+export const runtime = "nodejs";
 
 // --- Helper Functions ---
 
-// Additional security validation function
-function validateCSVData(csvData: string): { valid: boolean; error?: string } {
-  if (!csvData || !csvData.trim()) {
-    return { valid: false, error: "Empty CSV data" };
-  }
-
-  // Size check
-  const sizeInMB = csvData.length / (1024 * 1024);
-  if (sizeInMB > 15) { // Server-side limit slightly higher than client
-    return { valid: false, error: `CSV data too large (${sizeInMB.toFixed(2)}MB)` };
-  }
-
-  // Basic structure validation
-  const lines = csvData.trim().split('\n');
-  if (lines.length < 1) {
-    return { valid: false, error: "CSV must have at least a header row" };
-  }
-
-  // Column count validation
-  const headers = lines[0].split(',').map(h => h.trim());
-  if (headers.length === 0) {
-    return { valid: false, error: "No columns detected in CSV" };
-  }
-  
-  if (headers.length > 1000) {
-    return { valid: false, error: "Too many columns (max: 1000)" };
-  }
-  
-  // Row count validation
-  if (lines.length > 200000) {
-    return { valid: false, error: "Too many rows (max: 200,000)" };
-  }
-  
-  // Security checks
-  const dangerousPatterns = [
-    /<script/i,
-    /javascript:/i,
-    /eval\(/i,
-    /function\(/i,
-    /setTimeout/i,
-    /document\./i
-  ];
-  
-  for (const pattern of dangerousPatterns) {
-    if (pattern.test(csvData)) {
-      return { valid: false, error: "CSV contains potentially unsafe content" };
-    }
-  }
-  
-  return { valid: true };
+// The model sometimes passes a file name (or nothing) instead of CSV text
+function isFileReference(csvData: string | undefined): boolean {
+    return !csvData ||
+        csvData.trim() === 'sample_data.csv' ||
+        (csvData.trim().endsWith('.csv') && !csvData.includes('\n'));
 }
 
-// Slightly more robust CSV parsing (handles simple quotes, still limited)
-function parseCsvRow(rowString: string): string[] {
-    const result: string[] = [];
-    let currentField = '';
-    let inQuotes = false;
-    for (let i = 0; i < rowString.length; i++) {
-        const char = rowString[i];
-        if (char === '"') {
-            // Handle escaped quotes ("")
-            if (inQuotes && rowString[i + 1] === '"') {
-                currentField += '"';
-                i++; // Skip the next quote
-            } else {
-                inQuotes = !inQuotes;
-            }
-        } else if (char === ',' && !inQuotes) {
-            result.push(currentField.trim());
-            currentField = '';
-        } else {
-            currentField += char;
-        }
-    }
-    result.push(currentField.trim()); // Add the last field
-    return result;
+// A dataset loaded in the chat, stored server-side (datasetId) or sent inline (csvData).
+// Inline datasets carry their privacy policy; stored ones keep it with the dataset.
+interface SessionDataset {
+    name: string;
+    fileName?: string;
+    datasetId?: string | null;
+    csvData?: string | null;
+    piiPolicy?: PiiPolicy;
 }
 
-function parseCSV(csvString: string): { headers: string[], data: string[][] } {
-    const lines = csvString.trim().split('\n');
-    if (lines.length === 0) {
-        return { headers: [], data: [] };
-    }
-    const headers = parseCsvRow(lines[0]);
-    const data = lines.slice(1).map(line => parseCsvRow(line));
-    // Basic validation: ensure all rows have same length as headers (or handle inconsistencies)
-    const consistentData = data.filter(row => row.length === headers.length);
-    if (consistentData.length !== data.length) {
-        console.warn("CSV Parse Warning: Some rows had inconsistent column counts and were potentially skipped.");
-    }
-    return { headers, data: consistentData };
-}
+// The preview table added when a CSV is loaded
+const DATA_PREVIEW_PATTERN = /<DataTable [\s\S]*?\/>/g;
 
-function formatCSV(headers: string[], data: string[][]): string {
-    const headerRow = headers.map(h => `"${h.replace(/"/g, '""')}"`).join(','); // Quote headers
-    const dataRows = data.map(row =>
-        row.map(cell => `"${(cell ?? '').toString().replace(/"/g, '""')}"`).join(',') // Quote all cells
-    );
-    return [headerRow, ...dataRows].join('\n');
+// The model refers to loaded datasets by their name, file name or stored ID
+function findSessionDataset(datasets: SessionDataset[], reference: string): SessionDataset | undefined {
+    const key = reference.trim().toLowerCase();
+    return datasets.find(dataset => dataset.datasetId === reference.trim()) ??
+        datasets.find(dataset => dataset.name.toLowerCase() === key || dataset.fileName?.toLowerCase() === key);
 }
 
-// Generate a downloadable file content with base64 encoding
-function generateDownloadableFile(csvData: string, format: string): string {
-    // For CSV, we can just use the CSV data directly with base64 encoding
-    if (format === 'csv') {
-        return `data:text/csv;base64,${Buffer.from(csvData).toString('base64')}`;
-    }
-    
-    // For Excel format, we would typically need a library like ExcelJS
-    // This is a simplified approach that creates a CSV with Excel mime type
-    if (format === 'excel') {
-        return `data:application/vnd.ms-excel;base64,${Buffer.from(csvData).toString('base64')}`;
-    }
-    
-    return '';
-}
-
-// CSV Data Processing Tool
-class CSVDataProcessor extends StructuredTool {
-  name = "csv_processor";
-  description = "Process, clean, and analyze CSV data. Input should be a CSV string or a URL to a CSV file.";
-  schema = z.object({
-    csv_data: z.string().describe("The CSV data as a string or URL to a CSV file"),
-    operation: z.enum([
-      "analyze", 
-      "filter", 
-      "summarize", 
-      "visualize", 
-      "clean_missing", 
-      "detect_outliers", 
-      "remove_duplicates", 
-      "generate_report",
-      "download_data"  // New operation to download data
-    ]).describe("The operation to perform on the CSV data"),
-    column: z.string().optional().describe("The column to operate on (for filter, summarize, clean_missing, detect_outliers operations)"),
-    condition: z.string().optional().describe("The condition to filter by (for filter operation)"),
-    method: z.string().optional().describe("The method to use for cleaning (e.g., 'mean', 'median', 'mode', 'drop' for missing values)"),
-    threshold: z.number().optional().describe("The threshold for outlier detection (e.g., z-score threshold)"),
-    format: z.enum(["csv", "excel"]).optional().describe("The format for downloading data (csv or excel)"),
-    processed_data: z.string().optional().describe("Previously processed CSV data to download (for download_data operation)"),
-  });
-
-  async _call(input: z.infer<typeof this.schema>) {
-    try {
-      const { csv_data, operation, column, condition, method, threshold, format, processed_data } = input;
-      
-      // Validate operation
-      const validOperations = ["analyze", "filter", "summarize", "visualize", "clean_missing", 
-                               "detect_outliers", "remove_duplicates", "generate_report", "download_data"];
-      if (!validOperations.includes(operation)) {
-        return `Error: Invalid operation "${operation}". Valid operations are: ${validOperations.join(', ')}`;
-      }
-      
-      // Special case for download operation
-      if (operation === "download_data") {
-        const dataToDownload = processed_data || csv_data;
-        
-        // Validate download data
-        const validation = validateCSVData(dataToDownload);
-        if (!validation.valid) {
-          return `Error: ${validation.error}`;
-        }
-        
-        const downloadFormat = format || "csv";
-        if (!["csv", "excel"].includes(downloadFormat)) {
-          return "Error: Invalid download format. Use 'csv' or 'excel'.";
-        }
-        
-        const downloadLink = generateDownloadableFile(dataToDownload, downloadFormat);
-        return JSON.stringify({
-          download_link: downloadLink,
-          file_format: downloadFormat,
-          message: `Your cleaned data is ready to download as a ${downloadFormat.toUpperCase()} file.`
-        });
-      }
-      
-      // Validate CSV data
-      const validation = validateCSVData(csv_data);
-      if (!validation.valid) {
-        return `Error: ${validation.error}`;
-      }
-      
-      // Parse CSV data using the proper parsing function
-      const { headers, data } = parseCSV(csv_data);
-      
-      // Validate column if provided
-      if (column && !headers.includes(column)) {
-        return `Error: Column "${column}" not found in the CSV data. Available columns: ${headers.join(', ')}`;
-      }
-      
-      // For demonstration purposes, we'll return detailed responses
-      // In a real implementation, you would process the parsed CSV according to the operation
-      
-      if (operation === "analyze") {
-        const rowCount = data.length;
-        const columnCount = headers.length;
-        const missingValues = this._countMissingValues(data, headers);
-        
-        return `Analysis of CSV data:
-                - Total rows: ${rowCount}
-                - Total columns: ${columnCount}
-                - Columns: ${headers.join(', ')}
-                - Missing values: ${JSON.stringify(missingValues)}
-                - Duplicate rows: ${this._countDuplicates(data)}`;
-      } else if (operation === "filter" && column && condition) {
-        const columnIndex = headers.indexOf(column);
-        if (columnIndex === -1) {
-          return `Column "${column}" not found in the CSV data.`;
-        }
-        
-        // Simple filtering logic (would be more complex in a real implementation)
-        const filteredData = data.filter(row => {
-          const value = row[columnIndex];
-          // This is a simplified condition check
-          return value && value.includes(condition);
-        });
-        
-        // Format filtered data for potential download
-        const filteredCsv = formatCSV(headers, filteredData);
-        
-        return JSON.stringify({
-          summary: `Filtered CSV data for column "${column}" with condition "${condition}":
-                    - Original rows: ${data.length}
-                    - Filtered rows: ${filteredData.length}
-                    - Removed rows: ${data.length - filteredData.length}`,
-          processed_csv_data: filteredCsv
-        });
-      } else if (operation === "summarize" && column) {
-        const columnIndex = headers.indexOf(column);
-        if (columnIndex === -1) {
-          return `Column "${column}" not found in the CSV data.`;
-        }
-        
-        const values = data.map(row => row[columnIndex]).filter(Boolean);
-        const numericValues = values.filter(v => !isNaN(Number(v))).map(Number);
-        
-        if (numericValues.length > 0) {
-          const sum = numericValues.reduce((a, b) => a + b, 0);
-          const mean = sum / numericValues.length;
-          const sorted = [...numericValues].sort((a, b) => a - b);
-          const median = sorted.length % 2 === 0 
-            ? (sorted[sorted.length/2 - 1] + sorted[sorted.length/2]) / 2 
-            : sorted[Math.floor(sorted.length/2)];
-          
-          return `Summary of column "${column}":
-                  - Count: ${values.length}
-                  - Numeric values: ${numericValues.length}
-                  - Mean: ${mean.toFixed(2)}
-                  - Median: ${median.toFixed(2)}
-                  - Min: ${Math.min(...numericValues)}
-                  - Max: ${Math.max(...numericValues)}`;
-        } else {
-          // For non-numeric columns, count unique values
-          const uniqueValues = new Set(values);
-          return `Summary of column "${column}":
-                  - Count: ${values.length}
-                  - Unique values: ${uniqueValues.size}
-                  - Sample values: ${Array.from(uniqueValues).slice(0, 5).join(', ')}`;
-        }
-      } else if (operation === "clean_missing" && column && method) {
-        const columnIndex = headers.indexOf(column);
-        if (columnIndex === -1) {
-          return `Column "${column}" not found in the CSV data.`;
-        }
-        
-        const missingCount = data.filter(row => !row[columnIndex] || row[columnIndex].trim() === '').length;
-        
-        if (method === 'drop') {
-          const cleanedData = data.filter(row => row[columnIndex] && row[columnIndex].trim() !== '');
-          
-          // Format cleaned data for potential download
-          const cleanedCsv = formatCSV(headers, cleanedData);
-          
-          return JSON.stringify({
-            summary: `Cleaned missing values in column "${column}" using method "${method}":
-                      - Original rows: ${data.length}
-                      - Rows with missing values: ${missingCount}
-                      - Remaining rows: ${cleanedData.length}
-                      - Removed rows: ${data.length - cleanedData.length}`,
-            processed_csv_data: cleanedCsv
-          });
-        } else {
-          // For imputation methods (mean, median, mode)
-          // NOTE: This is a placeholder; real implementation would actually perform the imputation
-          return JSON.stringify({
-            summary: `Cleaned missing values in column "${column}" using method "${method}":
-                      - Original rows: ${data.length}
-                      - Rows with missing values: ${missingCount}
-                      - Imputed values: ${missingCount}
-                      - Method used: ${method}`,
-            processed_csv_data: csv_data  // This would be the actual imputed data in a real implementation
-          });
-        }
-      } else if (operation === "detect_outliers" && column && threshold) {
-        const columnIndex = headers.indexOf(column);
-        if (columnIndex === -1) {
-          return `Column "${column}" not found in the CSV data.`;
-        }
-        
-        const numericValues = data
-          .map(row => row[columnIndex])
-          .filter(v => !isNaN(Number(v)))
-          .map(Number);
-        
-        if (numericValues.length === 0) {
-          return `Column "${column}" does not contain numeric values.`;
-        }
-        
-        // Simple z-score based outlier detection
-        const mean = numericValues.reduce((a, b) => a + b, 0) / numericValues.length;
-        const stdDev = Math.sqrt(
-          numericValues.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / numericValues.length
-        );
-        
-        const outliers = numericValues.filter(v => Math.abs((v - mean) / stdDev) > threshold);
-        
-        return `Outlier detection for column "${column}" with threshold ${threshold}:
-                - Total values: ${numericValues.length}
-                - Mean: ${mean.toFixed(2)}
-                - Standard deviation: ${stdDev.toFixed(2)}
-                - Outliers detected: ${outliers.length}
-                - Outlier values: ${outliers.slice(0, 5).join(', ')}${outliers.length > 5 ? '...' : ''}`;
-      } else if (operation === "remove_duplicates") {
-        // Create a map to track unique rows with proper handling of empty/null values
-        const uniqueRowMap = new Map<string, string[]>();
-        data.forEach(row => {
-          const rowKey = row.map(cell => (cell ?? '').trim()).join('|');
-          if (!uniqueRowMap.has(rowKey)) {
-            uniqueRowMap.set(rowKey, row);
-          }
-        });
-        const cleanedData = Array.from(uniqueRowMap.values());
-        const originalRowCount = data.length;
-        const removedCount = originalRowCount - cleanedData.length;
-        
-        // Format the cleaned data back to CSV
-        const finalCsv = formatCSV(headers, cleanedData);
-        const summary = `Removed ${removedCount} duplicate rows. Kept ${cleanedData.length} unique rows.`;
-        
-        // Return both the summary and the cleaned data in JSON format for further processing
-        if (removedCount > 0) {
-          return JSON.stringify({ 
-            summary: summary,
-            processed_csv_data: finalCsv
-          });
-        } else {
-          // If no duplicates found, just return a simple message
-          return `Duplicate removal:
-                  - Original rows: ${originalRowCount}
-                  - Unique rows: ${cleanedData.length}
-                  - Duplicate rows removed: ${removedCount}`;
-        }
-      } else if (operation === "generate_report") {
-        const rowCount = data.length;
-        const columnCount = headers.length;
-        const missingValues = this._countMissingValues(data, headers);
-        const duplicateCount = this._countDuplicates(data);
-        
-        // Check for potential outliers in numeric columns
-        const numericColumns = headers.filter((_, i) => 
-          data.some(row => !isNaN(Number(row[i])))
-        );
-        
-        const outlierSummary = numericColumns.map(col => {
-          const colIndex = headers.indexOf(col);
-          const values = data.map(row => Number(row[colIndex])).filter(v => !isNaN(v));
-          if (values.length === 0) return null;
-          
-          const mean = values.reduce((a, b) => a + b, 0) / values.length;
-          const stdDev = Math.sqrt(
-            values.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / values.length
-          );
-          
-          const outliers = values.filter(v => Math.abs((v - mean) / stdDev) > 3);
-          return outliers.length > 0 ? `${col}: ${outliers.length} potential outliers` : null;
-        }).filter((item): item is string => item !== null);
-        
-        return `Data Cleaning Report:
-                - Dataset: ${rowCount} rows × ${columnCount} columns
-                - Columns: ${headers.join(', ')}
-                - Missing values: ${JSON.stringify(missingValues)}
-                - Duplicate rows: ${duplicateCount}
-                - Potential outliers: ${outlierSummary.length > 0 ? outlierSummary.join(', ') : 'None detected'}
-                - Recommendations:
-                  ${this._generateRecommendations(missingValues, duplicateCount, outlierSummary)}`;
-      } else if (operation === "visualize") {
-        return `Visualization of CSV data: This would generate a chart or graph based on the data.
-                Available visualizations:
-                - Bar chart (for categorical data)
-                - Line chart (for time series data)
-                - Scatter plot (for relationships between numeric columns)
-                - Histogram (for distribution of numeric data)
-                - Box plot (for outlier detection)`;
-      } else {
-        return "Invalid operation or missing parameters. Please specify a valid operation and required parameters.";
-      }
-    } catch (error) {
-      return `Error processing CSV data: ${error instanceof Error ? error.message : String(error)}`;
-    }
-  }
-  
-  // Helper methods
-  _countMissingValues(data: string[][], headers: string[]): Record<string, number> {
-    const missingCounts: Record<string, number> = {};
-    
-    headers.forEach((header, colIndex) => {
-      missingCounts[header] = data.filter(row => !row[colIndex] || row[colIndex].trim() === '').length;
-    });
-    
-    return missingCounts;
-  }
-  
-  _countDuplicates(data: string[][]): number {
-    // Improved duplicate detection using pipe separator and trimming values
-    const uniqueRows = new Set<string>();
-    let duplicateCount = 0;
-    
-    data.forEach((row) => {
-      // Create a string representation of the row with pipe separator
-      const rowKey = row.map(cell => (cell ?? '').trim()).join('|');
-      
-      if (uniqueRows.has(rowKey)) {
-        duplicateCount++;
-      } else {
-        uniqueRows.add(rowKey);
-      }
-    });
-    
-    return duplicateCount;
-  }
-  
-  _generateRecommendations(
-    missingValues: Record<string, number>, 
-    duplicateCount: number,
-    outlierSummary: string[]
-  ): string {
-    const recommendations: string[] = [];
-    
-    // Check for missing values
-    const columnsWithMissing = Object.entries(missingValues)
-      .filter(([_, count]) => count > 0)
-      .map(([col, _]) => col);
-    
-    if (columnsWithMissing.length > 0) {
-      recommendations.push(`- Consider cleaning missing values in columns: ${columnsWithMissing.join(', ')}`);
-    }
-    
-    // Check for duplicates
-    if (duplicateCount > 0) {
-      recommendations.push(`- Remove ${duplicateCount} duplicate rows to improve data quality`);
-    }
-    
-    // Check for outliers
-    if (outlierSummary.length > 0) {
-      recommendations.push(`- Investigate potential outliers in columns: ${outlierSummary.join(', ')}`);
-    }
-    
-    return recommendations.join('\n');
-  }
+// One line per dataset version for list_steps, e.g. "v2 clean_missing (method: mean) - 12 cells in 12 rows"
+function describeStep(version: DatasetVersionInfo, headVersion: number): string {
+    const parameters = Object.entries((version.parameters ?? {}) as Record<string, unknown>)
+        .filter(([key]) => key !== 'operation' && key !== 'cluster_values')
+        .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    const affected = version.cellsAffected !== null
+        ? ` - ${version.cellsAffected} cells in ${version.rowsAffected} rows`
+        : '';
+    const marker = version.version === headVersion ? ' (current)' : version.version > headVersion ? ' (undone)' : '';
+    return `- v${version.version} ${version.operation}${parameters.length ? ` (${parameters.join(', ')})` : ''}${affected}, ${version.rowCount} rows${marker}`;
 }
 
 const convertVercelMessageToLangChainMessage = (message: VercelChatMessage) => {
   if (message.role === "user") {
     return new HumanMessage(message.content);
   } else if (message.role === "assistant") {
-    return new AIMessage(message.content);
+    // Attached reports and charts are for the user; the model already saw them as tool output.
+    // Data previews hold raw values, so the model reads data through its tools instead
+    return new AIMessage(
+      message.content
+        .replace(ATTACHMENT_BLOCK_PATTERN, "\n\n[Attachment shown to the user]")
+        .replace(DATA_PREVIEW_PATTERN, "[Data preview shown to the user]"),
+    );
   } else {
     return new ChatMessage(message.content, message.role);
   }
@@ -504,6 +120,15 @@ const convertLangChainMessageToVercelMessage = (message: BaseMessage) => {
   }
 };
 
+// Tool outputs and messages may carry plain strings or structured content blocks
+const hasContent = (output: unknown): output is { content: unknown } =>
+  typeof output === "object" && output !== null && "content" in output;
+
+const contentToString = (output: unknown): string => {
+  const content = hasContent(output) ? output.content ?? output : output;
+  return typeof content === "string" ? content : JSON.stringify(content);
+};
+
 const AGENT_SYSTEM_TEMPLATE = `You are a data cleaning agent. Your job is to help users clean and analyze their datasets.
 You have access to a CSV data processor tool that can perform various operations on CSV data.
 When a user uploads a file, analyze it and provide insights about data quality issues.
@@ -522,6 +147,10 @@ Example prompt to trigger download:
 User: "Yes, please give me the download link"
 You should then call the csv_processor tool with operation: "download_data", format: "csv", and the processed data.`;
 
+const DATASET_SUMMARY_INTRO = `Summaries of the loaded datasets follow: column types, statistics and a few sample rows.
+Work on the data through the tools by dataset_id; never copy CSV rows into tool arguments. Results that change the data
+return a short preview, and the full data stays with the dataset.`;
+
 // Rate limiting implementation
 // This is a simple in-memory rate limiter for demo purposes
 // In production, use Redis or similar for distributed rate limiting
@@ -651,6 +280,14 @@ export async function POST(req: NextRequest) {
     const apiKey = sanitizedBody.apiKey;
     const csvData = sanitizedBody.csvData;
     const csvFileName = sanitizedBody.csvFileName;
+    const chatId: string | undefined = sanitizedBody.chatId;
+    const datasetId: string | undefined = sanitizedBody.datasetId ?? undefined;
+    // Rules the user uploaded as JSON or YAML, used when validate is called without rules
+    const ruleSet: string | undefined = typeof sanitizedBody.ruleSet === "string" ? sanitizedBody.ruleSet : undefined;
+    // Every dataset loaded in the chat; datasetId / csvData above is the active one
+    const sessionDatasets: SessionDataset[] = Array.isArray(sanitizedBody.datasets)
+      ? sanitizedBody.datasets.filter((dataset: SessionDataset) => typeof dataset?.name === "string")
+      : [];
 
     if (!apiKey) {
       return NextResponse.json({ error: "OpenAI API key is required" }, { status: 400 });
@@ -658,11 +295,27 @@ export async function POST(req: NextRequest) {
     
     // Validate CSV data if present
     if (csvData) {
-      const validation = validateCSVData(csvData);
+      const validation = validateCSVData(csvData, NORMALIZED_CSV);
       if (!validation.valid) {
         return NextResponse.json({ error: validation.error }, { status: 400 });
       }
     }
+    for (const dataset of sessionDatasets) {
+      if (dataset.csvData && dataset.csvData !== csvData) {
+        const validation = validateCSVData(dataset.csvData, NORMALIZED_CSV);
+        if (!validation.valid) {
+          return NextResponse.json({ error: `Dataset "${dataset.name}": ${validation.error}` }, { status: 400 });
+        }
+      }
+      try {
+        dataset.piiPolicy = parsePiiPolicy(dataset.piiPolicy);
+      } catch (error) {
+        if (error instanceof PiiError) {
+          return NextResponse.json({ error: `Dataset "${dataset.name}": ${error.message}` }, { status: 400 });
+        }
+        throw error;
+      }
+    }
 
     const messages = (sanitizedBody.messages ?? [])
       .filter(
@@ -671,88 +324,380 @@ export async function POST(req: NextRequest) {
       )
       .map(convertVercelMessageToLangChainMessage);
 
-    // Create a custom CSVDataProcessor that automatically includes the CSV data
+    // Persist the user turn before running the agent so it survives failures
+    const session = await getServerSession(authOptions);
+    const lastMessage: VercelChatMessage | undefined =
+      sanitizedBody.messages?.[sanitizedBody.messages.length - 1];
+    let chatHistoryId: string | null = null;
+    if (session?.user?.id && lastMessage?.role === "user") {
+      const chatHistory = await resolveChatHistory(
+        session.user.id,
+        chatId,
+        lastMessage.content,
+      );
+      if (!chatHistory) {
+        return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+      }
+      chatHistoryId = chatHistory.id;
+      await appendChatMessages(chatHistoryId, [
+        { role: "user", content: lastMessage.content },
+      ]);
+    }
+
+    // The active CSV sent inline is one of the datasets; clients that only send csvData get one named "data"
+    let activeInlineDataset = csvData
+      ? sessionDatasets.find((dataset) => !dataset.datasetId && dataset.csvData === csvData)
+      : undefined;
+    if (csvData && !activeInlineDataset) {
+      activeInlineDataset = { name: "data", fileName: csvFileName, csvData };
+      sessionDatasets.push(activeInlineDataset);
+    }
+
+    // Personal data in inline datasets is protected before the agent sees any of it, by the
+    // client's policy and the server's own scan. Tokens are kept for this request so inline
+    // data goes back to the browser restored, and stored for signed-in users.
+    const inlineTokens = new Map<string, string>();
+    for (const dataset of sessionDatasets) {
+      if (dataset.csvData) {
+        dataset.piiPolicy = inlinePiiPolicy(dataset.csvData, dataset.piiPolicy);
+        const result = protectCSV(dataset.csvData, dataset.piiPolicy);
+        result.tokens.forEach((value, token) => inlineTokens.set(token, value));
+        if (session?.user?.id) {
+          await storePiiTokens(session.user.id, result.tokens);
+        }
+        dataset.csvData = result.content;
+      }
+    }
+    // Masked and hashed values can't be restored
+    const revealInline = async (content: string) => {
+      const revealed = revealTokens(content, inlineTokens);
+      return session?.user?.id ? revealCSV(session.user.id, revealed) : revealed;
+    };
+
+    // Shown to the user below the reply without passing through the model: reports, charts,
+    // result tables and download files, and the processed data of inline datasets for the
+    // browser to keep. Files are kept server-side and the reply links to them
+    const userAttachments: string[] = [];
+    const updatedInlineDatasets = new Map<SessionDataset, string>();
+    const datasetAttachment = async (dataset: SessionDataset, csvData: string) => {
+      const fileName = downloadFileName(dataset.fileName ?? dataset.name, "csv");
+      const fileId = await storeAttachmentFile(csvData, "text/csv; charset=utf-8", fileName, session?.user?.id);
+      return formatAttachment("dataset", {
+        name: dataset.name,
+        link: attachmentFileUrl(fileId),
+        rowCount: parseCSV(csvData, NORMALIZED_CSV).data.length,
+      });
+    };
+    const extraAttachments = async () =>
+      userAttachments.join("") +
+      (await Promise.all(Array.from(updatedInlineDatasets, ([dataset, csvData]) => datasetAttachment(dataset, csvData)))).join("");
+
+    // A dataset by session name or id: inline CSV for datasets that aren't stored, else the current version.
+    // Stored versions are protected by the dataset's policy, which covers versions from before it was set
+    const resolveDataset = async (reference: string) => {
+      const named = findSessionDataset(sessionDatasets, reference);
+      if (named && !named.datasetId && named.csvData) {
+        return { name: named.name, content: named.csvData };
+      }
+      if (!session?.user?.id) {
+        return null;
+      }
+      const version = await getDatasetVersion(session.user.id, named?.datasetId ?? reference.trim());
+      if (!version) {
+        return null;
+      }
+      const content = await protectForModel(version.content, version.dataset.piiPolicy, session.user.id);
+      return { name: named?.name ?? version.dataset.fileName, content, version };
+    };
+
+    // Replace processed CSV in a tool result with a reference to a new dataset version
+    const saveDerivedVersion = async (
+      result: string,
+      source: DatasetVersion,
+      operation: string,
+      parameters: Record<string, unknown>,
+    ) => {
+      let parsed: Record<string, unknown>;
+      try {
+        parsed = JSON.parse(result);
+      } catch {
+        return result;
+      }
+      const { processed_csv_data, recipe_parameters, ...rest } = parsed;
+      if (typeof processed_csv_data !== "string") {
+        return result;
+      }
+
+      let saved: DatasetVersionInfo;
+      try {
+        saved = await addDatasetVersion(source.datasetId, {
+          content: processed_csv_data,
+          operation,
+          // Tools add what a recipe needs to replay the step, e.g. the values of reviewed clusters
+          parameters: JSON.parse(JSON.stringify({ ...parameters, ...(recipe_parameters as object | undefined) })),
+          summary: typeof rest.summary === "string" ? rest.summary : undefined,
+          parentVersion: source.version,
+        });
+      } catch (error) {
+        if (error instanceof DatasetHistoryError) {
+          return `Error: ${error.message}. Omit version to apply the change to the current version.`;
+        }
+        throw error;
+      }
+      const { headers, data } = parseCSV(processed_csv_data, NORMALIZED_CSV);
+      return JSON.stringify({
+        ...rest,
+        dataset_id: source.datasetId,
+        version: saved.version,
+        row_count: saved.rowCount,
+        preview: previewLines(headers, data),
+        note: `Saved as version ${saved.version} of the dataset, which is now the current version. Later operations on dataset_id "${source.datasetId}" continue from it; use undo to revert this step.`
+      });
+    };
+
+    // Inline datasets have no versions: processed data becomes the working copy for the rest
+    // of the request and goes back to the browser, so the model only gets a preview
+    const saveInlineVersion = async (result: string, dataset: SessionDataset) => {
+      let parsed: Record<string, unknown>;
+      try {
+        parsed = JSON.parse(result);
+      } catch {
+        return result;
+      }
+      const { processed_csv_data, recipe_parameters, ...rest } = parsed;
+      if (typeof processed_csv_data !== "string") {
+        return result;
+      }
+
+      dataset.csvData = processed_csv_data;
+      updatedInlineDatasets.set(dataset, await revealInline(processed_csv_data));
+      const { headers, data } = parseCSV(processed_csv_data, NORMALIZED_CSV);
+      return JSON.stringify({
+        ...rest,
+        dataset_id: dataset.name,
+        row_count: data.length,
+        preview: previewLines(headers, data),
+        note: `Saved as the working copy of dataset "${dataset.name}". Later operations on dataset_id "${dataset.name}" continue from it.`
+      });
+    };
+
+    // Reports, charts and tables go to the user whole; the model keeps their summary
+    const detachAttachments = async (result: string) => {
+      const { observation, attachment } = splitToolResult(result);
+      if (attachment) {
+        userAttachments.push(attachment);
+      }
+      return detachDownload(observation);
+    };
+
+    // Downloads go to the user as an attachment linking to the file, and the model only learns its name
+    const detachDownload = async (result: string) => {
+      let parsed: Record<string, unknown>;
+      try {
+        parsed = JSON.parse(result);
+      } catch {
+        return result;
+      }
+      if (typeof parsed?.download_link !== "string") {
+        return result;
+      }
+      const fileId = await storeDataUrl(parsed.download_link, String(parsed.file_name ?? "download"), session?.user?.id);
+      userAttachments.push(formatAttachment("download", {
+        ...parsed,
+        download_link: fileId ? attachmentFileUrl(fileId) : parsed.download_link,
+      }));
+      return JSON.stringify({
+        file_name: parsed.file_name,
+        file_format: parsed.file_format,
+        message: `${parsed.message} The download button is shown to the user below your reply.`
+      });
+    };
+
+    // Create a custom CSVDataProcessor that reads stored datasets (or the CSV data
+    // sent with the request) so the model never has to pass CSV text itself
     class CustomCSVDataProcessor extends CSVDataProcessor {
       async _call(input: z.infer<typeof this.schema>) {
+        return detachAttachments(await this._dispatch(input));
+      }
+
+      async _dispatch(input: z.infer<typeof this.schema>) {
+        if (input.operation === "validate" && !input.rules?.length && !input.rule_set && ruleSet) {
+          input = { ...input, rule_set: ruleSet };
+        }
+        // Datasets that aren't stored server-side are addressed by name and sent inline
+        const named = input.dataset_id ? findSessionDataset(sessionDatasets, input.dataset_id) : undefined;
+        if (named && !named.datasetId && named.csvData) {
+          return this._callInline(named, input);
+        }
+        const referencedDatasetId =
+          named?.datasetId ?? input.dataset_id ??
+          (isFileReference(input.csv_data) && !input.processed_data ? datasetId : undefined);
+        if (referencedDatasetId) {
+          return this._callWithDataset(referencedDatasetId, input);
+        }
+
         // Check if the input.csv_data looks like a filename or is empty
-        if (!input.csv_data || 
-            input.csv_data.trim() === 'sample_data.csv' || 
-            (input.csv_data.endsWith('.csv') && !input.csv_data.includes('\n'))) {
-          
-          // If it's a filename or empty, use the CSV data from the request
-          if (csvData) {
-            console.log("Replacing filename reference with actual CSV data from upload");
-            
-            // Handle the specific operation type with custom enhancements for better reporting
-            if (input.operation === "download_data") {
-              // Generate downloadable link for the CSV data with the specified format
-              const format = input.format || "csv";
-              const fileName = csvFileName || `cleaned_data.${format}`;
-              
-              const downloadLink = generateDownloadableFile(csvData, format);
-              return JSON.stringify({
-                download_link: downloadLink,
-                file_name: fileName,
-                file_format: format,
-                message: `Your data is ready to download as a ${format.toUpperCase()} file.`
-              });
-            } else if (input.operation === "remove_duplicates") {
-              // First parse the CSV data to identify duplicate rows for better reporting
-              const { headers, data } = parseCSV(csvData);
-              
-              // Track unique rows and collect duplicates for reporting
-              const uniqueRowMap = new Map<string, string[]>();
-              const duplicates: { row: string[], count: number }[] = [];
-              const rowCounts = new Map<string, number>();
-              
-              // Count occurrences of each row
-              data.forEach(row => {
-                const rowKey = row.map(cell => (cell ?? '').trim()).join('|');
-                rowCounts.set(rowKey, (rowCounts.get(rowKey) || 0) + 1);
-                
-                // Keep track of the first occurrence of each row
-                if (!uniqueRowMap.has(rowKey)) {
-                  uniqueRowMap.set(rowKey, row);
-                }
-              });
-              
-              // Collect information about duplicates (rows with count > 1)
-              for (const [key, count] of rowCounts.entries()) {
-                if (count > 1) {
-                  duplicates.push({
-                    row: uniqueRowMap.get(key) || [],
-                    count: count
-                  });
-                }
-              }
-              
-              // If there are duplicates, provide detailed information
-              if (duplicates.length > 0) {
-                return super._call({
-                  ...input,
-                  csv_data: csvData
-                });
-              } else {
-                return "No duplicate rows were found in the dataset.";
-              }
-            }
-            
-            // For other operations, just pass the actual CSV data
-            return super._call({
-              ...input,
-              csv_data: csvData
-            });
-          } else {
-            return "Error: No CSV data available. Please upload a CSV file first.";
+        if (isFileReference(input.csv_data) && !input.processed_data) {
+          // If it's a filename or empty, use the active CSV sent with the request
+          if (activeInlineDataset?.csvData) {
+            return this._callInline(activeInlineDataset, input);
           }
+          return "Error: No CSV data available. Please upload a CSV file first.";
         }
         
-        // Otherwise, use the provided CSV data (could be from a previous operation)
+        // Otherwise, use the CSV data the model passed
         return super._call(input);
       }
+
+      async _callInline(dataset: SessionDataset, input: z.infer<typeof this.schema>) {
+        const content = dataset.csvData ?? "";
+        if (input.operation === "download_data") {
+          const format = input.format || "csv";
+          return JSON.stringify({
+            download_link: await generateDownloadableFile(await revealInline(content), format),
+            file_name: downloadFileName(dataset.fileName, format),
+            file_format: format,
+            message: `Your data is ready to download as a ${format.toUpperCase()} file.${hasProtection(dataset.piiPolicy)
+              ? ' Tokenized personal data in it is restored; masked and hashed values stay as they are.'
+              : ''}`
+          });
+        }
+
+        const result = await super._call({ ...input, dataset_id: undefined, csv_data: content, processed_data: undefined });
+        return saveInlineVersion(result, dataset);
+      }
+
+      async _callWithDataset(id: string, input: z.infer<typeof this.schema>) {
+        if (!session?.user?.id) {
+          return "Error: Sign in to work with stored datasets.";
+        }
+
+        if (input.operation === "list_steps") {
+          const dataset = await findDataset(session.user.id, id);
+          if (!dataset) {
+            return `Error: Dataset "${id}" not found.`;
+          }
+          return `Cleaning steps for "${dataset.fileName}" (current version: ${dataset.headVersion}):
+                ${dataset.versions.map(version => describeStep(version, dataset.headVersion)).join('\n                ')}`;
+        }
+
+        if (input.operation === "undo" || input.operation === "redo") {
+          try {
+            const head = await moveDatasetHead(session.user.id, id, input.operation);
+            if (!head) {
+              return `Error: Dataset "${id}" not found.`;
+            }
+            return JSON.stringify({
+              summary: `${input.operation === "undo" ? "Undid" : "Redid"} a step. The current version is now ${head.version}:
+                ${describeStep(head, head.version)}`,
+              dataset_id: id,
+              version: head.version,
+              row_count: head.rowCount
+            });
+          } catch (error) {
+            if (error instanceof DatasetHistoryError) {
+              return `Error: ${error.message}.`;
+            }
+            throw error;
+          }
+        }
+
+        const datasetVersion = await getDatasetVersion(session.user.id, id, input.version);
+        if (!datasetVersion) {
+          return `Error: Dataset "${id}"${input.version ? ` version ${input.version}` : ''} not found.`;
+        }
+
+        // The datasets API builds the file, with tokenized personal data restored
+        if (input.operation === "download_data") {
+          const format = input.format || "csv";
+          const restored = hasProtection(parsePiiPolicy(datasetVersion.dataset.piiPolicy));
+          return JSON.stringify({
+            download_link: `/api/datasets/${id}?format=${format}&version=${datasetVersion.version}`,
+            file_name: downloadFileName(datasetVersion.dataset.fileName, format),
+            file_format: format,
+            message: `Version ${datasetVersion.version} of your data is ready to download as a ${format.toUpperCase()} file${restored ? ', with tokenized personal data restored' : ''}.`
+          });
+        }
+
+        const result = await super._call({
+          ...input,
+          dataset_id: id,
+          csv_data: await protectForModel(datasetVersion.content, datasetVersion.dataset.piiPolicy, session.user.id),
+          processed_data: undefined,
+        });
+        return this._saveDerivedVersion(result, datasetVersion, input);
+      }
+
+      // join, append and union read the other dataset's current version
+      async _resolveOtherDataset(reference: string) {
+        return resolveDataset(reference);
+      }
+
+      // Reports on stored datasets include the steps taken so far
+      async _reportContext(input: z.infer<typeof this.schema>) {
+        if (!input.dataset_id || !session?.user?.id) {
+          return { source: { fileName: csvFileName || undefined } };
+        }
+        const dataset = await findDataset(session.user.id, input.dataset_id);
+        const actions = await getDatasetActionLog(session.user.id, input.dataset_id, input.version);
+        return {
+          source: {
+            fileName: dataset?.fileName,
+            datasetId: input.dataset_id,
+            version: input.version ?? dataset?.headVersion,
+          },
+          actions: actions ?? [],
+        };
+      }
+
+      async _saveDerivedVersion(
+        result: string,
+        source: DatasetVersion,
+        input: z.infer<typeof this.schema>,
+      ) {
+        const { csv_data, processed_data, dataset_id, version, ...parameters } = input;
+        return saveDerivedVersion(result, source, input.operation, parameters);
+      }
     }
 
-    const tools = [new Calculator(), new SerpAPI(), new CustomCSVDataProcessor()];
+    // SQL tables are the chat's datasets by name; saved results become a version of the FROM dataset
+    class CustomSQLQueryTool extends SQLQueryTool {
+      async _call(input: z.infer<typeof this.schema>) {
+        return detachAttachments(await super._call(input));
+      }
+
+      async _resolveTable(name: string) {
+        return resolveDataset(name);
+      }
+
+      async _saveResult(result: string, table: string, input: z.infer<typeof this.schema>) {
+        const named = findSessionDataset(sessionDatasets, table);
+        if (named && !named.datasetId && named.csvData) {
+          return saveInlineVersion(result, named);
+        }
+        const source = await resolveDataset(table);
+        if (!source?.version) {
+          return result;
+        }
+        return saveDerivedVersion(result, source.version, "sql_query", { query: input.query });
+      }
+    }
+
+    // The model gets a compact summary of each loaded dataset instead of its rows
+    const datasetReferences = sessionDatasets.map((dataset) => dataset.datasetId ?? dataset.name);
+    if (datasetId && !datasetReferences.includes(datasetId)) {
+      datasetReferences.push(datasetId);
+    }
+    const datasetSummaries: string[] = [];
+    for (const reference of datasetReferences) {
+      const dataset = await resolveDataset(reference);
+      if (dataset) {
+        const { headers, data } = parseCSV(dataset.content, NORMALIZED_CSV);
+        datasetSummaries.push(describeDataset(dataset.name, headers, data));
+      }
+    }
+
+    const tools = [new Calculator(), new SerpAPI(), new CustomCSVDataProcessor(), new CustomSQLQueryTool()];
     const chat = new ChatOpenAI({
       model: modelName,
       temperature: temperature,
@@ -774,7 +719,13 @@ export async function POST(req: NextRequest) {
        *
        * https://langchain-ai.github.io/langgraphjs/tutorials/quickstart/
        */
-      messageModifier: new SystemMessage(systemPrompt),
+      messageModifier: new SystemMessage(datasetSummaries.length
+        ? `${systemPrompt}
+
+${DATASET_SUMMARY_INTRO}
+
+${datasetSummaries.join("\n\n")}`
+        : systemPrompt),
     });
 
     if (!returnIntermediateSteps) {
@@ -798,19 +749,45 @@ export async function POST(req: NextRequest) {
       const textEncoder = new TextEncoder();
       const transformStream = new ReadableStream({
         async start(controller) {
-          for await (const { event, data } of eventStream) {
+          let finalContent = "";
+          const toolSteps: ToolStep[] = [];
+          for await (const { event, name, data } of eventStream) {
             if (event === "on_chat_model_stream") {
               // Intermediate chat model generations will contain tool calls and no content
               if (!!data.chunk.content) {
+                finalContent += data.chunk.content;
                 controller.enqueue(textEncoder.encode(data.chunk.content));
               }
+            } else if (event === "on_tool_end") {
+              toolSteps.push({
+                name,
+                args: data.input,
+                observation: contentToString(data.output),
+              });
+            }
+          }
+          const attachments = await extraAttachments();
+          if (attachments) {
+            finalContent += attachments;
+            controller.enqueue(textEncoder.encode(attachments));
+          }
+          if (chatHistoryId) {
+            try {
+              await appendChatMessages(chatHistoryId, [
+                ...toolSteps.map(toolStepToMessage),
+                { role: "assistant", content: finalContent },
+              ]);
+            } catch (e) {
+              console.error("Failed to save assistant turn", e);
             }
           }
           controller.close();
         },
       });
 
-      return new StreamingTextResponse(transformStream);
+      return new StreamingTextResponse(transformStream, {
+        headers: chatHistoryId ? { "x-chat-id": chatHistoryId } : undefined,
+      });
     } else {
       /**
        * We could also pick intermediate steps out from `streamEvents` chunks, but
@@ -818,10 +795,36 @@ export async function POST(req: NextRequest) {
        * the AI SDK is more complicated.
        */
       const result = await agent.invoke({ messages });
+      const newMessages: BaseMessage[] = result.messages.slice(messages.length);
+
+      const toolSteps: ToolStep[] = newMessages
+        .filter((message): message is ToolMessage => message._getType() === "tool")
+        .map((toolMessage) => {
+          const toolCall = newMessages
+            .flatMap((message) => (message as AIMessage).tool_calls ?? [])
+            .find((call) => call.id === toolMessage.tool_call_id);
+          return {
+            name: toolCall?.name ?? toolMessage.name ?? "Unknown Tool",
+            args: toolCall?.args ?? {},
+            observation: contentToString(toolMessage),
+          };
+        });
+      const finalMessage = result.messages[result.messages.length - 1];
+      const finalContent = contentToString(finalMessage) + (await extraAttachments());
+
+      if (chatHistoryId) {
+        await appendChatMessages(chatHistoryId, [
+          ...toolSteps.map(toolStepToMessage),
+          { role: "assistant", content: finalContent },
+        ]);
+      }
 
+      const responseMessages = result.messages.map(convertLangChainMessageToVercelMessage);
+      responseMessages[responseMessages.length - 1].content = finalContent;
       return NextResponse.json(
         {
-          messages: result.messages.map(convertLangChainMessageToVercelMessage),
+          messages: responseMessages,
+          chatId: chatHistoryId,
         },
         { status: 200 },
       );
@@ -18,7 +18,7 @@ export async function GET(req: NextRequest, context: any) {
         id: params.chatId,
         userId: session.user.id,
       },
-      include: { messages: true },
+      include: { messages: { orderBy: { createdAt: 'asc' } } },
     });
 
     if (!chatHistory) {
@@ -1,19 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Message as VercelChatMessage, StreamingTextResponse } from "ai";
 
-import { createClient } from "@supabase/supabase-js";
-
-import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+import { ChatOpenAI } from "@langchain/openai";
 import { PromptTemplate } from "@langchain/core/prompts";
-import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
 import { Document } from "@langchain/core/documents";
 import { RunnableSequence } from "@langchain/core/runnables";
 import {
   BytesOutputParser,
   StringOutputParser,
 } from "@langchain/core/output_parsers";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { appendChatMessages, resolveChatHistory } from "@/lib/chatHistory";
+import { resolveCollectionIds } from "@/lib/collections";
+import { expandToParents } from "@/lib/documents/library";
+import { collectionFilter, createVectorStore } from "@/lib/documents/vectorStore";
 
-export const runtime = "edge";
+// Chat turns are persisted with Prisma, which needs the Node.js runtime
+export const runtime = "nodejs";
 
 const combineDocumentsFn = (docs: Document[]) => {
   const serializedDocs = docs.map((doc) => doc.pageContent);
@@ -89,12 +93,34 @@ export async function POST(req: NextRequest) {
     const maxTokens = body.maxTokens ?? 2048;
     // User's OpenAI API key for authentication
     const apiKey = body.apiKey; // Get API key from request body
+    // Chat the turns are saved to; a new one is started when missing
+    const chatId: string | undefined = body.chatId;
+    // Document collections the answer draws from; all of the user's when empty
+    const collectionIds: string[] = Array.isArray(body.collectionIds) ? body.collectionIds : [];
 
     // Check if API key is provided
     if (!apiKey) {
       return NextResponse.json({ error: "OpenAI API key is required" }, { status: 400 });
     }
 
+    // Documents belong to their uploader, so only signed-in users can search them
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Sign in to chat with your documents" }, { status: 401 });
+    }
+    const chatHistory = await resolveChatHistory(
+      session.user.id,
+      chatId,
+      currentMessageContent,
+    );
+    if (!chatHistory) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+    const chatHistoryId = chatHistory.id;
+    await appendChatMessages(chatHistoryId, [
+      { role: "user", content: currentMessageContent },
+    ]);
+
     const model = new ChatOpenAI({
       model: modelName,
       temperature: temperature,
@@ -104,17 +130,7 @@ export async function POST(req: NextRequest) {
       openAIApiKey: apiKey, // Use the provided API key
     });
 
-    const client = createClient(
-      process.env.SUPABASE_URL!,
-      process.env.SUPABASE_PRIVATE_KEY!,
-    );
-    const vectorstore = new SupabaseVectorStore(new OpenAIEmbeddings({
-      openAIApiKey: apiKey, // Use the provided API key for embeddings
-    }), {
-      client,
-      tableName: "documents",
-      queryName: "match_documents",
-    });
+    const vectorstore = createVectorStore(apiKey); // Use the provided API key for embeddings
 
     /**
      * We use LangChain Expression Language to compose two chains.
@@ -136,7 +152,10 @@ export async function POST(req: NextRequest) {
       resolveWithDocuments = resolve;
     });
 
+    // Only the caller's chunks are searched; without collections nothing matches
+    const searchableCollectionIds = await resolveCollectionIds(session.user.id, collectionIds);
     const retriever = vectorstore.asRetriever({
+      filter: collectionFilter(vectorstore, session.user.id, searchableCollectionIds),
       callbacks: [
         {
           handleRetrieverEnd(documents) {
@@ -146,7 +165,8 @@ export async function POST(req: NextRequest) {
       ],
     });
 
-    const retrievalChain = retriever.pipe(combineDocumentsFn);
+    // Chunks split with a parent size are answered from their larger parent chunk
+    const retrievalChain = retriever.pipe(expandToParents).pipe(combineDocumentsFn);
 
     const answerChain = RunnableSequence.from([
       {
@@ -176,21 +196,42 @@ export async function POST(req: NextRequest) {
     });
 
     const documents = await documentPromise;
-    const serializedSources = Buffer.from(
-      JSON.stringify(
-        documents.map((doc) => {
-          return {
-            pageContent: doc.pageContent.slice(0, 50) + "...",
-            metadata: doc.metadata,
-          };
-        }),
-      ),
-    ).toString("base64");
-
-    return new StreamingTextResponse(stream, {
+    const sources = documents.map((doc) => {
+      return {
+        pageContent: doc.pageContent.slice(0, 50) + "...",
+        metadata: doc.metadata,
+      };
+    });
+    const serializedSources = Buffer.from(JSON.stringify(sources)).toString(
+      "base64",
+    );
+
+    // Collect the streamed answer so it can be saved once the stream completes
+    const textDecoder = new TextDecoder();
+    let answer = "";
+    const persistedStream = stream.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          answer += textDecoder.decode(chunk, { stream: true });
+          controller.enqueue(chunk);
+        },
+        async flush() {
+          try {
+            await appendChatMessages(chatHistoryId, [
+              { role: "assistant", content: answer, sources },
+            ]);
+          } catch (e) {
+            console.error("Failed to save assistant turn", e);
+          }
+        },
+      }),
+    );
+
+    return new StreamingTextResponse(persistedStream, {
       headers: {
         "x-message-index": (previousMessages.length + 1).toString(),
         "x-sources": serializedSources,
+        "x-chat-id": chatHistoryId,
       },
     });
   } catch (e: any) {
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { setCollectionChunking } from '@/lib/collections';
+import { ChunkingError } from '@/lib/documents/chunkingConfig';
+
+// Sets the chunking of later uploads: { "chunking": { "strategy": "recursive" | "markdown" | "sentence" | "code",
+// "unit": "characters" | "tokens", "chunkSize", "chunkOverlap", "language"?, "parentChunkSize"? } }
+export async function PATCH(req: NextRequest, context: any) {
+  const { params } = context;
+
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { chunking } = await req.json();
+
+  try {
+    const collection = await setCollectionChunking(session.user.id, params.collectionId, chunking);
+    if (!collection) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(collection);
+  } catch (error) {
+    if (error instanceof ChunkingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to update collection', error);
+    return NextResponse.json({ error: 'Failed to update collection' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { CollectionError, ensureCollection, listCollections, normalizeCollectionName } from '@/lib/collections';
+
+export async function GET(req: NextRequest) {
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const collections = await listCollections(session.user.id);
+    return NextResponse.json(collections);
+  } catch (error) {
+    console.error('Failed to fetch collections', error);
+    return NextResponse.json({ error: 'Failed to fetch collections' }, { status: 500 });
+  }
+}
+
+// Creates a document collection, or returns the existing one with that name
+export async function POST(req: NextRequest) {
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { name } = await req.json();
+    const collection = await ensureCollection(session.user.id, normalizeCollectionName(name));
+    return NextResponse.json(collection, { status: 201 });
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to create collection', error);
+    return NextResponse.json({ error: 'Failed to create collection' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { setDatasetPiiPolicy } from '@/lib/datasets';
+import { parsePiiPolicy, PiiError } from '@/lib/csv/pii';
+
+// Sets the privacy policy: { "policy": { "<column>": "none" | "mask" | "hash" | "tokenize" } }.
+// Applying it to the current version saves a new version when the data changes.
+export async function PUT(req: NextRequest, context: any) {
+  const { params } = context;
+
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { policy } = await req.json();
+    const result = await setDatasetPiiPolicy(session.user.id, params.datasetId, parsePiiPolicy(policy));
+    if (!result) {
+      return NextResponse.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      policy: result.dataset.piiPolicy,
+      version: result.version,
+      cellsProtected: result.cellsProtected,
+    });
+  } catch (error) {
+    if (error instanceof PiiError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to update privacy policy', error);
+    return NextResponse.json({ error: 'Failed to update privacy policy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { findDataset } from '@/lib/datasets';
+import { buildRecipe } from '@/lib/recipes';
+
+// Downloads the steps that produced the dataset's current version as a JSON recipe
+export async function GET(req: NextRequest, context: any) {
+  const { params } = context;
+
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const dataset = await findDataset(session.user.id, params.datasetId);
+    if (!dataset) {
+      return NextResponse.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    const fileName = `${dataset.name}_recipe.json`;
+    return new NextResponse(JSON.stringify(buildRecipe(dataset), null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export recipe', error);
+    return NextResponse.json({ error: 'Failed to export recipe' }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  DatasetHistoryError,
+  findDataset,
+  getDatasetVersion,
+  moveDatasetHead,
+} from '@/lib/datasets';
+import { revealCSV } from '@/lib/privacy';
+import { NORMALIZED_CSV, parseCSV } from '@/lib/csv/parser';
+import { XLSX_MIME_TYPE } from '@/lib/csv/format';
+import { buildXlsx } from '@/lib/csv/xlsx';
+
+// Returns the dataset with its version history, or with ?version=N&format=csv (or excel)
+// the content of one version (the current one when the version is omitted). Downloads
+// have tokenized personal data restored; the model only ever sees the tokens.
+export async function GET(req: NextRequest, context: any) {
+  const { params } = context;
+
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const searchParams = req.nextUrl.searchParams;
+    const format = searchParams.get('format');
+    if (format === 'csv' || format === 'excel') {
+      const versionParam = searchParams.get('version');
+      const datasetVersion = await getDatasetVersion(
+        session.user.id,
+        params.datasetId,
+        versionParam ? Number(versionParam) : undefined,
+      );
+      if (!datasetVersion) {
+        return NextResponse.json({ error: 'Dataset version not found' }, { status: 404 });
+      }
+
+      const content = await revealCSV(session.user.id, datasetVersion.content);
+      const fileName = `${datasetVersion.dataset.name}_v${datasetVersion.version}.${format === 'excel' ? 'xlsx' : 'csv'}`;
+      let body: BodyInit = content;
+      if (format === 'excel') {
+        const { headers, data } = parseCSV(content, NORMALIZED_CSV);
+        body = await buildXlsx(headers, data);
+      }
+      return new NextResponse(body, {
+        headers: {
+          'Content-Type': format === 'excel' ? XLSX_MIME_TYPE : 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`,
+        },
+      });
+    }
+
+    const dataset = await findDataset(session.user.id, params.datasetId);
+    if (!dataset) {
+      return NextResponse.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(dataset);
+  } catch (error) {
+    console.error('Failed to fetch dataset', error);
+    return NextResponse.json({ error: 'Failed to fetch dataset' }, { status: 500 });
+  }
+}
+
+// Undo or redo a cleaning step: { "action": "undo" | "redo" }
+export async function POST(req: NextRequest, context: any) {
+  const { params } = context;
+
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { action } = await req.json();
+  if (action !== 'undo' && action !== 'redo') {
+    return NextResponse.json({ error: 'Action must be "undo" or "redo"' }, { status: 400 });
+  }
+
+  try {
+    const head = await moveDatasetHead(session.user.id, params.datasetId, action);
+    if (!head) {
+      return NextResponse.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(head);
+  } catch (error) {
+    if (error instanceof DatasetHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Failed to update dataset', error);
+    return NextResponse.json({ error: 'Failed to update dataset' }, { status: 500 });
+  }
+}
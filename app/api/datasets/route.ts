@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createDataset, listDatasets } from '@/lib/datasets';
+import { CSV_DELIMITERS } from '@/lib/csv/parser';
+import { validateCSVData } from '@/lib/csv/validation';
+import { parsePiiPolicy, PiiError, type PiiPolicy } from '@/lib/csv/pii';
+
+export async function GET(req: NextRequest) {
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const datasets = await listDatasets(session.user.id);
+    return NextResponse.json(datasets);
+  } catch (error) {
+    console.error('Failed to fetch datasets', error);
+    return NextResponse.json({ error: 'Failed to fetch datasets' }, { status: 500 });
+  }
+}
+
+// Stores an uploaded CSV file (multipart field "file") as version 1 of a new dataset,
+// with personal data protected by the JSON privacy policy in field "piiPolicy".
+// Field "delimiter" skips delimiter detection for files the client already normalized
+export async function POST(req: NextRequest) {
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A CSV file is required' }, { status: 400 });
+    }
+
+    const delimiter = formData.get('delimiter');
+    if (delimiter !== null && !CSV_DELIMITERS.includes(delimiter as (typeof CSV_DELIMITERS)[number])) {
+      return NextResponse.json({ error: `Unsupported delimiter; use one of ${JSON.stringify(CSV_DELIMITERS)}` }, { status: 400 });
+    }
+    const parseOptions = typeof delimiter === 'string' ? { delimiter } : {};
+
+    const content = await file.text();
+    const validation = validateCSVData(content, parseOptions);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    let piiPolicy: PiiPolicy | undefined;
+    try {
+      const policyField = formData.get('piiPolicy');
+      piiPolicy = typeof policyField === 'string' ? parsePiiPolicy(JSON.parse(policyField)) : undefined;
+    } catch (error) {
+      const message = error instanceof PiiError ? error.message : 'The privacy policy is not valid JSON';
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    const fileName = (formData.get('fileName') as string | null) || file.name || 'data.csv';
+    const dataset = await createDataset(session.user.id, fileName, content, piiPolicy, parseOptions);
+
+    return NextResponse.json(dataset, { status: 201 });
+  } catch (error) {
+    console.error('Failed to store dataset', error);
+    return NextResponse.json({ error: 'Failed to store dataset' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { reingestDocument } from '@/lib/documents/library';
+
+// Splits and embeds the document again from its stored text, replacing its chunks
+export async function POST(req: NextRequest, context: any) {
+  const { params } = context;
+
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const document = await reingestDocument(session.user.id, params.documentId);
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(document);
+  } catch (error) {
+    console.error('Failed to re-ingest document', error);
+    return NextResponse.json({ error: 'Failed to re-ingest document' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  deleteDocument,
+  DocumentLibraryError,
+  findDocument,
+  renameDocument,
+} from '@/lib/documents/library';
+
+// Returns the document with its chunks as they were embedded
+export async function GET(req: NextRequest, context: any) {
+  const { params } = context;
+
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const document = await findDocument(session.user.id, params.documentId);
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(document);
+  } catch (error) {
+    console.error('Failed to fetch document', error);
+    return NextResponse.json({ error: 'Failed to fetch document' }, { status: 500 });
+  }
+}
+
+// Renames a document: { "title": "..." }
+export async function PATCH(req: NextRequest, context: any) {
+  const { params } = context;
+
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { title } = await req.json();
+  if (typeof title !== 'string') {
+    return NextResponse.json({ error: 'A title is required' }, { status: 400 });
+  }
+
+  try {
+    const document = await renameDocument(session.user.id, params.documentId, title);
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(document);
+  } catch (error) {
+    if (error instanceof DocumentLibraryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to rename document', error);
+    return NextResponse.json({ error: 'Failed to rename document' }, { status: 500 });
+  }
+}
+
+// Deletes the document, its chunks and their rows in the vector store
+export async function DELETE(req: NextRequest, context: any) {
+  const { params } = context;
+
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const deleted = await deleteDocument(session.user.id, params.documentId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error('Failed to delete document', error);
+    return NextResponse.json({ error: 'Failed to delete document' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listDocuments } from '@/lib/documents/library';
+
+// Lists the user's ingested documents, newest first; ?collectionId=... limits them to one collection
+export async function GET(req: NextRequest) {
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const collectionId = req.nextUrl.searchParams.get('collectionId') ?? undefined;
+    const documents = await listDocuments(session.user.id, collectionId);
+    return NextResponse.json(documents);
+  } catch (error) {
+    console.error('Failed to fetch documents', error);
+    return NextResponse.json({ error: 'Failed to fetch documents' }, { status: 500 });
+  }
+}
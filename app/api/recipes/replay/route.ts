@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { addDatasetVersion, createDataset } from '@/lib/datasets';
+import { parseRecipe, RecipeError, replayRecipe } from '@/lib/recipes';
+import { formatCSV } from '@/lib/csv/format';
+import { protectCSV, revealCSV } from '@/lib/privacy';
+import { validateCSVData } from '@/lib/csv/validation';
+
+// Replays a recipe (multipart field "recipe") on a newly uploaded CSV (field "file")
+// without the model. The file is stored as a dataset and each applied step as a version.
+export async function POST(req: NextRequest) {
+  const session = await getServerSession({ req, res: NextResponse, ...authOptions });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file');
+    const recipeFile = formData.get('recipe');
+    if (!(file instanceof File) || !(recipeFile instanceof File)) {
+      return NextResponse.json({ error: 'A CSV file and a recipe file are required' }, { status: 400 });
+    }
+
+    let recipe;
+    try {
+      recipe = parseRecipe(JSON.parse(await recipeFile.text()));
+    } catch (error) {
+      const message = error instanceof RecipeError ? error.message : 'The recipe is not valid JSON';
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    const upload = await file.text();
+    const validation = validateCSVData(upload);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const fileName = (formData.get('fileName') as string | null) || file.name || 'data.csv';
+    const dataset = await createDataset(session.user.id, fileName, upload);
+    // Steps read comma-separated content, whatever delimiter the file used, protected
+    // like the stored upload so the versions don't hold the personal data it tokenized
+    const { content } = protectCSV(formatCSV(validation.parsed.headers, validation.parsed.data), dataset.piiPolicy);
+    const { content: replayed, results } = await replayRecipe(content, recipe, (step, stepContent, summary) =>
+      addDatasetVersion(dataset.id, {
+        content: stepContent,
+        operation: step.operation,
+        parameters: JSON.parse(JSON.stringify({ operation: step.operation, ...step.parameters })),
+        summary,
+      }).then(() => undefined),
+    );
+
+    const csvData = await revealCSV(session.user.id, replayed);
+    return NextResponse.json({ datasetId: dataset.id, fileName, csvData, steps: results });
+  } catch (error) {
+    console.error('Failed to replay recipe', error);
+    return NextResponse.json({ error: 'Failed to replay recipe' }, { status: 500 });
+  }
+}
@@ -1,26 +1,76 @@
 import { NextRequest, NextResponse } from "next/server";
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import { getServerSession } from "next-auth";
 
-import { createClient } from "@supabase/supabase-js";
-import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
-import { OpenAIEmbeddings } from "@langchain/openai";
+import { authOptions } from "@/lib/auth";
+import { CollectionError, ensureCollection, normalizeCollectionName } from "@/lib/collections";
+import { DocumentExtractionError, extractSections } from "@/lib/documents/extract";
+import type { DocumentFormat } from "@/lib/documents/formats";
+import { ingestDocument } from "@/lib/documents/library";
 
-export const runtime = "edge";
+// PDF and DOCX extraction needs the Node.js runtime
+export const runtime = "nodejs";
 
-// Before running, follow set-up instructions at
-// https://js.langchain.com/v0.2/docs/integrations/vectorstores/supabase
+const MAX_FILES = 20;
+const MAX_FILE_SIZE_MB = 20;
+// A whole request, all files included; larger ones are refused before they are buffered
+const MAX_REQUEST_SIZE_MB = 50;
+const MAX_REQUEST_BYTES = MAX_REQUEST_SIZE_MB * 1024 * 1024;
+
+interface IngestResult {
+  fileName: string;
+  ok: boolean;
+  documentId?: string;
+  format?: DocumentFormat;
+  chunks?: number;
+  error?: string;
+}
 
 /**
- * This handler takes input text, splits it into chunks, and embeds those chunks
- * into a vector store for later retrieval. See the following docs for more information:
+ * Reads the request body through the size limit: a declared length over it is refused
+ * up front, and a body that runs past it fails at that point instead of being read to
+ * the end. Returns null when the request is too large.
+ */
+async function readLimitedBody<T>(req: NextRequest, read: (body: Response) => Promise<T>): Promise<T | null> {
+  if (Number(req.headers.get("content-length")) > MAX_REQUEST_BYTES) {
+    return null;
+  }
+  let received = 0;
+  const limited = req.body?.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > MAX_REQUEST_BYTES) {
+          controller.error(new Error("Request body too large"));
+        } else {
+          controller.enqueue(chunk);
+        }
+      },
+    }),
+  );
+  try {
+    return await read(new Response(limited, { headers: { "content-type": req.headers.get("content-type") ?? "" } }));
+  } catch (e) {
+    if (received > MAX_REQUEST_BYTES) {
+      return null;
+    }
+    throw e;
+  }
+}
+
+const tooLarge = () =>
+  NextResponse.json({ error: `Uploads are limited to ${MAX_REQUEST_SIZE_MB}MB per request` }, { status: 413 });
+
+/**
+ * This handler takes input text or uploaded files, splits them into chunks, and embeds
+ * those chunks into a vector store for later retrieval. Files are sent as multipart
+ * field "files" (PDF, DOCX, HTML, Markdown, text or CSV); each one succeeds or fails
+ * on its own. Every text or file becomes a document in the signed-in user's library,
+ * in the collection named in field "collection". See the following docs for more information:
  *
  * https://js.langchain.com/v0.2/docs/how_to/recursive_text_splitter
- * https://js.langchain.com/v0.2/docs/integrations/vectorstores/supabase
+ * https://js.langchain.com/v0.2/docs/integrations/vectorstores
  */
 export async function POST(req: NextRequest) {
-  const body = await req.json();
-  const text = body.text;
-
   if (process.env.NEXT_PUBLIC_DEMO === "true") {
     return NextResponse.json(
       {
@@ -33,31 +83,78 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  try {
-    const client = createClient(
-      process.env.SUPABASE_URL!,
-      process.env.SUPABASE_PRIVATE_KEY!,
-    );
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Sign in to upload documents" }, { status: 401 });
+  }
 
-    const splitter = RecursiveCharacterTextSplitter.fromLanguage("markdown", {
-      chunkSize: 256,
-      chunkOverlap: 20,
-    });
+  try {
+    if (!req.headers.get("content-type")?.includes("multipart/form-data")) {
+      const body = await readLimitedBody(req, (limited) => limited.json());
+      if (!body) {
+        return tooLarge();
+      }
+      const text = typeof body.text === "string" ? body.text.trim() : "";
+      if (!text) {
+        return NextResponse.json({ error: "The text is empty" }, { status: 400 });
+      }
+      const collection = await ensureCollection(session.user.id, normalizeCollectionName(body.collection));
+      // Pasted text is read as Markdown and titled by its first line
+      const pasted = new Blob([text], { type: "text/markdown" });
+      const { format, sections } = await extractSections(pasted, "pasted.md");
+      const document = await ingestDocument(collection, {
+        title: body.title || text.split("\n")[0].replace(/^#+\s*/, ""),
+        sourceType: format,
+        size: pasted.size,
+        sections,
+      });
+      return NextResponse.json({ ok: true, collection, document }, { status: 200 });
+    }
 
-    const splitDocuments = await splitter.createDocuments([text]);
+    const formData = await readLimitedBody(req, (limited) => limited.formData());
+    if (!formData) {
+      return tooLarge();
+    }
+    const collection = await ensureCollection(session.user.id, normalizeCollectionName(formData.get("collection")));
+    const files = formData.getAll("files").filter((file): file is File => file instanceof File);
+    if (!files.length) {
+      return NextResponse.json({ error: "Upload at least one file" }, { status: 400 });
+    }
+    if (files.length > MAX_FILES) {
+      return NextResponse.json({ error: `Upload at most ${MAX_FILES} files at a time` }, { status: 400 });
+    }
 
-    const vectorstore = await SupabaseVectorStore.fromDocuments(
-      splitDocuments,
-      new OpenAIEmbeddings(),
-      {
-        client,
-        tableName: "documents",
-        queryName: "match_documents",
-      },
-    );
+    const results: IngestResult[] = [];
+    for (const file of files) {
+      if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+        results.push({ fileName: file.name, ok: false, error: `Larger than ${MAX_FILE_SIZE_MB}MB` });
+        continue;
+      }
+      try {
+        const { format, sections } = await extractSections(file, file.name);
+        // Chunks keep the file, page and section they came from for citations
+        const document = await ingestDocument(collection, {
+          title: file.name,
+          fileName: file.name,
+          sourceType: format,
+          size: file.size,
+          sections,
+        });
+        results.push({ fileName: file.name, ok: true, documentId: document.id, format, chunks: document.chunkCount });
+      } catch (e: any) {
+        if (!(e instanceof DocumentExtractionError)) {
+          console.error(`Failed to ingest ${file.name}`, e);
+        }
+        results.push({ fileName: file.name, ok: false, error: e.message });
+      }
+    }
 
-    return NextResponse.json({ ok: true }, { status: 200 });
+    const ok = results.some((result) => result.ok);
+    return NextResponse.json({ ok, collection, results }, { status: ok ? 200 : 422 });
   } catch (e: any) {
+    if (e instanceof CollectionError) {
+      return NextResponse.json({ error: e.message }, { status: 400 });
+    }
     return NextResponse.json({ error: e.message }, { status: 500 });
   }
 }
@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { DocumentLibrary } from '@/components/DocumentLibrary';
+
+export default function DocumentsPage() {
+  const router = useRouter();
+  const { status } = useSession();
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login');
+    }
+  }, [status, router]);
+
+  if (status === 'loading') {
+    return (
+      <div className="flex min-h-screen justify-center items-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated') {
+    return null; // Will redirect in useEffect
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col p-4 md:p-8 max-w-6xl mx-auto">
+      <h1 className="text-2xl md:text-3xl font-bold mb-6">Document Library</h1>
+      <DocumentLibrary />
+    </div>
+  );
+}
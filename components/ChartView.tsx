@@ -0,0 +1,333 @@
+import { useRef } from "react";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import type { ChartSpec } from "@/lib/csv/charts";
+
+const WIDTH = 640;
+const HEIGHT = 340;
+const MARGIN = { top: 40, right: 24, bottom: 56, left: 64 };
+// Horizontal bar and heatmap charts need room for labels on the left
+const LABEL_MARGIN = 140;
+
+// Explicit colors so downloaded images look the same outside the app theme
+const COLORS = {
+  mark: "#2563eb",
+  missing: "#dc2626",
+  text: "#374151",
+  grid: "#e5e7eb",
+  background: "#ffffff",
+};
+
+type Scale = (value: number) => number;
+
+function linearScale(domain: [number, number], range: [number, number]): Scale {
+  const [d0, d1] = domain;
+  const [r0, r1] = range;
+  const span = d1 - d0 || 1;
+  return (value) => r0 + ((value - d0) / span) * (r1 - r0);
+}
+
+// Up to about `count` evenly spaced round values covering the domain
+function niceTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) return [min];
+  const rough = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= rough) ?? rough;
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(Math.round(tick / step) * step);
+  }
+  return ticks;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) < 10 ? 2 : 0 });
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function truncate(label: string, length = 18): string {
+  return label.length > length ? `${label.slice(0, length - 1)}…` : label;
+}
+
+function extent(values: number[]): [number, number] {
+  return [values.reduce((a, b) => Math.min(a, b), Infinity), values.reduce((a, b) => Math.max(a, b), -Infinity)];
+}
+
+function Axes(props: {
+  x: Scale;
+  y: Scale;
+  xTicks: number[];
+  yTicks: number[];
+  xFormat?: (value: number) => string;
+  xLabel: string;
+  yLabel: string;
+}) {
+  const { x, y, xTicks, yTicks, xFormat = formatNumber } = props;
+  return (
+    <g fontSize={11} fill={COLORS.text}>
+      {yTicks.map((tick) => (
+        <g key={`y${tick}`}>
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(tick)} y2={y(tick)} stroke={COLORS.grid} />
+          <text x={MARGIN.left - 6} y={y(tick) + 4} textAnchor="end">
+            {formatNumber(tick)}
+          </text>
+        </g>
+      ))}
+      {xTicks.map((tick) => (
+        <text key={`x${tick}`} x={x(tick)} y={HEIGHT - MARGIN.bottom + 16} textAnchor="middle">
+          {xFormat(tick)}
+        </text>
+      ))}
+      <text x={(MARGIN.left + WIDTH - MARGIN.right) / 2} y={HEIGHT - 12} textAnchor="middle" fontSize={12}>
+        {props.xLabel}
+      </text>
+      <text
+        transform={`translate(14 ${(MARGIN.top + HEIGHT - MARGIN.bottom) / 2}) rotate(-90)`}
+        textAnchor="middle"
+        fontSize={12}
+      >
+        {props.yLabel}
+      </text>
+    </g>
+  );
+}
+
+function ChartBody({ chart }: { chart: ChartSpec }) {
+  const plotBottom = HEIGHT - MARGIN.bottom;
+  const plotRight = WIDTH - MARGIN.right;
+
+  switch (chart.type) {
+    case "histogram": {
+      if (!chart.bins.length) return null;
+      const xDomain: [number, number] = [chart.bins[0].from, chart.bins[chart.bins.length - 1].to];
+      const maxCount = Math.max(...chart.bins.map((bin) => bin.count));
+      const x = linearScale(xDomain[0] === xDomain[1] ? [xDomain[0] - 1, xDomain[1] + 1] : xDomain, [MARGIN.left, plotRight]);
+      const y = linearScale([0, maxCount], [plotBottom, MARGIN.top]);
+      const barWidth = (bin: (typeof chart.bins)[number]) => Math.max(2, x(bin.to) - x(bin.from) - 1);
+      return (
+        <>
+          <Axes x={x} y={y} xTicks={niceTicks(...xDomain)} yTicks={niceTicks(0, maxCount)} xLabel={chart.column} yLabel="Rows" />
+          {chart.bins.map((bin, i) => (
+            <rect
+              key={i}
+              x={xDomain[0] === xDomain[1] ? x(bin.from) - 20 : x(bin.from)}
+              y={y(bin.count)}
+              width={xDomain[0] === xDomain[1] ? 40 : barWidth(bin)}
+              height={plotBottom - y(bin.count)}
+              fill={COLORS.mark}
+            >
+              <title>{`${formatNumber(bin.from)} to ${formatNumber(bin.to)}: ${bin.count}`}</title>
+            </rect>
+          ))}
+        </>
+      );
+    }
+    case "bar": {
+      const maxCount = Math.max(1, ...chart.bars.map((bar) => bar.count));
+      const x = linearScale([0, maxCount], [LABEL_MARGIN, plotRight]);
+      const rowHeight = (plotBottom - MARGIN.top) / Math.max(chart.bars.length, 1);
+      return (
+        <g fontSize={11} fill={COLORS.text}>
+          {niceTicks(0, maxCount).map((tick) => (
+            <g key={tick}>
+              <line x1={x(tick)} x2={x(tick)} y1={MARGIN.top} y2={plotBottom} stroke={COLORS.grid} />
+              <text x={x(tick)} y={plotBottom + 16} textAnchor="middle">
+                {formatNumber(tick)}
+              </text>
+            </g>
+          ))}
+          {chart.bars.map((bar, i) => (
+            <g key={bar.label}>
+              <text x={LABEL_MARGIN - 6} y={MARGIN.top + rowHeight * (i + 0.5) + 4} textAnchor="end">
+                {truncate(bar.label)}
+              </text>
+              <rect
+                x={LABEL_MARGIN}
+                y={MARGIN.top + rowHeight * i + 2}
+                width={x(bar.count) - LABEL_MARGIN}
+                height={Math.max(rowHeight - 4, 1)}
+                fill={COLORS.mark}
+              >
+                <title>{`${bar.label}: ${bar.count}`}</title>
+              </rect>
+            </g>
+          ))}
+          <text x={(LABEL_MARGIN + plotRight) / 2} y={HEIGHT - 12} textAnchor="middle" fontSize={12}>
+            Rows{chart.otherCount ? ` (${chart.otherCount} with other values not shown)` : ""}
+          </text>
+        </g>
+      );
+    }
+    case "scatter": {
+      if (!chart.points.length) return null;
+      const xDomain = extent(chart.points.map(([px]) => px));
+      const yDomain = extent(chart.points.map(([, py]) => py));
+      const x = linearScale(xDomain, [MARGIN.left, plotRight]);
+      const y = linearScale(yDomain, [plotBottom, MARGIN.top]);
+      return (
+        <>
+          <Axes x={x} y={y} xTicks={niceTicks(...xDomain)} yTicks={niceTicks(...yDomain)} xLabel={chart.x} yLabel={chart.y} />
+          {chart.points.map(([px, py], i) => (
+            <circle key={i} cx={x(px)} cy={y(py)} r={2.5} fill={COLORS.mark} fillOpacity={0.6} />
+          ))}
+        </>
+      );
+    }
+    case "line": {
+      if (!chart.points.length) return null;
+      const xDomain = extent(chart.points.map(([px]) => px));
+      const yDomain = extent(chart.points.map(([, py]) => py));
+      const x = linearScale(xDomain, [MARGIN.left, plotRight]);
+      const y = linearScale(yDomain, [plotBottom, MARGIN.top]);
+      const xTicks = xDomain[0] === xDomain[1]
+        ? [xDomain[0]]
+        : [0, 0.25, 0.5, 0.75, 1].map((share) => xDomain[0] + share * (xDomain[1] - xDomain[0]));
+      return (
+        <>
+          <Axes
+            x={x}
+            y={y}
+            xTicks={xTicks}
+            yTicks={niceTicks(...yDomain)}
+            xFormat={formatDate}
+            xLabel={chart.x}
+            yLabel={chart.aggregation === "mean" ? `Mean ${chart.y}` : "Rows"}
+          />
+          <polyline
+            points={chart.points.map(([px, py]) => `${x(px)},${y(py)}`).join(" ")}
+            fill="none"
+            stroke={COLORS.mark}
+            strokeWidth={2}
+          />
+        </>
+      );
+    }
+    case "missing_heatmap": {
+      const cellWidth = (plotRight - LABEL_MARGIN) / Math.max(chart.columns.length, 1);
+      const cellHeight = (plotBottom - MARGIN.top) / Math.max(chart.bands.length, 1);
+      return (
+        <g fontSize={10} fill={COLORS.text}>
+          {chart.bands.map((band, row) => (
+            <g key={band.from}>
+              {(row % Math.ceil(chart.bands.length / 10) === 0) && (
+                <text x={LABEL_MARGIN - 6} y={MARGIN.top + cellHeight * (row + 0.5) + 3} textAnchor="end">
+                  rows {band.from}–{band.to}
+                </text>
+              )}
+              {band.missing.map((share, col) => (
+                <rect
+                  key={col}
+                  x={LABEL_MARGIN + cellWidth * col}
+                  y={MARGIN.top + cellHeight * row}
+                  width={Math.max(cellWidth - 1, 1)}
+                  height={Math.max(cellHeight - 1, 1)}
+                  fill={share ? COLORS.missing : COLORS.grid}
+                  fillOpacity={share ? 0.15 + 0.85 * share : 0.5}
+                >
+                  <title>{`${chart.columns[col]}, rows ${band.from}–${band.to}: ${(share * 100).toFixed(0)}% missing`}</title>
+                </rect>
+              ))}
+            </g>
+          ))}
+          {chart.columns.map((name, col) => (
+            <text
+              key={name}
+              transform={`translate(${LABEL_MARGIN + cellWidth * (col + 0.5)} ${plotBottom + 8}) rotate(40)`}
+              textAnchor="start"
+            >
+              {truncate(name, 12)}
+            </text>
+          ))}
+        </g>
+      );
+    }
+  }
+}
+
+// Renders a visualize result attached to an agent reply, with image downloads
+export function ChartView({ chart }: { chart: ChartSpec }) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const baseName = chart.title.replace(/[^\w-]+/g, "_").toLowerCase();
+
+  const saveBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.style.display = "none";
+    document.body.appendChild(link);
+    link.click();
+    setTimeout(() => {
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast.success(`Chart saved as ${fileName}`);
+    }, 100);
+  };
+
+  const downloadChart = (format: "svg" | "png") => {
+    if (!svgRef.current) return;
+    const markup = new XMLSerializer().serializeToString(svgRef.current);
+    const svgBlob = new Blob([markup], { type: "image/svg+xml" });
+    if (format === "svg") {
+      saveBlob(svgBlob, `${baseName}.svg`);
+      return;
+    }
+
+    // Draw the SVG onto a canvas at twice the size for a sharper PNG
+    const image = new Image();
+    const url = URL.createObjectURL(svgBlob);
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = WIDTH * 2;
+      canvas.height = HEIGHT * 2;
+      canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => {
+        if (blob) {
+          saveBlob(blob, `${baseName}.png`);
+        } else {
+          toast.error("Failed to export the chart. Please try again.");
+        }
+      }, "image/png");
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      toast.error("Failed to export the chart. Please try again.");
+    };
+    image.src = url;
+  };
+
+  return (
+    <div className="not-prose my-4 flex flex-col gap-2 rounded-md border p-2">
+      <svg
+        ref={svgRef}
+        xmlns="http://www.w3.org/2000/svg"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        width="100%"
+        role="img"
+        aria-label={chart.title}
+        fontFamily="system-ui, sans-serif"
+      >
+        <rect width={WIDTH} height={HEIGHT} fill={COLORS.background} />
+        <text x={WIDTH / 2} y={22} textAnchor="middle" fontSize={14} fontWeight={600} fill={COLORS.text}>
+          {chart.title}
+        </text>
+        <ChartBody chart={chart} />
+      </svg>
+      <div className="flex justify-end gap-1">
+        <Button variant="outline" size="sm" onClick={() => downloadChart("png")}>
+          <Download className="mr-1 h-4 w-4" />
+          PNG
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => downloadChart("svg")}>
+          <Download className="mr-1 h-4 w-4" />
+          SVG
+        </Button>
+      </div>
+    </div>
+  );
+}
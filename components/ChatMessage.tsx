@@ -6,6 +6,11 @@ import { Button } from "@/components/ui/button";
 import { Download } from "lucide-react";
 import { toast } from "sonner";
 import { useState } from "react";
+import { ATTACHMENT_BLOCK_PATTERN, ATTACHMENT_LANGUAGES, hasAttachments } from "@/lib/csv/attachments";
+import { DataQualityReport } from "@/components/DataQualityReport";
+import { ChartView } from "@/components/ChartView";
+import { ResultTable } from "@/components/ResultTable";
+import { DownloadCard } from "@/components/DownloadCard";
 
 interface ChatMessageProps {
   message: Message;
@@ -82,83 +87,60 @@ export function ChatMessage({ message }: ChatMessageProps) {
       const json = JSON.parse(content);
       if (json.download_link && (json.file_format || json.file_name)) {
         // This is a download response
-        const fileName = json.file_name || `cleaned_data.${json.file_format || 'csv'}`;
-        
-        // Function to handle download properly
-        const handleDownload = (e: React.MouseEvent) => {
-          e.preventDefault(); // Prevent default button behavior
-          e.stopPropagation(); // Stop event propagation
-          
-          setIsDownloading(true);
-          
-          try {
-            // Get the data URL
-            const dataUrl = json.download_link;
-            
-            // Extract base64 data - remove the data:text/csv;base64, part
-            const base64Data = dataUrl.split(',')[1];
-            if (!base64Data) {
-              throw new Error("Invalid data URL format");
-            }
-            
-            // Decode base64 to binary
-            const binaryData = atob(base64Data);
-            
-            // Convert binary to Uint8Array
-            const bytes = new Uint8Array(binaryData.length);
-            for (let i = 0; i < binaryData.length; i++) {
-              bytes[i] = binaryData.charCodeAt(i);
-            }
-            
-            // Create a blob from the bytes
-            const blob = new Blob(
-              [bytes], 
-              { type: json.file_format === 'excel' ? 'application/vnd.ms-excel' : 'text/csv' }
-            );
-            
-            // Create a URL for the blob
-            const url = URL.createObjectURL(blob);
-            
-            // Create a download link and click it
-            const link = document.createElement('a');
-            link.href = url;
-            link.download = fileName;
-            link.style.display = 'none';
-            document.body.appendChild(link);
-            link.click();
-            
-            // Clean up
-            setTimeout(() => {
-              document.body.removeChild(link);
-              URL.revokeObjectURL(url);
-              setIsDownloading(false);
-              toast.success(`File "${fileName}" downloaded successfully`);
-            }, 100);
-          } catch (error) {
-            console.error("Download error:", error);
-            setIsDownloading(false);
-            toast.error("Failed to download file. Please try again.");
-          }
-        };
-        
-        return (
-          <div className="p-4 border rounded-md bg-gray-50 dark:bg-gray-800">
-            <p className="mb-4">{json.message || "Your data is ready to download"}</p>
-            <Button 
-              onClick={handleDownload}
-              className="flex items-center"
-              disabled={isDownloading}
-            >
-              <Download className="mr-2 h-4 w-4" />
-              {isDownloading ? "Downloading..." : `Download ${json.file_format ? json.file_format.toUpperCase() : 'CSV'}`}
-            </Button>
-          </div>
-        );
+        return <DownloadCard download={json} />;
       }
     } catch (e) {
       // Not JSON or doesn't contain download link, continue with regular rendering
     }
     
+    // Reports, charts, result tables and downloads attached below the agent's reply
+    if (hasAttachments(content)) {
+      // Split yields text, then the language and JSON of each block, then text again
+      const parts = content.split(ATTACHMENT_BLOCK_PATTERN);
+      return parts.map((part, index) => {
+        if (index % 3 === 0) {
+          return part.trim() ? <ReactMarkdown key={index}>{part}</ReactMarkdown> : null;
+        }
+        if (index % 3 === 1) {
+          return null;
+        }
+        const language = parts[index - 1];
+        try {
+          const attachment = JSON.parse(part);
+          if (language === ATTACHMENT_LANGUAGES.report) {
+            return <DataQualityReport key={index} report={attachment} />;
+          }
+          if (language === ATTACHMENT_LANGUAGES.table) {
+            return <ResultTable key={index} table={attachment} />;
+          }
+          if (language === ATTACHMENT_LANGUAGES.download) {
+            return <DownloadCard key={index} download={attachment} />;
+          }
+          if (language === ATTACHMENT_LANGUAGES.dataset) {
+            const rowCount = attachment.rowCount;
+            return (
+              <p key={index} className="text-xs text-muted-foreground">
+                Working copy of {attachment.name} updated: {rowCount} row{rowCount === 1 ? '' : 's'}
+              </p>
+            );
+          }
+          return <ChartView key={index} chart={attachment} />;
+        } catch (error) {
+          console.error('Error parsing attachment:', error);
+          const label = language === ATTACHMENT_LANGUAGES.report
+            ? 'data quality report'
+            : language === ATTACHMENT_LANGUAGES.table ? 'table'
+            : language === ATTACHMENT_LANGUAGES.download ? 'download'
+            : language === ATTACHMENT_LANGUAGES.dataset ? 'dataset update' : 'chart';
+          return (
+            <div key={index} className="text-red-500 p-2 border border-red-300 rounded">
+              Error: Could not display the {label}.
+            </div>
+          );
+        }
+      });
+    }
+
     // Function to render custom components from markdown
     if (content.includes('<DataTable')) {
       const parts = content.split(/<DataTable|\/>/);
@@ -1,17 +1,23 @@
 "use client";
 import { type Message } from "ai";
 import { useChat } from "ai/react";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import type { FormEvent, ReactNode } from "react";
 import { toast } from "sonner";
 import { StickToBottom, useStickToBottomContext } from "use-stick-to-bottom";
 import { ChatMessageBubble } from "@/components/ChatMessageBubble";
 import { IntermediateStep } from "./IntermediateStep";
 import { Button } from "./ui/button";
-import { ArrowDown, LoaderCircle, Paperclip, LogIn, FileSpreadsheet } from "lucide-react";
+import { ArrowDown, LoaderCircle, Paperclip, LogIn, FileSpreadsheet, ListOrdered, Database, ShieldCheck, Lock, Library } from "lucide-react";
 import { Checkbox } from "./ui/checkbox";
 import { UploadDocumentsForm } from "./UploadDocumentsForm";
+import { CollectionPicker, type CollectionOption } from "./CollectionPicker";
 import { UploadCSVForm } from "./UploadCSVForm";
+import { DatasetSteps } from "./DatasetSteps";
+import { ReplayRecipeForm, type ReplayResult } from "./ReplayRecipeForm";
+import { UploadRulesForm, type LoadedRuleSet } from "./UploadRulesForm";
+import { PiiPolicyForm } from "./PiiPolicyForm";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
@@ -32,11 +38,26 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuTrigger,
 } from "./ui/dropdown-menu";
 import { Download } from "lucide-react";
 import { DataTable } from "@/components/ui/DataTable";
 import { ChatMessage } from "@/components/ChatMessage";
+import { describeIssueLines, NORMALIZED_CSV, parseCSV } from "@/lib/csv/parser";
+import { datasetAttachments } from "@/lib/csv/attachments";
+import { PREVIEW_ROWS } from "@/lib/csv/summary";
+import {
+  defaultPiiPolicy,
+  hasProtection,
+  PII_KIND_LABELS,
+  scanPII,
+  type PiiAction,
+  type PiiFinding,
+  type PiiPolicy,
+} from "@/lib/csv/pii";
 
 function ChatMessages(props: {
   messages: Message[];
@@ -178,6 +199,92 @@ export function ChatLayout(props: { content: ReactNode; footer: ReactNode }) {
   );
 }
 
+// A CSV loaded in the chat. Stored datasets are referenced by datasetId; others are sent inline
+interface LoadedDataset {
+  name: string;
+  fileName: string;
+  csvData: string;
+  datasetId: string | null;
+  headers: string[];
+  rowCount: number;
+  // Personal data found on upload and how it is protected before the agent sees it
+  piiFindings: PiiFinding[];
+  piiPolicy: PiiPolicy;
+}
+
+const PII_ACTION_DESCRIPTIONS: Record<PiiAction, string> = {
+  none: "sent as is",
+  mask: "masked",
+  hash: "hashed",
+  tokenize: "tokenized",
+};
+
+// One line per protected column, e.g. "- email (email addresses): tokenized"
+function describePiiPolicy(dataset: LoadedDataset): string {
+  return Object.entries(dataset.piiPolicy)
+    .map(([column, action]) => {
+      const kinds = Array.from(new Set(
+        dataset.piiFindings.filter((finding) => finding.column === column).map((finding) => `${PII_KIND_LABELS[finding.kind]}s`),
+      ));
+      return `- ${column}${kinds.length ? ` (${kinds.join(", ")})` : ""}: ${PII_ACTION_DESCRIPTIONS[action]}`;
+    })
+    .join("\n");
+}
+
+// Short unique names the agent can address datasets by, e.g. "sales_2024"
+function datasetName(fileName: string, loaded: LoadedDataset[]): string {
+  const base = fileName.replace(/\.[^.]+$/, "").toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "") || "data";
+  let name = base;
+  for (let i = 2; loaded.some((dataset) => dataset.name === name); i++) {
+    name = `${base}_${i}`;
+  }
+  return name;
+}
+
+// System prompt describing the active dataset and the other loaded ones
+function csvSystemPrompt(datasets: LoadedDataset[], active: LoadedDataset): string {
+  const others = datasets.filter((dataset) => dataset !== active);
+  return `You are a helpful AI assistant with access to CSV data analysis capabilities. The CSV file "${active.fileName}" is the active dataset.
+
+To analyze the data, use the csv_processor tool with the following parameters:
+${active.datasetId
+  ? `- dataset_id: "${active.datasetId}" (the uploaded dataset; never pass CSV text in csv_data)
+- version: (Optional) A dataset version to read; defaults to the current version, and changes always apply to the current version
+- Use operation "undo" or "redo" to step back or forward through the cleaning steps, and "list_steps" to show them`
+  : `- dataset_id: "${active.name}" (the loaded dataset; never pass CSV text in csv_data)`}
+- operation: Choose from "analyze", "profile", "filter", "summarize", "visualize", "clean_missing", "detect_outliers", "remove_duplicates", "generate_report", "group_by", "pivot", "unpivot", "sort", "top_n", "join", "append", "union", "validate", or a column transformation: "rename_columns", "drop_columns", "reorder_columns", "cast_columns", "split_column", "merge_columns", "clean_text", "format_dates", "standardize_numbers", "derive_column"
+- column: (Optional) Specify a column name when needed
+- condition: (Optional) Filter expression, e.g. age > 30 AND country != "US" (supports IN, IS NULL, MATCHES, AND/OR/NOT)
+- method: (Optional) For cleaning operations ('drop', 'mean', 'median', 'mode', 'constant', 'forward_fill', 'backward_fill', 'interpolate')
+- fill_value: (Optional) The value used by the 'constant' cleaning method
+- order_by: (Optional) Column that orders rows for forward/backward fill and interpolation
+- method for detect_outliers: (Optional) 'zscore', 'iqr', 'modified_zscore', 'percentile', or 'mahalanobis' with several columns
+- columns: (Optional) Several numeric columns for detect_outliers, or key columns for remove_duplicates
+- threshold: (Optional) For outlier detection; each method has a sensible default
+- action: (Optional) For detect_outliers: 'detect', 'flag', 'cap' or 'remove'
+- chart_type: (Optional) For visualize: 'histogram', 'bar', 'scatter' (two numeric columns), 'line' (over a date column) or 'missing_heatmap'
+- remove_duplicates: (Optional) columns as the key columns, keep ('first', 'last' or 'most_complete'), normalize: true to ignore case/whitespace/accents; method 'fuzzy' lists near-duplicate clusters for review, then pass clusters (numbers or 'all') to drop them once the user confirms
+- column transformations: (Optional) mapping for rename_columns; columns to drop, reorder, cast (to_type 'string', 'integer', 'float', 'boolean' or 'date'), merge (separator, new_column), clean_text, format_dates (to ISO) or standardize_numbers ("$1,200" or "5 kg" to plain numbers, optional unit); split_column takes column, separator and new_columns; clean_text takes method ('trim', 'lower', 'upper', 'title', 'collapse_whitespace' or 'regex_replace' with pattern and replacement); derive_column takes new_column and an expression such as price * quantity
+- result tables: group_by takes columns as group keys and aggregations (e.g. [{"column": "revenue", "function": "mean"}]; sum, mean, median, count, min, max, distinct_count); pivot takes columns as row keys, column whose values become columns, value_column and method; unpivot takes the columns to turn into rows; sort takes columns in order and descending; top_n takes column to rank by, n and optional group columns. Set save_result to keep working on a group_by, pivot or top_n result
+- join, append and union: other_dataset names the dataset to combine with; join takes columns as key columns (right_on when the other dataset names them differently) and method ('inner', 'left', 'right' or 'outer'); union drops duplicate rows after appending
+- validate: rules, a list such as [{"type": "unique", "column": "id"}, {"type": "format", "column": "email", "format": "email"}] (types: required, unique, format with 'email', 'phone', 'postal_code' or 'regex', allowed_values with values, range with min/max, date_order with other_column, references with dataset and other_column), and action ('report', 'flag' or 'quarantine'). Omit rules to use the rule set the user uploaded
+
+Available columns: ${active.headers.join(', ')}${hasProtection(active.piiPolicy) ? `
+
+Personal data is protected before you see it:
+${describePiiPolicy(active)}
+Values such as TKN_EMAIL_1a2b3c4d5e are tokens and HASH_... values are hashes; equal values share the same token or hash. Treat them as opaque values and never try to recover the originals. The user's copy of the data and downloads restore tokenized values.` : ''}${others.length ? `
+
+Other loaded datasets. Pass a name as dataset_id to work on that dataset, or as other_dataset to join, append or union it with this one:
+${others.map(dataset => `- "${dataset.name}" (${dataset.fileName}, ${dataset.rowCount} rows): ${dataset.headers.join(', ')}`).join('\n')}` : ''}
+
+For questions that are easiest to answer in SQL, use the sql_query tool with a single read-only SELECT query. Each dataset is a table named after it: this one is "${active.name}"${others.length ? ' and the others use the names listed above' : ''}. Joins, GROUP BY, HAVING, ORDER BY and LIMIT are supported. Set save_result to save a query result as a new version of the dataset in FROM.
+
+${active.datasetId
+  ? 'Operations that change the data are applied to the current version and save a new one, so steps chain automatically.'
+  : 'Operations that change the data update the working copy of the dataset, so steps chain automatically.'}`;
+}
+
 export function ChatWindow(props: {
   endpoint: string;
   emptyStateComponent: ReactNode;
@@ -209,21 +316,42 @@ export function ChatWindow(props: {
   const [isLoadingChat, setIsLoadingChat] = useState(false);
   const [currentChatId, setCurrentChatId] = useState<string | undefined>(props.chatId);
   const [showDownloadDialog, setShowDownloadDialog] = useState(false);
-  const [csvData, setCsvData] = useState<string | null>(null);
-  const [csvFileName, setCsvFileName] = useState<string | null>(null);
+  // Every CSV loaded in this chat; the agent works on the active one unless told otherwise
+  const [datasets, setDatasets] = useState<LoadedDataset[]>([]);
+  const [activeDatasetName, setActiveDatasetName] = useState<string | null>(null);
+  // JSON or YAML rules uploaded for the validate operation
+  const [ruleSet, setRuleSet] = useState<LoadedRuleSet | null>(null);
+  const activeDataset = datasets.find((dataset) => dataset.name === activeDatasetName) ?? null;
+  const csvData = activeDataset?.csvData ?? null;
+  const csvFileName = activeDataset?.fileName ?? null;
+  // Server-side copy of the active CSV; when set, requests reference it instead of carrying the data
+  const datasetId = activeDataset?.datasetId ?? null;
+  // Sent with each request so the agent can reach every loaded dataset by name
+  const requestDatasets = datasets.map((dataset) => ({
+    name: dataset.name,
+    fileName: dataset.fileName,
+    datasetId: dataset.datasetId,
+    csvData: dataset.datasetId ? null : dataset.csvData,
+    piiPolicy: dataset.datasetId ? undefined : dataset.piiPolicy, // Stored datasets keep theirs server-side
+  }));
+  // Bumped after each agent turn so the steps panel picks up new versions
+  const [datasetRevision, setDatasetRevision] = useState(0);
+  // The user's document collections and the ones the retrieval chat searches; empty means all
+  const [collections, setCollections] = useState<CollectionOption[]>([]);
+  const [selectedCollectionIds, setSelectedCollectionIds] = useState<string[]>([]);
 
   // Fetch user's API key if logged in
   useEffect(() => {
     if (session?.user?.id) {
       fetchUserApiKey();
     }
+  }, [session]);
 
-    const loadHistory = false;
-    // If a chatId is provided, load that chat
-    if (props.chatId && loadHistory) {
-      loadChatHistory(props.chatId);
+  useEffect(() => {
+    if (session?.user?.id && props.uploadType === "document") {
+      fetchCollections();
     }
-  }, [session, props.chatId]);
+  }, [session, props.uploadType]);
 
   const fetchUserApiKey = async () => {
     try {
@@ -239,44 +367,121 @@ export function ChatWindow(props: {
     }
   };
 
-  const loadChatHistory = async (chatId: string) => {
-    setIsLoadingChat(true);
+  const fetchCollections = async () => {
     try {
-      const response = await fetch(`/api/chat/history/${chatId}`);
+      const response = await fetch('/api/collections');
       if (response.ok) {
-        const chatData = await response.json();
-        setChatTitle(chatData.title);
+        setCollections(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching document collections:', error);
+    }
+  };
 
-        // Convert messages from the database format to the format expected by useChat
-        const formattedMessages = chatData.messages.map((msg: any) => ({
-          id: msg.id,
-          content: msg.content,
-          role: msg.role,
-        }));
+  // The chat routes save each turn server-side; keep the id so later turns append to the same chat
+  const rememberChatId = (chatId: string) => {
+    if (chatId === currentChatId) return;
+    setCurrentChatId(chatId);
+    window.history.replaceState(null, "", `?chatId=${encodeURIComponent(chatId)}`);
+  };
 
-        // Set the messages in the chat
-        chat.setMessages(formattedMessages);
+  // Store the CSV once on the server; returns null (and the CSV is sent inline) if that fails
+  const uploadDataset = async (csvContent: string, fileName: string, piiPolicy: PiiPolicy): Promise<string | null> => {
+    const formData = new FormData();
+    formData.append("file", new Blob([csvContent], { type: "text/csv" }), fileName);
+    formData.append("fileName", fileName);
+    // UploadCSVForm already converted the file to comma-separated text
+    formData.append("delimiter", ",");
+    formData.append("piiPolicy", JSON.stringify(piiPolicy));
+    try {
+      const response = await fetch("/api/datasets", { method: "POST", body: formData });
+      const json = await response.json();
+      if (!response.ok) {
+        throw new Error(json.error);
       }
-    } catch (error) {
-      console.error('Error loading chat history:', error);
-      toast.error('Failed to load chat history');
-    } finally {
-      setIsLoadingChat(false);
+      return json.id;
+    } catch (e: any) {
+      toast.warning("The dataset could not be stored on the server, so it will be sent with each message", {
+        description: e.message,
+      });
+      return null;
     }
   };
 
-  const saveChatToDatabase = async (messages: Message[]) => {
-    // Skip saving chat history for now
-    return;
+  // Applies a privacy policy to a stored dataset, which saves a new version when the data changes
+  const saveDatasetPiiPolicy = async (id: string, piiPolicy: PiiPolicy): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/datasets/${id}/privacy`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ policy: piiPolicy }),
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        throw new Error(json.error);
+      }
+      return true;
+    } catch (e: any) {
+      toast.error("The privacy policy could not be applied", { description: e.message });
+      return false;
+    }
+  };
+
+  const handlePiiPolicyChange = async (piiPolicy: PiiPolicy): Promise<boolean> => {
+    if (!activeDataset) return false;
+    if (activeDataset.datasetId) {
+      if (!(await saveDatasetPiiPolicy(activeDataset.datasetId, piiPolicy))) {
+        return false;
+      }
+      setDatasetRevision((revision) => revision + 1);
+    }
+
+    const updated: LoadedDataset = { ...activeDataset, piiPolicy };
+    const nextDatasets = datasets.map((dataset) => (dataset === activeDataset ? updated : dataset));
+    setDatasets(nextDatasets);
+    setSystemPrompt(csvSystemPrompt(nextDatasets, updated));
+    chat.setMessages([
+      ...chat.messages,
+      {
+        id: Date.now().toString(),
+        role: "assistant",
+        content: `Privacy policy for **${updated.name}** updated:
+${describePiiPolicy(updated) || "- No columns are protected"}`,
+      },
+    ]);
+    toast.success("Privacy policy applied");
+    return true;
+  };
+
+  // Switching only changes which dataset the agent works on by default; the conversation is kept
+  const selectDataset = (name: string) => {
+    const dataset = datasets.find((loaded) => loaded.name === name);
+    if (!dataset) return;
+    setActiveDatasetName(name);
+    setSystemPrompt(csvSystemPrompt(datasets, dataset));
+    toast.success(`Now working on "${name}"`);
+  };
+
+  const handleRulesLoaded = (loaded: LoadedRuleSet) => {
+    setRuleSet(loaded);
+    chat.setMessages([
+      ...chat.messages,
+      {
+        id: Date.now().toString(),
+        role: "assistant",
+        content: `Rule set **${loaded.fileName}** loaded with ${loaded.ruleCount} rule${loaded.ruleCount === 1 ? "" : "s"}. Ask me to validate the data against it, flag the failing rows or quarantine them.`,
+      },
+    ]);
   };
 
   // Handle CSV upload
-  const handleCSVUploaded = (csvContent: string, fileName: string) => {
+  // A replayed recipe has already stored its result as a dataset
+  const handleCSVUploaded = async (csvContent: string, fileName: string, replay?: ReplayResult) => {
     // File type validation
-    const allowedExtensions = ['.csv', '.txt'];
+    const allowedExtensions = ['.csv', '.txt', '.xlsx'];
     const fileExtension = fileName.substring(fileName.lastIndexOf('.')).toLowerCase();
     if (!allowedExtensions.includes(fileExtension)) {
-      toast.error("Invalid file type. Only CSV files are allowed");
+      toast.error("Invalid file type. Only CSV and Excel (.xlsx) files are allowed");
       return;
     }
     
@@ -295,13 +500,7 @@ export function ChatWindow(props: {
     }
 
     // CSV structure validation
-    const lines = csvContent.trim().split('\n');
-    if (lines.length < 1) {
-      toast.error("The CSV file must contain at least a header row");
-      return;
-    }
-
-    const headers = lines[0].split(',').map(h => h.trim());
+    const { headers, data, issues } = parseCSV(csvContent, NORMALIZED_CSV);
     if (headers.length === 0) {
       toast.error("No columns found in the CSV file");
       return;
@@ -314,28 +513,19 @@ export function ChatWindow(props: {
     }
     
     // Check for reasonable number of rows (to prevent DOS)
-    if (lines.length > 100000) {
+    if (data.length > 100000) {
       toast.error("Too many rows in the CSV file (max: 100,000)");
       return;
     }
     
-    // Validate data consistency
-    const columnCount = headers.length;
-    let malformedRows = 0;
-    
-    // Check a sample of rows for consistent column counts
-    const sampleSize = Math.min(100, lines.length - 1);
-    for (let i = 1; i <= sampleSize; i++) {
-      const row = lines[i].split(',');
-      if (row.length !== columnCount) {
-        malformedRows++;
-      }
-    }
-    
-    if (malformedRows > sampleSize * 0.1) { // If more than 10% of sample rows are malformed
-      toast.error("CSV file has inconsistent column counts across rows");
+    // Malformed rows are kept, but a file where many rows don't fit the header is likely misread
+    if (issues.length > Math.max(1, data.length * 0.1)) {
+      toast.error(`CSV file has inconsistent column counts across rows (${describeIssueLines(issues)})`);
       return;
     }
+    if (issues.length) {
+      toast.warning(`${issues.length} malformed row(s) at ${describeIssueLines(issues)} were kept as read; check them before cleaning`);
+    }
     
     // Content safety check (basic)
     const sensitivePatterns = [
@@ -343,8 +533,7 @@ export function ChatWindow(props: {
       /javascript:/i,
       /eval\(/i,
       /onerror=/i,
-      /<%.*%>/i, // Template injection patterns
-      /\$/i // SQL injection basic check
+      /<%.*%>/i // Template injection patterns
     ];
     
     let containsSuspiciousContent = false;
@@ -360,70 +549,117 @@ export function ChatWindow(props: {
       return;
     }
 
-    setCsvData(csvContent.trim());
-    setCsvFileName(fileName);
-    
-    // Update system prompt to include CSV context
-    setSystemPrompt(`You are a helpful AI assistant with access to CSV data analysis capabilities. The CSV file "${fileName}" has been loaded.
-
-To analyze the data, use the csv_processor tool with the following parameters:
-- csv_data: Use the provided CSV data from the request
-- operation: Choose from "analyze", "filter", "summarize", "clean_missing", "detect_outliers", "remove_duplicates", or "generate_report"
-- column: (Optional) Specify a column name when needed
-- condition: (Optional) For filtering operations
-- method: (Optional) For cleaning operations (e.g., 'mean', 'median', 'mode', 'drop')
-- threshold: (Optional) For outlier detection
-
-Available columns: ${headers.join(', ')}
+    // Personal data is tokenized by default; the policy can be changed from the Privacy dialog
+    const piiFindings = scanPII(headers, data);
+    const piiPolicy = defaultPiiPolicy(piiFindings);
 
-When using the csv_processor tool, always include the CSV data in the csv_data parameter.`);
+    // A replayed dataset is already stored, so its policy is applied afterwards
+    let storedDatasetId = replay?.datasetId ?? await uploadDataset(csvContent.trim(), fileName, piiPolicy);
+    if (replay && hasProtection(piiPolicy) && !(await saveDatasetPiiPolicy(replay.datasetId, piiPolicy))) {
+      storedDatasetId = null;
+    }
+    
+    const loaded: LoadedDataset = {
+      name: datasetName(fileName, datasets),
+      fileName,
+      csvData: csvContent.trim(),
+      datasetId: storedDatasetId,
+      headers,
+      rowCount: data.length,
+      piiFindings,
+      piiPolicy,
+    };
+    const nextDatasets = [...datasets, loaded];
+    setDatasets(nextDatasets);
+    setActiveDatasetName(loaded.name);
+    setSystemPrompt(csvSystemPrompt(nextDatasets, loaded));
 
     // Calculate some basic stats
-    const totalRows = lines.length - 1; // Excluding header
+    const totalRows = data.length;
     const totalColumns = headers.length;
-    const data = lines.slice(1).map(row => row.split(',').map(cell => cell.trim()));
     
-    // Add a message to inform the user that the CSV has been loaded
+    // Add a message to inform the user that the CSV has been loaded. It is posted back with
+    // every turn, so its preview only holds the first rows
     const csvLoadedMessage: Message = {
       id: Date.now().toString(),
       role: "assistant",
       content: `CSV file "${fileName}" has been loaded successfully! 📊
-
+${datasets.length ? `
+It was added as dataset **${loaded.name}** and is now the active one. Ask me to join or append it with ${datasets.map(dataset => `**${dataset.name}**`).join(', ')}, or switch datasets from the dataset menu.
+` : ''}
 **Dataset Overview:**
 - Total Rows: ${totalRows}
 - Total Columns: ${totalColumns}
 - Column Names: ${headers.join(', ')}
-
-**Preview of your data:**
-<DataTable headers={${JSON.stringify(headers)}} rows={${JSON.stringify(data)}} />
+${hasProtection(piiPolicy) ? `
+**Personal data:** these columns are protected before anything is sent to the assistant. Use Privacy to mask, hash or tokenize them differently.
+${describePiiPolicy(loaded)}
+` : ''}${replay ? `
+**Replayed recipe steps:**
+${replay.steps.map(step => `${step.step}. ${step.operation}: ${step.status}${step.status === 'skipped' ? ` (${step.message})` : ''}, ${step.rowCount} rows`).join('\n')}
+` : ''}
+**Preview of your data:**${totalRows > PREVIEW_ROWS ? ` the first ${PREVIEW_ROWS} of ${totalRows} rows` : ''}
+<DataTable headers={${JSON.stringify(headers)}} rows={${JSON.stringify(data.slice(0, PREVIEW_ROWS))}} />
 
 You can now ask me questions about your data! Here are some examples of what you can ask:
 - "Analyze this dataset"
 - "Show me a summary of the ${headers[0]} column"
 - "Find any missing values"
 - "Check for outliers in numeric columns"
+- "Show the distribution of a numeric column"
 - "Remove duplicate rows"
+- "What is the average ${headers[headers.length - 1]} per ${headers[0]}?"
+- "Convert the date columns to ISO format"
 - "Generate a data quality report"
 - "Calculate statistics for ${headers[headers.length - 1]}"
 
 What would you like to know about your data?`,
     };
 
-    // Clear any existing messages and set the new CSV message
-    chat.setMessages([csvLoadedMessage]);
+    // The first file starts the conversation; later files join it
+    chat.setMessages(datasets.length ? [...chat.messages, csvLoadedMessage] : [csvLoadedMessage]);
 
     // Log CSV data for debugging
     console.log('CSV Data loaded:', {
       fileName,
       headers,
       rowCount: totalRows,
-      sampleRow: lines.length > 1 ? lines[1] : 'No data rows'
+      sampleRow: data.length > 0 ? data[0] : 'No data rows'
     });
   };
 
+  // Inline datasets come back with the agent's changes applied, as links to the processed
+  // data; the next turn continues from them
+  const applyDatasetUpdates = async (content: string) => {
+    const updates: { name: string; csvData: string }[] = [];
+    for (const update of datasetAttachments(content)) {
+      try {
+        const response = await fetch(update.link);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        updates.push({ name: update.name, csvData: await response.text() });
+      } catch (error) {
+        console.error("Failed to fetch the working copy of", update.name, error);
+        toast.error(`Could not load the updated data of "${update.name}"`);
+      }
+    }
+    if (!updates.length) return;
+    setDatasets((loaded) =>
+      loaded.map((dataset) => {
+        const update = updates.find((candidate) => candidate.name === dataset.name);
+        if (!update || dataset.datasetId) return dataset;
+        const { headers, data } = parseCSV(update.csvData, NORMALIZED_CSV);
+        return { ...dataset, csvData: update.csvData, headers, rowCount: data.length };
+      }),
+    );
+  };
+
   const chat = useChat({
     api: props.endpoint, // Use the endpoint provided by the parent component
     onResponse(response) {
+      const chatIdHeader = response.headers.get("x-chat-id");
+      if (chatIdHeader) {
+        rememberChatId(chatIdHeader);
+      }
       const sourcesHeader = response.headers.get("x-sources");
       const sources = sourcesHeader
         ? JSON.parse(Buffer.from(sourcesHeader, "base64").toString("utf8"))
@@ -437,14 +673,14 @@ What would you like to know about your data?`,
       }
     },
     streamMode: "text",
+    onFinish: (message) => {
+      applyDatasetUpdates(message.content);
+      setDatasetRevision((revision) => revision + 1);
+    },
     onError: (e) =>
       toast.error(`Error while processing your request`, {
         description: e.message,
       }),
-    onFinish: (message) => {
-      // Save the updated chat to the database
-      saveChatToDatabase([...chat.messages]);
-    },
     body: {
       temperature: temperature,
       systemPrompt: systemPrompt,
@@ -453,12 +689,65 @@ What would you like to know about your data?`,
       presencePenalty: presencePenalty,
       maxTokens: maxTokens,
       apiKey: userApiKey, // Use the user's API key from their profile
-      csvData: csvData, // Include the CSV data in the request
+      datasetId: datasetId, // Stored dataset the csv_processor tool reads from
+      csvData: datasetId ? null : csvData, // Only sent when the dataset isn't stored server-side
       csvFileName: csvFileName, // Include the CSV file name in the request
+      datasets: requestDatasets,
+      ruleSet: ruleSet?.content, // Uploaded rules the validate operation falls back to
       showIntermediateSteps: showIntermediateSteps,
+      chatId: currentChatId, // Chat that the server saves this turn to
+      collectionIds: selectedCollectionIds, // Document collections the retrieval chat searches
     },
   });
 
+  const { setMessages } = chat;
+
+  const loadChatHistory = useCallback(async (chatId: string) => {
+    setIsLoadingChat(true);
+    try {
+      const response = await fetch(`/api/chat/history/${chatId}`);
+      if (response.ok) {
+        const chatData = await response.json();
+        setChatTitle(chatData.title);
+
+        // Convert messages from the database format to the format expected by useChat
+        const formattedMessages = chatData.messages.map((msg: any) => ({
+          id: msg.id,
+          content: msg.content,
+          role: msg.role,
+        }));
+
+        // Restore retrieved sources, keyed by message index like the x-message-index header
+        const loadedSources: Record<string, any> = {};
+        chatData.messages.forEach((msg: any, i: number) => {
+          if (msg.sources) {
+            loadedSources[i.toString()] = msg.sources;
+          }
+        });
+
+        // Set the messages in the chat
+        setMessages(formattedMessages);
+        setSourcesForMessages(loadedSources);
+      }
+    } catch (error) {
+      console.error('Error loading chat history:', error);
+      toast.error('Failed to load chat history');
+    } finally {
+      setIsLoadingChat(false);
+    }
+  }, [setMessages]);
+
+  // Reopen the chat given by the prop or the URL so history survives reloads
+  useEffect(() => {
+    if (status !== "authenticated") return;
+    const chatIdToLoad =
+      props.chatId ?? new URLSearchParams(window.location.search).get("chatId");
+    if (chatIdToLoad) {
+      setCurrentChatId(chatIdToLoad);
+      loadChatHistory(chatIdToLoad);
+    }
+  }, [status, props.chatId, loadChatHistory]);
+
   // Add a greeting message when chat is initialized
   useEffect(() => {
     if (chat.messages.length === 0 && !isLoadingChat) {
@@ -503,8 +792,12 @@ What would you like to know about your data?`,
         presencePenalty: presencePenalty,
         maxTokens: maxTokens,
         apiKey: userApiKey,
-        csvData: csvData, // Include CSV data
+        datasetId: datasetId,
+        csvData: datasetId ? null : csvData, // Only sent when the dataset isn't stored server-side
         csvFileName: csvFileName, // Include CSV filename
+        datasets: requestDatasets,
+        ruleSet: ruleSet?.content,
+        chatId: currentChatId,
       }),
     });
     const json = await response.json();
@@ -515,6 +808,10 @@ What would you like to know about your data?`,
       });
       return;
     }
+    if (json.chatId) {
+      rememberChatId(json.chatId);
+    }
+    setDatasetRevision((revision) => revision + 1);
     const responseMessages: Message[] = json.messages;
     // Represent intermediate steps as system messages for display purposes
     const toolCallMessages = responseMessages.filter(
@@ -568,9 +865,7 @@ What would you like to know about your data?`,
       }
     ];
     chat.setMessages(finalMessages);
-
-    // Save chat to database after completing with intermediate steps
-    saveChatToDatabase(finalMessages);
+    applyDatasetUpdates(responseMessages[responseMessages.length - 1].content);
   }
 
   // System prompt dialog component
@@ -917,12 +1212,48 @@ What would you like to know about your data?`,
                     </DialogContent>
                   </Dialog>
                 )}
+                {datasets.length > 1 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" title="Active dataset">
+                        <Database className="mr-1 h-4 w-4" />
+                        {activeDatasetName}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel>Active dataset</DropdownMenuLabel>
+                      <DropdownMenuRadioGroup value={activeDatasetName ?? undefined} onValueChange={selectDataset}>
+                        {datasets.map((dataset) => (
+                          <DropdownMenuRadioItem key={dataset.name} value={dataset.name}>
+                            {dataset.name}
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              {dataset.fileName}, {dataset.rowCount} rows
+                            </span>
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                {datasetId && (
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button variant="ghost" size="icon" title="Applied steps">
+                        <ListOrdered className="h-4 w-4" />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-96" align="end">
+                      <DatasetSteps datasetId={datasetId} refreshKey={datasetRevision} />
+                    </PopoverContent>
+                  </Popover>
+                )}
                 <OpenAISettingsDialog />
                 <SystemPromptDialog />
               </div>
             }
           >
-            {props.showIngestForm && !csvData && (
+            {/* More CSV files can be added to the chat; documents are uploaded once */}
+            {props.showIngestForm && (!csvData || props.uploadType === "csv") && (
               <>
                 {props.uploadType === "document" && (
                   <Dialog>
@@ -943,7 +1274,38 @@ What would you like to know about your data?`,
                           Upload a document to use for the chat.
                         </DialogDescription>
                       </DialogHeader>
-                      <UploadDocumentsForm />
+                      <UploadDocumentsForm collections={collections} onUploaded={fetchCollections} />
+                    </DialogContent>
+                  </Dialog>
+                )}
+                {props.uploadType === "document" && session && (
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        className="pl-2 pr-3 -ml-2"
+                        disabled={chat.isLoading}
+                      >
+                        <Library className="size-4" />
+                        <span>
+                          {selectedCollectionIds.length
+                            ? `${selectedCollectionIds.length} collection${selectedCollectionIds.length === 1 ? "" : "s"}`
+                            : "All collections"}
+                        </span>
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Collections</DialogTitle>
+                        <DialogDescription>
+                          Choose which of your document collections the answers draw from.
+                        </DialogDescription>
+                      </DialogHeader>
+                      <CollectionPicker
+                        collections={collections}
+                        selectedIds={selectedCollectionIds}
+                        onChange={setSelectedCollectionIds}
+                      />
                     </DialogContent>
                   </Dialog>
                 )}
@@ -953,23 +1315,100 @@ What would you like to know about your data?`,
                       <Button
                         variant="ghost"
                         className="pl-2 pr-3 -ml-2"
-                        disabled={chat.messages.length > 1}
+                        disabled={chat.isLoading || intermediateStepsLoading}
                       >
                         <FileSpreadsheet className="size-4" />
-                        <span>Upload CSV</span>
+                        <span>{datasets.length ? "Add CSV" : "Upload CSV"}</span>
                       </Button>
                     </DialogTrigger>
                     <DialogContent>
                       <DialogHeader>
                         <DialogTitle>Upload CSV</DialogTitle>
                         <DialogDescription>
-                          Upload a CSV file to use for the chat.
+                          Upload a CSV or Excel (.xlsx) file to use for the chat.
                         </DialogDescription>
                       </DialogHeader>
                       <UploadCSVForm onCSVUploaded={handleCSVUploaded} />
                     </DialogContent>
                   </Dialog>
                 )}
+                {props.uploadType === "csv" && csvData && (
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        className="pl-2 pr-3 -ml-2"
+                        disabled={chat.isLoading || intermediateStepsLoading}
+                        title={ruleSet ? `Rule set: ${ruleSet.fileName}` : undefined}
+                      >
+                        <ShieldCheck className="size-4" />
+                        <span>{ruleSet ? "Replace rules" : "Upload rules"}</span>
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Upload validation rules</DialogTitle>
+                        <DialogDescription>
+                          Load a JSON or YAML rule set the agent checks the data against with the validate operation.
+                        </DialogDescription>
+                      </DialogHeader>
+                      <UploadRulesForm onRulesLoaded={handleRulesLoaded} />
+                    </DialogContent>
+                  </Dialog>
+                )}
+                {props.uploadType === "csv" && activeDataset && (
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        className="pl-2 pr-3 -ml-2"
+                        disabled={chat.isLoading || intermediateStepsLoading}
+                      >
+                        <Lock className="size-4" />
+                        <span>Privacy</span>
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Personal data in {activeDataset.name}</DialogTitle>
+                        <DialogDescription>
+                          Choose how each column is protected before any of its content is sent to the assistant.
+                        </DialogDescription>
+                      </DialogHeader>
+                      <PiiPolicyForm
+                        key={activeDataset.name}
+                        findings={activeDataset.piiFindings}
+                        policy={activeDataset.piiPolicy}
+                        onPolicyChange={handlePiiPolicyChange}
+                      />
+                    </DialogContent>
+                  </Dialog>
+                )}
+                {props.uploadType === "csv" && (
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        className="pl-2 pr-3 -ml-2"
+                        disabled={chat.isLoading || intermediateStepsLoading}
+                      >
+                        <ListOrdered className="size-4" />
+                        <span>Replay recipe</span>
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Replay a cleaning recipe</DialogTitle>
+                        <DialogDescription>
+                          Apply the steps exported from an earlier chat to a new CSV file. Steps that no longer apply are skipped and reported.
+                        </DialogDescription>
+                      </DialogHeader>
+                      <ReplayRecipeForm
+                        onReplayed={(result) => handleCSVUploaded(result.csvData, result.fileName, result)}
+                      />
+                    </DialogContent>
+                  </Dialog>
+                )}
               </>
             )}
           </ChatInput>
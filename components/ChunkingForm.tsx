@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { SupportedTextSplitterLanguages, type SupportedTextSplitterLanguage } from "@langchain/textsplitters";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { LoaderCircle } from "lucide-react";
+import {
+  CHUNKING_STRATEGIES,
+  CHUNK_SIZE_UNITS,
+  DEFAULT_CHUNKING,
+  type ChunkingConfig,
+  type ChunkingStrategy,
+  type ChunkSizeUnit,
+} from "@/lib/documents/chunkingConfig";
+
+const STRATEGY_LABELS: Record<ChunkingStrategy, string> = {
+  recursive: "Paragraphs and lines",
+  markdown: "Headings, then paragraphs",
+  sentence: "Whole sentences",
+  code: "Source code",
+};
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface ChunkingFormProps {
+  chunking: ChunkingConfig | null;
+  // Resolves to false when the settings were rejected, keeping the form as it is
+  onChunkingChange: (chunking: ChunkingConfig) => Promise<boolean>;
+}
+
+// Chooses how documents uploaded to a collection are split into chunks
+export function ChunkingForm({ chunking, onChunkingChange }: ChunkingFormProps) {
+  const [draft, setDraft] = useState<ChunkingConfig>(chunking ?? DEFAULT_CHUNKING);
+  const [useParents, setUseParents] = useState(!!chunking?.parentChunkSize);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { language, parentChunkSize, ...rest } = draft;
+      await onChunkingChange({
+        ...rest,
+        ...(draft.strategy === "code" ? { language: language ?? "js" } : {}),
+        ...(useParents ? { parentChunkSize: parentChunkSize ?? draft.chunkSize * 4 } : {}),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const numberField = (field: "chunkSize" | "chunkOverlap" | "parentChunkSize", label: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`chunking-${field}`}>{label}</Label>
+      <Input
+        id={`chunking-${field}`}
+        type="number"
+        min={field === "chunkOverlap" ? 0 : 1}
+        value={draft[field] ?? (field === "parentChunkSize" ? draft.chunkSize * 4 : "")}
+        onChange={(e) => setDraft({ ...draft, [field]: e.target.valueAsNumber })}
+        disabled={isSaving}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="chunking-strategy">Split at</Label>
+          <select
+            id="chunking-strategy"
+            value={draft.strategy}
+            onChange={(e) => setDraft({ ...draft, strategy: e.target.value as ChunkingStrategy })}
+            disabled={isSaving}
+            className={selectClassName}
+          >
+            {CHUNKING_STRATEGIES.map((strategy) => (
+              <option key={strategy} value={strategy}>
+                {STRATEGY_LABELS[strategy]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {draft.strategy === "code" && (
+          <div className="space-y-1">
+            <Label htmlFor="chunking-language">Language</Label>
+            <select
+              id="chunking-language"
+              value={draft.language ?? "js"}
+              onChange={(e) => setDraft({ ...draft, language: e.target.value as SupportedTextSplitterLanguage })}
+              disabled={isSaving}
+              className={selectClassName}
+            >
+              {SupportedTextSplitterLanguages.map((language) => (
+                <option key={language} value={language}>
+                  {language}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor="chunking-unit">Sizes in</Label>
+          <select
+            id="chunking-unit"
+            value={draft.unit}
+            onChange={(e) => setDraft({ ...draft, unit: e.target.value as ChunkSizeUnit })}
+            disabled={isSaving}
+            className={selectClassName}
+          >
+            {CHUNK_SIZE_UNITS.map((unit) => (
+              <option key={unit} value={unit}>
+                {unit}
+              </option>
+            ))}
+          </select>
+        </div>
+        {numberField("chunkSize", "Chunk size")}
+        {numberField("chunkOverlap", "Overlap")}
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={useParents}
+            onChange={(e) => setUseParents(e.target.checked)}
+            disabled={isSaving}
+          />
+          Answer from larger parent chunks
+        </label>
+        {useParents && numberField("parentChunkSize", "Parent chunk size")}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Token sizes match what the embedding model counts. With parent chunks, the small chunks are searched and the
+        parent each match belongs to is what the assistant reads. Documents already in the collection keep their chunks
+        until you re-ingest them.
+      </p>
+
+      <Button onClick={handleSave} disabled={isSaving} className="w-full">
+        {isSaving ? (
+          <>
+            <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          "Save Chunking"
+        )}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { Checkbox } from "./ui/checkbox";
+
+export interface CollectionOption {
+  id: string;
+  name: string;
+}
+
+interface CollectionPickerProps {
+  collections: CollectionOption[];
+  // Empty means every collection
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+  disabled?: boolean;
+}
+
+// Chooses which of the user's document collections the chat draws its answers from
+export function CollectionPicker({ collections, selectedIds, onChange, disabled }: CollectionPickerProps) {
+  if (!collections.length) {
+    return <p className="text-sm text-muted-foreground">Upload a document to start your first collection.</p>;
+  }
+
+  const toggle = (id: string, checked: boolean) => {
+    const current = selectedIds.length ? selectedIds : collections.map((collection) => collection.id);
+    const next = checked ? [...current, id] : current.filter((selected) => selected !== id);
+    // At least one collection stays ticked; ticking all of them also includes collections made later
+    if (next.length) {
+      onChange(next.length === collections.length ? [] : next);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="collection-all"
+          checked={!selectedIds.length}
+          disabled={disabled}
+          onCheckedChange={(checked) => checked && onChange([])}
+        />
+        <label htmlFor="collection-all" className="text-sm font-medium">
+          All collections
+        </label>
+      </div>
+      <div className="space-y-2 max-h-80 overflow-auto pl-6">
+        {collections.map((collection) => (
+          <div key={collection.id} className="flex items-center gap-2">
+            <Checkbox
+              id={`collection-${collection.id}`}
+              checked={!selectedIds.length || selectedIds.includes(collection.id)}
+              disabled={disabled}
+              onCheckedChange={(checked) => toggle(collection.id, !!checked)}
+            />
+            <label htmlFor={`collection-${collection.id}`} className="text-sm">
+              {collection.name}
+            </label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { DataTable } from "@/components/ui/DataTable";
+import {
+  overviewLines,
+  reportTables,
+  reportToHtml,
+  reportToMarkdown,
+  type DataQualityReport as Report,
+} from "@/lib/csv/report";
+
+const DOWNLOAD_FORMATS = {
+  markdown: { label: "Markdown", extension: "md", type: "text/markdown" },
+  html: { label: "HTML", extension: "html", type: "text/html" },
+  json: { label: "JSON", extension: "json", type: "application/json" },
+} as const;
+
+type DownloadFormat = keyof typeof DOWNLOAD_FORMATS;
+
+function downloadReport(report: Report, format: DownloadFormat) {
+  const { extension, type } = DOWNLOAD_FORMATS[format];
+  const content =
+    format === "markdown"
+      ? reportToMarkdown(report)
+      : format === "html"
+        ? reportToHtml(report)
+        : JSON.stringify(report, null, 2);
+  const baseName = report.source.fileName?.replace(/\.[^.]+$/, "") || "data";
+
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${baseName}_quality_report.${extension}`;
+  link.style.display = "none";
+  document.body.appendChild(link);
+  link.click();
+  setTimeout(() => {
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    toast.success(`Report downloaded as ${DOWNLOAD_FORMATS[format].label}`);
+  }, 100);
+}
+
+// Renders a generate_report result attached to an agent reply
+export function DataQualityReport({ report }: { report: Report }) {
+  const { columnHeadings, actionHeadings, columns, actions } = reportTables(report);
+
+  return (
+    <div className="not-prose my-4 flex flex-col gap-4 rounded-md border p-4 text-sm">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-base font-semibold">{report.title}</h3>
+          <p className="text-muted-foreground">
+            Generated {new Date(report.generatedAt).toLocaleString()}
+            {report.source.version ? ` from version ${report.source.version}` : ""}
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(DOWNLOAD_FORMATS) as DownloadFormat[]).map((format) => (
+            <Button key={format} variant="outline" size="sm" onClick={() => downloadReport(report, format)}>
+              <Download className="mr-1 h-4 w-4" />
+              {DOWNLOAD_FORMATS[format].label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <ul className="grid grid-cols-2 gap-1 md:grid-cols-3">
+        {overviewLines(report).map((line) => (
+          <li key={line}>{line}</li>
+        ))}
+      </ul>
+
+      <section>
+        <h4 className="mb-1 font-medium">Issues found</h4>
+        {report.issues.length ? (
+          <ul className="list-disc pl-5">
+            {report.issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-muted-foreground">No issues found.</p>
+        )}
+      </section>
+
+      <section>
+        <h4 className="mb-1 font-medium">Columns</h4>
+        <DataTable headers={columnHeadings} rows={columns} maxRows={columns.length} />
+      </section>
+
+      <section>
+        <h4 className="mb-1 font-medium">Actions taken</h4>
+        {actions.length ? (
+          <DataTable headers={actionHeadings} rows={actions} maxRows={actions.length} />
+        ) : (
+          <p className="text-muted-foreground">No cleaning steps have been applied.</p>
+        )}
+      </section>
+
+      {report.recommendations.length > 0 && (
+        <section>
+          <h4 className="mb-1 font-medium">Recommendations</h4>
+          <ul className="list-disc pl-5">
+            {report.recommendations.map((item) => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
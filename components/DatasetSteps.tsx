@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Download, FileDown, LoaderCircle, Redo2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/utils/cn";
+
+interface DatasetStep {
+  version: number;
+  operation: string;
+  parameters: Record<string, unknown> | null;
+  rowCount: number;
+  rowsAffected: number | null;
+  cellsAffected: number | null;
+}
+
+interface DatasetStepsProps {
+  datasetId: string;
+  // Changes whenever the agent may have added or undone steps
+  refreshKey: number;
+}
+
+function describeParameters(parameters: DatasetStep["parameters"]): string {
+  return Object.entries(parameters ?? {})
+    .filter(([key]) => key !== "operation" && key !== "cluster_values")
+    .map(([key, value]) => `${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`)
+    .join(", ");
+}
+
+// Lists the cleaning steps applied to a stored dataset, with undo, redo, recipe export
+// and a download of the current version with tokenized personal data restored
+export function DatasetSteps({ datasetId, refreshKey }: DatasetStepsProps) {
+  const [steps, setSteps] = useState<DatasetStep[]>([]);
+  const [headVersion, setHeadVersion] = useState(1);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const loadSteps = useCallback(async () => {
+    const response = await fetch(`/api/datasets/${datasetId}`);
+    if (!response.ok) return;
+    const dataset = await response.json();
+    setSteps(dataset.versions);
+    setHeadVersion(dataset.headVersion);
+  }, [datasetId]);
+
+  useEffect(() => {
+    loadSteps();
+  }, [loadSteps, refreshKey]);
+
+  const moveHead = async (action: "undo" | "redo") => {
+    setIsUpdating(true);
+    try {
+      const response = await fetch(`/api/datasets/${datasetId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        toast.error(json.error);
+        return;
+      }
+      await loadSteps();
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Applied steps</h3>
+        <div className="flex items-center gap-1">
+          {isUpdating && <LoaderCircle className="h-4 w-4 animate-spin" />}
+          <Button variant="ghost" size="icon" title="Download current version" asChild>
+            <a href={`/api/datasets/${datasetId}?format=csv`} download>
+              <Download className="h-4 w-4" />
+            </a>
+          </Button>
+          {headVersion > 1 ? (
+            <Button variant="ghost" size="icon" title="Export recipe" asChild>
+              <a href={`/api/datasets/${datasetId}/recipe`} download>
+                <FileDown className="h-4 w-4" />
+              </a>
+            </Button>
+          ) : (
+            <Button variant="ghost" size="icon" title="Export recipe" disabled>
+              <FileDown className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Undo"
+            disabled={isUpdating || headVersion <= 1}
+            onClick={() => moveHead("undo")}
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Redo"
+            disabled={isUpdating || headVersion >= steps.length}
+            onClick={() => moveHead("redo")}
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <ol className="flex flex-col gap-2 text-sm max-h-80 overflow-auto">
+        {steps.map((step) => (
+          <li
+            key={step.version}
+            className={cn(
+              "rounded border border-input p-2",
+              step.version === headVersion && "border-primary",
+              step.version > headVersion && "opacity-50 line-through",
+            )}
+          >
+            <div className="flex justify-between gap-2">
+              <span className="font-mono">
+                v{step.version} {step.operation}
+              </span>
+              <span className="text-muted-foreground">{step.rowCount} rows</span>
+            </div>
+            {describeParameters(step.parameters) && (
+              <div className="text-muted-foreground break-words">{describeParameters(step.parameters)}</div>
+            )}
+            {step.cellsAffected !== null && (
+              <div className="text-muted-foreground">
+                {step.cellsAffected} cells in {step.rowsAffected} rows changed
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
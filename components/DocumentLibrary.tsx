@@ -0,0 +1,344 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { LoaderCircle, Pencil, RefreshCw, Settings2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChunkingForm } from "@/components/ChunkingForm";
+import type { ChunkingConfig } from "@/lib/documents/chunkingConfig";
+
+interface LibraryDocument {
+  id: string;
+  title: string;
+  fileName: string | null;
+  sourceType: string;
+  size: number;
+  chunkCount: number;
+  embeddingModel: string;
+  createdAt: string;
+  collection: { id: string; name: string };
+}
+
+interface LibraryCollection {
+  id: string;
+  name: string;
+  chunking: ChunkingConfig | null;
+}
+
+interface DocumentChunk {
+  id: string;
+  index: number;
+  content: string;
+  metadata: { page?: number; section?: string };
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Where a chunk came from, e.g. "page 3" or "Setup > Install"
+function describeChunkSource(chunk: DocumentChunk): string {
+  return [chunk.metadata.page !== undefined ? `page ${chunk.metadata.page}` : "", chunk.metadata.section ?? ""]
+    .filter(Boolean)
+    .join(", ");
+}
+
+// Lists the user's ingested documents with their chunks, and renames, re-ingests or deletes them
+export function DocumentLibrary() {
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [collections, setCollections] = useState<LibraryCollection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [collectionId, setCollectionId] = useState("");
+  // Document whose action is running, so its buttons can show progress
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
+  const [viewing, setViewing] = useState<{ document: LibraryDocument; chunks: DocumentChunk[] } | null>(null);
+  const [isChunkingOpen, setIsChunkingOpen] = useState(false);
+
+  const loadDocuments = useCallback(async () => {
+    try {
+      const [documentsResponse, collectionsResponse] = await Promise.all([
+        fetch("/api/documents"),
+        fetch("/api/collections"),
+      ]);
+      if (documentsResponse.ok) {
+        setDocuments(await documentsResponse.json());
+      }
+      if (collectionsResponse.ok) {
+        setCollections(await collectionsResponse.json());
+      }
+    } catch (error) {
+      console.error("Error fetching documents:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  const selectedCollection = collections.find((collection) => collection.id === collectionId);
+  const shown = collectionId ? documents.filter((document) => document.collection.id === collectionId) : documents;
+
+  // Runs a document action and replaces the document with the one returned
+  const runAction = async (id: string, request: Promise<Response>, success: string) => {
+    setBusyId(id);
+    try {
+      const response = await request;
+      const json = await response.json();
+      if (!response.ok) {
+        toast.error(json.error);
+        return false;
+      }
+      setDocuments((current) => current.map((document) => (document.id === id ? json : document)));
+      toast.success(success);
+      return true;
+    } catch (error) {
+      console.error("Document action failed:", error);
+      toast.error("Something went wrong. Please try again.");
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const rename = async () => {
+    if (!editing) return;
+    const renamed = await runAction(
+      editing.id,
+      fetch(`/api/documents/${editing.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: editing.title }),
+      }),
+      "Document renamed",
+    );
+    if (renamed) setEditing(null);
+  };
+
+  const reingest = (document: LibraryDocument) =>
+    runAction(document.id, fetch(`/api/documents/${document.id}/reingest`, { method: "POST" }), `"${document.title}" re-ingested`);
+
+  const remove = async (document: LibraryDocument) => {
+    if (!window.confirm(`Delete "${document.title}" and its ${document.chunkCount} chunks?`)) return;
+    setBusyId(document.id);
+    try {
+      const response = await fetch(`/api/documents/${document.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        toast.error((await response.json()).error);
+        return;
+      }
+      setDocuments((current) => current.filter((candidate) => candidate.id !== document.id));
+      toast.success("Document deleted");
+    } catch (error) {
+      console.error("Error deleting document:", error);
+      toast.error("Failed to delete the document. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const saveChunking = async (chunking: ChunkingConfig) => {
+    if (!selectedCollection) return false;
+    try {
+      const response = await fetch(`/api/collections/${selectedCollection.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chunking }),
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        toast.error(json.error);
+        return false;
+      }
+      setCollections((current) => current.map((collection) => (collection.id === json.id ? json : collection)));
+      setIsChunkingOpen(false);
+      toast.success(`Chunking of "${json.name}" saved`);
+      return true;
+    } catch (error) {
+      console.error("Error saving chunking:", error);
+      toast.error("Failed to save the chunking. Please try again.");
+      return false;
+    }
+  };
+
+  const viewChunks = async (document: LibraryDocument) => {
+    const response = await fetch(`/api/documents/${document.id}`);
+    if (!response.ok) {
+      toast.error("Failed to load the chunks");
+      return;
+    }
+    const json = await response.json();
+    setViewing({ document, chunks: json.chunks });
+  };
+
+  if (isLoading) {
+    return <LoaderCircle className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />;
+  }
+
+  if (!documents.length) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No documents yet. Upload some from the RAG Chat page and they will be listed here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <select
+          value={collectionId}
+          onChange={(e) => setCollectionId(e.target.value)}
+          className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+        >
+          <option value="">All collections</option>
+          {collections.map((collection) => (
+            <option key={collection.id} value={collection.id}>
+              {collection.name}
+            </option>
+          ))}
+        </select>
+        {selectedCollection && (
+          <Button variant="outline" size="sm" onClick={() => setIsChunkingOpen(true)}>
+            <Settings2 className="mr-2 h-4 w-4" />
+            Chunking
+          </Button>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Title</TableHead>
+            <TableHead>Collection</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead className="text-right">Size</TableHead>
+            <TableHead className="text-right">Chunks</TableHead>
+            <TableHead>Ingested</TableHead>
+            <TableHead>Embedding model</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {shown.map((document) => (
+            <TableRow key={document.id}>
+              <TableCell className="font-medium">
+                {editing?.id === document.id ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      rename();
+                    }}
+                    className="flex gap-2"
+                  >
+                    <Input
+                      value={editing.title}
+                      autoFocus
+                      onChange={(e) => setEditing({ id: document.id, title: e.target.value })}
+                      onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+                      disabled={busyId === document.id}
+                      className="h-8"
+                    />
+                    <Button type="submit" size="sm" disabled={busyId === document.id}>
+                      Save
+                    </Button>
+                  </form>
+                ) : (
+                  <button type="button" className="text-left hover:underline" onClick={() => viewChunks(document)}>
+                    {document.title}
+                  </button>
+                )}
+              </TableCell>
+              <TableCell>{document.collection.name}</TableCell>
+              <TableCell className="uppercase text-xs">{document.sourceType}</TableCell>
+              <TableCell className="text-right">{formatSize(document.size)}</TableCell>
+              <TableCell className="text-right">{document.chunkCount}</TableCell>
+              <TableCell>{new Date(document.createdAt).toLocaleString()}</TableCell>
+              <TableCell className="text-xs text-muted-foreground">{document.embeddingModel}</TableCell>
+              <TableCell>
+                <div className="flex justify-end gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Rename"
+                    disabled={busyId === document.id}
+                    onClick={() => setEditing({ id: document.id, title: document.title })}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Re-ingest"
+                    disabled={busyId === document.id}
+                    onClick={() => reingest(document)}
+                  >
+                    <RefreshCw className={`h-4 w-4 ${busyId === document.id ? "animate-spin" : ""}`} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Delete"
+                    disabled={busyId === document.id}
+                    onClick={() => remove(document)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={isChunkingOpen} onOpenChange={setIsChunkingOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Chunking of {selectedCollection?.name}</DialogTitle>
+            <DialogDescription>How documents uploaded to this collection are split before they are embedded</DialogDescription>
+          </DialogHeader>
+          {selectedCollection && (
+            <ChunkingForm
+              key={selectedCollection.id}
+              chunking={selectedCollection.chunking}
+              onChunkingChange={saveChunking}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{viewing?.document.title}</DialogTitle>
+            <DialogDescription>
+              {viewing?.chunks.length} chunks as they were embedded
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] space-y-3 overflow-auto">
+            {viewing?.chunks.map((chunk) => (
+              <div key={chunk.id} className="rounded-md border p-3 text-sm">
+                <p className="mb-1 text-xs text-muted-foreground">
+                  #{chunk.index + 1}
+                  {describeChunkSource(chunk) && ` · ${describeChunkSource(chunk)}`}
+                </p>
+                <p className="whitespace-pre-wrap">{chunk.content}</p>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
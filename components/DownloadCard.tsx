@@ -0,0 +1,98 @@
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { useState } from "react";
+import { XLSX_MIME_TYPE } from "@/lib/csv/format";
+import type { DownloadAttachment } from "@/lib/csv/attachments";
+
+interface DownloadCardProps {
+  download: Partial<DownloadAttachment> & { download_link: string };
+}
+
+// A file prepared by the csv_processor tool: a link to the datasets or attachments API, or a data URL
+export function DownloadCard({ download }: DownloadCardProps) {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const fileName = download.file_name || `cleaned_data.${download.file_format === 'excel' ? 'xlsx' : 'csv'}`;
+
+  // Function to handle download properly
+  const handleDownload = (e: React.MouseEvent) => {
+    e.preventDefault(); // Prevent default button behavior
+    e.stopPropagation(); // Stop event propagation
+
+    setIsDownloading(true);
+
+    try {
+      // Get the data URL
+      const dataUrl = download.download_link;
+
+      // Stored datasets are served by the datasets API, which restores tokenized values, and
+      // other files by the attachments API
+      if (dataUrl.startsWith('/api/')) {
+        const link = document.createElement('a');
+        link.href = dataUrl;
+        link.download = fileName;
+        link.click();
+        setIsDownloading(false);
+        return;
+      }
+
+      // Extract base64 data - remove the data:text/csv;base64, part
+      const base64Data = dataUrl.split(',')[1];
+      if (!base64Data) {
+        throw new Error("Invalid data URL format");
+      }
+
+      // Decode base64 to binary
+      const binaryData = atob(base64Data);
+
+      // Convert binary to Uint8Array
+      const bytes = new Uint8Array(binaryData.length);
+      for (let i = 0; i < binaryData.length; i++) {
+        bytes[i] = binaryData.charCodeAt(i);
+      }
+
+      // Create a blob from the bytes
+      const blob = new Blob(
+        [bytes],
+        { type: download.file_format === 'excel' ? XLSX_MIME_TYPE : 'text/csv' }
+      );
+
+      // Create a URL for the blob
+      const url = URL.createObjectURL(blob);
+
+      // Create a download link and click it
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.style.display = 'none';
+      document.body.appendChild(link);
+      link.click();
+
+      // Clean up
+      setTimeout(() => {
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+        setIsDownloading(false);
+        toast.success(`File "${fileName}" downloaded successfully`);
+      }, 100);
+    } catch (error) {
+      console.error("Download error:", error);
+      setIsDownloading(false);
+      toast.error("Failed to download file. Please try again.");
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-md bg-gray-50 dark:bg-gray-800">
+      <p className="mb-4">{download.message || "Your data is ready to download"}</p>
+      <Button
+        onClick={handleDownload}
+        className="flex items-center"
+        disabled={isDownloading}
+      >
+        <Download className="mr-2 h-4 w-4" />
+        {isDownloading ? "Downloading..." : `Download ${download.file_format ? download.file_format.toUpperCase() : 'CSV'}`}
+      </Button>
+    </div>
+  );
+}
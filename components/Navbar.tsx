@@ -46,6 +46,16 @@ export function Navbar() {
             >
               RAG Chat
             </Link>
+            {session?.user && (
+              <Link
+                href="/documents"
+                className={`transition-colors hover:text-foreground/80 ${
+                  isActive("/documents") ? "text-foreground" : "text-foreground/60"
+                }`}
+              >
+                Documents
+              </Link>
+            )}
           </nav>
         </div>
 
@@ -0,0 +1,103 @@
+import { useState, useRef } from "react";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { LoaderCircle } from "lucide-react";
+import { DialogClose } from "@/components/ui/dialog";
+import { PII_ACTIONS, PII_KIND_LABELS, type PiiAction, type PiiFinding, type PiiPolicy } from "@/lib/csv/pii";
+
+const ACTION_LABELS: Record<PiiAction, string> = {
+  none: "Send as is",
+  mask: "Mask",
+  hash: "Hash",
+  tokenize: "Tokenize",
+};
+
+interface PiiPolicyFormProps {
+  findings: PiiFinding[];
+  policy: PiiPolicy;
+  // Resolves to false when the policy could not be applied, keeping the dialog open
+  onPolicyChange?: (policy: PiiPolicy) => Promise<boolean>;
+}
+
+function describeFindings(findings: PiiFinding[]): string {
+  return findings
+    .map((finding) =>
+      finding.scope === "column"
+        ? `${PII_KIND_LABELS[finding.kind]}s (${finding.cells} cells)`
+        : `${PII_KIND_LABELS[finding.kind]}s inside ${finding.cells} cell${finding.cells === 1 ? "" : "s"}`,
+    )
+    .join(", ");
+}
+
+// Chooses how each column with personal data is protected before the assistant sees it
+export function PiiPolicyForm({ findings, policy, onPolicyChange }: PiiPolicyFormProps) {
+  const [draft, setDraft] = useState<PiiPolicy>(policy);
+  const [isSaving, setIsSaving] = useState(false);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const columns = Array.from(new Set([...findings.map((finding) => finding.column), ...Object.keys(policy)]));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      if ((await onPolicyChange?.(draft)) !== false) {
+        // Close the dialog
+        closeButtonRef.current?.click();
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!columns.length) {
+    return <p className="text-sm text-muted-foreground">No emails, phone numbers, card numbers, national IDs or names were found in this dataset.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3 max-h-80 overflow-auto">
+        {columns.map((column) => (
+          <div key={column} className="space-y-1">
+            <Label htmlFor={`pii-${column}`} className="font-mono">
+              {column}
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              {describeFindings(findings.filter((finding) => finding.column === column)) || "Chosen earlier"}
+            </p>
+            <select
+              id={`pii-${column}`}
+              value={draft[column] ?? "none"}
+              onChange={(e) => setDraft({ ...draft, [column]: e.target.value as PiiAction })}
+              disabled={isSaving}
+              className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            >
+              {PII_ACTIONS.map((action) => (
+                <option key={action} value={action}>
+                  {ACTION_LABELS[action]}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Mask keeps a hint such as <code>j***@example.com</code> and can&apos;t be undone. Hash replaces values with a
+        keyed hash, so equal values still match. Tokenize does the same with tokens that are restored in your copy of the
+        data and in downloads.
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <DialogClose ref={closeButtonRef} className="hidden" />
+        <Button onClick={handleSave} disabled={isSaving} className="w-full">
+          {isSaving ? (
+            <>
+              <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+              Applying...
+            </>
+          ) : (
+            "Apply Policy"
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
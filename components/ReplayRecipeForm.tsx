@@ -0,0 +1,124 @@
+import { useState, useRef } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { LoaderCircle } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { DialogClose } from "@/components/ui/dialog";
+
+export interface ReplayedStep {
+  step: number;
+  operation: string;
+  status: "applied" | "unchanged" | "skipped";
+  message: string;
+  rowCount: number;
+}
+
+export interface ReplayResult {
+  datasetId: string;
+  fileName: string;
+  csvData: string;
+  steps: ReplayedStep[];
+}
+
+interface ReplayRecipeFormProps {
+  onReplayed?: (result: ReplayResult) => void;
+}
+
+// Applies an exported cleaning recipe to a new CSV file on the server, without the model
+export function ReplayRecipeForm({ onReplayed }: ReplayRecipeFormProps) {
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [recipeFile, setRecipeFile] = useState<File | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const { toast } = useToast();
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  const handleReplay = async () => {
+    if (!csvFile || !recipeFile) return;
+
+    setIsReplaying(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", csvFile);
+      formData.append("recipe", recipeFile);
+      const response = await fetch("/api/recipes/replay", { method: "POST", body: formData });
+      const json = await response.json();
+      if (!response.ok) {
+        toast({
+          title: "Error",
+          description: json.error,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const result = json as ReplayResult;
+      const skipped = result.steps.filter((step) => step.status === "skipped").length;
+      toast({
+        title: skipped ? "Recipe replayed with skipped steps" : "Recipe replayed",
+        description: `${result.steps.length - skipped} of ${result.steps.length} steps applied to ${result.fileName}`,
+      });
+      onReplayed?.(result);
+      setCsvFile(null);
+      setRecipeFile(null);
+
+      // Close the dialog
+      closeButtonRef.current?.click();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to replay the recipe. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="replay-csv-file">CSV File</Label>
+        <Input
+          id="replay-csv-file"
+          type="file"
+          accept=".csv"
+          onChange={(e) => setCsvFile(e.target.files?.[0] ?? null)}
+          disabled={isReplaying}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="replay-recipe-file">Recipe</Label>
+        <Input
+          id="replay-recipe-file"
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => setRecipeFile(e.target.files?.[0] ?? null)}
+          disabled={isReplaying}
+        />
+        <p className="text-xs text-muted-foreground">
+          A recipe exported from the applied steps of an earlier chat.
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <DialogClose ref={closeButtonRef} className="hidden" />
+        <Button
+          onClick={handleReplay}
+          disabled={!csvFile || !recipeFile || isReplaying}
+          className="w-full"
+        >
+          {isReplaying ? (
+            <>
+              <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+              Replaying...
+            </>
+          ) : (
+            "Replay Recipe"
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { DataTable } from "@/components/ui/DataTable";
+import { formatCSV } from "@/lib/csv/format";
+import type { TableAttachment } from "@/lib/csv/attachments";
+
+// Rows shown before the "Showing n of m rows" footer
+const VISIBLE_ROWS = 50;
+
+function downloadTable(table: TableAttachment) {
+  const baseName = table.title.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "") || "result";
+  const url = URL.createObjectURL(new Blob([formatCSV(table.headers, table.rows)], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${baseName}.csv`;
+  link.style.display = "none";
+  document.body.appendChild(link);
+  link.click();
+  setTimeout(() => {
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    toast.success("Table downloaded as CSV");
+  }, 100);
+}
+
+// Renders a group_by, pivot, sort or top_n result attached to an agent reply
+export function ResultTable({ table }: { table: TableAttachment }) {
+  const truncated = table.rows.length < table.rowCount;
+
+  return (
+    <div className="not-prose my-4 flex flex-col gap-2 rounded-md border p-4 text-sm">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-base font-semibold">{table.title}</h3>
+          <p className="text-muted-foreground">
+            {table.rowCount} row{table.rowCount === 1 ? "" : "s"} × {table.headers.length} columns
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => downloadTable(table)}>
+          <Download className="mr-1 h-4 w-4" />
+          {truncated ? `CSV (first ${table.rows.length} rows)` : "CSV"}
+        </Button>
+      </div>
+      <DataTable headers={table.headers} rows={table.rows} maxRows={VISIBLE_ROWS} />
+    </div>
+  );
+}
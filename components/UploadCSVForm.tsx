@@ -1,10 +1,13 @@
 import { useState, useRef } from "react";
+import type { Workbook } from "exceljs";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { LoaderCircle } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { DialogClose } from "@/components/ui/dialog";
+import { formatCSV, XLSX_MIME_TYPE } from "@/lib/csv/format";
+import { describeIssueLines, parseCSVStream } from "@/lib/csv/parser";
 
 interface UploadCSVFormProps {
   onCSVUploaded?: (csvContent: string, fileName: string) => void;
@@ -16,24 +19,32 @@ export function UploadCSVForm({ onCSVUploaded }: UploadCSVFormProps) {
   const [uploadProgress, setUploadProgress] = useState(0);
   const { toast } = useToast();
   const closeButtonRef = useRef<HTMLButtonElement>(null);
+  // Parsed Excel workbook, kept while the user picks a sheet
+  const workbookRef = useRef<Workbook | null>(null);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState("");
   const MAX_FILE_SIZE_MB = 10;
   
+  const isExcelFile = (file: File) => file.name.toLowerCase().endsWith('.xlsx');
+
   const validateFile = (file: File): { valid: boolean; error?: string } => {
-    // Check file type
-    const validTypes = ['text/csv', 'application/vnd.ms-excel', 'text/plain'];
-    if (!validTypes.includes(file.type)) {
+    // Check file extension
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension !== 'csv' && extension !== 'xlsx') {
       return { 
         valid: false, 
-        error: "Invalid file type. Please upload a CSV file." 
+        error: "File must have a .csv or .xlsx extension." 
       };
     }
     
-    // Check file extension
-    const extension = file.name.split('.').pop()?.toLowerCase();
-    if (extension !== 'csv') {
+    // Check file type (browsers may leave it empty for .xlsx)
+    const validTypes = extension === 'xlsx'
+      ? [XLSX_MIME_TYPE, 'application/octet-stream', '']
+      : ['text/csv', 'application/vnd.ms-excel', 'text/plain'];
+    if (!validTypes.includes(file.type)) {
       return { 
         valid: false, 
-        error: "File must have a .csv extension." 
+        error: "Invalid file type. Please upload a CSV or Excel (.xlsx) file." 
       };
     }
     
@@ -49,12 +60,37 @@ export function UploadCSVForm({ onCSVUploaded }: UploadCSVFormProps) {
     return { valid: true };
   };
 
+  const loadWorkbook = async (selectedFile: File) => {
+    try {
+      const { readWorkbook, listSheetNames } = await import("@/lib/csv/xlsx");
+      const workbook = await readWorkbook(await selectedFile.arrayBuffer());
+      const names = listSheetNames(workbook);
+      if (!names.length) {
+        throw new Error("The workbook has no sheets");
+      }
+      workbookRef.current = workbook;
+      setSheetNames(names);
+      setSelectedSheet(names[0]);
+      setFile(selectedFile);
+    } catch (error) {
+      toast({
+        title: "Invalid file",
+        description: error instanceof Error ? error.message : "Failed to read the Excel workbook",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
+    workbookRef.current = null;
+    setSheetNames([]);
     if (!selectedFile) return;
     
     const validation = validateFile(selectedFile);
-    if (validation.valid) {
+    if (validation.valid && isExcelFile(selectedFile)) {
+      loadWorkbook(selectedFile);
+    } else if (validation.valid) {
       setFile(selectedFile);
     } else {
       toast({
@@ -80,99 +116,65 @@ export function UploadCSVForm({ onCSVUploaded }: UploadCSVFormProps) {
     setIsUploading(true);
     setUploadProgress(0);
 
+    if (isExcelFile(file)) {
+      await handleExcelUpload(file);
+      setIsUploading(false);
+      return;
+    }
+
     try {
-      // Read the file content
-      const reader = new FileReader();
+      // Parse the file as it is read so quoted newlines, BOMs and other delimiters are handled
+      const { headers, data, delimiter, issues } = await parseCSVStream(file.stream(), {
+        onProgress: (bytesRead) => setUploadProgress(Math.round((bytesRead / file.size) * 100)),
+      });
       
-      // Track progress
-      reader.onprogress = (event) => {
-        if (event.lengthComputable) {
-          const progress = Math.round((event.loaded / event.total) * 100);
-          setUploadProgress(progress);
-        }
-      };
+      // Basic content validation
+      if (!headers.length) {
+        toast({
+          title: "Error",
+          description: "The CSV file appears to be empty",
+          variant: "destructive",
+        });
+        return;
+      }
       
-      reader.onload = (event) => {
-        if (event.target?.result) {
-          const csvContent = event.target.result as string;
-          
-          // Basic content validation
-          if (!csvContent.trim()) {
-            toast({
-              title: "Error",
-              description: "The CSV file appears to be empty",
-              variant: "destructive",
-            });
-            return;
-          }
-          
-          // Basic structure validation
-          const lines = csvContent.trim().split('\n');
-          if (lines.length < 1) {
-            toast({
-              title: "Error",
-              description: "The CSV file must contain at least a header row",
-              variant: "destructive",
-            });
-            return;
-          }
-          
-          // Check for CSV format
-          // This is a simple check - the full validation is in the handler component
-          const firstLine = lines[0];
-          if (!firstLine.includes(',')) {
-            toast({
-              title: "Format error",
-              description: "The file doesn't appear to be a valid CSV (no commas detected)",
-              variant: "destructive",
-            });
-            return;
-          }
-          
-          // Security check (basic)
-          const sensitivePatterns = [
-            /<script/i,
-            /javascript:/i,
-            /eval\(/i
-          ];
-          
-          for (const pattern of sensitivePatterns) {
-            if (pattern.test(csvContent)) {
-              toast({
-                title: "Security error",
-                description: "The file contains potentially unsafe content",
-                variant: "destructive",
-              });
-              return;
-            }
-          }
-          
-          // Pass the CSV content to the parent component
-          if (onCSVUploaded) {
-            onCSVUploaded(csvContent, file.name);
-          }
-          
+      // Hand the rest of the app comma-separated text whatever the source delimiter was
+      const csvContent = formatCSV(headers, data);
+      
+      // Security check (basic)
+      const sensitivePatterns = [
+        /<script/i,
+        /javascript:/i,
+        /eval\(/i
+      ];
+      
+      for (const pattern of sensitivePatterns) {
+        if (pattern.test(csvContent)) {
           toast({
-            title: "Success",
-            description: "CSV file loaded successfully",
+            title: "Security error",
+            description: "The file contains potentially unsafe content",
+            variant: "destructive",
           });
-          setFile(null);
-          
-          // Close the dialog
-          closeButtonRef.current?.click();
+          return;
         }
-      };
+      }
       
-      reader.onerror = () => {
-        toast({
-          title: "Error",
-          description: "Failed to read CSV file. Please try again.",
-          variant: "destructive",
-        });
-      };
+      // Pass the CSV content to the parent component
+      if (onCSVUploaded) {
+        onCSVUploaded(csvContent, file.name);
+      }
+      
+      const delimiterName = { ",": "comma", ";": "semicolon", "\t": "tab", "|": "pipe" }[delimiter] ?? delimiter;
+      toast({
+        title: "Success",
+        description: issues.length
+          ? `CSV file loaded (${delimiterName}-separated) with ${issues.length} malformed row(s) at ${describeIssueLines(issues)}`
+          : `CSV file loaded successfully (${delimiterName}-separated)`,
+      });
+      setFile(null);
       
-      // Read the file as text
-      reader.readAsText(file);
+      // Close the dialog
+      closeButtonRef.current?.click();
     } catch (error) {
       toast({
         title: "Error",
@@ -184,21 +186,80 @@ export function UploadCSVForm({ onCSVUploaded }: UploadCSVFormProps) {
     }
   };
 
+  // Excel sheets feed the same pipeline as CSV files once converted to CSV text
+  const handleExcelUpload = async (file: File) => {
+    const worksheet = workbookRef.current?.getWorksheet(selectedSheet);
+    if (!worksheet) {
+      toast({
+        title: "Error",
+        description: "Please select a sheet to load",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { worksheetToRows } = await import("@/lib/csv/xlsx");
+    const { headers, data } = worksheetToRows(worksheet);
+    if (!headers.length) {
+      toast({
+        title: "Error",
+        description: `The sheet "${selectedSheet}" appears to be empty`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploadProgress(100);
+    if (onCSVUploaded) {
+      onCSVUploaded(formatCSV(headers, data), file.name);
+    }
+
+    toast({
+      title: "Success",
+      description: `Sheet "${selectedSheet}" loaded successfully`,
+    });
+    setFile(null);
+    workbookRef.current = null;
+    setSheetNames([]);
+
+    // Close the dialog
+    closeButtonRef.current?.click();
+  };
+
   return (
     <div className="space-y-4">
       <div className="space-y-2">
-        <Label htmlFor="csv-file">CSV File</Label>
+        <Label htmlFor="csv-file">CSV or Excel File</Label>
         <Input
           id="csv-file"
           type="file"
-          accept=".csv"
+          accept=".csv,.xlsx"
           onChange={handleFileChange}
           disabled={isUploading}
         />
         <p className="text-xs text-muted-foreground">
-          Maximum file size: {MAX_FILE_SIZE_MB}MB. Only CSV files are supported.
+          Maximum file size: {MAX_FILE_SIZE_MB}MB. CSV and Excel (.xlsx) files are supported.
         </p>
       </div>
+
+      {sheetNames.length > 1 && (
+        <div className="space-y-2">
+          <Label htmlFor="csv-sheet">Sheet</Label>
+          <select
+            id="csv-sheet"
+            value={selectedSheet}
+            onChange={(e) => setSelectedSheet(e.target.value)}
+            disabled={isUploading}
+            className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          >
+            {sheetNames.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
       
       {isUploading && (
         <div className="space-y-2">
@@ -225,7 +286,7 @@ export function UploadCSVForm({ onCSVUploaded }: UploadCSVFormProps) {
               Processing...
             </>
           ) : (
-            "Load CSV"
+            "Load Data"
           )}
         </Button>
       </div>
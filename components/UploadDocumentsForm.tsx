@@ -1,24 +1,78 @@
 "use client";
 
-import { useState, type FormEvent } from "react";
+import { useRef, useState, type FormEvent } from "react";
 import DEFAULT_RETRIEVAL_TEXT from "@/data/DefaultRetrievalText";
 import { Button } from "./ui/button";
 import { Textarea } from "./ui/textarea";
+import { Input } from "./ui/input";
+import { CheckCircle2, XCircle } from "lucide-react";
+import { Label } from "./ui/label";
+import { DOCUMENT_ACCEPT } from "@/lib/documents/formats";
+import type { CollectionOption } from "./CollectionPicker";
 
-export function UploadDocumentsForm() {
+interface IngestResult {
+  fileName: string;
+  ok: boolean;
+  chunks?: number;
+  error?: string;
+}
+
+interface UploadDocumentsFormProps {
+  // The user's collections, suggested for the collection name
+  collections?: CollectionOption[];
+  onUploaded?: () => void;
+}
+
+export function UploadDocumentsForm({ collections = [], onUploaded }: UploadDocumentsFormProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [collection, setCollection] = useState("");
   const [document, setDocument] = useState(DEFAULT_RETRIEVAL_TEXT);
+  // Files are uploaded instead of the pasted text when any are chosen
+  const [files, setFiles] = useState<File[]>([]);
+  const [results, setResults] = useState<IngestResult[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const ingestFiles = async () => {
+    const formData = new FormData();
+    files.forEach((file) => formData.append("files", file));
+    formData.append("collection", collection);
+    try {
+      const response = await fetch("/api/retrieval/ingest", {
+        method: "POST",
+        body: formData,
+      });
+      const json = await response.json();
+      if (json.results) {
+        setResults(json.results);
+        setFiles([]);
+        if (fileInputRef.current) fileInputRef.current.value = "";
+        onUploaded?.();
+      } else {
+        setResults(files.map((file) => ({ fileName: file.name, ok: false, error: json.error })));
+      }
+    } catch {
+      setResults(files.map((file) => ({ fileName: file.name, ok: false, error: "Upload failed" })));
+    }
+  };
+
   const ingest = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setIsLoading(true);
+    if (files.length) {
+      await ingestFiles();
+      setIsLoading(false);
+      return;
+    }
     const response = await fetch("/api/retrieval/ingest", {
       method: "POST",
       body: JSON.stringify({
         text: document,
+        collection,
       }),
     });
     if (response.status === 200) {
       setDocument("Uploaded!");
+      onUploaded?.();
     } else {
       const json = await response.json();
       if (json.error) {
@@ -29,9 +83,59 @@ export function UploadDocumentsForm() {
   };
   return (
     <form onSubmit={ingest} className="flex flex-col gap-4 w-full">
+      <div className="space-y-1">
+        <Label htmlFor="document-collection">Collection</Label>
+        <Input
+          id="document-collection"
+          list="document-collections"
+          placeholder="default"
+          value={collection}
+          disabled={isLoading}
+          onChange={(e) => setCollection(e.target.value)}
+        />
+        <datalist id="document-collections">
+          {collections.map((option) => (
+            <option key={option.id} value={option.name} />
+          ))}
+        </datalist>
+      </div>
+      <div className="space-y-1">
+        <Input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={DOCUMENT_ACCEPT}
+          disabled={isLoading}
+          onChange={(e) => {
+            setFiles(Array.from(e.target.files ?? []));
+            setResults([]);
+          }}
+        />
+        <p className="text-xs text-muted-foreground">
+          PDF, DOCX, HTML, Markdown, text or CSV files, or paste text below.
+        </p>
+      </div>
+      {results.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {results.map((result, index) => (
+            <li key={index} className="flex items-start gap-2">
+              {result.ok ? (
+                <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+              ) : (
+                <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-500" />
+              )}
+              <span>
+                <span className="font-medium">{result.fileName}</span>
+                {result.ok ? ` (${result.chunks} chunks)` : `: ${result.error}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
       <Textarea
-        className="grow p-4 rounded bg-transparent min-h-[512px]"
+        className="grow p-4 rounded bg-transparent min-h-[384px]"
         value={document}
+        disabled={files.length > 0}
         onChange={(e) => setDocument(e.target.value)}
       />
       <Button type="submit">
@@ -57,7 +161,9 @@ export function UploadDocumentsForm() {
           </svg>
           <span className="sr-only">Loading...</span>
         </div>
-        <span className={isLoading ? "hidden" : ""}>Upload</span>
+        <span className={isLoading ? "hidden" : ""}>
+          {files.length ? `Upload ${files.length} file${files.length === 1 ? "" : "s"}` : "Upload"}
+        </span>
       </Button>
     </form>
   );
@@ -0,0 +1,86 @@
+import { useState, useRef } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { LoaderCircle } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { DialogClose } from "@/components/ui/dialog";
+import { parseRuleSet, RuleError } from "@/lib/csv/rules";
+
+export interface LoadedRuleSet {
+  fileName: string;
+  content: string;
+  ruleCount: number;
+}
+
+interface UploadRulesFormProps {
+  onRulesLoaded?: (ruleSet: LoadedRuleSet) => void;
+}
+
+// Reads a JSON or YAML rule set for the validate operation; it is checked here and sent with each chat request
+export function UploadRulesForm({ onRulesLoaded }: UploadRulesFormProps) {
+  const [rulesFile, setRulesFile] = useState<File | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const { toast } = useToast();
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  const handleLoad = async () => {
+    if (!rulesFile) return;
+
+    setIsReading(true);
+    try {
+      const content = await rulesFile.text();
+      const rules = parseRuleSet(content);
+      toast({
+        title: "Rule set loaded",
+        description: `${rules.length} rule${rules.length === 1 ? "" : "s"} from ${rulesFile.name}`,
+      });
+      onRulesLoaded?.({ fileName: rulesFile.name, content, ruleCount: rules.length });
+      setRulesFile(null);
+
+      // Close the dialog
+      closeButtonRef.current?.click();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof RuleError ? error.message : "Failed to read the rule set. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="rules-file">Rule set</Label>
+        <Input
+          id="rules-file"
+          type="file"
+          accept=".json,.yaml,.yml,application/json"
+          onChange={(e) => setRulesFile(e.target.files?.[0] ?? null)}
+          disabled={isReading}
+        />
+        <p className="text-xs text-muted-foreground">
+          A JSON or YAML list of rules, e.g. <code>- type: unique</code> / <code>column: id</code>. Types: required,
+          unique, format (email, phone, postal_code, regex), allowed_values, range, date_order and references.
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <DialogClose ref={closeButtonRef} className="hidden" />
+        <Button onClick={handleLoad} disabled={!rulesFile || isReading} className="w-full">
+          {isReading ? (
+            <>
+              <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+              Reading...
+            </>
+          ) : (
+            "Load Rules"
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type StoredFile = { id: string; content: Buffer; contentType: string; fileName: string; size: number; userId: string | null; createdAt: Date; expiresAt: Date };
+
+// Just enough of the AttachmentFile table for these tests
+const { files, prisma } = vi.hoisted(() => {
+  const files = new Map<string, StoredFile>();
+  let created = 0;
+  const matches = (file: StoredFile, where: { id?: { in: string[] }; userId?: string | null; expiresAt?: { lte: Date } }) =>
+    (where.id === undefined || where.id.in.includes(file.id)) &&
+    (where.userId === undefined || file.userId === where.userId) &&
+    (where.expiresAt === undefined || file.expiresAt <= where.expiresAt.lte);
+  return {
+    files,
+    prisma: {
+      attachmentFile: {
+        create: vi.fn(async ({ data }: { data: Omit<StoredFile, "id" | "createdAt" | "userId"> & { userId?: string } }) => {
+          created += 1;
+          const id = `file-${created}`;
+          files.set(id, { ...data, id, userId: data.userId ?? null, createdAt: new Date(created) });
+          return { id };
+        }),
+        findUnique: vi.fn(async ({ where }: { where: { id: string } }) => files.get(where.id) ?? null),
+        findMany: vi.fn(async ({ where }: { where: { userId: string | null } }) =>
+          Array.from(files.values())
+            .filter((file) => matches(file, where))
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+        ),
+        deleteMany: vi.fn(async ({ where }: { where: { id?: { in: string[] }; expiresAt?: { lte: Date } } }) => {
+          const deleted = Array.from(files.values()).filter((file) => matches(file, where));
+          deleted.forEach((file) => files.delete(file.id));
+          return { count: deleted.length };
+        }),
+      },
+    },
+  };
+});
+
+vi.mock("@/lib/prisma", () => ({ prisma }));
+
+import { attachmentFileUrl, getAttachmentFile, storeAttachmentFile, storeDataUrl } from "@/lib/attachmentFiles";
+
+const text = (content: Uint8Array | undefined) => (content ? Buffer.from(content).toString() : undefined);
+
+describe("attachment files", () => {
+  beforeEach(() => {
+    files.clear();
+  });
+
+  it("keeps files by id and links to them through the attachments API", async () => {
+    const id = await storeAttachmentFile("a,b\n1,2", "text/csv", "data.csv");
+    expect(text((await getAttachmentFile(id))?.content)).toBe("a,b\n1,2");
+    expect(attachmentFileUrl(id)).toBe(`/api/attachments/${id}`);
+    expect(await getAttachmentFile("missing")).toBeNull();
+  });
+
+  it("only serves a signed-in user's files to them", async () => {
+    const id = await storeAttachmentFile("x", "text/csv", "data.csv", "user-1");
+    expect(await getAttachmentFile(id, "user-1")).not.toBeNull();
+    expect(await getAttachmentFile(id, "user-2")).toBeNull();
+    expect(await getAttachmentFile(id)).toBeNull();
+  });
+
+  it("decodes base64 data URLs and ignores other links", async () => {
+    const id = await storeDataUrl(`data:text/csv;base64,${Buffer.from("a\n1").toString("base64")}`, "data.csv");
+    const file = await getAttachmentFile(id!);
+    expect(file?.contentType).toBe("text/csv");
+    expect(text(file?.content)).toBe("a\n1");
+    expect(await storeDataUrl("/api/datasets/1?format=csv", "data.csv")).toBeNull();
+  });
+
+  it("drops expired files", async () => {
+    const id = await storeAttachmentFile("x", "text/csv", "data.csv");
+    files.get(id)!.expiresAt = new Date(Date.now() - 1000);
+    expect(await getAttachmentFile(id)).toBeNull();
+    await storeAttachmentFile("y", "text/csv", "data.csv");
+    expect(files.has(id)).toBe(false);
+  });
+
+  it("removes a user's oldest files beyond their allowance, leaving other users' files", async () => {
+    const large = Buffer.alloc(40 * 1024 * 1024);
+    const first = await storeAttachmentFile(large, "text/csv", "1.csv", "user-1");
+    const other = await storeAttachmentFile(large, "text/csv", "other.csv", "user-2");
+    const second = await storeAttachmentFile(large, "text/csv", "2.csv", "user-1");
+    const third = await storeAttachmentFile(large, "text/csv", "3.csv", "user-1");
+    expect(files.has(first)).toBe(false);
+    expect([other, second, third].every((id) => files.has(id))).toBe(true);
+  });
+});
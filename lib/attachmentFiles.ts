@@ -0,0 +1,69 @@
+import type { AttachmentFile } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+// Files attached to agent replies: downloads and the working copies of inline datasets.
+// Replies link to them by id, so chat history and later requests don't carry the data.
+// They are stored in the database for a day; signed-in users can only read their own.
+
+const FILE_TTL_MS = 24 * 60 * 60 * 1000;
+// Each user's oldest files go first beyond this many bytes; files without a user share one allowance
+const MAX_BYTES_PER_USER = 100 * 1024 * 1024;
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.*)$/s;
+
+async function pruneFiles(userId: string | null, incomingBytes: number, now: Date) {
+  await prisma.attachmentFile.deleteMany({ where: { expiresAt: { lte: now } } });
+  const kept = await prisma.attachmentFile.findMany({
+    where: { userId },
+    select: { id: true, size: true },
+    orderBy: { createdAt: "desc" },
+  });
+  let total = incomingBytes;
+  const evicted = kept.filter((file) => (total += file.size) > MAX_BYTES_PER_USER).map((file) => file.id);
+  if (evicted.length) {
+    await prisma.attachmentFile.deleteMany({ where: { id: { in: evicted } } });
+  }
+}
+
+/** Keeps a file for a reply and returns its id. */
+export async function storeAttachmentFile(
+  content: Buffer | string,
+  contentType: string,
+  fileName: string,
+  userId?: string,
+): Promise<string> {
+  const bytes = typeof content === "string" ? Buffer.from(content) : content;
+  const now = new Date();
+  await pruneFiles(userId ?? null, bytes.length, now);
+  const file = await prisma.attachmentFile.create({
+    data: {
+      content: bytes,
+      contentType,
+      fileName,
+      size: bytes.length,
+      userId,
+      expiresAt: new Date(now.getTime() + FILE_TTL_MS),
+    },
+    select: { id: true },
+  });
+  return file.id;
+}
+
+/** Keeps the file in a base64 data URL, as built by generateDownloadableFile; null for other links. */
+export async function storeDataUrl(dataUrl: string, fileName: string, userId?: string): Promise<string | null> {
+  const match = dataUrl.match(DATA_URL_PATTERN);
+  return match ? storeAttachmentFile(Buffer.from(match[2], "base64"), match[1], fileName, userId) : null;
+}
+
+/** The file, unless it expired or belongs to another user. */
+export async function getAttachmentFile(id: string, userId?: string): Promise<AttachmentFile | null> {
+  const file = await prisma.attachmentFile.findUnique({ where: { id } });
+  if (!file || file.expiresAt <= new Date()) {
+    return null;
+  }
+  return file.userId && file.userId !== userId ? null : file;
+}
+
+export function attachmentFileUrl(id: string): string {
+  return `/api/attachments/${id}`;
+}
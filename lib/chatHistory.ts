@@ -0,0 +1,95 @@
+import type { ChatHistory, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+const MAX_TITLE_LENGTH = 60;
+
+export interface PersistedMessage {
+  role: "user" | "assistant" | "system";
+  content: string;
+  sources?: Prisma.InputJsonValue;
+}
+
+// A tool invocation as shown in the chat UI's intermediate steps
+export interface ToolStep {
+  name: string;
+  args: unknown;
+  observation: string;
+}
+
+function titleFromMessage(content: string): string {
+  const singleLine = content.replace(/\s+/g, " ").trim();
+  if (singleLine.length <= MAX_TITLE_LENGTH) {
+    return singleLine || "New Chat";
+  }
+  return `${singleLine.slice(0, MAX_TITLE_LENGTH - 3)}...`;
+}
+
+/**
+ * Finds the chat the request belongs to, or starts a new one for the user.
+ * Returns null when the chat id exists but belongs to someone else. Unknown
+ * ids are ignored: new chats always get an id from the database, which the
+ * routes send back to the client.
+ */
+export async function resolveChatHistory(
+  userId: string,
+  chatId: string | undefined,
+  firstUserMessage: string,
+): Promise<ChatHistory | null> {
+  if (chatId) {
+    const existing = await prisma.chatHistory.findUnique({
+      where: { id: chatId },
+    });
+    if (existing) {
+      return existing.userId === userId ? existing : null;
+    }
+  }
+
+  return prisma.chatHistory.create({
+    data: {
+      userId,
+      title: titleFromMessage(firstUserMessage),
+    },
+  });
+}
+
+/**
+ * Appends messages to a chat in order. Timestamps are spaced by a millisecond
+ * so that rows written in one call keep their order when sorted by createdAt.
+ */
+export async function appendChatMessages(
+  chatHistoryId: string,
+  messages: PersistedMessage[],
+) {
+  if (!messages.length) return;
+
+  const base = Date.now();
+  await prisma.$transaction([
+    prisma.message.createMany({
+      data: messages.map((message, i) => ({
+        chatHistoryId,
+        role: message.role,
+        content: message.content,
+        sources: message.sources,
+        createdAt: new Date(base + i),
+      })),
+    }),
+    prisma.chatHistory.update({
+      where: { id: chatHistoryId },
+      data: { updatedAt: new Date(base + messages.length) },
+    }),
+  ]);
+}
+
+/**
+ * Tool steps are stored as system messages in the same JSON shape the chat
+ * window uses for intermediate steps, so reloaded chats render them the same.
+ */
+export function toolStepToMessage(step: ToolStep): PersistedMessage {
+  return {
+    role: "system",
+    content: JSON.stringify({
+      action: { name: step.name, args: step.args },
+      observation: step.observation,
+    }),
+  };
+}
@@ -0,0 +1,79 @@
+import type { DocumentCollection, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { parseChunkingConfig } from "@/lib/documents/chunkingConfig";
+
+// Documents uploaded without naming a collection go here
+export const DEFAULT_COLLECTION = "default";
+
+const MAX_NAME_LENGTH = 60;
+
+export class CollectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CollectionError";
+  }
+}
+
+// Trims and collapses whitespace; a missing or empty name means the default collection
+export function normalizeCollectionName(value: unknown): string {
+  if (value !== undefined && value !== null && typeof value !== "string") {
+    throw new CollectionError("Collection name must be a string");
+  }
+  const name = (value ?? "").replace(/\s+/g, " ").trim();
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new CollectionError(`Collection names are limited to ${MAX_NAME_LENGTH} characters`);
+  }
+  return name || DEFAULT_COLLECTION;
+}
+
+export async function listCollections(userId: string): Promise<DocumentCollection[]> {
+  return prisma.documentCollection.findMany({
+    where: { userId },
+    orderBy: { name: "asc" },
+  });
+}
+
+// Finds the user's collection by name, creating it on first use
+export async function ensureCollection(userId: string, name: string): Promise<DocumentCollection> {
+  return prisma.documentCollection.upsert({
+    where: { userId_name: { userId, name } },
+    create: { userId, name },
+    update: {},
+  });
+}
+
+/**
+ * Sets how documents ingested into the collection from now on are split.
+ * Existing documents keep their chunks until they are re-ingested. Returns
+ * null when the collection doesn't exist or belongs to someone else; throws
+ * ChunkingError for invalid settings.
+ */
+export async function setCollectionChunking(
+  userId: string,
+  collectionId: string,
+  chunking: unknown,
+): Promise<DocumentCollection | null> {
+  const config = parseChunkingConfig(chunking);
+  const { count } = await prisma.documentCollection.updateMany({
+    where: { id: collectionId, userId },
+    data: { chunking: config as unknown as Prisma.InputJsonValue },
+  });
+  return count ? prisma.documentCollection.findUnique({ where: { id: collectionId } }) : null;
+}
+
+/**
+ * The ids of the user's collections among the requested ones, or of all their
+ * collections when none are requested. Ids of other users' collections are dropped.
+ */
+export async function resolveCollectionIds(userId: string, requested?: string[]): Promise<string[]> {
+  const collections = await prisma.documentCollection.findMany({
+    where: { userId, ...(requested?.length ? { id: { in: requested } } : {}) },
+    select: { id: true },
+  });
+  return collections.map((collection) => collection.id);
+}
+
+// Metadata every chunk carries so retrieval can be limited to its owner and collection
+export function chunkOwnerMetadata(collection: Pick<DocumentCollection, "id" | "userId">) {
+  return { userId: collection.userId, collectionId: collection.id };
+}
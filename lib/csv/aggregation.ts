@@ -0,0 +1,347 @@
+// Group-by aggregation, pivot/unpivot, sorting and top-n for the csv_processor
+// analysis operations
+
+import {
+  inferColumnType,
+  isDateType,
+  isNumericType,
+  parseNumericValue,
+  typedValue,
+  type ColumnProfile,
+} from "@/lib/csv/columnTypes";
+
+export const AGGREGATIONS = ["sum", "mean", "median", "count", "min", "max", "distinct_count"] as const;
+
+export type Aggregation = (typeof AGGREGATIONS)[number];
+
+const AGGREGATION_ALIASES: Record<string, Aggregation> = {
+  total: "sum",
+  avg: "mean",
+  average: "mean",
+  med: "median",
+  n: "count",
+  rows: "count",
+  minimum: "min",
+  maximum: "max",
+  distinct: "distinct_count",
+  unique: "distinct_count",
+  nunique: "distinct_count",
+  count_distinct: "distinct_count",
+  unique_count: "distinct_count",
+};
+
+// Aggregations that only make sense on numbers
+const NUMERIC_AGGREGATIONS: Aggregation[] = ["sum", "mean", "median"];
+// Pivots spread one column's values into headers, so keep them readable
+const MAX_PIVOT_COLUMNS = 100;
+const MAX_RESULT_ROWS = 1_000_000;
+export const DEFAULT_TOP_N = 10;
+
+export class AggregationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AggregationError";
+  }
+}
+
+export interface AggregationSpec {
+  // Omit for count to count rows
+  column?: string;
+  function: string;
+  // Result column name (defaults to e.g. "mean_revenue")
+  as?: string;
+}
+
+export interface SortKey {
+  column: string;
+  descending?: boolean;
+}
+
+export interface TableResult {
+  headers: string[];
+  data: string[][];
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]/g, "_");
+}
+
+export function normalizeAggregation(name: string): Aggregation | null {
+  const key = normalizeKey(name);
+  if ((AGGREGATIONS as readonly string[]).includes(key)) {
+    return key as Aggregation;
+  }
+  return AGGREGATION_ALIASES[key] ?? null;
+}
+
+function columnIndex(headers: string[], column: string): number {
+  const index = headers.indexOf(column);
+  if (index === -1) {
+    throw new AggregationError(`Column "${column}" not found. Available columns: ${headers.join(", ")}`);
+  }
+  return index;
+}
+
+function profileOf(headers: string[], data: string[][], column: string): ColumnProfile {
+  const index = columnIndex(headers, column);
+  return inferColumnType(column, data.map((row) => row[index] ?? ""));
+}
+
+// Rounds away float noise in means and sums for display
+function formatAggregate(value: number): string {
+  return String(Math.round(value * 1e4) / 1e4);
+}
+
+/**
+ * Orders cell values numerically for numeric columns, chronologically for
+ * date columns and naturally ("item 2" before "item 10") otherwise.
+ * Empty cells always sort last.
+ */
+function valueComparator(profile: ColumnProfile, descending = false): (a: string, b: string) => number {
+  const typed = isNumericType(profile.type) || isDateType(profile.type);
+  const direction = descending ? -1 : 1;
+  return (a, b) => {
+    const emptyA = a.trim() === "";
+    const emptyB = b.trim() === "";
+    if (emptyA || emptyB) return emptyA === emptyB ? 0 : emptyA ? 1 : -1;
+    if (typed) {
+      const x = typedValue(profile, a);
+      const y = typedValue(profile, b);
+      if (x !== null && y !== null) return (x - y) * direction;
+      if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    }
+    return a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" }) * direction;
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+interface ResolvedAggregation {
+  fn: Aggregation;
+  index: number;
+  name: string;
+  compare: (a: string, b: string) => number;
+}
+
+function resolveAggregations(headers: string[], data: string[][], specs: AggregationSpec[]): ResolvedAggregation[] {
+  return specs.map((spec) => {
+    const fn = normalizeAggregation(spec.function);
+    if (!fn) {
+      throw new AggregationError(`Unknown aggregation "${spec.function}". Use one of: ${AGGREGATIONS.join(", ")}`);
+    }
+    if (!spec.column && fn !== "count") {
+      throw new AggregationError(`The ${fn} aggregation needs a column`);
+    }
+    const profile = spec.column ? profileOf(headers, data, spec.column) : undefined;
+    if (profile && NUMERIC_AGGREGATIONS.includes(fn) && !isNumericType(profile.type)) {
+      throw new AggregationError(
+        `Column "${spec.column}" is not numeric (inferred type: ${profile.type}); use count, distinct_count, min or max`,
+      );
+    }
+    return {
+      fn,
+      index: spec.column ? headers.indexOf(spec.column) : -1,
+      name: spec.as?.trim() || (spec.column ? `${fn}_${spec.column}` : "count"),
+      compare: profile ? valueComparator(profile) : () => 0,
+    };
+  });
+}
+
+function aggregate(aggregation: ResolvedAggregation, rows: string[][]): string {
+  const { fn, index, compare } = aggregation;
+  if (index === -1) return String(rows.length);
+  const values = rows.map((row) => (row[index] ?? "").trim()).filter((v) => v !== "");
+  switch (fn) {
+    case "count":
+      return String(values.length);
+    case "distinct_count":
+      return String(new Set(values).size);
+    case "min":
+    case "max":
+      if (!values.length) return "";
+      return values.reduce((best, v) => ((fn === "min" ? compare(v, best) < 0 : compare(v, best) > 0) ? v : best));
+    default: {
+      const numbers = values.map(parseNumericValue).filter((n): n is number => n !== null);
+      if (!numbers.length) return "";
+      const sum = numbers.reduce((a, b) => a + b, 0);
+      return formatAggregate(fn === "sum" ? sum : fn === "mean" ? sum / numbers.length : median(numbers));
+    }
+  }
+}
+
+// Rows grouped by the values of the key columns, groups ordered by those values
+function groupRows(headers: string[], data: string[][], keys: string[]): { key: string[]; rows: string[][] }[] {
+  const indices = keys.map((k) => columnIndex(headers, k));
+  const groups = new Map<string, { key: string[]; rows: string[][] }>();
+  data.forEach((row) => {
+    const key = indices.map((i) => (row[i] ?? "").trim());
+    const id = JSON.stringify(key);
+    const group = groups.get(id);
+    if (group) {
+      group.rows.push(row);
+    } else {
+      groups.set(id, { key, rows: [row] });
+    }
+  });
+  const comparators = keys.map((k) => valueComparator(profileOf(headers, data, k)));
+  return Array.from(groups.values()).sort((a, b) => {
+    for (const [i, compare] of comparators.entries()) {
+      const order = compare(a.key[i], b.key[i]);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+}
+
+function checkUniqueHeaders(headers: string[]) {
+  const duplicate = headers.find((h, i) => headers.indexOf(h) !== i);
+  if (duplicate) {
+    throw new AggregationError(`The result would have two columns named "${duplicate}"; name the aggregations with "as"`);
+  }
+}
+
+/**
+ * One row per distinct combination of the key columns with the requested
+ * aggregations. Without keys the whole table is one group; without
+ * aggregations the rows of each group are counted.
+ */
+export function groupBy(
+  headers: string[],
+  data: string[][],
+  keys: string[],
+  specs: AggregationSpec[],
+): TableResult {
+  const aggregations = resolveAggregations(headers, data, specs.length ? specs : [{ function: "count" }]);
+  const resultHeaders = [...keys, ...aggregations.map((a) => a.name)];
+  checkUniqueHeaders(resultHeaders);
+  const groups = keys.length ? groupRows(headers, data, keys) : [{ key: [], rows: data }];
+  return {
+    headers: resultHeaders,
+    data: groups.map((group) => [...group.key, ...aggregations.map((a) => aggregate(a, group.rows))]),
+  };
+}
+
+/**
+ * Spreads the values of pivotColumn into columns: one row per combination
+ * of the index columns, one cell per pivot value holding the aggregate of
+ * valueColumn (or the row count without one). Empty cells mean no rows.
+ */
+export function pivot(
+  headers: string[],
+  data: string[][],
+  options: { index: string[]; pivotColumn: string; valueColumn?: string; aggregation: string },
+): TableResult {
+  const { index, pivotColumn, valueColumn } = options;
+  if (index.includes(pivotColumn)) {
+    throw new AggregationError(`"${pivotColumn}" can't be both a row key and the pivot column`);
+  }
+  const [aggregation] = resolveAggregations(headers, data, [{ column: valueColumn, function: options.aggregation }]);
+  const pivotIndex = columnIndex(headers, pivotColumn);
+  const pivotValues = Array.from(new Set(data.map((row) => (row[pivotIndex] ?? "").trim()))).sort(
+    valueComparator(profileOf(headers, data, pivotColumn)),
+  );
+  if (pivotValues.length > MAX_PIVOT_COLUMNS) {
+    throw new AggregationError(
+      `"${pivotColumn}" has ${pivotValues.length} distinct values; pivot on a column with at most ${MAX_PIVOT_COLUMNS}`,
+    );
+  }
+
+  const valueHeaders = pivotValues.map((value) => {
+    const label = value === "" ? "(empty)" : value;
+    return index.includes(label) ? `${pivotColumn}=${label}` : label;
+  });
+  const groups = index.length ? groupRows(headers, data, index) : [{ key: [], rows: data }];
+  return {
+    headers: [...index, ...valueHeaders],
+    data: groups.map((group) => {
+      const cells = new Map<string, string[][]>();
+      group.rows.forEach((row) => {
+        const value = (row[pivotIndex] ?? "").trim();
+        const rows = cells.get(value);
+        if (rows) {
+          rows.push(row);
+        } else {
+          cells.set(value, [row]);
+        }
+      });
+      return [
+        ...group.key,
+        ...pivotValues.map((value) => {
+          const rows = cells.get(value);
+          return rows ? aggregate(aggregation, rows) : "";
+        }),
+      ];
+    }),
+  };
+}
+
+/**
+ * Melts the value columns into variable/value pairs: each input row becomes
+ * one row per value column, keeping the other columns as identifiers.
+ */
+export function unpivot(
+  headers: string[],
+  data: string[][],
+  options: { valueColumns: string[]; variableName?: string; valueName?: string },
+): TableResult {
+  const { valueColumns, variableName = "variable", valueName = "value" } = options;
+  if (!valueColumns.length) {
+    throw new AggregationError("unpivot needs the columns to turn into rows");
+  }
+  const valueIndices = valueColumns.map((c) => columnIndex(headers, c));
+  const idIndices = headers.map((_, i) => i).filter((i) => !valueIndices.includes(i));
+  const resultHeaders = [...idIndices.map((i) => headers[i]), variableName, valueName];
+  checkUniqueHeaders(resultHeaders);
+  if (data.length * valueColumns.length > MAX_RESULT_ROWS) {
+    throw new AggregationError(`The result would have more than ${MAX_RESULT_ROWS} rows`);
+  }
+  return {
+    headers: resultHeaders,
+    data: data.flatMap((row) => {
+      const ids = idIndices.map((i) => row[i] ?? "");
+      return valueIndices.map((i) => [...ids, headers[i], row[i] ?? ""]);
+    }),
+  };
+}
+
+// Stable sort on several keys; rows with equal keys keep their order
+export function sortRows(headers: string[], data: string[][], keys: SortKey[]): string[][] {
+  if (!keys.length) {
+    throw new AggregationError("sort needs at least one column");
+  }
+  const comparators = keys.map((key) => ({
+    index: columnIndex(headers, key.column),
+    compare: valueComparator(profileOf(headers, data, key.column), key.descending),
+  }));
+  return [...data].sort((a, b) => {
+    for (const { index, compare } of comparators) {
+      const order = compare(a[index] ?? "", b[index] ?? "");
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+}
+
+/**
+ * The n rows with the highest (or lowest) values of a column, optionally
+ * within each group of the group columns.
+ */
+export function topN(
+  headers: string[],
+  data: string[][],
+  options: { column: string; n: number; descending?: boolean; groupBy?: string[] },
+): string[][] {
+  const { column, n, descending = true, groupBy: groupColumns = [] } = options;
+  if (!Number.isInteger(n) || n < 1) {
+    throw new AggregationError("n must be a positive whole number");
+  }
+  const sorted = sortRows(headers, data, [{ column, descending }]);
+  if (!groupColumns.length) {
+    return sorted.slice(0, n);
+  }
+  return groupRows(headers, sorted, groupColumns).flatMap((group) => group.rows.slice(0, n));
+}
@@ -0,0 +1,363 @@
+/**
+ * Arithmetic expressions for the csv_processor derive_column operation.
+ * Like filter expressions they are tokenized and parsed into a tree, then
+ * evaluated per row; nothing is ever passed to eval or the Function constructor.
+ *
+ * Examples:
+ *   price * quantity
+ *   round(`Unit Price` * 1.2, 2)
+ *   (high - low) / max(low, 1) * 100
+ *
+ * Supports + - * / % ^ (power), unary minus, parentheses, numbers, column
+ * names (bare words or wrapped in backticks / square brackets) and the
+ * functions abs, round, floor, ceil, sqrt, ln, log10, min and max. Cells are
+ * read like numeric columns, so "$1,200" counts as 1200. A row whose
+ * referenced cells are empty or not numeric, or whose result is not a finite
+ * number, yields null.
+ */
+
+import { parseNumericValue } from "@/lib/csv/columnTypes";
+
+export class ArithmeticExpressionError extends Error {
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} (at position ${position + 1})`);
+    this.name = "ArithmeticExpressionError";
+  }
+}
+
+type BinaryOperator = "+" | "-" | "*" | "/" | "%" | "^";
+
+type ArithmeticNode =
+  | { type: "number"; value: number }
+  | { type: "column"; name: string }
+  | { type: "negate"; operand: ArithmeticNode }
+  | { type: "binary"; operator: BinaryOperator; left: ArithmeticNode; right: ArithmeticNode }
+  | { type: "call"; name: string; args: ArithmeticNode[] };
+
+type Token =
+  | { type: "number"; value: string; position: number }
+  | { type: "word"; value: string; position: number }
+  | { type: "identifier"; value: string; position: number }
+  | { type: "operator"; value: BinaryOperator; position: number }
+  | { type: "punctuation"; value: "(" | ")" | ","; position: number };
+
+const MAX_EXPRESSION_LENGTH = 1000;
+
+// Function name → [minimum, maximum] argument count and implementation
+const FUNCTIONS: Record<string, { arity: [number, number]; apply: (...args: number[]) => number }> = {
+  abs: { arity: [1, 1], apply: Math.abs },
+  round: {
+    arity: [1, 2],
+    apply: (value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits,
+  },
+  floor: { arity: [1, 1], apply: Math.floor },
+  ceil: { arity: [1, 1], apply: Math.ceil },
+  sqrt: { arity: [1, 1], apply: Math.sqrt },
+  ln: { arity: [1, 1], apply: Math.log },
+  log10: { arity: [1, 1], apply: Math.log10 },
+  min: { arity: [1, Infinity], apply: Math.min },
+  max: { arity: [1, Infinity], apply: Math.max },
+};
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: "punctuation", value: char, position: start });
+      i++;
+      continue;
+    }
+
+    if ("+-*/%^".includes(char)) {
+      tokens.push({ type: "operator", value: char as BinaryOperator, position: start });
+      i++;
+      continue;
+    }
+
+    if (char === "`" || char === "[") {
+      const close = char === "`" ? "`" : "]";
+      const end = input.indexOf(close, i + 1);
+      if (end === -1) {
+        throw new ArithmeticExpressionError(`Unterminated column name, expected ${close}`, start);
+      }
+      tokens.push({ type: "identifier", value: input.slice(i + 1, end), position: start });
+      i = end + 1;
+      continue;
+    }
+
+    const number = input.slice(i).match(/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?(?![\w.])/i);
+    if (number) {
+      tokens.push({ type: "number", value: number[0], position: start });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = input.slice(i).match(/^[\p{L}_][\p{L}\p{N}_.]*/u);
+    if (word) {
+      tokens.push({ type: "word", value: word[0], position: start });
+      i += word[0].length;
+      continue;
+    }
+
+    throw new ArithmeticExpressionError(`Unexpected character "${char}"`, start);
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly headers: string[],
+  ) {}
+
+  parse(): ArithmeticNode {
+    if (this.tokens.length === 0) {
+      throw new ArithmeticExpressionError("Expression is empty");
+    }
+    const node = this.parseSum();
+    const extra = this.peek();
+    if (extra) {
+      throw new ArithmeticExpressionError(`Unexpected "${extra.value}"; join terms with an operator`, extra.position);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private acceptOperator(...operators: BinaryOperator[]): BinaryOperator | null {
+    const token = this.peek();
+    if (token?.type === "operator" && operators.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private isPunctuation(token: Token | undefined, value: "(" | ")" | ","): boolean {
+    return token?.type === "punctuation" && token.value === value;
+  }
+
+  private expectPunctuation(value: "(" | ")" | ","): void {
+    const token = this.next();
+    if (!this.isPunctuation(token, value)) {
+      throw this.unexpected(token, `"${value}"`);
+    }
+  }
+
+  private unexpected(token: Token | undefined, expected: string): ArithmeticExpressionError {
+    if (!token) {
+      return new ArithmeticExpressionError(`Expected ${expected} but the expression ended`);
+    }
+    return new ArithmeticExpressionError(`Expected ${expected} but found "${token.value}"`, token.position);
+  }
+
+  private parseSum(): ArithmeticNode {
+    let left = this.parseProduct();
+    let operator: BinaryOperator | null;
+    while ((operator = this.acceptOperator("+", "-"))) {
+      left = { type: "binary", operator, left, right: this.parseProduct() };
+    }
+    return left;
+  }
+
+  private parseProduct(): ArithmeticNode {
+    let left = this.parseUnary();
+    let operator: BinaryOperator | null;
+    while ((operator = this.acceptOperator("*", "/", "%"))) {
+      left = { type: "binary", operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ArithmeticNode {
+    if (this.acceptOperator("-")) {
+      return { type: "negate", operand: this.parseUnary() };
+    }
+    if (this.acceptOperator("+")) {
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  // Power binds tighter than unary minus and is right-associative: -2^2^3 = -(2^(2^3))
+  private parsePower(): ArithmeticNode {
+    const base = this.parsePrimary();
+    if (this.acceptOperator("^")) {
+      return { type: "binary", operator: "^", left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePrimary(): ArithmeticNode {
+    const token = this.next();
+    if (!token) {
+      throw this.unexpected(token, "a number, column or function");
+    }
+    switch (token.type) {
+      case "number":
+        return { type: "number", value: Number(token.value) };
+      case "identifier":
+        return this.resolveColumn(token.value, token.position);
+      case "word":
+        if (this.isPunctuation(this.peek(), "(")) {
+          return this.parseCall(token.value, token.position);
+        }
+        return this.resolveColumn(token.value, token.position);
+      case "punctuation":
+        if (token.value === "(") {
+          const node = this.parseSum();
+          this.expectPunctuation(")");
+          return node;
+        }
+        throw this.unexpected(token, "a number, column or function");
+      default:
+        throw this.unexpected(token, "a number, column or function");
+    }
+  }
+
+  private parseCall(name: string, position: number): ArithmeticNode {
+    const fn = FUNCTIONS[name.toLowerCase()];
+    if (!fn) {
+      throw new ArithmeticExpressionError(
+        `Unknown function "${name}". Available functions: ${Object.keys(FUNCTIONS).join(", ")}`,
+        position,
+      );
+    }
+    this.expectPunctuation("(");
+    const args: ArithmeticNode[] = [];
+    if (!this.isPunctuation(this.peek(), ")")) {
+      args.push(this.parseSum());
+      while (this.isPunctuation(this.peek(), ",")) {
+        this.index++;
+        args.push(this.parseSum());
+      }
+    }
+    this.expectPunctuation(")");
+    const [min, max] = fn.arity;
+    if (args.length < min || args.length > max) {
+      throw new ArithmeticExpressionError(
+        `${name.toLowerCase()} takes ${min === max ? min : `${min} or more`} argument${max === 1 ? "" : "s"}`,
+        position,
+      );
+    }
+    return { type: "call", name: name.toLowerCase(), args };
+  }
+
+  private resolveColumn(name: string, position: number): ArithmeticNode {
+    const match =
+      this.headers.find((h) => h === name) ??
+      this.headers.find((h) => h.toLowerCase() === name.toLowerCase());
+    if (!match) {
+      throw new ArithmeticExpressionError(
+        `Unknown column "${name}". Available columns: ${this.headers.join(", ")}`,
+        position,
+      );
+    }
+    return { type: "column", name: match };
+  }
+}
+
+function evaluate(node: ArithmeticNode, record: Record<string, string>): number | null {
+  switch (node.type) {
+    case "number":
+      return node.value;
+    case "column":
+      return parseNumericValue(record[node.name] ?? "");
+    case "negate": {
+      const value = evaluate(node.operand, record);
+      return value === null ? null : -value;
+    }
+    case "call": {
+      const args = node.args.map((arg) => evaluate(arg, record));
+      if (args.some((arg) => arg === null)) return null;
+      return FUNCTIONS[node.name].apply(...(args as number[]));
+    }
+    case "binary":
+      return applyOperator(node.operator, evaluate(node.left, record), evaluate(node.right, record));
+  }
+}
+
+function applyOperator(operator: BinaryOperator, left: number | null, right: number | null): number | null {
+  if (left === null || right === null) return null;
+  switch (operator) {
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return right === 0 ? null : left / right;
+    case "%":
+      return right === 0 ? null : left % right;
+    case "^":
+      return left ** right;
+  }
+}
+
+function referencedColumns(node: ArithmeticNode, columns: Set<string>): Set<string> {
+  switch (node.type) {
+    case "column":
+      columns.add(node.name);
+      break;
+    case "negate":
+      referencedColumns(node.operand, columns);
+      break;
+    case "binary":
+      referencedColumns(node.left, columns);
+      referencedColumns(node.right, columns);
+      break;
+    case "call":
+      node.args.forEach((arg) => referencedColumns(arg, columns));
+      break;
+  }
+  return columns;
+}
+
+export interface ArithmeticExpression {
+  // Columns referenced by the expression, in header spelling
+  columns: string[];
+  evaluate: (row: string[]) => number | null;
+}
+
+/**
+ * Parses an arithmetic expression against the given headers.
+ * Throws ArithmeticExpressionError with a readable message when it is malformed.
+ */
+export function parseArithmeticExpression(expression: string, headers: string[]): ArithmeticExpression {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new ArithmeticExpressionError(`Expression is too long (max ${MAX_EXPRESSION_LENGTH} characters)`);
+  }
+  const tree = new Parser(tokenize(expression), headers).parse();
+  return {
+    columns: Array.from(referencedColumns(tree, new Set())),
+    evaluate: (row: string[]) => {
+      const record: Record<string, string> = {};
+      headers.forEach((header, i) => {
+        record[header] = row[i] ?? "";
+      });
+      const value = evaluate(tree, record);
+      return value !== null && Number.isFinite(value) ? value : null;
+    },
+  };
+}
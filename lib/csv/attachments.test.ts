@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { datasetAttachments, formatAttachment, splitToolResult, tableAttachment } from "@/lib/csv/attachments";
+
+describe("splitToolResult", () => {
+  it("moves a result table to the user and keeps the summary for the model", () => {
+    const rows = Array.from({ length: 1500 }, (_, i) => [String(i)]);
+    const table = tableAttachment("Query result", ["id"], rows);
+    const { observation, attachment } = splitToolResult(JSON.stringify({ summary: "Query result (1500 rows)", table }));
+    expect(JSON.parse(observation)).toEqual({ summary: "Query result (1500 rows)" });
+    expect(attachment).toBe(formatAttachment("table", table));
+    expect(table.rows).toHaveLength(1000);
+  });
+
+  it("moves reports and charts the same way", () => {
+    const chart = { type: "bar", title: "Sales", points: [] };
+    expect(splitToolResult(JSON.stringify({ summary: "s", chart })).attachment).toBe(formatAttachment("chart", chart));
+    expect(JSON.parse(splitToolResult(JSON.stringify({ summary: "s", report: { issues: [] } })).observation)).toEqual({ summary: "s" });
+  });
+
+  it("drops candidate clusters and cuts row indices to the first few", () => {
+    const rowIndices = Array.from({ length: 50 }, (_, i) => i);
+    const result = splitToolResult(JSON.stringify({ summary: "s", clusters: [{ cluster: 1, rows: [0, 1] }], row_indices: rowIndices }));
+    expect(JSON.parse(result.observation)).toEqual({ summary: "s", row_indices: rowIndices.slice(0, 20), more_row_indices: 30 });
+    expect(result.attachment).toBe("");
+  });
+
+  it("keeps short row index lists and plain text as they are", () => {
+    expect(JSON.parse(splitToolResult(JSON.stringify({ summary: "s", row_indices: [3] })).observation)).toEqual({ summary: "s", row_indices: [3] });
+    expect(splitToolResult("Error: Unknown column")).toEqual({ observation: "Error: Unknown column", attachment: "" });
+    expect(splitToolResult("[1, 2]")).toEqual({ observation: "[1, 2]", attachment: "" });
+  });
+});
+
+describe("datasetAttachments", () => {
+  it("reads the links of updated inline datasets from a reply", () => {
+    const content = "Done." + formatAttachment("table", { title: "t" }) + formatAttachment("dataset", { name: "sales", link: "/api/attachments/1", rowCount: 3 });
+    expect(datasetAttachments(content)).toEqual([{ name: "sales", link: "/api/attachments/1", rowCount: 3 }]);
+  });
+});
@@ -0,0 +1,101 @@
+// Tool results shown in full below the agent's reply. The agents route appends
+// them to the reply as fenced blocks and ChatMessage renders them. Downloads and
+// the working copies of inline datasets are attached by the route without the
+// model ever seeing them, as links to files kept server-side.
+
+export const ATTACHMENT_LANGUAGES = {
+  report: "data-quality-report",
+  chart: "csv-chart",
+  table: "csv-table",
+  download: "csv-download",
+  dataset: "csv-dataset",
+} as const;
+
+export type AttachmentKind = keyof typeof ATTACHMENT_LANGUAGES;
+
+// Larger result tables are cut to their first rows; rowCount keeps the full size
+const MAX_TABLE_ROWS = 1000;
+
+// Row indices quoted back to the model; the summaries name the first ones too
+const MAX_MODEL_ROW_INDICES = 20;
+
+export interface TableAttachment {
+  title: string;
+  headers: string[];
+  rows: string[][];
+  rowCount: number;
+}
+
+export function tableAttachment(title: string, headers: string[], data: string[][]): TableAttachment {
+  return { title, headers, rows: data.slice(0, MAX_TABLE_ROWS), rowCount: data.length };
+}
+
+export interface DownloadAttachment {
+  download_link: string;
+  file_name: string;
+  file_format: string;
+  message: string;
+}
+
+// The processed data of a dataset that isn't stored server-side, for the browser to fetch and keep
+export interface DatasetAttachment {
+  name: string;
+  link: string;
+  rowCount: number;
+}
+
+// Matches an attached block; the groups hold the block language and its JSON
+export const ATTACHMENT_BLOCK_PATTERN =
+  /\n*```(data-quality-report|csv-chart|csv-table|csv-download|csv-dataset)\n([\s\S]*?)\n```/g;
+
+export function formatAttachment(kind: AttachmentKind, value: unknown): string {
+  return `\n\n\`\`\`${ATTACHMENT_LANGUAGES[kind]}\n${JSON.stringify(value)}\n\`\`\``;
+}
+
+/**
+ * Splits a tool result into what the model reads and the block shown to the user.
+ * A report, chart or result table goes to the user whole; its summary already
+ * describes it with a preview. Candidate clusters are listed in the summary too,
+ * and row indices are cut to the first few.
+ */
+export function splitToolResult(observation: string): { observation: string; attachment: string } {
+  let result: Record<string, unknown>;
+  try {
+    result = JSON.parse(observation);
+  } catch {
+    return { observation, attachment: "" };
+  }
+  if (typeof result !== "object" || result === null || Array.isArray(result)) {
+    return { observation, attachment: "" };
+  }
+  const { report, chart, table, clusters, row_indices, ...rest } = result;
+  const kind = (["report", "chart", "table"] as AttachmentKind[]).find((key) => result[key]);
+  if (Array.isArray(row_indices)) {
+    rest.row_indices = row_indices.slice(0, MAX_MODEL_ROW_INDICES);
+    if (row_indices.length > MAX_MODEL_ROW_INDICES) {
+      rest.more_row_indices = row_indices.length - MAX_MODEL_ROW_INDICES;
+    }
+  }
+  return {
+    observation: JSON.stringify(rest),
+    attachment: kind ? formatAttachment(kind, result[kind]) : "",
+  };
+}
+
+export function hasAttachments(content: string): boolean {
+  return Object.values(ATTACHMENT_LANGUAGES).some((language) => content.includes("```" + language));
+}
+
+// Working copies of inline datasets attached to a reply
+export function datasetAttachments(content: string): DatasetAttachment[] {
+  const datasets: DatasetAttachment[] = [];
+  for (const match of Array.from(content.matchAll(ATTACHMENT_BLOCK_PATTERN))) {
+    if (match[1] !== ATTACHMENT_LANGUAGES.dataset) continue;
+    try {
+      datasets.push(JSON.parse(match[2]));
+    } catch {
+      // A truncated block leaves the dataset as it was
+    }
+  }
+  return datasets;
+}
@@ -0,0 +1,278 @@
+// Chart specs for the csv_processor visualize operation; ChartView renders them as SVG
+
+import {
+  inferColumnType,
+  isDateType,
+  isNumericType,
+  typedValue,
+  type ColumnProfile,
+} from "@/lib/csv/columnTypes";
+
+export const CHART_TYPES = ["histogram", "bar", "scatter", "line", "missing_heatmap"] as const;
+
+export type ChartType = (typeof CHART_TYPES)[number];
+
+const CHART_ALIASES: Record<string, ChartType> = {
+  hist: "histogram",
+  distribution: "histogram",
+  bar_chart: "bar",
+  categories: "bar",
+  top_categories: "bar",
+  scatter_plot: "scatter",
+  line_chart: "line",
+  time_series: "line",
+  timeseries: "line",
+  heatmap: "missing_heatmap",
+  missing: "missing_heatmap",
+  missing_values: "missing_heatmap",
+};
+
+const HISTOGRAM_BINS = 10;
+const TOP_CATEGORIES = 10;
+// Larger series are sampled (scatter) or averaged into buckets (line)
+const MAX_POINTS = 500;
+const HEATMAP_BANDS = 40;
+const HEATMAP_COLUMNS = 50;
+
+export class ChartError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChartError";
+  }
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export type ChartSpec =
+  | { type: "histogram"; title: string; column: string; bins: HistogramBin[]; valueCount: number }
+  | { type: "bar"; title: string; column: string; bars: { label: string; count: number }[]; otherCount: number }
+  | { type: "scatter"; title: string; x: string; y: string; points: [number, number][]; pointCount: number }
+  // x values are timestamps; y is the mean of the value column per date, or the row count
+  | { type: "line"; title: string; x: string; y: string; points: [number, number][]; aggregation: "mean" | "count" }
+  // missing[band][column] is the share of empty cells in that band of rows
+  | { type: "missing_heatmap"; title: string; columns: string[]; bands: { from: number; to: number; missing: number[] }[] };
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]/g, "_");
+}
+
+export function normalizeChartType(chartType: string): ChartType | null {
+  const key = normalizeKey(chartType);
+  if ((CHART_TYPES as readonly string[]).includes(key)) {
+    return key as ChartType;
+  }
+  return CHART_ALIASES[key] ?? null;
+}
+
+// Equal-width bins between the smallest and largest value
+export function histogramBins(values: number[], binCount = HISTOGRAM_BINS): HistogramBin[] {
+  if (!values.length) return [];
+  const min = values.reduce((a, b) => Math.min(a, b));
+  const max = values.reduce((a, b) => Math.max(a, b));
+  const width = (max - min) / binCount;
+  if (width === 0) return [{ from: min, to: max, count: values.length }];
+  const round = (value: number) => Math.round(value * 1e4) / 1e4;
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    from: round(min + i * width),
+    to: round(min + (i + 1) * width),
+    count: 0,
+  }));
+  values.forEach((value) => {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+  });
+  return bins;
+}
+
+interface ColumnValues {
+  profile: ColumnProfile;
+  values: string[];
+}
+
+function column(headers: string[], data: string[][], name: string): ColumnValues {
+  const index = headers.indexOf(name);
+  if (index === -1) {
+    throw new ChartError(`Column "${name}" not found`);
+  }
+  const values = data.map((row) => row[index] ?? "");
+  return { profile: inferColumnType(name, values), values };
+}
+
+function requireType(target: ColumnValues, accepts: (profile: ColumnProfile) => boolean, expected: string) {
+  if (!accepts(target.profile)) {
+    throw new ChartError(`Column "${target.profile.name}" is not ${expected} (inferred type: ${target.profile.type})`);
+  }
+}
+
+const isNumeric = (profile: ColumnProfile) => isNumericType(profile.type);
+const isDate = (profile: ColumnProfile) => isDateType(profile.type);
+
+// Picks a chart from the column types when none was asked for
+function defaultChartType(targets: ColumnValues[]): ChartType {
+  if (!targets.length) return "missing_heatmap";
+  if (targets.length >= 2) {
+    if (targets.some((t) => isDate(t.profile))) return "line";
+    if (targets.slice(0, 2).every((t) => isNumeric(t.profile))) return "scatter";
+  }
+  return isNumeric(targets[0].profile) ? "histogram" : "bar";
+}
+
+// Evenly spaced sample that keeps the first and last item
+function sample<T>(items: T[], size: number): T[] {
+  if (items.length <= size) return items;
+  const step = (items.length - 1) / (size - 1);
+  return Array.from({ length: size }, (_, i) => items[Math.round(i * step)]);
+}
+
+/**
+ * Builds the chart for the given columns: a histogram of a numeric column,
+ * a bar chart of the most frequent values, a scatter of two numeric columns,
+ * a line of a numeric column (or the row count) over a date column, or a
+ * heatmap of missing values by row band. The chart type is inferred from the
+ * column types when not given.
+ */
+export function buildChart(
+  headers: string[],
+  data: string[][],
+  columns: string[],
+  chartType?: ChartType,
+): ChartSpec {
+  const targets = columns.map((name) => column(headers, data, name));
+  const type = chartType ?? defaultChartType(targets);
+
+  switch (type) {
+    case "histogram": {
+      const [target] = targets;
+      if (!target) throw new ChartError("A histogram needs a numeric column");
+      requireType(target, isNumeric, "numeric");
+      const numbers = target.values.map((v) => typedValue(target.profile, v)).filter((v): v is number => v !== null);
+      return {
+        type,
+        title: `Distribution of ${target.profile.name}`,
+        column: target.profile.name,
+        bins: histogramBins(numbers),
+        valueCount: numbers.length,
+      };
+    }
+    case "bar": {
+      const [target] = targets;
+      if (!target) throw new ChartError("A bar chart needs a column");
+      const counts = new Map<string, number>();
+      target.values
+        .map((v) => v.trim())
+        .filter(Boolean)
+        .forEach((v) => counts.set(v, (counts.get(v) ?? 0) + 1));
+      const sorted = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+      return {
+        type,
+        title: `Most frequent values of ${target.profile.name}`,
+        column: target.profile.name,
+        bars: sorted.slice(0, TOP_CATEGORIES).map(([label, count]) => ({ label, count })),
+        otherCount: sorted.slice(TOP_CATEGORIES).reduce((total, [, count]) => total + count, 0),
+      };
+    }
+    case "scatter": {
+      const [x, y] = targets;
+      if (!x || !y) throw new ChartError("A scatter plot needs two numeric columns");
+      requireType(x, isNumeric, "numeric");
+      requireType(y, isNumeric, "numeric");
+      const points = x.values
+        .map((value, i): [number | null, number | null] => [typedValue(x.profile, value), typedValue(y.profile, y.values[i])])
+        .filter((point): point is [number, number] => point[0] !== null && point[1] !== null);
+      return {
+        type,
+        title: `${y.profile.name} vs ${x.profile.name}`,
+        x: x.profile.name,
+        y: y.profile.name,
+        points: sample(points, MAX_POINTS),
+        pointCount: points.length,
+      };
+    }
+    case "line": {
+      const x = targets.find((t) => isDate(t.profile));
+      if (!x) throw new ChartError("A line chart needs a date column");
+      const y = targets.find((t) => t !== x);
+      if (y) requireType(y, isNumeric, "numeric");
+      const groups = new Map<number, number[]>();
+      x.values.forEach((value, i) => {
+        const timestamp = typedValue(x.profile, value);
+        const amount = y ? typedValue(y.profile, y.values[i]) : 1;
+        if (timestamp === null || amount === null) return;
+        const group = groups.get(timestamp);
+        if (group) {
+          group.push(amount);
+        } else {
+          groups.set(timestamp, [amount]);
+        }
+      });
+      const aggregate = (values: number[]) =>
+        y ? values.reduce((a, b) => a + b, 0) / values.length : values.length;
+      let points = Array.from(groups.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([timestamp, values]): [number, number] => [timestamp, aggregate(values)]);
+      if (points.length > MAX_POINTS) {
+        // Average consecutive dates into buckets
+        const size = Math.ceil(points.length / MAX_POINTS);
+        points = Array.from({ length: Math.ceil(points.length / size) }, (_, i) => {
+          const bucket = points.slice(i * size, (i + 1) * size);
+          return [bucket[0][0], bucket.reduce((total, [, value]) => total + value, 0) / bucket.length];
+        });
+      }
+      return {
+        type,
+        title: y ? `${y.profile.name} over ${x.profile.name}` : `Rows per ${x.profile.name}`,
+        x: x.profile.name,
+        y: y ? y.profile.name : "rows",
+        points,
+        aggregation: y ? "mean" : "count",
+      };
+    }
+    case "missing_heatmap": {
+      const names = (columns.length ? columns : headers).slice(0, HEATMAP_COLUMNS);
+      const indices = names.map((name) => headers.indexOf(name));
+      const bandSize = Math.max(1, Math.ceil(data.length / HEATMAP_BANDS));
+      const bands = Array.from({ length: Math.ceil(data.length / bandSize) }, (_, band) => {
+        const rows = data.slice(band * bandSize, (band + 1) * bandSize);
+        return {
+          from: band * bandSize,
+          to: band * bandSize + rows.length - 1,
+          missing: indices.map(
+            (index) => Math.round((rows.filter((row) => (row[index] ?? "").trim() === "").length / rows.length) * 1000) / 1000,
+          ),
+        };
+      });
+      return { type, title: "Missing values by row", columns: names, bands };
+    }
+  }
+}
+
+// A short text version of the chart for the model
+export function describeChart(chart: ChartSpec): string {
+  switch (chart.type) {
+    case "histogram":
+      return chart.bins.map((bin) => `${bin.from} to ${bin.to}: ${bin.count}`).join(", ");
+    case "bar":
+      return chart.bars.map((bar) => `${bar.label}: ${bar.count}`).join(", ") +
+        (chart.otherCount ? `, other values: ${chart.otherCount}` : "");
+    case "scatter":
+      return `${chart.pointCount} points${chart.points.length < chart.pointCount ? ` (${chart.points.length} plotted)` : ""}`;
+    case "line": {
+      const first = chart.points[0];
+      const last = chart.points[chart.points.length - 1];
+      return first
+        ? `${chart.points.length} points from ${new Date(first[0]).toISOString().slice(0, 10)} to ${new Date(last[0]).toISOString().slice(0, 10)}`
+        : "No dated values";
+    }
+    case "missing_heatmap": {
+      const totals = chart.columns
+        .map((name, i) => [name, Math.max(0, ...chart.bands.map((band) => band.missing[i]))] as const)
+        .filter(([, share]) => share > 0);
+      return totals.length
+        ? `Columns with missing values (highest share in a row band): ${totals.map(([name, share]) => `${name} ${(share * 100).toFixed(0)}%`).join(", ")}`
+        : "No missing values";
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  inferColumnType,
+  parseDateValue,
+  parseNumericValue,
+  profileColumns,
+  typedValue,
+} from "@/lib/csv/columnTypes";
+
+describe("parseNumericValue", () => {
+  it("reads spreadsheet-style numbers", () => {
+    expect(parseNumericValue("1,200")).toBe(1200);
+    expect(parseNumericValue("$1,200.50")).toBe(1200.5);
+    expect(parseNumericValue("€ 5")).toBe(5);
+    expect(parseNumericValue("12%")).toBe(12);
+    expect(parseNumericValue("(300)")).toBe(-300);
+    expect(parseNumericValue("1.2e3")).toBe(1200);
+    expect(parseNumericValue("-$4")).toBe(-4);
+  });
+
+  it("rejects dates, misplaced separators and text", () => {
+    expect(parseNumericValue("2024-01-05")).toBeNull();
+    expect(parseNumericValue("1,20")).toBeNull();
+    expect(parseNumericValue("abc")).toBeNull();
+    expect(parseNumericValue(" ")).toBeNull();
+  });
+});
+
+describe("parseDateValue", () => {
+  it("reads ISO dates and datetimes", () => {
+    expect(parseDateValue("2024-03-05")).toMatchObject({ format: "YYYY-MM-DD", hasTime: false });
+    expect(parseDateValue("2024-03-05T10:30:00Z")).toMatchObject({ format: "YYYY-MM-DDTHH:mm:ssZ", hasTime: true });
+    expect(parseDateValue("2024-03-05")?.timestamp).toBe(Date.UTC(2024, 2, 5));
+  });
+
+  it("reads numeric dates month-first unless told or forced otherwise", () => {
+    expect(parseDateValue("03/05/2024")?.timestamp).toBe(Date.UTC(2024, 2, 5));
+    expect(parseDateValue("03/05/2024", true)?.timestamp).toBe(Date.UTC(2024, 4, 3));
+    expect(parseDateValue("25/05/2024")).toMatchObject({ format: "DD/MM/YYYY", dayFirst: true });
+  });
+
+  it("reads month names", () => {
+    expect(parseDateValue("Jan 5, 2024")?.timestamp).toBe(Date.UTC(2024, 0, 5));
+    expect(parseDateValue("5 January 2024")?.format).toBe("D MMM YYYY");
+  });
+
+  it("rejects impossible dates", () => {
+    expect(parseDateValue("2024-02-30")).toBeNull();
+    expect(parseDateValue("13/13/2024")).toBeNull();
+    expect(parseDateValue("2024-01-05 25:00")).toBeNull();
+  });
+});
+
+describe("inferColumnType", () => {
+  it("classifies numbers", () => {
+    expect(inferColumnType("qty", ["1", "2", "3"])).toMatchObject({ type: "integer", confidence: 1 });
+    expect(inferColumnType("price", ["1.5", "2", ""])).toMatchObject({ type: "float", nullCount: 1 });
+    expect(inferColumnType("revenue", ["$1,200", "$300"])).toMatchObject({ type: "integer", formatted: true });
+  });
+
+  it("doesn't read codes with leading zeros as numbers", () => {
+    expect(inferColumnType("zip", ["02134", "00501", "10001"]).type).toBe("id");
+    expect(inferColumnType("zip", ["02134", "02134", "10001", "10001"]).type).not.toBe("integer");
+    expect(inferColumnType("ratio", ["0.5", "0", "-0.25"]).type).toBe("float");
+  });
+
+  it("tolerates a few values that don't fit", () => {
+    const values = [...Array.from({ length: 19 }, (_, i) => String(i)), "n/a"];
+    expect(inferColumnType("count", values)).toMatchObject({ type: "integer", confidence: 0.95 });
+  });
+
+  it("classifies booleans, dates and datetimes", () => {
+    expect(inferColumnType("active", ["yes", "no", "Yes"]).type).toBe("boolean");
+    expect(inferColumnType("day", ["2024-01-01", "2024-01-02"]).type).toBe("date");
+    expect(inferColumnType("at", ["2024-01-01 10:00", "2024-01-02"]).type).toBe("datetime");
+  });
+
+  it("settles day-first columns from any unambiguous value", () => {
+    const profile = inferColumnType("day", ["03/05/2024", "25/05/2024"]);
+    expect(profile).toMatchObject({ type: "date", dateFormat: "DD/MM/YYYY" });
+    expect(typedValue(profile, "03/05/2024")).toBe(Date.UTC(2024, 4, 3));
+  });
+
+  it("recognizes identifiers by name or by unique codes", () => {
+    expect(inferColumnType("customer_id", ["1", "2", "3"]).type).toBe("id");
+    expect(inferColumnType("sku", ["A-1029", "B-2201", "C-3310"]).type).toBe("id");
+  });
+
+  it("tells categories from free text", () => {
+    const categories = Array.from({ length: 20 }, (_, i) => ["red", "green", "blue"][i % 3]);
+    expect(inferColumnType("color", categories)).toMatchObject({ type: "categorical", distinctCount: 3 });
+    expect(inferColumnType("note", ["a b", "c d", "e f"]).type).toBe("text");
+  });
+
+  it("reports empty columns and null rates", () => {
+    expect(inferColumnType("blank", ["", " "])).toMatchObject({ type: "empty", nullRate: 1 });
+  });
+});
+
+describe("profileColumns", () => {
+  it("profiles each header, treating short rows as empty cells", () => {
+    const profiles = profileColumns(["a", "b"], [["1", "x"], ["2"]]);
+    expect(profiles.map((profile) => [profile.name, profile.type, profile.nullCount])).toEqual([
+      ["a", "integer", 0],
+      ["b", "text", 1],
+    ]);
+  });
+});
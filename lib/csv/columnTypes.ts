@@ -0,0 +1,303 @@
+// Column type inference shared by the csv_processor profile, analyze,
+// summarize and detect_outliers operations
+
+export type ColumnType =
+  | "integer"
+  | "float"
+  | "boolean"
+  | "date"
+  | "datetime"
+  | "categorical"
+  | "text"
+  | "id"
+  | "empty";
+
+export interface ColumnProfile {
+  name: string;
+  type: ColumnType;
+  // Share of non-empty values that fit the inferred type (0-1)
+  confidence: number;
+  nullCount: number;
+  nullRate: number;
+  distinctCount: number;
+  // Detected layout for date/datetime columns, e.g. "YYYY-MM-DD" or "DD/MM/YYYY HH:mm"
+  dateFormat?: string;
+  // Numeric columns written with currency symbols, separators or percent signs
+  formatted?: boolean;
+  sampleValues: string[];
+}
+
+// A type is accepted when at least this share of non-empty values fits it
+const MIN_CONFIDENCE = 0.9;
+const MAX_CATEGORIES = 50;
+const ID_NAME_PATTERN = /(^id$|_id$|^id_|\bid$|uuid|guid|\bkey$)/i;
+const BOOLEAN_VALUES = new Set(["true", "false", "yes", "no", "y", "n", "t", "f"]);
+
+/**
+ * Parses numbers the way people write them in spreadsheets:
+ * "1,200", "$1,200.50", "€ 5", "12%", "(300)" for negatives and "1.2e3".
+ * Returns null for anything else, including dates and empty cells.
+ */
+export function parseNumericValue(value: string): number | null {
+  let text = value.trim();
+  if (text === "") return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1).trim();
+  }
+  text = text.replace(/^[-+]?[$€£¥₹]\s*/, (match) => (match.startsWith("-") ? "-" : ""));
+  text = text.replace(/\s*(%|[$€£¥₹]|usd|eur|gbp)$/i, "");
+  // Thousands separators are only accepted in groups of three
+  if (/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) {
+    text = text.replace(/,/g, "");
+  }
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) {
+    return null;
+  }
+  const parsed = Number(text);
+  if (isNaN(parsed)) return null;
+  return negative ? -parsed : parsed;
+}
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+export interface ParsedDate {
+  timestamp: number;
+  format: string;
+  hasTime: boolean;
+  // For d/m/y layouts: whether the first number could only be a day (> 12)
+  dayFirst?: boolean;
+  // For d/m/y layouts: whether the second number could only be a day (> 12)
+  monthFirst?: boolean;
+}
+
+function buildDate(
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0,
+): number | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || minutes > 59 || seconds > 59) {
+    return null;
+  }
+  const timestamp = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  // Reject dates that roll over, such as February 30th
+  if (new Date(timestamp).getUTCDate() !== day) return null;
+  return timestamp;
+}
+
+function parseTime(text: string | undefined): { hours: number; minutes: number; seconds: number; format: string } | null {
+  if (!text) return { hours: 0, minutes: 0, seconds: 0, format: "" };
+  const match = text.match(/^[ T](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(am|pm)?\s*(z|[+-]\d{2}:?\d{2})?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  if (match[4]) {
+    if (hours > 12) return null;
+    hours = (hours % 12) + (match[4].toLowerCase() === "pm" ? 12 : 0);
+  }
+  const separator = text[0] === "T" ? "T" : " ";
+  return {
+    hours,
+    minutes: Number(match[2]),
+    seconds: match[3] ? Number(match[3]) : 0,
+    format: `${separator}HH:mm${match[3] ? ":ss" : ""}${match[4] ? " A" : ""}${match[5] ? "Z" : ""}`,
+  };
+}
+
+/**
+ * Parses common date and datetime layouts and reports which layout matched.
+ * Numeric d/m/y dates are read month-first unless the first number is above 12;
+ * inferColumnType settles the order for a whole column.
+ */
+export function parseDateValue(value: string, dayFirst = false): ParsedDate | null {
+  const text = value.trim();
+  if (text.length < 6 || text.length > 40) return null;
+
+  let match = text.match(/^(\d{4})([-/.])(\d{1,2})\2(\d{1,2})(.*)$/);
+  if (match) {
+    const time = parseTime(match[5]);
+    if (!time) return null;
+    const timestamp = buildDate(Number(match[1]), Number(match[3]), Number(match[4]), time.hours, time.minutes, time.seconds);
+    if (timestamp === null) return null;
+    const sep = match[2];
+    return { timestamp, format: `YYYY${sep}MM${sep}DD${time.format}`, hasTime: time.format !== "" };
+  }
+
+  match = text.match(/^(\d{1,2})([-/.])(\d{1,2})\2(\d{4}|\d{2})(.*)$/);
+  if (match) {
+    const time = parseTime(match[5]);
+    if (!time) return null;
+    const first = Number(match[1]);
+    const second = Number(match[3]);
+    const year = match[4].length === 2 ? 2000 + Number(match[4]) : Number(match[4]);
+    const readDayFirst = dayFirst || first > 12;
+    const [day, month] = readDayFirst ? [first, second] : [second, first];
+    const timestamp = buildDate(year, month, day, time.hours, time.minutes, time.seconds);
+    if (timestamp === null) return null;
+    const sep = match[2];
+    const yearFormat = match[4].length === 2 ? "YY" : "YYYY";
+    return {
+      timestamp,
+      format: `${readDayFirst ? "DD" : "MM"}${sep}${readDayFirst ? "MM" : "DD"}${sep}${yearFormat}${time.format}`,
+      hasTime: time.format !== "",
+      dayFirst: first > 12,
+      monthFirst: second > 12,
+    };
+  }
+
+  // "Jan 5, 2024", "January 5 2024", "5 Jan 2024"
+  match =
+    text.match(/^([a-z]{3,9})\.? (\d{1,2})(?:st|nd|rd|th)?,? (\d{4})(.*)$/i) ??
+    text.match(/^(\d{1,2}) ([a-z]{3,9})\.?,? (\d{4})(.*)$/i);
+  if (match) {
+    const monthFirstLayout = isNaN(Number(match[1]));
+    const monthName = (monthFirstLayout ? match[1] : match[2]).toLowerCase();
+    const month = MONTHS.indexOf(monthName.slice(0, 3)) + 1;
+    if (month === 0) return null;
+    const day = Number(monthFirstLayout ? match[2] : match[1]);
+    const time = parseTime(match[4]);
+    if (!time) return null;
+    const timestamp = buildDate(Number(match[3]), month, day, time.hours, time.minutes, time.seconds);
+    if (timestamp === null) return null;
+    return {
+      timestamp,
+      format: `${monthFirstLayout ? "MMM D, YYYY" : "D MMM YYYY"}${time.format}`,
+      hasTime: time.format !== "",
+    };
+  }
+
+  return null;
+}
+
+function mostCommon<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  let best: T | undefined;
+  let bestCount = 0;
+  for (const value of values) {
+    const count = (counts.get(value) ?? 0) + 1;
+    counts.set(value, count);
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function share(matches: number, total: number): number {
+  return total === 0 ? 0 : matches / total;
+}
+
+/**
+ * Classifies one column from its raw cell values.
+ */
+export function inferColumnType(name: string, values: string[]): ColumnProfile {
+  const present = values.map((v) => (v ?? "").trim()).filter((v) => v !== "");
+  const distinct = new Set(present);
+  const nullCount = values.length - present.length;
+  const base = {
+    name,
+    nullCount,
+    nullRate: share(nullCount, values.length),
+    distinctCount: distinct.size,
+    sampleValues: Array.from(distinct).slice(0, 5),
+  };
+
+  if (present.length === 0) {
+    return { ...base, type: "empty", confidence: 1 };
+  }
+
+  const distinctRatio = distinct.size / present.length;
+  const allUnique = distinct.size === present.length && present.length > 1;
+  if (ID_NAME_PATTERN.test(name) && distinctRatio >= MIN_CONFIDENCE) {
+    return { ...base, type: "id", confidence: distinctRatio };
+  }
+
+  const booleanShare = share(present.filter((v) => BOOLEAN_VALUES.has(v.toLowerCase())).length, present.length);
+  if (booleanShare >= MIN_CONFIDENCE && distinct.size <= 4) {
+    return { ...base, type: "boolean", confidence: booleanShare };
+  }
+
+  const numbers = present.map(parseNumericValue).filter((n): n is number => n !== null);
+  const numericShare = share(numbers.length, present.length);
+  // Leading zeros mark codes such as ZIP codes ("02134"), which stop being the same value as numbers
+  const hasLeadingZeros = present.some((v) => /^[-+]?0\d/.test(v));
+  if (numericShare >= MIN_CONFIDENCE && !hasLeadingZeros) {
+    const formatted = present.some((v) => parseNumericValue(v) !== null && isNaN(Number(v)));
+    const type = numbers.every(Number.isInteger) ? "integer" : "float";
+    return { ...base, type, confidence: numericShare, ...(formatted ? { formatted } : {}) };
+  }
+
+  const firstPass = present.map((v) => parseDateValue(v));
+  // A column is day-first when any value can only be read that way
+  const dayFirst =
+    firstPass.some((d) => d?.dayFirst) && !firstPass.some((d) => d?.monthFirst);
+  const dates = (dayFirst ? present.map((v) => parseDateValue(v, true)) : firstPass).filter(
+    (d): d is ParsedDate => d !== null,
+  );
+  const dateShare = share(dates.length, present.length);
+  if (dateShare >= MIN_CONFIDENCE) {
+    const hasTime = dates.some((d) => d.hasTime);
+    return {
+      ...base,
+      type: hasTime ? "datetime" : "date",
+      confidence: dateShare,
+      dateFormat: mostCommon(dates.map((d) => d.format)),
+    };
+  }
+
+  // Unique, space-free codes such as "A-1029" or UUIDs behave like identifiers
+  if (allUnique && present.every((v) => /^[A-Za-z0-9_\-:.]{4,64}$/.test(v) && /\d/.test(v))) {
+    return { ...base, type: "id", confidence: 1 };
+  }
+
+  if (distinct.size <= MAX_CATEGORIES && distinctRatio <= 0.5) {
+    return { ...base, type: "categorical", confidence: 1 - distinctRatio };
+  }
+
+  return { ...base, type: "text", confidence: 1 };
+}
+
+export function profileColumns(headers: string[], data: string[][]): ColumnProfile[] {
+  return headers.map((header, i) => inferColumnType(header, data.map((row) => row[i] ?? "")));
+}
+
+export function isNumericType(type: ColumnType): boolean {
+  return type === "integer" || type === "float";
+}
+
+export function isDateType(type: ColumnType): boolean {
+  return type === "date" || type === "datetime";
+}
+
+/**
+ * Reads a cell as a number for numeric columns or as a timestamp for date
+ * columns, using the same rules the column was profiled with.
+ */
+export function typedValue(profile: ColumnProfile, value: string): number | null {
+  if (isNumericType(profile.type)) {
+    return parseNumericValue(value);
+  }
+  if (isDateType(profile.type)) {
+    const dayFirst = profile.dateFormat?.startsWith("DD") ?? false;
+    return parseDateValue(value, dayFirst)?.timestamp ?? null;
+  }
+  return null;
+}
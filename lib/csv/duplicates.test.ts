@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import {
+  clusterValues,
+  countDuplicateRows,
+  dropDuplicateRows,
+  DuplicateError,
+  findDuplicateGroups,
+  findNearDuplicateClusters,
+  matchReviewedClusters,
+  normalizeDuplicateMethod,
+  normalizeEmail,
+  normalizeKeepPolicy,
+  normalizePhone,
+  normalizeText,
+  textSimilarity,
+} from "@/lib/csv/duplicates";
+
+describe("normalization", () => {
+  it("folds case, accents, whitespace and compatibility characters", () => {
+    expect(normalizeText("  Ｊosé   Müller ")).toBe("jose muller");
+  });
+
+  it("normalizes emails, including Gmail dots and plus tags", () => {
+    expect(normalizeEmail("Jane.Doe+news@GoogleMail.com")).toBe("janedoe@gmail.com");
+    expect(normalizeEmail("jane.doe+x@example.com")).toBe("jane.doe@example.com");
+    expect(normalizeEmail("mailto:Bob@Example.com")).toBe("bob@example.com");
+  });
+
+  it("compares phone numbers on their last ten digits", () => {
+    expect(normalizePhone("+1 (555) 010-2000")).toBe(normalizePhone("555.010.2000"));
+    expect(normalizePhone("0044 20 7946 0958")).toBe("2079460958");
+  });
+
+  it("scores similarity by edit distance relative to the longer string", () => {
+    expect(textSimilarity("kitten", "sitting")).toBeCloseTo(1 - 3 / 7);
+    expect(textSimilarity("", "")).toBe(1);
+    expect(textSimilarity("ab", "abcdefgh")).toBe(0);
+  });
+
+  it("accepts keep policy and method aliases", () => {
+    expect(normalizeKeepPolicy("Latest")).toBe("last");
+    expect(normalizeKeepPolicy("most complete")).toBe("most_complete");
+    expect(normalizeKeepPolicy("middle")).toBeNull();
+    expect(normalizeDuplicateMethod("similar")).toBe("fuzzy");
+    expect(normalizeDuplicateMethod("exact")).toBe("exact");
+  });
+});
+
+describe("findDuplicateGroups", () => {
+  const headers = ["id", "name", "city"];
+  const data = [
+    ["1", "Ann", "Oslo"],
+    ["2", "ann ", "Oslo"],
+    ["3", "Ann", "Oslo"],
+    ["4", "Bob", ""],
+    ["5", "Bob", "Rome"],
+  ];
+
+  it("groups rows with equal key columns after trimming", () => {
+    const groups = findDuplicateGroups(headers, data, { columns: ["name", "city"] });
+    expect(groups).toEqual([{ rows: [0, 2], keep: 0, similarity: 1 }]);
+  });
+
+  it("optionally ignores case and whitespace", () => {
+    const groups = findDuplicateGroups(headers, data, { columns: ["name", "city"], normalize: true });
+    expect(groups.map((group) => group.rows)).toEqual([[0, 1, 2]]);
+  });
+
+  it("keeps the first, last or most complete row", () => {
+    expect(findDuplicateGroups(headers, data, { columns: ["name"], keep: "last" })[1].keep).toBe(4);
+    expect(findDuplicateGroups(headers, data, { columns: ["name"], keep: "most_complete" })[1].keep).toBe(4);
+    expect(findDuplicateGroups(headers, data, { columns: ["name"] })[1].keep).toBe(3);
+  });
+
+  it("compares all columns by default and counts removable rows", () => {
+    const copies = [["a", "1"], ["a", "1"], ["a", "1"], ["b", "1"]];
+    expect(findDuplicateGroups(["k", "v"], copies)).toHaveLength(1);
+    expect(countDuplicateRows(["k", "v"], copies)).toBe(2);
+  });
+
+  it("doesn't confuse cells containing separators", () => {
+    expect(findDuplicateGroups(["a", "b"], [["x|y", "z"], ["x", "y|z"]])).toEqual([]);
+  });
+
+  it("rejects unknown key columns", () => {
+    expect(() => findDuplicateGroups(headers, data, { columns: ["email"] })).toThrow(DuplicateError);
+  });
+});
+
+describe("findNearDuplicateClusters", () => {
+  const headers = ["name", "email", "phone"];
+  const data = [
+    ["John Smith", "john.smith@example.com", "+1 (555) 010-2000"],
+    ["Smith, John", "", "555.010.2000"],
+    ["Jane Doe", "jane@example.com", ""],
+    ["Jon Smith", "john.smith+crm@example.com", ""],
+    ["Mary Major", "mary@example.com", "555-010-9999"],
+  ];
+
+  it("clusters rows that match by normalized names, emails and phones", () => {
+    const result = findNearDuplicateClusters(headers, data);
+    expect(result.kinds).toEqual({ name: "text", email: "email", phone: "phone" });
+    expect(result.clusters).toHaveLength(1);
+    expect(result.clusters[0]).toMatchObject({ cluster: 1, rows: [0, 1, 3], keep: 0 });
+  });
+
+  it("uses the given key columns and threshold", () => {
+    const result = findNearDuplicateClusters(headers, data, { columns: ["name"], threshold: 0.95 });
+    expect(result.columns).toEqual(["name"]);
+    expect(result.clusters.map((cluster) => cluster.rows)).toEqual([[0, 1]]);
+  });
+
+  it("requires other columns to be equal", () => {
+    const orders = [
+      ["Acme", "2024-01-05", "100"],
+      ["ACME", "2024-01-05", "100"],
+      ["Acme", "2024-02-05", "100"],
+    ];
+    const result = findNearDuplicateClusters(["customer", "date", "total"], orders);
+    expect(result.kinds).toMatchObject({ date: "exact", total: "exact" });
+    expect(result.clusters.map((cluster) => cluster.rows)).toEqual([[0, 1]]);
+  });
+
+  it("rejects thresholds outside (0, 1]", () => {
+    expect(() => findNearDuplicateClusters(headers, data, { threshold: 0 })).toThrow(DuplicateError);
+    expect(() => findNearDuplicateClusters(headers, data, { threshold: 1.5 })).toThrow(DuplicateError);
+  });
+});
+
+describe("reviewed clusters", () => {
+  const headers = ["company"];
+
+  it("records the compared values and finds clusters whose rows were all reviewed together", () => {
+    const reviewedData = [["Acme Inc"], ["ACME Inc."], ["Globex"]];
+    const reviewed = findNearDuplicateClusters(headers, reviewedData);
+    const values = clusterValues(headers, reviewedData, reviewed, reviewed.clusters);
+    expect(values).toEqual([[["Acme Inc"], ["ACME Inc."]]]);
+
+    const other = [["Globex"], ["ACME Inc."], ["Acme Inc"], ["Acme Inc"], ["Initech"], ["Initech."]];
+    const result = findNearDuplicateClusters(headers, other);
+    expect(result.clusters.map((cluster) => cluster.rows)).toEqual([[1, 2, 3], [4, 5]]);
+    expect(matchReviewedClusters(headers, other, result, values).map((cluster) => cluster.rows)).toEqual([[1, 2, 3]]);
+  });
+
+  it("leaves out clusters that also hold unreviewed rows", () => {
+    const other = [["Acme Inc"], ["ACME Inc."], ["Acme Inc.."]];
+    const result = findNearDuplicateClusters(headers, other);
+    expect(matchReviewedClusters(headers, other, result, [[["Acme Inc"], ["ACME Inc."]]])).toEqual([]);
+  });
+});
+
+describe("dropDuplicateRows", () => {
+  it("keeps each group's chosen row in file order", () => {
+    const data = [["a"], ["b"], ["c"], ["d"]];
+    const result = dropDuplicateRows(data, [
+      { rows: [0, 2], keep: 2, similarity: 1 },
+      { rows: [1, 3], keep: 1, similarity: 1 },
+    ]);
+    expect(result.data).toEqual([["b"], ["c"]]);
+    expect(result.removedRows).toEqual([0, 3]);
+  });
+});
@@ -0,0 +1,427 @@
+// Exact and near-duplicate detection for the csv_processor remove_duplicates operation
+
+import { inferColumnType, isDateType, isNumericType } from "@/lib/csv/columnTypes";
+
+export const DUPLICATE_KEEP_POLICIES = ["first", "last", "most_complete"] as const;
+
+export type DuplicateKeepPolicy = (typeof DUPLICATE_KEEP_POLICIES)[number];
+
+export const DUPLICATE_METHODS = ["exact", "fuzzy"] as const;
+
+export type DuplicateMethod = (typeof DUPLICATE_METHODS)[number];
+
+const KEEP_ALIASES: Record<string, DuplicateKeepPolicy> = {
+  earliest: "first",
+  oldest: "first",
+  latest: "last",
+  newest: "last",
+  complete: "most_complete",
+  most_filled: "most_complete",
+};
+
+const METHOD_ALIASES: Record<string, DuplicateMethod> = {
+  strict: "exact",
+  near: "fuzzy",
+  similar: "fuzzy",
+  approximate: "fuzzy",
+};
+
+// Minimum average similarity of the compared key columns for fuzzy matches
+export const DEFAULT_SIMILARITY = 0.85;
+
+// Rows compared with each row after sorting on a key (sorted-neighbourhood blocking)
+const NEIGHBOUR_WINDOW = 20;
+
+// Rows sharing an email or phone number that are compared with each other
+const MAX_BLOCK_SIZE = 50;
+
+// Fuzzy matching compares every row with its neighbours under each key column
+const MAX_FUZZY_ROWS = 50000;
+
+export class DuplicateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DuplicateError";
+  }
+}
+
+// How fuzzy matching compares a column: text by edit distance, the rest by normalized equality
+export type MatchKind = "text" | "email" | "phone" | "exact";
+
+export interface DuplicateGroup {
+  // 0-based data row indices (header excluded), in file order
+  rows: number[];
+  // The row kept by the keep policy
+  keep: number;
+  // Lowest similarity of the matches joining the group; 1 for exact duplicates
+  similarity: number;
+}
+
+export interface DuplicateCluster extends DuplicateGroup {
+  // 1-based number used to pick clusters after review
+  cluster: number;
+}
+
+export interface NearDuplicateResult {
+  clusters: DuplicateCluster[];
+  columns: string[];
+  kinds: Record<string, MatchKind>;
+  threshold: number;
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]/g, "_");
+}
+
+export function normalizeKeepPolicy(policy: string): DuplicateKeepPolicy | null {
+  const key = normalizeKey(policy);
+  if ((DUPLICATE_KEEP_POLICIES as readonly string[]).includes(key)) {
+    return key as DuplicateKeepPolicy;
+  }
+  return KEEP_ALIASES[key] ?? null;
+}
+
+export function normalizeDuplicateMethod(method: string): DuplicateMethod | null {
+  const key = normalizeKey(method);
+  if ((DUPLICATE_METHODS as readonly string[]).includes(key)) {
+    return key as DuplicateMethod;
+  }
+  return METHOD_ALIASES[key] ?? null;
+}
+
+/**
+ * Case, whitespace and Unicode normalization: compatibility forms (NFKC, so
+ * full-width and ligature characters match their plain forms), accents
+ * stripped, lower case and runs of whitespace collapsed.
+ */
+export function normalizeText(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Lower case, "+tag" suffixes dropped, and dots ignored for Gmail addresses
+export function normalizeEmail(value: string): string {
+  const email = normalizeText(value).replace(/^mailto:/, "");
+  const at = email.lastIndexOf("@");
+  if (at === -1) return email;
+  let local = email.slice(0, at).replace(/\+.*$/, "");
+  let domain = email.slice(at + 1);
+  if (domain === "googlemail.com") domain = "gmail.com";
+  if (domain === "gmail.com") local = local.replace(/\./g, "");
+  return `${local}@${domain}`;
+}
+
+// Digits only, compared on the last 10 so "+1 (555) 010-2000" matches "555.010.2000"
+export function normalizePhone(value: string): string {
+  const digits = value.replace(/\D/g, "").replace(/^00/, "");
+  return digits.length > 10 ? digits.slice(-10) : digits;
+}
+
+// Names compare regardless of punctuation and word order ("Smith, John" and "John Smith")
+function normalizeName(value: string): string {
+  return normalizeText(value)
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 minus the edit distance relative to the longer string
+export function textSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  // The distance is at least the length difference, so skip clearly different strings
+  if (Math.abs(a.length - b.length) / longest > 0.5) return 0;
+  return 1 - levenshtein(a, b) / longest;
+}
+
+function resolveColumns(headers: string[], columns?: string[]): number[] {
+  if (!columns?.length) return headers.map((_, i) => i);
+  return columns.map((column) => {
+    const index = headers.indexOf(column);
+    if (index === -1) {
+      throw new DuplicateError(`Column "${column}" not found`);
+    }
+    return index;
+  });
+}
+
+function filledCells(row: string[]): number {
+  return row.filter((cell) => (cell ?? "").trim() !== "").length;
+}
+
+function keptRow(rows: number[], data: string[][], keep: DuplicateKeepPolicy): number {
+  if (keep === "last") return rows[rows.length - 1];
+  if (keep === "most_complete") {
+    // Ties go to the earliest row
+    return rows.reduce((best, row) => (filledCells(data[row]) > filledCells(data[best]) ? row : best), rows[0]);
+  }
+  return rows[0];
+}
+
+// JSON keys keep cells apart even when they contain separators such as "|"
+function rowKey(row: string[], columnIndices: number[], normalize: boolean): string {
+  return JSON.stringify(
+    columnIndices.map((i) => {
+      const cell = (row[i] ?? "").trim();
+      return normalize ? normalizeText(cell) : cell;
+    }),
+  );
+}
+
+/**
+ * Groups rows whose key columns (all columns by default) hold the same values
+ * after trimming, and optionally after case, whitespace and Unicode
+ * normalization. Only groups with more than one row are returned.
+ */
+export function findDuplicateGroups(
+  headers: string[],
+  data: string[][],
+  options: { columns?: string[]; normalize?: boolean; keep?: DuplicateKeepPolicy } = {},
+): DuplicateGroup[] {
+  const columnIndices = resolveColumns(headers, options.columns);
+  const groups = new Map<string, number[]>();
+  data.forEach((row, i) => {
+    const key = rowKey(row, columnIndices, options.normalize ?? false);
+    const group = groups.get(key);
+    if (group) {
+      group.push(i);
+    } else {
+      groups.set(key, [i]);
+    }
+  });
+
+  return Array.from(groups.values())
+    .filter((rows) => rows.length > 1)
+    .map((rows) => ({ rows, keep: keptRow(rows, data, options.keep ?? "first"), similarity: 1 }));
+}
+
+export function countDuplicateRows(headers: string[], data: string[][]): number {
+  return findDuplicateGroups(headers, data).reduce((count, group) => count + group.rows.length - 1, 0);
+}
+
+function matchKind(header: string, values: string[]): MatchKind {
+  const filled = values.map((value) => value.trim()).filter(Boolean);
+  const share = (test: (value: string) => boolean) =>
+    filled.length ? filled.filter(test).length / filled.length : 0;
+
+  if (/e-?mail/i.test(header) || share((value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) >= 0.8) {
+    return "email";
+  }
+  const profile = inferColumnType(header, values);
+  const looksLikePhone = (value: string) => /^\+?[\d\s().-]+$/.test(value) && /^\d{7,15}$/.test(value.replace(/\D/g, ""));
+  // Dates such as "2024-01-05" have the digits and dashes of a phone number
+  const phoneValues = !isDateType(profile.type) && share((value) => looksLikePhone(value) && /[\s().+-]/.test(value)) >= 0.8;
+  if (/phone|mobile|\btel\b|fax/i.test(header) || phoneValues) {
+    return "phone";
+  }
+  if (isNumericType(profile.type) || isDateType(profile.type) || profile.type === "boolean") {
+    return "exact";
+  }
+  return "text";
+}
+
+function comparableValue(kind: MatchKind, value: string): string {
+  const cell = (value ?? "").trim();
+  if (!cell) return "";
+  switch (kind) {
+    case "email":
+      return normalizeEmail(cell);
+    case "phone":
+      return normalizePhone(cell);
+    case "text":
+      return normalizeName(cell);
+    default:
+      return normalizeText(cell);
+  }
+}
+
+class UnionFind {
+  private parent: number[];
+
+  constructor(size: number) {
+    this.parent = Array.from({ length: size }, (_, i) => i);
+  }
+
+  find(i: number): number {
+    while (this.parent[i] !== i) {
+      this.parent[i] = this.parent[this.parent[i]];
+      i = this.parent[i];
+    }
+    return i;
+  }
+
+  union(a: number, b: number) {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) this.parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  }
+}
+
+/**
+ * Finds clusters of near-duplicate rows. Text columns match by edit distance
+ * on names normalized for case, accents, punctuation and word order; email
+ * and phone columns match after normalization; other columns must be equal.
+ * Cells empty in either row are left out of the comparison, so a sparse copy
+ * of a complete row still matches it. Candidate pairs come from sorting on
+ * each key column and comparing neighbours, plus rows that share an email or
+ * phone number, so large files are not compared pair by pair.
+ */
+export function findNearDuplicateClusters(
+  headers: string[],
+  data: string[][],
+  options: { columns?: string[]; threshold?: number; keep?: DuplicateKeepPolicy } = {},
+): NearDuplicateResult {
+  const threshold = options.threshold ?? DEFAULT_SIMILARITY;
+  if (!(threshold > 0 && threshold <= 1)) {
+    throw new DuplicateError("The similarity threshold must be between 0 and 1");
+  }
+  if (data.length > MAX_FUZZY_ROWS) {
+    throw new DuplicateError(`Fuzzy matching supports up to ${MAX_FUZZY_ROWS} rows; filter the data or use exact matching on key columns`);
+  }
+  const columnIndices = resolveColumns(headers, options.columns);
+  const columns = columnIndices.map((i) => headers[i]);
+  const kinds = Object.fromEntries(
+    columnIndices.map((i) => [headers[i], matchKind(headers[i], data.map((row) => row[i] ?? ""))]),
+  ) as Record<string, MatchKind>;
+  const keyKinds = columnIndices.map((i) => kinds[headers[i]]);
+  const values = data.map((row) => columnIndices.map((column, k) => comparableValue(keyKinds[k], row[column] ?? "")));
+  // Rows must share at least half of the key columns to be compared
+  const minCompared = Math.max(1, Math.ceil(columnIndices.length / 2));
+
+  const similarity = (a: number, b: number): number => {
+    let total = 0;
+    let compared = 0;
+    values[a].forEach((left, k) => {
+      const right = values[b][k];
+      if (!left || !right) return;
+      compared++;
+      total += keyKinds[k] === "text" ? textSimilarity(left, right) : left === right ? 1 : 0;
+    });
+    return compared >= minCompared ? total / compared : 0;
+  };
+
+  // A pair may be compared under several sort keys; repeated matches don't change the clusters
+  const matches: [number, number, number][] = [];
+  const compare = (a: number, b: number) => {
+    const score = similarity(a, b);
+    if (score >= threshold) matches.push([a, b, score]);
+  };
+
+  const rowIndices = data.map((_, i) => i);
+  const sortKeys: ((row: number) => string)[] = [
+    (row) => values[row].join("\u0000"),
+    ...keyKinds.map((_, k) => (row: number) => values[row][k]),
+  ];
+  for (const sortKey of sortKeys) {
+    const sorted = rowIndices.filter((row) => sortKey(row)).sort((a, b) => (sortKey(a) < sortKey(b) ? -1 : sortKey(a) > sortKey(b) ? 1 : a - b));
+    sorted.forEach((row, position) => {
+      for (let next = position + 1; next < Math.min(sorted.length, position + 1 + NEIGHBOUR_WINDOW); next++) {
+        compare(row, sorted[next]);
+      }
+    });
+  }
+
+  keyKinds.forEach((kind, k) => {
+    if (kind !== "email" && kind !== "phone") return;
+    const blocks = new Map<string, number[]>();
+    rowIndices.forEach((row) => {
+      const value = values[row][k];
+      if (!value) return;
+      const block = blocks.get(value) ?? [];
+      if (block.length < MAX_BLOCK_SIZE) block.push(row);
+      blocks.set(value, block);
+    });
+    for (const block of Array.from(blocks.values())) {
+      block.forEach((row, i) => block.slice(i + 1).forEach((other) => compare(row, other)));
+    }
+  });
+
+  const unionFind = new UnionFind(data.length);
+  matches.forEach(([a, b]) => unionFind.union(a, b));
+  const groups = new Map<number, { rows: number[]; similarity: number }>();
+  matches.forEach(([a, , score]) => {
+    const root = unionFind.find(a);
+    const group = groups.get(root) ?? { rows: [], similarity: 1 };
+    group.similarity = Math.min(group.similarity, score);
+    groups.set(root, group);
+  });
+  rowIndices.forEach((row) => groups.get(unionFind.find(row))?.rows.push(row));
+
+  const clusters = Array.from(groups.values())
+    .sort((a, b) => a.rows[0] - b.rows[0])
+    .map((group, i) => ({
+      cluster: i + 1,
+      rows: group.rows,
+      keep: keptRow(group.rows, data, options.keep ?? "first"),
+      similarity: Math.round(group.similarity * 1000) / 1000,
+    }));
+
+  return { clusters, columns, kinds, threshold };
+}
+
+// Drops every row of each group except the one its keep policy chose, preserving file order
+export function dropDuplicateRows(data: string[][], groups: DuplicateGroup[]): { data: string[][]; removedRows: number[] } {
+  const removed = new Set<number>();
+  groups.forEach((group) => group.rows.forEach((row) => row !== group.keep && removed.add(row)));
+  return {
+    data: data.filter((_, i) => !removed.has(i)),
+    removedRows: Array.from(removed).sort((a, b) => a - b),
+  };
+}
+
+// The compared columns' values for each row of the clusters. Cluster numbers only
+// identify rows of the data that was reviewed; these values identify them anywhere
+export function clusterValues(
+  headers: string[],
+  data: string[][],
+  result: NearDuplicateResult,
+  clusters: DuplicateCluster[],
+): string[][][] {
+  const indices = result.columns.map((column) => headers.indexOf(column));
+  return clusters.map((cluster) => cluster.rows.map((row) => indices.map((i) => data[row][i] ?? "")));
+}
+
+/**
+ * Picks the clusters that a review of other data already approved: every row
+ * of a cluster must have the values of a row in the same reviewed cluster, so
+ * rows nobody reviewed are never merged.
+ */
+export function matchReviewedClusters(
+  headers: string[],
+  data: string[][],
+  result: NearDuplicateResult,
+  reviewed: string[][][],
+): DuplicateCluster[] {
+  const reviewedKeys = reviewed.map((rows) => new Set(rows.map((values) => JSON.stringify(values))));
+  const candidateValues = clusterValues(headers, data, result, result.clusters);
+  return result.clusters.filter((_, i) => {
+    const keys = candidateValues[i].map((values) => JSON.stringify(values));
+    return reviewedKeys.some((approved) => keys.every((key) => approved.has(key)));
+  });
+}
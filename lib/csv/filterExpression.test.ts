@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { FilterExpressionError, parseFilterExpression } from "@/lib/csv/filterExpression";
+
+const headers = ["name", "age", "country", "Order Date", "email"];
+const rows = [
+  ["Ann", "34", "US", "2024-02-01", "ann@example.com"],
+  ["Bob", "28", "UK", "2023-12-24", ""],
+  ["Joe", "41", "DE", "2024-01-15", "joe@example.com"],
+  ["jan", "", "US", "", "jan@example.org"],
+];
+
+const names = (expression: string) =>
+  rows.filter(parseFilterExpression(expression, headers).matches).map((row) => row[0]);
+
+describe("parseFilterExpression", () => {
+  it("compares numbers numerically and combines conditions", () => {
+    expect(names("age > 30 AND country != \"US\"")).toEqual(["Joe"]);
+    expect(names("age < 30 OR country = DE")).toEqual(["Bob", "Joe"]);
+    expect(names("NOT (age >= 30)")).toEqual(["Bob", "jan"]);
+  });
+
+  it("compares dates and quoted column names", () => {
+    expect(names('`Order Date` >= "2024-01-01"')).toEqual(["Ann", "Joe"]);
+    expect(names('[Order Date] < "2024-01-01"')).toEqual(["Bob"]);
+  });
+
+  it("handles IN, IS NULL and text operators", () => {
+    expect(names('country IN ("uk", "de")')).toEqual(["Bob", "Joe"]);
+    expect(names("country NOT IN (US)")).toEqual(["Bob", "Joe"]);
+    expect(names("email IS NULL")).toEqual(["Bob"]);
+    expect(names('email ENDS WITH ".org"')).toEqual(["jan"]);
+    expect(names('name STARTS WITH "j" AND email CONTAINS "example.com"')).toEqual(["Joe"]);
+  });
+
+  it("reads 'is not' with a bare word as an inequality", () => {
+    expect(names("country is not US")).toEqual(["Bob", "Joe"]);
+  });
+
+  it("never matches empty cells in comparisons", () => {
+    expect(names("age != 34")).toEqual(["Bob", "Joe"]);
+  });
+
+  it("matches regular expressions", () => {
+    expect(names('name MATCHES "^j"')).toEqual(["Joe", "jan"]);
+    expect(names("name =~ /^J/")).toEqual(["Joe"]);
+    expect(names('email NOT MATCHES "\\\\.com$"')).toEqual(["jan"]);
+  });
+
+  it("lists the columns it uses", () => {
+    expect(parseFilterExpression("age > 30 OR `Order Date` IS NULL", headers).columns).toEqual(["age", "Order Date"]);
+  });
+
+  it("reports malformed expressions with their position", () => {
+    expect(() => parseFilterExpression("age >> 5", headers)).toThrow(FilterExpressionError);
+    expect(() => parseFilterExpression("age >> 5", headers)).toThrow("at position 6");
+    expect(() => parseFilterExpression("salary > 5", headers)).toThrow('Unknown column "salary"');
+    expect(() => parseFilterExpression('name = "Ann', headers)).toThrow("Unterminated string literal");
+    expect(() => parseFilterExpression("age > 30 country = US", headers)).toThrow("combine conditions with AND / OR");
+  });
+
+  it("rejects regular expressions that could backtrack catastrophically", () => {
+    for (const pattern of ["(a+)+$", "(\\\\w*x)*", "((ab)*c)+", "(?:a|b*){2,}"]) {
+      expect(() => parseFilterExpression(`name MATCHES "${pattern}"`, headers), pattern).toThrow("too long to match");
+    }
+  });
+
+  it("accepts ordinary regular expressions", () => {
+    for (const pattern of ["^\\\\d{3}-\\\\d+$", "(foo|bar)+", "(ab)?c*", "[(*+]+", "\\\\(a+\\\\)+", "(a{1})+"]) {
+      expect(() => parseFilterExpression(`name MATCHES "${pattern}"`, headers), pattern).not.toThrow();
+    }
+  });
+
+  it("limits the expression and regex length", () => {
+    expect(() => parseFilterExpression(`name = "${"x".repeat(2001)}"`, headers)).toThrow("too long");
+    expect(() => parseFilterExpression(`name MATCHES "${"x".repeat(201)}"`, headers)).toThrow("too long");
+  });
+});
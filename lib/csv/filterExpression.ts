@@ -0,0 +1,662 @@
+/**
+ * A small filter expression language for the csv_processor filter operation.
+ * Expressions are tokenized and parsed into a tree, then evaluated per row;
+ * nothing is ever passed to eval or the Function constructor.
+ *
+ * Examples:
+ *   age > 30 AND country != "US"
+ *   `Order Date` >= "2024-01-01" OR status IN ("open", "pending")
+ *   NOT (email IS NULL) AND name MATCHES "^j"
+ *
+ * Column names are bare words or wrapped in backticks / square brackets.
+ * A bare word on the right-hand side names a column when one exists,
+ * otherwise it is read as text, so `country is not US` works as written.
+ * Values are compared as numbers when both sides are numeric, as dates when
+ * both sides are dates, and otherwise as case-insensitive text. Empty cells
+ * only match IS NULL / IS EMPTY.
+ */
+
+export class FilterExpressionError extends Error {
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} (at position ${position + 1})`);
+    this.name = "FilterExpressionError";
+  }
+}
+
+type ComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+type TextOperator = "contains" | "starts_with" | "ends_with";
+
+type Operand =
+  | { kind: "column"; name: string }
+  | { kind: "literal"; value: string };
+
+type FilterNode =
+  | { type: "and" | "or"; left: FilterNode; right: FilterNode }
+  | { type: "not"; operand: FilterNode }
+  | { type: "compare"; operator: ComparisonOperator; left: Operand; right: Operand }
+  | { type: "text"; operator: TextOperator; left: Operand; right: Operand }
+  | { type: "in"; left: Operand; values: Operand[]; negated: boolean }
+  | { type: "null"; left: Operand; negated: boolean }
+  | { type: "regex"; left: Operand; pattern: RegExp; negated: boolean };
+
+type Token =
+  | { type: "word"; value: string; position: number }
+  | { type: "identifier"; value: string; position: number }
+  | { type: "string"; value: string; position: number }
+  | { type: "number"; value: string; position: number }
+  | { type: "regex"; value: string; flags: string; position: number }
+  | { type: "operator"; value: string; position: number }
+  | { type: "punctuation"; value: "(" | ")" | ","; position: number };
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_REGEX_LENGTH = 200;
+const MAX_REGEX_REPETITIONS = 25;
+
+const KEYWORDS = new Set([
+  "and",
+  "or",
+  "not",
+  "in",
+  "is",
+  "null",
+  "empty",
+  "matches",
+  "like",
+  "contains",
+  "starts",
+  "ends",
+  "with",
+]);
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: "punctuation", value: char, position: start });
+      i++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      i++;
+      while (i < input.length && input[i] !== char) {
+        // Backslash escapes the next character, so "O\'Brien" and "a\"b" work
+        if (input[i] === "\\" && i + 1 < input.length) {
+          i++;
+        }
+        value += input[i];
+        i++;
+      }
+      if (i >= input.length) {
+        throw new FilterExpressionError("Unterminated string literal", start);
+      }
+      i++;
+      tokens.push({ type: "string", value, position: start });
+      continue;
+    }
+
+    if (char === "`" || char === "[") {
+      const close = char === "`" ? "`" : "]";
+      const end = input.indexOf(close, i + 1);
+      if (end === -1) {
+        throw new FilterExpressionError(`Unterminated column name, expected ${close}`, start);
+      }
+      tokens.push({ type: "identifier", value: input.slice(i + 1, end), position: start });
+      i = end + 1;
+      continue;
+    }
+
+    // A slash starts a regex literal only where a value is expected
+    const previous = tokens[tokens.length - 1];
+    if (
+      char === "/" &&
+      (previous?.type === "operator" ||
+        (previous?.type === "word" && ["matches", "like"].includes(previous.value.toLowerCase())))
+    ) {
+      let value = "";
+      i++;
+      while (i < input.length && input[i] !== "/") {
+        if (input[i] === "\\" && i + 1 < input.length) {
+          value += input[i];
+          i++;
+        }
+        value += input[i];
+        i++;
+      }
+      if (i >= input.length) {
+        throw new FilterExpressionError("Unterminated regular expression", start);
+      }
+      i++;
+      let flags = "";
+      while (i < input.length && /[a-z]/i.test(input[i])) {
+        flags += input[i];
+        i++;
+      }
+      tokens.push({ type: "regex", value, flags, position: start });
+      continue;
+    }
+
+    const operator = input.slice(i).match(/^(==|!=|<>|<=|>=|=~|!~|&&|\|\||[=<>!~])/);
+    if (operator) {
+      tokens.push({ type: "operator", value: operator[1], position: start });
+      i += operator[1].length;
+      continue;
+    }
+
+    const number = input.slice(i).match(/^-?\d+(\.\d+)?(e[+-]?\d+)?(?![\w.\-/:])/i);
+    if (number) {
+      tokens.push({ type: "number", value: number[0], position: start });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = input.slice(i).match(/^[^\s()",'`[\]=<>!~&|]+/);
+    if (word) {
+      tokens.push({ type: "word", value: word[0], position: start });
+      i += word[0].length;
+      continue;
+    }
+
+    throw new FilterExpressionError(`Unexpected character "${char}"`, start);
+  }
+
+  return tokens;
+}
+
+/**
+ * Why a regex could backtrack catastrophically, or null when it looks safe.
+ * Like the safe-regex check, it rejects repetition nested inside repetition
+ * such as (a+)+ or (\w*x)*, and patterns with many repetitions.
+ */
+export function unsafeRegexReason(source: string): string | null {
+  // Each open group notes whether it contains a repetition
+  const groups: boolean[] = [false];
+  let repetitions = 0;
+  let i = 0;
+
+  const readRepetition = (): boolean => {
+    const rest = source.slice(i);
+    const quantifier = rest.match(/^(\*|\+|\{\d*,\d*\}|\{\d+\})\??/);
+    if (quantifier) {
+      i += quantifier[0].length;
+      // {0}, {1} and {0,1} don't repeat
+      return !/^\{[01]?(,1?)?\}/.test(quantifier[1]);
+    }
+    if (rest.startsWith("?")) {
+      i++;
+    }
+    return false;
+  };
+
+  const noteAtom = (containsRepetition: boolean) => {
+    if (readRepetition()) {
+      repetitions++;
+      if (containsRepetition) {
+        return "it repeats a group that already contains a repetition, e.g. (a+)+";
+      }
+      groups[groups.length - 1] = true;
+    } else if (containsRepetition) {
+      groups[groups.length - 1] = true;
+    }
+    return null;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    let reason: string | null = null;
+    if (char === "\\") {
+      i += 2;
+      reason = noteAtom(false);
+    } else if (char === "[") {
+      i++;
+      while (i < source.length && source[i] !== "]") {
+        i += source[i] === "\\" ? 2 : 1;
+      }
+      i++;
+      reason = noteAtom(false);
+    } else if (char === "(") {
+      i++;
+      // Skip (?:, (?=, (?!, (?<=, (?<! and (?<name>
+      const prefix = source.slice(i).match(/^\?(:|=|!|<=|<!|<[^>]*>)/);
+      i += prefix ? prefix[0].length : 0;
+      groups.push(false);
+    } else if (char === ")") {
+      i++;
+      const containsRepetition = groups.length > 1 ? groups.pop()! : false;
+      reason = noteAtom(containsRepetition);
+    } else {
+      i++;
+      reason = noteAtom(false);
+    }
+    if (reason) {
+      return reason;
+    }
+  }
+  return repetitions > MAX_REGEX_REPETITIONS
+    ? `it has more than ${MAX_REGEX_REPETITIONS} repetitions`
+    : null;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly headers: string[],
+  ) {}
+
+  parse(): FilterNode {
+    if (this.tokens.length === 0) {
+      throw new FilterExpressionError("Filter expression is empty");
+    }
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new FilterExpressionError(
+        `Unexpected "${extra.value}"; combine conditions with AND / OR`,
+        extra.position,
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(token: Token | undefined, keyword: string): boolean {
+    return token?.type === "word" && token.value.toLowerCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.isKeyword(this.peek(), keyword)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: "(" | ")" | ","): void {
+    const token = this.next();
+    if (token?.type !== "punctuation" || token.value !== value) {
+      throw this.unexpected(token, `"${value}"`);
+    }
+  }
+
+  private unexpected(token: Token | undefined, expected: string): FilterExpressionError {
+    if (!token) {
+      return new FilterExpressionError(`Expected ${expected} but the expression ended`);
+    }
+    return new FilterExpressionError(`Expected ${expected} but found "${token.value}"`, token.position);
+  }
+
+  private parseOr(): FilterNode {
+    let left = this.parseAnd();
+    while (this.acceptKeyword("or") || this.acceptOperator("||")) {
+      left = { type: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterNode {
+    let left = this.parseNot();
+    while (this.acceptKeyword("and") || this.acceptOperator("&&")) {
+      left = { type: "and", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): FilterNode {
+    if (this.acceptKeyword("not") || this.acceptOperator("!")) {
+      return { type: "not", operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private acceptOperator(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === "operator" && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private parsePrimary(): FilterNode {
+    const token = this.peek();
+    if (token?.type === "punctuation" && token.value === "(") {
+      this.index++;
+      const node = this.parseOr();
+      this.expectPunctuation(")");
+      return node;
+    }
+    return this.parseCondition();
+  }
+
+  private parseColumn(): Operand {
+    const token = this.next();
+    if (!token || (token.type !== "word" && token.type !== "identifier")) {
+      throw this.unexpected(token, "a column name");
+    }
+    if (token.type === "word" && KEYWORDS.has(token.value.toLowerCase())) {
+      throw this.unexpected(token, "a column name");
+    }
+    return this.resolveColumn(token.value, token.position);
+  }
+
+  private resolveColumn(name: string, position: number): Operand {
+    const match =
+      this.headers.find((h) => h === name) ??
+      this.headers.find((h) => h.toLowerCase() === name.toLowerCase());
+    if (!match) {
+      throw new FilterExpressionError(
+        `Unknown column "${name}". Available columns: ${this.headers.join(", ")}`,
+        position,
+      );
+    }
+    return { kind: "column", name: match };
+  }
+
+  private parseValue(): Operand {
+    const token = this.next();
+    if (!token) {
+      throw this.unexpected(token, "a value");
+    }
+    switch (token.type) {
+      case "string":
+      case "number":
+        return { kind: "literal", value: token.value };
+      case "identifier":
+        return this.resolveColumn(token.value, token.position);
+      case "word": {
+        if (KEYWORDS.has(token.value.toLowerCase())) {
+          throw this.unexpected(token, "a value");
+        }
+        const column = this.headers.find((h) => h.toLowerCase() === token.value.toLowerCase());
+        return column
+          ? { kind: "column", name: column }
+          : { kind: "literal", value: token.value };
+      }
+      default:
+        throw this.unexpected(token, "a value");
+    }
+  }
+
+  private parseValueList(): Operand[] {
+    this.expectPunctuation("(");
+    const values = [this.parseValue()];
+    while (this.peek()?.type === "punctuation" && this.peek()?.value === ",") {
+      this.index++;
+      values.push(this.parseValue());
+    }
+    this.expectPunctuation(")");
+    return values;
+  }
+
+  private parseRegex(negated: boolean, left: Operand): FilterNode {
+    const token = this.next();
+    if (!token || (token.type !== "string" && token.type !== "regex")) {
+      throw this.unexpected(token, "a regular expression");
+    }
+    if (token.value.length > MAX_REGEX_LENGTH) {
+      throw new FilterExpressionError(
+        `Regular expression is too long (max ${MAX_REGEX_LENGTH} characters)`,
+        token.position,
+      );
+    }
+    const unsafe = unsafeRegexReason(token.value);
+    if (unsafe) {
+      throw new FilterExpressionError(
+        `Regular expression could take too long to match because ${unsafe}`,
+        token.position,
+      );
+    }
+    const flags = token.type === "regex" ? token.flags : "i";
+    try {
+      return { type: "regex", left, pattern: new RegExp(token.value, flags), negated };
+    } catch (error) {
+      throw new FilterExpressionError(
+        error instanceof Error ? error.message : `Invalid regular expression "${token.value}"`,
+        token.position,
+      );
+    }
+  }
+
+  private parseCondition(): FilterNode {
+    const left = this.parseColumn();
+    const token = this.next();
+    if (!token) {
+      throw this.unexpected(token, "an operator such as =, >, IN, IS NULL or MATCHES");
+    }
+
+    if (token.type === "operator") {
+      switch (token.value) {
+        case "=":
+        case "==":
+          return { type: "compare", operator: "=", left, right: this.parseValue() };
+        case "!=":
+        case "<>":
+          return { type: "compare", operator: "!=", left, right: this.parseValue() };
+        case "<":
+        case "<=":
+        case ">":
+        case ">=":
+          return { type: "compare", operator: token.value, left, right: this.parseValue() };
+        case "~":
+        case "=~":
+          return this.parseRegex(false, left);
+        case "!~":
+          return this.parseRegex(true, left);
+      }
+    }
+
+    if (token.type === "word") {
+      const keyword = token.value.toLowerCase();
+      if (keyword === "is") {
+        const negated = this.acceptKeyword("not");
+        if (this.acceptKeyword("null") || this.acceptKeyword("empty")) {
+          return { type: "null", left, negated };
+        }
+        // "country is not US" reads as an inequality
+        return { type: "compare", operator: negated ? "!=" : "=", left, right: this.parseValue() };
+      }
+      if (keyword === "not") {
+        const following = this.next();
+        const followingKeyword = following?.type === "word" ? following.value.toLowerCase() : "";
+        if (followingKeyword === "in") {
+          return { type: "in", left, values: this.parseValueList(), negated: true };
+        }
+        if (followingKeyword === "matches" || followingKeyword === "like") {
+          return this.parseRegex(true, left);
+        }
+        if (followingKeyword === "contains") {
+          return { type: "not", operand: { type: "text", operator: "contains", left, right: this.parseValue() } };
+        }
+        throw this.unexpected(following, "IN, MATCHES or CONTAINS after NOT");
+      }
+      if (keyword === "in") {
+        return { type: "in", left, values: this.parseValueList(), negated: false };
+      }
+      if (keyword === "matches" || keyword === "like") {
+        return this.parseRegex(false, left);
+      }
+      if (keyword === "contains") {
+        return { type: "text", operator: "contains", left, right: this.parseValue() };
+      }
+      if ((keyword === "starts" || keyword === "ends") && this.acceptKeyword("with")) {
+        return {
+          type: "text",
+          operator: keyword === "starts" ? "starts_with" : "ends_with",
+          left,
+          right: this.parseValue(),
+        };
+      }
+    }
+
+    throw this.unexpected(token, "an operator such as =, >, IN, IS NULL or MATCHES");
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{1,2}-\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2})?)?|^\d{1,2}\/\d{1,2}\/\d{2,4}/;
+
+function asNumber(value: string): number | null {
+  const trimmed = value.trim();
+  if (trimmed === "") return null;
+  const parsed = Number(trimmed);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function asDate(value: string): number | null {
+  if (!DATE_PATTERN.test(value.trim())) return null;
+  const parsed = Date.parse(value.trim());
+  return isNaN(parsed) ? null : parsed;
+}
+
+// Compare two cell values using the most specific type both sides share
+function compareValues(left: string, right: string): number {
+  const leftNumber = asNumber(left);
+  const rightNumber = asNumber(right);
+  if (leftNumber !== null && rightNumber !== null) {
+    return leftNumber - rightNumber;
+  }
+  const leftDate = asDate(left);
+  const rightDate = asDate(right);
+  if (leftDate !== null && rightDate !== null) {
+    return leftDate - rightDate;
+  }
+  return left.trim().localeCompare(right.trim(), undefined, { sensitivity: "base" });
+}
+
+function evaluate(node: FilterNode, row: Record<string, string>): boolean {
+  const valueOf = (operand: Operand) =>
+    operand.kind === "column" ? row[operand.name] ?? "" : operand.value;
+  const isEmpty = (value: string) => value.trim() === "";
+
+  switch (node.type) {
+    case "and":
+      return evaluate(node.left, row) && evaluate(node.right, row);
+    case "or":
+      return evaluate(node.left, row) || evaluate(node.right, row);
+    case "not":
+      return !evaluate(node.operand, row);
+    case "null":
+      return isEmpty(valueOf(node.left)) !== node.negated;
+    case "compare": {
+      const left = valueOf(node.left);
+      const right = valueOf(node.right);
+      if (isEmpty(left) || (node.right.kind === "column" && isEmpty(right))) {
+        return false;
+      }
+      const result = compareValues(left, right);
+      switch (node.operator) {
+        case "=":
+          return result === 0;
+        case "!=":
+          return result !== 0;
+        case "<":
+          return result < 0;
+        case "<=":
+          return result <= 0;
+        case ">":
+          return result > 0;
+        case ">=":
+          return result >= 0;
+      }
+    }
+    case "text": {
+      const left = valueOf(node.left).toLowerCase();
+      const right = valueOf(node.right).toLowerCase();
+      if (node.operator === "contains") return left.includes(right);
+      if (node.operator === "starts_with") return left.startsWith(right);
+      return left.endsWith(right);
+    }
+    case "in": {
+      const left = valueOf(node.left);
+      if (isEmpty(left)) return false;
+      const found = node.values.some((value) => compareValues(left, valueOf(value)) === 0);
+      return found !== node.negated;
+    }
+    case "regex": {
+      const left = valueOf(node.left);
+      if (isEmpty(left)) return false;
+      node.pattern.lastIndex = 0;
+      return node.pattern.test(left) !== node.negated;
+    }
+  }
+}
+
+export interface FilterExpression {
+  // Columns referenced by the expression, in header spelling
+  columns: string[];
+  matches: (row: string[]) => boolean;
+}
+
+function referencedColumns(node: FilterNode, columns: Set<string>): Set<string> {
+  const addOperand = (operand: Operand) => {
+    if (operand.kind === "column") columns.add(operand.name);
+  };
+  switch (node.type) {
+    case "and":
+    case "or":
+      referencedColumns(node.left, columns);
+      referencedColumns(node.right, columns);
+      break;
+    case "not":
+      referencedColumns(node.operand, columns);
+      break;
+    case "compare":
+    case "text":
+      addOperand(node.left);
+      addOperand(node.right);
+      break;
+    case "in":
+      addOperand(node.left);
+      node.values.forEach(addOperand);
+      break;
+    case "null":
+    case "regex":
+      addOperand(node.left);
+      break;
+  }
+  return columns;
+}
+
+/**
+ * Parses a filter expression against the given headers.
+ * Throws FilterExpressionError with a readable message when it is malformed.
+ */
+export function parseFilterExpression(expression: string, headers: string[]): FilterExpression {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new FilterExpressionError(
+      `Filter expression is too long (max ${MAX_EXPRESSION_LENGTH} characters)`,
+    );
+  }
+  const tree = new Parser(tokenize(expression), headers).parse();
+  return {
+    columns: Array.from(referencedColumns(tree, new Set())),
+    matches: (row: string[]) => {
+      const record: Record<string, string> = {};
+      headers.forEach((header, i) => {
+        record[header] = row[i] ?? "";
+      });
+      return evaluate(tree, record);
+    },
+  };
+}
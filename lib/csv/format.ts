@@ -0,0 +1,17 @@
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Quote a field only when it would otherwise change meaning in CSV
+function formatField(value: string | null | undefined): string {
+  const text = (value ?? "").toString();
+  if (/[",\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export function formatCSV(headers: string[], data: string[][]): string {
+  const headerRow = headers.map(formatField).join(",");
+  const dataRows = data.map((row) => row.map(formatField).join(","));
+  return [headerRow, ...dataRows].join("\n");
+}
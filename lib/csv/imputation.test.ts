@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { imputeColumn, isMissing, normalizeImputationMethod } from "@/lib/csv/imputation";
+
+const column = (data: string[][], index = 0) => data.map((row) => row[index]);
+
+describe("normalizeImputationMethod", () => {
+  it("accepts method names in any case and spelling", () => {
+    expect(normalizeImputationMethod("Forward Fill")).toBe("forward_fill");
+    expect(normalizeImputationMethod("backward-fill")).toBe("backward_fill");
+    expect(normalizeImputationMethod("MEDIAN")).toBe("median");
+  });
+
+  it("maps aliases", () => {
+    expect(normalizeImputationMethod("ffill")).toBe("forward_fill");
+    expect(normalizeImputationMethod("bfill")).toBe("backward_fill");
+    expect(normalizeImputationMethod("linear")).toBe("interpolate");
+  });
+
+  it("returns null for unknown methods", () => {
+    expect(normalizeImputationMethod("average")).toBeNull();
+  });
+});
+
+describe("isMissing", () => {
+  it("treats empty and whitespace-only cells as missing", () => {
+    expect(isMissing("")).toBe(true);
+    expect(isMissing("   ")).toBe(true);
+    expect(isMissing(undefined)).toBe(true);
+    expect(isMissing("0")).toBe(false);
+  });
+});
+
+describe("imputeColumn", () => {
+  const data = [["1"], [""], ["4"], [" "], ["10"]];
+
+  it("fills with the mean and counts the filled cells", () => {
+    const result = imputeColumn(data, 0, "mean");
+    expect(column(result.data)).toEqual(["1", "5", "4", "5", "10"]);
+    expect(result.filled).toBe(2);
+    expect(result.fillValue).toBe("5");
+  });
+
+  it("rounds imputed means to four decimals", () => {
+    const result = imputeColumn([["1"], ["2"], ["2"], [""]], 0, "mean");
+    expect(result.fillValue).toBe("1.6667");
+  });
+
+  it("fills with the median", () => {
+    expect(imputeColumn(data, 0, "median").fillValue).toBe("4");
+  });
+
+  it("fills with the most frequent value, ties going to the one that got there first", () => {
+    const result = imputeColumn([["b"], ["a"], ["a"], ["b"], [""]], 0, "mode");
+    expect(result.fillValue).toBe("a");
+  });
+
+  it("fills with a constant", () => {
+    const result = imputeColumn(data, 0, "constant", { fillValue: "n/a" });
+    expect(column(result.data)).toEqual(["1", "n/a", "4", "n/a", "10"]);
+  });
+
+  it("carries values forward and backward", () => {
+    const gaps = [[""], ["a"], [""], ["b"], [""]];
+    expect(column(imputeColumn(gaps, 0, "forward_fill").data)).toEqual(["", "a", "a", "b", "b"]);
+    expect(column(imputeColumn(gaps, 0, "backward_fill").data)).toEqual(["a", "a", "b", "b", ""]);
+  });
+
+  it("follows the given row order", () => {
+    const rows = [["3"], [""], ["1"]];
+    const result = imputeColumn(rows, 0, "forward_fill", { rowOrder: [2, 0, 1] });
+    expect(column(result.data)).toEqual(["3", "3", "1"]);
+  });
+
+  it("interpolates gaps between known values only", () => {
+    const result = imputeColumn([[""], ["0"], [""], [""], ["6"], [""]], 0, "interpolate");
+    expect(column(result.data)).toEqual(["", "0", "2", "4", "6", ""]);
+    expect(result.filled).toBe(2);
+  });
+
+  it("leaves other columns and the input untouched", () => {
+    const rows = [["x", ""], ["y", "2"]];
+    const result = imputeColumn(rows, 1, "mean");
+    expect(result.data).toEqual([["x", "2"], ["y", "2"]]);
+    expect(rows[0][1]).toBe("");
+  });
+
+  it("rejects numeric methods on text columns", () => {
+    expect(() => imputeColumn([["a"], [""]], 0, "mean")).toThrow('method "mean" requires a numeric column');
+  });
+
+  it("rejects columns without values and constants without a value", () => {
+    expect(() => imputeColumn([[""], [""]], 0, "median")).toThrow("no values");
+    expect(() => imputeColumn(data, 0, "constant")).toThrow("fill_value");
+  });
+});
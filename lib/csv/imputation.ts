@@ -0,0 +1,213 @@
+// Missing value imputation for the csv_processor clean_missing operation
+
+export const IMPUTATION_METHODS = [
+  "mean",
+  "median",
+  "mode",
+  "constant",
+  "forward_fill",
+  "backward_fill",
+  "interpolate",
+] as const;
+
+export type ImputationMethod = (typeof IMPUTATION_METHODS)[number];
+
+const METHOD_ALIASES: Record<string, ImputationMethod> = {
+  ffill: "forward_fill",
+  pad: "forward_fill",
+  bfill: "backward_fill",
+  backfill: "backward_fill",
+  fill: "constant",
+  linear: "interpolate",
+};
+
+export interface ImputationOptions {
+  // Value written into empty cells for the "constant" method
+  fillValue?: string;
+  // Row order used by forward/backward fill and interpolation; file order when omitted
+  rowOrder?: number[];
+}
+
+export interface ImputationResult {
+  data: string[][];
+  filled: number;
+  fillValue?: string;
+}
+
+export function isMissing(value: string | undefined | null): boolean {
+  return value === undefined || value === null || value.trim() === "";
+}
+
+function toNumber(value: string): number | null {
+  const trimmed = value.trim();
+  if (trimmed === "") return null;
+  const parsed = Number(trimmed);
+  return isNaN(parsed) ? null : parsed;
+}
+
+// Keep imputed numbers readable instead of writing long floating point tails
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? value.toString() : Number(value.toFixed(4)).toString();
+}
+
+export function normalizeImputationMethod(method: string): ImputationMethod | null {
+  const key = method.trim().toLowerCase().replace(/[\s-]/g, "_");
+  if ((IMPUTATION_METHODS as readonly string[]).includes(key)) {
+    return key as ImputationMethod;
+  }
+  return METHOD_ALIASES[key] ?? null;
+}
+
+function numericValues(data: string[][], columnIndex: number): number[] | null {
+  const present = data.map((row) => row[columnIndex]).filter((v) => !isMissing(v));
+  const numbers = present.map(toNumber);
+  if (numbers.some((n) => n === null)) return null;
+  return numbers as number[];
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function mode(values: string[]): string {
+  const counts = new Map<string, number>();
+  let best = values[0];
+  let bestCount = 0;
+  for (const value of values) {
+    const count = (counts.get(value) ?? 0) + 1;
+    counts.set(value, count);
+    // Ties go to the value seen first so results are stable across runs
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Fill every missing cell in a column with one value
+function fillWith(data: string[][], columnIndex: number, value: string): ImputationResult {
+  let filled = 0;
+  const result = data.map((row) => {
+    if (!isMissing(row[columnIndex])) return row;
+    filled++;
+    const copy = [...row];
+    copy[columnIndex] = value;
+    return copy;
+  });
+  return { data: result, filled, fillValue: value };
+}
+
+function propagate(
+  data: string[][],
+  columnIndex: number,
+  order: number[],
+): ImputationResult {
+  const result = data.map((row) => [...row]);
+  let filled = 0;
+  let last: string | null = null;
+  for (const rowIndex of order) {
+    const value = result[rowIndex][columnIndex];
+    if (isMissing(value)) {
+      if (last !== null) {
+        result[rowIndex][columnIndex] = last;
+        filled++;
+      }
+    } else {
+      last = value;
+    }
+  }
+  return { data: result, filled };
+}
+
+function interpolate(
+  data: string[][],
+  columnIndex: number,
+  order: number[],
+): ImputationResult {
+  const result = data.map((row) => [...row]);
+  let filled = 0;
+  let previous: { position: number; value: number } | null = null;
+  const pending: number[] = [];
+
+  order.forEach((rowIndex, position) => {
+    const value = result[rowIndex][columnIndex];
+    if (isMissing(value)) {
+      pending.push(position);
+      return;
+    }
+    const current = { position, value: toNumber(value) as number };
+    // Only gaps with a known value on both sides are interpolated
+    if (previous) {
+      const start: { position: number; value: number } = previous;
+      const span = current.position - start.position;
+      for (const gapPosition of pending) {
+        const ratio = (gapPosition - start.position) / span;
+        result[order[gapPosition]][columnIndex] = formatNumber(
+          start.value + ratio * (current.value - start.value),
+        );
+        filled++;
+      }
+    }
+    pending.length = 0;
+    previous = current;
+  });
+
+  return { data: result, filled };
+}
+
+/**
+ * Imputes the missing cells of one column and returns a new data array.
+ * Throws when the method does not apply to the column (e.g. mean on text).
+ */
+export function imputeColumn(
+  data: string[][],
+  columnIndex: number,
+  method: ImputationMethod,
+  options: ImputationOptions = {},
+): ImputationResult {
+  const order = options.rowOrder ?? data.map((_, i) => i);
+
+  switch (method) {
+    case "mean":
+    case "median":
+    case "interpolate": {
+      const values = numericValues(data, columnIndex);
+      if (values === null) {
+        throw new Error(`method "${method}" requires a numeric column`);
+      }
+      if (values.length === 0) {
+        throw new Error("column has no values to impute from");
+      }
+      if (method === "interpolate") {
+        return interpolate(data, columnIndex, order);
+      }
+      const fill =
+        method === "mean"
+          ? values.reduce((a, b) => a + b, 0) / values.length
+          : median(values);
+      return fillWith(data, columnIndex, formatNumber(fill));
+    }
+    case "mode": {
+      const values = data.map((row) => row[columnIndex]).filter((v) => !isMissing(v));
+      if (values.length === 0) {
+        throw new Error("column has no values to impute from");
+      }
+      return fillWith(data, columnIndex, mode(values));
+    }
+    case "constant": {
+      if (options.fillValue === undefined) {
+        throw new Error('method "constant" requires a fill_value');
+      }
+      return fillWith(data, columnIndex, options.fillValue);
+    }
+    case "forward_fill":
+      return propagate(data, columnIndex, order);
+    case "backward_fill": {
+      const reversed = [...order].reverse();
+      return propagate(data, columnIndex, reversed);
+    }
+  }
+}
@@ -0,0 +1,294 @@
+// Join and append/union of two datasets for the csv_processor join, append
+// and union operations
+
+import { countDuplicateRows, dropDuplicateRows, findDuplicateGroups } from "@/lib/csv/duplicates";
+
+export const JOIN_TYPES = ["inner", "left", "right", "outer"] as const;
+
+export type JoinType = (typeof JOIN_TYPES)[number];
+
+const JOIN_ALIASES: Record<string, JoinType> = {
+  inner_join: "inner",
+  left_join: "left",
+  left_outer: "left",
+  right_join: "right",
+  right_outer: "right",
+  full: "outer",
+  full_outer: "outer",
+  outer_join: "outer",
+};
+
+const MAX_RESULT_ROWS = 1_000_000;
+// Key values quoted back when reporting duplicates
+const KEY_EXAMPLES = 3;
+
+export class JoinError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JoinError";
+  }
+}
+
+export interface NamedTable {
+  name: string;
+  headers: string[];
+  data: string[][];
+}
+
+export interface JoinReport {
+  matchedLeftRows: number;
+  unmatchedLeftRows: number;
+  unmatchedRightRows: number;
+  // Rows whose key has an empty cell never match
+  emptyKeyRows: { left: number; right: number };
+  // Keys found on several rows of a side; matches on them multiply rows
+  duplicateKeys: { left: number; right: number; examples: string[] };
+  // Non-key columns in both tables, kept from both with the right one renamed
+  conflicts: { column: string; renamedTo: string; differingRows: number }[];
+}
+
+export interface JoinResult {
+  headers: string[];
+  data: string[][];
+  report: JoinReport;
+}
+
+export interface AppendReport {
+  rowsFrom: Record<string, number>;
+  // Columns found in only one of the tables; the other table's rows are empty there
+  columnsOnlyIn: Record<string, string[]>;
+  // Other-table columns aligned to a current column spelled differently, e.g. "Email" → "email"
+  aligned: { from: string; to: string }[];
+  duplicatesRemoved: number;
+}
+
+export interface AppendResult {
+  headers: string[];
+  data: string[][];
+  report: AppendReport;
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]/g, "_");
+}
+
+export function normalizeJoinType(type: string): JoinType | null {
+  const key = normalizeKey(type);
+  if ((JOIN_TYPES as readonly string[]).includes(key)) {
+    return key as JoinType;
+  }
+  return JOIN_ALIASES[key] ?? null;
+}
+
+function keyIndices(table: NamedTable, keys: string[]): number[] {
+  return keys.map((key) => {
+    const index = table.headers.indexOf(key);
+    if (index === -1) {
+      throw new JoinError(`Key column "${key}" not found in "${table.name}". Its columns are: ${table.headers.join(", ")}`);
+    }
+    return index;
+  });
+}
+
+// Trimmed key cells, or null when any of them is empty
+function rowKey(row: string[], indices: number[]): string | null {
+  const values = indices.map((i) => (row[i] ?? "").trim());
+  return values.some((v) => v === "") ? null : JSON.stringify(values);
+}
+
+function describeKey(key: string): string {
+  return (JSON.parse(key) as string[]).join(" / ");
+}
+
+// A name not yet taken, e.g. "price_products" or "price_products_2"
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let i = 2; taken.has(candidate); i++) {
+    candidate = `${name}_${i}`;
+  }
+  return candidate;
+}
+
+/**
+ * Joins two tables on key columns (leftKeys[i] matches rightKeys[i]).
+ * The result has every left column, then the right columns without its keys;
+ * right columns whose names clash get the right table's name as a suffix.
+ * Rows only in the right table (right and outer joins) carry their key values
+ * in the left key columns.
+ */
+export function joinTables(
+  left: NamedTable,
+  right: NamedTable,
+  options: { leftKeys: string[]; rightKeys: string[]; how: JoinType },
+): JoinResult {
+  const { leftKeys, rightKeys, how } = options;
+  if (!leftKeys.length) {
+    throw new JoinError("join needs the key columns to match rows on");
+  }
+  if (leftKeys.length !== rightKeys.length) {
+    throw new JoinError(`${leftKeys.length} key columns were given for "${left.name}" but ${rightKeys.length} for "${right.name}"`);
+  }
+  const leftIndices = keyIndices(left, leftKeys);
+  const rightIndices = keyIndices(right, rightKeys);
+
+  // Right columns other than the keys, renamed when they clash
+  const taken = new Set(left.headers);
+  const rightColumns = right.headers
+    .map((header, index) => ({ header, index }))
+    .filter(({ index }) => !rightIndices.includes(index))
+    .map(({ header, index }) => {
+      const name = taken.has(header) ? uniqueName(`${header}_${normalizeKey(right.name)}`, taken) : header;
+      taken.add(name);
+      return { header, index, name };
+    });
+  const conflicts = rightColumns
+    .filter((c) => c.name !== c.header)
+    .map((c) => ({ column: c.header, renamedTo: c.name, leftIndex: left.headers.indexOf(c.header), rightIndex: c.index, differingRows: 0 }));
+
+  const rightRowsByKey = new Map<string, number[]>();
+  let rightEmptyKeys = 0;
+  right.data.forEach((row, i) => {
+    const key = rowKey(row, rightIndices);
+    if (key === null) {
+      rightEmptyKeys++;
+      return;
+    }
+    const rows = rightRowsByKey.get(key);
+    if (rows) {
+      rows.push(i);
+    } else {
+      rightRowsByKey.set(key, [i]);
+    }
+  });
+
+  const leftKeyCounts = new Map<string, number>();
+  left.data.forEach((row) => {
+    const key = rowKey(row, leftIndices);
+    if (key !== null) leftKeyCounts.set(key, (leftKeyCounts.get(key) ?? 0) + 1);
+  });
+
+  const emptyRight = rightColumns.map(() => "");
+  const matchedRightRows = new Set<number>();
+  const data: string[][] = [];
+  let matchedLeftRows = 0;
+  let leftEmptyKeys = 0;
+
+  const push = (row: string[]) => {
+    if (data.length >= MAX_RESULT_ROWS) {
+      throw new JoinError(
+        `The join would produce more than ${MAX_RESULT_ROWS} rows; check the key columns, many rows share the same key`,
+      );
+    }
+    data.push(row);
+  };
+
+  left.data.forEach((leftRow) => {
+    const key = rowKey(leftRow, leftIndices);
+    if (key === null) leftEmptyKeys++;
+    const matches = key === null ? undefined : rightRowsByKey.get(key);
+    if (!matches) {
+      if (how === "left" || how === "outer") push([...leftRow, ...emptyRight]);
+      return;
+    }
+    matchedLeftRows++;
+    matches.forEach((r) => {
+      const rightRow = right.data[r];
+      matchedRightRows.add(r);
+      conflicts.forEach((conflict) => {
+        if ((leftRow[conflict.leftIndex] ?? "").trim() !== (rightRow[conflict.rightIndex] ?? "").trim()) {
+          conflict.differingRows++;
+        }
+      });
+      push([...leftRow, ...rightColumns.map((c) => rightRow[c.index] ?? "")]);
+    });
+  });
+
+  if (how === "right" || how === "outer") {
+    right.data.forEach((rightRow, r) => {
+      if (matchedRightRows.has(r)) return;
+      const leftRow = left.headers.map(() => "");
+      leftIndices.forEach((index, k) => {
+        leftRow[index] = rightRow[rightIndices[k]] ?? "";
+      });
+      push([...leftRow, ...rightColumns.map((c) => rightRow[c.index] ?? "")]);
+    });
+  }
+
+  const duplicateLeft = Array.from(leftKeyCounts.entries()).filter(([, count]) => count > 1);
+  const duplicateRight = Array.from(rightRowsByKey.entries()).filter(([, rows]) => rows.length > 1);
+  return {
+    headers: [...left.headers, ...rightColumns.map((c) => c.name)],
+    data,
+    report: {
+      matchedLeftRows,
+      unmatchedLeftRows: left.data.length - matchedLeftRows,
+      unmatchedRightRows: right.data.length - matchedRightRows.size,
+      emptyKeyRows: { left: leftEmptyKeys, right: rightEmptyKeys },
+      duplicateKeys: {
+        left: duplicateLeft.length,
+        right: duplicateRight.length,
+        examples: [...duplicateRight.map(([key]) => key), ...duplicateLeft.map(([key]) => key)]
+          .slice(0, KEY_EXAMPLES)
+          .map(describeKey),
+      },
+      conflicts: conflicts.map(({ column, renamedTo, differingRows }) => ({ column, renamedTo, differingRows })),
+    },
+  };
+}
+
+/**
+ * Stacks the other table's rows under the current ones, matching columns by
+ * name (ignoring case and surrounding spaces). Columns missing from either
+ * table are added and left empty. With distinct, exact duplicate rows of the
+ * combined table are dropped, as SQL UNION does.
+ */
+export function appendTables(current: NamedTable, other: NamedTable, options: { distinct?: boolean } = {}): AppendResult {
+  const headers = [...current.headers];
+  const aligned: { from: string; to: string }[] = [];
+  const otherIndices = other.headers.map((header) => {
+    const exact = headers.indexOf(header);
+    if (exact !== -1) return exact;
+    const loose = headers.findIndex((h) => normalizeKey(h) === normalizeKey(header));
+    if (loose !== -1 && !other.headers.includes(headers[loose])) {
+      aligned.push({ from: header, to: headers[loose] });
+      return loose;
+    }
+    headers.push(header);
+    return headers.length - 1;
+  });
+  if (current.data.length + other.data.length > MAX_RESULT_ROWS) {
+    throw new JoinError(`The combined table would have more than ${MAX_RESULT_ROWS} rows`);
+  }
+
+  const otherRows = other.data.map((row) => {
+    const next = headers.map(() => "");
+    otherIndices.forEach((target, i) => {
+      next[target] = row[i] ?? "";
+    });
+    return next;
+  });
+  const currentRows = current.data.map((row) => headers.map((_, i) => (i < current.headers.length ? row[i] ?? "" : "")));
+  let data = [...currentRows, ...otherRows];
+
+  let duplicatesRemoved = 0;
+  if (options.distinct && countDuplicateRows(headers, data) > 0) {
+    const deduped = dropDuplicateRows(data, findDuplicateGroups(headers, data, { columns: [], keep: "first" }));
+    data = deduped.data;
+    duplicatesRemoved = deduped.removedRows.length;
+  }
+
+  const matchedOther = new Set(otherIndices);
+  return {
+    headers,
+    data,
+    report: {
+      rowsFrom: { [current.name]: current.data.length, [other.name]: other.data.length },
+      columnsOnlyIn: {
+        [current.name]: current.headers.filter((_, i) => !matchedOther.has(i)),
+        [other.name]: other.headers.filter((_, i) => otherIndices[i] >= current.headers.length),
+      },
+      aligned,
+      duplicatesRemoved,
+    },
+  };
+}
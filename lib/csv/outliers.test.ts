@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyOutlierAction,
+  detectOutliers,
+  normalizeOutlierAction,
+  normalizeOutlierMethod,
+  OutlierError,
+} from "@/lib/csv/outliers";
+
+const column = (values: (number | string)[]) => values.map((v) => [String(v)]);
+
+describe("detectOutliers", () => {
+  const spread = column([1, 2, 3, 4, 5, 6, 7, 8, 9, 100]);
+
+  it("flags values outside the Tukey fences", () => {
+    const detection = detectOutliers(["x"], spread, ["x"], "iqr");
+    expect(detection.bounds[0]).toMatchObject({ lower: -3.5, upper: 14.5, outlierCount: 1 });
+    expect(detection.rowIndices).toEqual([9]);
+    expect(detection.valueCount).toBe(10);
+  });
+
+  it("flags values by modified z-score around the median", () => {
+    const detection = detectOutliers(["x"], spread, ["x"], "modified_zscore");
+    expect(detection.bounds[0].upper).toBeCloseTo(5.5 + (3.5 * 2.5) / 0.6745);
+    expect(detection.rowIndices).toEqual([9]);
+  });
+
+  it("falls back to the mean absolute deviation when most values equal the median", () => {
+    const detection = detectOutliers(["x"], column([10, 10, 10, 10, 10, 11, 12, 100]), ["x"], "modified_zscore");
+    expect(detection.bounds[0].upper).toBeCloseTo(10 + (3.5 * (93 / 8)) / 0.7979);
+    expect(detection.rowIndices).toEqual([7]);
+  });
+
+  it("finds nothing in a constant column", () => {
+    for (const method of ["zscore", "iqr", "modified_zscore"] as const) {
+      expect(detectOutliers(["x"], column([4, 4, 4, 4]), ["x"], method).rowIndices).toEqual([]);
+    }
+  });
+
+  it("flags values beyond the standard deviation threshold", () => {
+    const values = [...Array(20).fill(10), 11, 9, 50];
+    expect(detectOutliers(["x"], column(values), ["x"], "zscore").rowIndices).toEqual([22]);
+  });
+
+  it("cuts the given share from each tail for percentile bounds", () => {
+    const detection = detectOutliers(["x"], column([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]), ["x"], "percentile", 0.1);
+    expect(detection.bounds[0]).toMatchObject({ lower: 1, upper: 9 });
+    expect(detection.rowIndices).toEqual([0, 10]);
+  });
+
+  it("skips empty cells and reads formatted numbers", () => {
+    const detection = detectOutliers(["x"], column(["$1", "", "$2", "$3", "$4", "$5", "$6", "$7", "$8", "$9", "$1,000"]), ["x"], "iqr");
+    expect(detection.valueCount).toBe(10);
+    expect(detection.rowIndices).toEqual([10]);
+  });
+
+  it("flags rows far from the joint distribution of several columns", () => {
+    const rows = [
+      [1, 1.2], [2, 1.9], [3, 3.1], [4, 4.2], [5, 4.8], [6, 6.1], [7, 7.2], [8, 7.9], [9, 9.1], [10, 9.8],
+      [2, 9],
+    ].map((row) => row.map(String));
+    const detection = detectOutliers(["x", "y"], rows, ["x", "y"], "mahalanobis");
+    expect(detection.bounds).toEqual([]);
+    expect(detection.rowIndices).toEqual([10]);
+  });
+
+  it("rejects non-numeric columns and out-of-range thresholds", () => {
+    expect(() => detectOutliers(["name"], column(["a", "b", "c"]), ["name"], "iqr")).toThrow(OutlierError);
+    expect(() => detectOutliers(["x"], spread, ["missing"], "iqr")).toThrow('Column "missing" not found');
+    expect(() => detectOutliers(["x"], spread, ["x"], "percentile", 0.5)).toThrow(OutlierError);
+    expect(() => detectOutliers(["x"], spread, ["x"], "iqr", 0)).toThrow("The threshold must be positive");
+  });
+});
+
+describe("applyOutlierAction", () => {
+  const headers = ["x", "x_outlier"];
+  const data = [1, 2, 3, 4, 5, 6, 7, 8, 9, 100].map((v) => [String(v), ""]);
+  const detection = detectOutliers(headers, data, ["x"], "iqr");
+
+  it("adds a flag column with a name that doesn't clash", () => {
+    const result = applyOutlierAction(headers, data, detection, "flag");
+    expect(result.flagColumn).toBe("x_outlier_2");
+    expect(result.data.map((row) => row[2])).toEqual([...Array(9).fill("false"), "true"]);
+  });
+
+  it("caps values to the bounds", () => {
+    const result = applyOutlierAction(headers, data, detection, "cap");
+    expect(result.data[9][0]).toBe("14.5");
+    expect(result.affectedRows).toEqual([9]);
+  });
+
+  it("removes outlying rows", () => {
+    const result = applyOutlierAction(headers, data, detection, "remove");
+    expect(result.data).toHaveLength(9);
+    expect(result.affectedRows).toEqual([9]);
+  });
+});
+
+describe("normalizeOutlierMethod and normalizeOutlierAction", () => {
+  it("accepts names and aliases", () => {
+    expect(normalizeOutlierMethod("Modified Z")).toBe("modified_zscore");
+    expect(normalizeOutlierMethod("tukey")).toBe("iqr");
+    expect(normalizeOutlierMethod("median")).toBeNull();
+    expect(normalizeOutlierAction("winsorize")).toBe("cap");
+    expect(normalizeOutlierAction("drop")).toBe("remove");
+  });
+});
@@ -0,0 +1,398 @@
+// Outlier detection and follow-up actions for the csv_processor detect_outliers operation
+
+import { inferColumnType, isNumericType, typedValue } from "@/lib/csv/columnTypes";
+
+export const OUTLIER_METHODS = [
+  "zscore",
+  "iqr",
+  "modified_zscore",
+  "percentile",
+  "mahalanobis",
+] as const;
+
+export type OutlierMethod = (typeof OUTLIER_METHODS)[number];
+
+export const OUTLIER_ACTIONS = ["detect", "flag", "cap", "remove"] as const;
+
+export type OutlierAction = (typeof OUTLIER_ACTIONS)[number];
+
+const METHOD_ALIASES: Record<string, OutlierMethod> = {
+  z: "zscore",
+  z_score: "zscore",
+  standard: "zscore",
+  tukey: "iqr",
+  fences: "iqr",
+  mad: "modified_zscore",
+  robust: "modified_zscore",
+  modified_z: "modified_zscore",
+  quantile: "percentile",
+  percentiles: "percentile",
+  multivariate: "mahalanobis",
+};
+
+const ACTION_ALIASES: Record<string, OutlierAction> = {
+  winsorize: "cap",
+  clip: "cap",
+  drop: "remove",
+  mark: "flag",
+};
+
+/**
+ * Defaults per method: standard deviations for z-score, IQR multiples for
+ * Tukey fences, modified z-score cutoff (Iglewicz and Hoaglin), the share cut
+ * from each tail for percentile caps, and the chi-square tail probability
+ * for the Mahalanobis distance.
+ */
+export const DEFAULT_THRESHOLDS: Record<OutlierMethod, number> = {
+  zscore: 3,
+  iqr: 1.5,
+  modified_zscore: 3.5,
+  percentile: 0.01,
+  mahalanobis: 0.975,
+};
+
+export class OutlierError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutlierError";
+  }
+}
+
+export interface ColumnBounds {
+  column: string;
+  lower: number;
+  upper: number;
+  outlierCount: number;
+}
+
+export interface OutlierDetection {
+  method: OutlierMethod;
+  threshold: number;
+  columns: string[];
+  // Per-column limits for univariate methods; empty for mahalanobis
+  bounds: ColumnBounds[];
+  // Mahalanobis distance cutoff
+  distanceCutoff?: number;
+  // 0-based data row indices (header excluded) holding at least one outlier
+  rowIndices: number[];
+  valueCount: number;
+}
+
+export interface OutlierActionResult {
+  headers: string[];
+  data: string[][];
+  affectedRows: number[];
+  flagColumn?: string;
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]/g, "_");
+}
+
+export function normalizeOutlierMethod(method: string): OutlierMethod | null {
+  const key = normalizeKey(method);
+  if ((OUTLIER_METHODS as readonly string[]).includes(key)) {
+    return key as OutlierMethod;
+  }
+  return METHOD_ALIASES[key] ?? null;
+}
+
+export function normalizeOutlierAction(action: string): OutlierAction | null {
+  const key = normalizeKey(action);
+  if ((OUTLIER_ACTIONS as readonly string[]).includes(key)) {
+    return key as OutlierAction;
+  }
+  return ACTION_ALIASES[key] ?? null;
+}
+
+// Linear interpolation between closest ranks, as in numpy's default
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+// Sample standard deviation (n - 1)
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((a, b) => a + (b - avg) ** 2, 0) / (values.length - 1));
+}
+
+function univariateBounds(values: number[], method: OutlierMethod, threshold: number): [number, number] {
+  const sorted = [...values].sort((a, b) => a - b);
+  switch (method) {
+    case "zscore": {
+      const avg = mean(values);
+      const sd = standardDeviation(values);
+      return [avg - threshold * sd, avg + threshold * sd];
+    }
+    case "iqr": {
+      const q1 = quantile(sorted, 0.25);
+      const q3 = quantile(sorted, 0.75);
+      const iqr = q3 - q1;
+      return [q1 - threshold * iqr, q3 + threshold * iqr];
+    }
+    case "modified_zscore": {
+      // Modified z = 0.6745 * (x - median) / MAD
+      const median = quantile(sorted, 0.5);
+      const deviations = values.map((v) => Math.abs(v - median)).sort((a, b) => a - b);
+      const mad = quantile(deviations, 0.5);
+      if (mad > 0) {
+        const spread = (threshold * mad) / 0.6745;
+        return [median - spread, median + spread];
+      }
+      // More than half the values equal the median, so MAD is 0 and would flag every
+      // other value; use the mean absolute deviation instead: z = (x - median) / (MeanAD / 0.7979)
+      const spread = (threshold * mean(deviations)) / 0.7979;
+      return [median - spread, median + spread];
+    }
+    case "percentile":
+      return [quantile(sorted, threshold), quantile(sorted, 1 - threshold)];
+    default:
+      throw new OutlierError(`Method "${method}" does not use per-column bounds`);
+  }
+}
+
+function columnValues(headers: string[], data: string[][], column: string): (number | null)[] {
+  const columnIndex = headers.indexOf(column);
+  if (columnIndex === -1) {
+    throw new OutlierError(`Column "${column}" not found`);
+  }
+  const profile = inferColumnType(column, data.map((row) => row[columnIndex] ?? ""));
+  if (!isNumericType(profile.type)) {
+    throw new OutlierError(`Column "${column}" does not contain numeric values (inferred type: ${profile.type})`);
+  }
+  return data.map((row) => typedValue(profile, row[columnIndex] ?? ""));
+}
+
+// Wilson-Hilferty approximation of the chi-square quantile for the given tail probability
+function chiSquareQuantile(probability: number, degreesOfFreedom: number): number {
+  // Inverse normal CDF (Acklam's rational approximation)
+  const p = Math.min(Math.max(probability, 1e-6), 1 - 1e-6);
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  let z: number;
+  if (p < 0.02425 || p > 1 - 0.02425) {
+    const q = Math.sqrt(-2 * Math.log(p < 0.5 ? p : 1 - p));
+    z = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    if (p > 0.5) z = -z;
+  } else {
+    const q = p - 0.5;
+    const r = q * q;
+    z = ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  }
+  const k = degreesOfFreedom;
+  return k * (1 - 2 / (9 * k) + z * Math.sqrt(2 / (9 * k))) ** 3;
+}
+
+// Gauss-Jordan inverse; returns null for singular (e.g. perfectly correlated) columns
+function invert(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const augmented = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(augmented[row][col]) > Math.abs(augmented[pivot][col])) pivot = row;
+    }
+    if (Math.abs(augmented[pivot][col]) < 1e-12) return null;
+    [augmented[col], augmented[pivot]] = [augmented[pivot], augmented[col]];
+    const divisor = augmented[col][col];
+    augmented[col] = augmented[col].map((v) => v / divisor);
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = augmented[row][col];
+      augmented[row] = augmented[row].map((v, j) => v - factor * augmented[col][j]);
+    }
+  }
+  return augmented.map((row) => row.slice(n));
+}
+
+function detectMultivariate(
+  columns: string[],
+  values: (number | null)[][],
+  threshold: number,
+): { rowIndices: number[]; distanceCutoff: number; valueCount: number } {
+  if (columns.length < 2) {
+    throw new OutlierError("Multivariate detection needs at least two numeric columns");
+  }
+  // Rows missing any of the columns cannot be placed and are left out
+  const complete = values
+    .map((row, index) => ({ row, index }))
+    .filter((entry): entry is { row: number[]; index: number } => entry.row.every((v) => v !== null));
+  if (complete.length <= columns.length) {
+    throw new OutlierError("Not enough complete rows for multivariate detection");
+  }
+
+  const means = columns.map((_, j) => mean(complete.map(({ row }) => row[j])));
+  const covariance = columns.map((_, i) =>
+    columns.map((_, j) =>
+      complete.reduce((sum, { row }) => sum + (row[i] - means[i]) * (row[j] - means[j]), 0) /
+      (complete.length - 1),
+    ),
+  );
+  const inverse = invert(covariance);
+  if (!inverse) {
+    throw new OutlierError(`Columns ${columns.join(", ")} are perfectly correlated or constant; drop one of them`);
+  }
+
+  const distanceCutoff = Math.sqrt(chiSquareQuantile(threshold, columns.length));
+  const rowIndices = complete
+    .filter(({ row }) => {
+      const centered = row.map((v, j) => v - means[j]);
+      const squared = centered.reduce(
+        (sum, ci, i) => sum + ci * centered.reduce((inner, cj, j) => inner + inverse[i][j] * cj, 0),
+        0,
+      );
+      return Math.sqrt(squared) > distanceCutoff;
+    })
+    .map(({ index }) => index);
+  return { rowIndices, distanceCutoff, valueCount: complete.length };
+}
+
+/**
+ * Finds rows with outlying values in the given numeric columns. Univariate
+ * methods check each column on its own; mahalanobis looks at the columns jointly.
+ */
+export function detectOutliers(
+  headers: string[],
+  data: string[][],
+  columns: string[],
+  method: OutlierMethod,
+  threshold = DEFAULT_THRESHOLDS[method],
+): OutlierDetection {
+  if (!columns.length) {
+    throw new OutlierError("No columns given for outlier detection");
+  }
+  if (method === "percentile" && (threshold <= 0 || threshold >= 0.5)) {
+    throw new OutlierError("The percentile threshold is the share cut from each tail and must be between 0 and 0.5 (e.g. 0.01)");
+  }
+  if (method === "mahalanobis" && (threshold <= 0 || threshold >= 1)) {
+    throw new OutlierError("The mahalanobis threshold is a probability between 0 and 1 (e.g. 0.975)");
+  }
+  if (threshold <= 0) {
+    throw new OutlierError("The threshold must be positive");
+  }
+
+  const values = columns.map((column) => columnValues(headers, data, column));
+
+  if (method === "mahalanobis") {
+    const rows = data.map((_, i) => values.map((columnValues) => columnValues[i]));
+    return {
+      method,
+      threshold,
+      columns,
+      bounds: [],
+      ...detectMultivariate(columns, rows, threshold),
+    };
+  }
+
+  const flagged = new Set<number>();
+  let valueCount = 0;
+  const bounds = columns.map((column, j) => {
+    const present = values[j].filter((v): v is number => v !== null);
+    valueCount += present.length;
+    if (!present.length) {
+      return { column, lower: -Infinity, upper: Infinity, outlierCount: 0 };
+    }
+    const [lower, upper] = univariateBounds(present, method, threshold);
+    let outlierCount = 0;
+    values[j].forEach((v, i) => {
+      if (v !== null && (v < lower || v > upper)) {
+        flagged.add(i);
+        outlierCount++;
+      }
+    });
+    return { column, lower, upper, outlierCount };
+  });
+
+  return {
+    method,
+    threshold,
+    columns,
+    bounds,
+    rowIndices: Array.from(flagged).sort((a, b) => a - b),
+    valueCount,
+  };
+}
+
+// Keep capped values readable instead of writing long floating point tails
+function formatBound(value: number): string {
+  return Number(value.toPrecision(10)).toString();
+}
+
+function uniqueColumnName(headers: string[], name: string): string {
+  let candidate = name;
+  for (let i = 2; headers.includes(candidate); i++) {
+    candidate = `${name}_${i}`;
+  }
+  return candidate;
+}
+
+/**
+ * Flags (adds a true/false column), caps (winsorizes to the detection bounds)
+ * or removes the outlying rows found by detectOutliers.
+ */
+export function applyOutlierAction(
+  headers: string[],
+  data: string[][],
+  detection: OutlierDetection,
+  action: Exclude<OutlierAction, "detect">,
+): OutlierActionResult {
+  const outlierRows = new Set(detection.rowIndices);
+
+  if (action === "flag") {
+    const flagColumn = uniqueColumnName(
+      headers,
+      detection.columns.length === 1 ? `${detection.columns[0]}_outlier` : "is_outlier",
+    );
+    return {
+      headers: [...headers, flagColumn],
+      data: data.map((row, i) => [...row, outlierRows.has(i) ? "true" : "false"]),
+      affectedRows: detection.rowIndices,
+      flagColumn,
+    };
+  }
+
+  if (action === "remove") {
+    return {
+      headers,
+      data: data.filter((_, i) => !outlierRows.has(i)),
+      affectedRows: detection.rowIndices,
+    };
+  }
+
+  if (!detection.bounds.length) {
+    throw new OutlierError(`Capping needs per-column bounds, which the ${detection.method} method does not produce; use flag or remove`);
+  }
+  const affected = new Set<number>();
+  const capped = data.map((row) => [...row]);
+  for (const bound of detection.bounds) {
+    const columnIndex = headers.indexOf(bound.column);
+    const values = columnValues(headers, data, bound.column);
+    values.forEach((v, i) => {
+      if (v === null) return;
+      if (v < bound.lower) {
+        capped[i][columnIndex] = formatBound(bound.lower);
+        affected.add(i);
+      } else if (v > bound.upper) {
+        capped[i][columnIndex] = formatBound(bound.upper);
+        affected.add(i);
+      }
+    });
+  }
+  return {
+    headers,
+    data: capped,
+    affectedRows: Array.from(affected).sort((a, b) => a - b),
+  };
+}
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import { formatCSV } from "@/lib/csv/format";
+import {
+  CsvStreamParser,
+  describeIssueLines,
+  detectDelimiter,
+  NORMALIZED_CSV,
+  parseCSV,
+  parseCSVStream,
+} from "@/lib/csv/parser";
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+describe("detectDelimiter", () => {
+  it("picks the delimiter that splits lines consistently", () => {
+    expect(detectDelimiter("a;b;c\n1;2;3\n4;5;6")).toBe(";");
+    expect(detectDelimiter("a\tb\n1\t2")).toBe("\t");
+    expect(detectDelimiter("a|b|c\n1|2|3")).toBe("|");
+  });
+
+  it("ignores delimiters inside quotes", () => {
+    expect(detectDelimiter('name,note\n"x","a;b;c;d"\n"y","e;f;g;h"')).toBe(",");
+  });
+
+  it("prefers commas on ties and for single-column text", () => {
+    expect(detectDelimiter("a;b,c\n1;2,3")).toBe(",");
+    expect(detectDelimiter("value\n1\n2")).toBe(",");
+  });
+});
+
+describe("parseCSV", () => {
+  it("reads headers and rows, trimming unquoted fields", () => {
+    const result = parseCSV("name, age\n Ann ,30\nBob,41\n");
+    expect(result.headers).toEqual(["name", "age"]);
+    expect(result.data).toEqual([
+      ["Ann", "30"],
+      ["Bob", "41"],
+    ]);
+    expect(result.delimiter).toBe(",");
+    expect(result.issues).toEqual([]);
+  });
+
+  it("keeps quoted fields as written, including delimiters, quotes and newlines", () => {
+    const { data, issues } = parseCSV('id,note\n1," a, ""quoted""\nline "\n2,x');
+    expect(data).toEqual([
+      ["1", ' a, "quoted"\nline '],
+      ["2", "x"],
+    ]);
+    expect(issues).toEqual([]);
+  });
+
+  it("handles a byte order mark, CRLF line endings and blank lines", () => {
+    const { headers, data } = parseCSV("\uFEFFa,b\r\n1,2\r\n\r\n3,4\r\n");
+    expect(headers).toEqual(["a", "b"]);
+    expect(data).toEqual([
+      ["1", "2"],
+      ["3", "4"],
+    ]);
+  });
+
+  it("names empty headers by position", () => {
+    expect(parseCSV("a,,c\n1,2,3").headers).toEqual(["a", "Column 2", "c"]);
+  });
+
+  it("pads short rows and drops extra fields, reporting the lines", () => {
+    const { data, issues } = parseCSV("a,b\n1\n2,3,4\n5,6,\n");
+    expect(data).toEqual([
+      ["1", ""],
+      ["2", "3"],
+      ["5", "6"],
+    ]);
+    expect(issues.map((issue) => issue.line)).toEqual([2, 3]);
+    expect(issues[0].message).toMatch(/missing fields were left empty/);
+    expect(issues[1].message).toMatch(/extra fields were dropped/);
+  });
+
+  it("reports text after a closing quote and unclosed quotes", () => {
+    expect(parseCSV('a,b\n"x"y,1').issues[0]).toEqual({
+      line: 2,
+      message: 'Unexpected character "y" after a closing quote',
+    });
+    const unclosed = parseCSV('a,b\n1,"open\n2,3');
+    expect(unclosed.issues[0].line).toBe(2);
+    expect(unclosed.data).toEqual([["1", "open\n2,3"]]);
+  });
+
+  it("detects semicolon-separated uploads", () => {
+    const result = parseCSV("name;price\nTea;1,50\nCake;3,20");
+    expect(result.delimiter).toBe(";");
+    expect(result.data).toEqual([
+      ["Tea", "1,50"],
+      ["Cake", "3,20"],
+    ]);
+  });
+
+  it("reads normalized content as comma-separated even when semicolons split it more evenly", () => {
+    const content = formatCSV(["tags;kind;size", "id"], [["a;b;c", "1"], ["d;e;f", "2"]]);
+    expect(parseCSV(content).delimiter).toBe(";");
+    const result = parseCSV(content, NORMALIZED_CSV);
+    expect(result.headers).toEqual(["tags;kind;size", "id"]);
+    expect(result.data).toEqual([
+      ["a;b;c", "1"],
+      ["d;e;f", "2"],
+    ]);
+  });
+
+  it("round-trips content written by formatCSV", () => {
+    const headers = ["text", "n"];
+    const data = [
+      ['comma, "quote"', "1"],
+      ["multi\nline", "2"],
+    ];
+    expect(parseCSV(formatCSV(headers, data), NORMALIZED_CSV)).toMatchObject({ headers, data, issues: [] });
+  });
+});
+
+describe("CsvStreamParser", () => {
+  it("gives the same rows however the text is split into chunks", () => {
+    const text = 'a,b\n1,"x\r\ny"\r\n2,"say ""hi"""\n';
+    const rows: [string[], number][] = [];
+    const parser = new CsvStreamParser((fields, line) => rows.push([fields, line]), NORMALIZED_CSV);
+    for (const char of text) {
+      parser.push(char);
+    }
+    parser.end();
+    expect(rows).toEqual([
+      [["a", "b"], 1],
+      [["1", "x\ny"], 2],
+      [["2", 'say "hi"'], 4],
+    ]);
+  });
+});
+
+describe("parseCSVStream", () => {
+  it("parses a byte stream and reports progress", async () => {
+    const progress: number[] = [];
+    const result = await parseCSVStream(streamOf(["a;b\n1;", "2\n3;4"]), {
+      onProgress: (bytesRead) => progress.push(bytesRead),
+    });
+    expect(result.delimiter).toBe(";");
+    expect(result.data).toEqual([
+      ["1", "2"],
+      ["3", "4"],
+    ]);
+    expect(progress).toEqual([6, 11]);
+  });
+
+  it("decodes multi-byte characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode("city\nZürich");
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 7));
+        controller.enqueue(bytes.slice(7));
+        controller.close();
+      },
+    });
+    expect((await parseCSVStream(stream)).data).toEqual([["Zürich"]]);
+  });
+});
+
+describe("describeIssueLines", () => {
+  it("lists distinct lines up to the limit", () => {
+    const issues = [2, 2, 5, 9, 12].map((line) => ({ line, message: "" }));
+    expect(describeIssueLines(issues.slice(0, 1))).toBe("line 2");
+    expect(describeIssueLines(issues, 2)).toBe("lines 2, 5 and 2 more");
+  });
+});
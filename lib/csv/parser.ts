@@ -0,0 +1,318 @@
+/**
+ * RFC 4180 CSV parsing shared by the upload form, the chat window and the
+ * agents route. Handles quoted fields with embedded delimiters, quotes and
+ * newlines, CRLF / CR / LF line endings, a leading byte order mark, and
+ * comma, semicolon, tab or pipe delimiters (detected when not given).
+ *
+ * Rows whose field count differs from the header are kept, padded or
+ * trimmed to the header width, and reported with their line number.
+ */
+
+export const CSV_DELIMITERS = [",", ";", "\t", "|"] as const;
+
+export interface CsvParseOptions {
+  // Detected from the first lines when omitted
+  delimiter?: string;
+  // Trim whitespace around unquoted fields (quoted fields are kept as written)
+  trim?: boolean;
+}
+
+// CSV the app wrote itself (stored versions, tool results, uploads after the
+// form normalized them) is comma-separated; detecting again could misread it
+export const NORMALIZED_CSV: CsvParseOptions = { delimiter: "," };
+
+export interface CsvParseIssue {
+  // 1-based line in the file where the row starts (the header is line 1)
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  data: string[][];
+  delimiter: string;
+  issues: CsvParseIssue[];
+}
+
+// Enough text to see a few complete rows when detecting the delimiter
+const DETECTION_SAMPLE_SIZE = 64 * 1024;
+const DETECTION_LINES = 20;
+
+/**
+ * Picks the delimiter that splits the sample's first lines into the most
+ * consistent number of fields, preferring commas on ties.
+ */
+export function detectDelimiter(sample: string): string {
+  const lines: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (const char of sample.replace(/^\uFEFF/, "")) {
+    if (char === '"') inQuotes = !inQuotes;
+    if ((char === "\n" || char === "\r") && !inQuotes) {
+      if (current.trim() !== "") lines.push(current);
+      current = "";
+      if (lines.length >= DETECTION_LINES) break;
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim() !== "" && lines.length < DETECTION_LINES) lines.push(current);
+
+  let best: string = ",";
+  let bestScore = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines.map((line) => countFields(line, delimiter));
+    if (!counts.length || counts[0] < 2) continue;
+    const consistent = counts.filter((count) => count === counts[0]).length / counts.length;
+    const score = consistent * 100 + Math.min(counts[0], 99) / 100;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function countFields(line: string, delimiter: string): number {
+  let count = 1;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+/**
+ * Incremental parser: feed text with push() as it arrives and call end() once.
+ * Each completed record is passed to onRow with the line it started on.
+ */
+export class CsvStreamParser {
+  issues: CsvParseIssue[] = [];
+  delimiter: string | undefined;
+
+  private readonly trim: boolean;
+  private pending = "";
+  private started = false;
+  private row: string[] = [];
+  private field = "";
+  private inQuotes = false;
+  private quotedField = false;
+  private afterQuote = false;
+  private skipLineFeed = false;
+  private line = 1;
+  private rowStartLine = 1;
+  private quoteStartLine = 1;
+
+  constructor(
+    private readonly onRow: (fields: string[], line: number) => void,
+    options: CsvParseOptions = {},
+  ) {
+    this.delimiter = options.delimiter;
+    this.trim = options.trim ?? true;
+  }
+
+  push(chunk: string): void {
+    if (!this.started) {
+      this.pending += chunk;
+      // Hold text back until there is enough to detect the delimiter
+      if (this.delimiter === undefined && this.pending.length < DETECTION_SAMPLE_SIZE) {
+        return;
+      }
+      this.start();
+      return;
+    }
+    this.consume(chunk);
+  }
+
+  end(): void {
+    if (!this.started) this.start();
+    if (this.inQuotes) {
+      this.issues.push({
+        line: this.quoteStartLine,
+        message: "Quoted field is never closed; the rest of the file was read into it",
+      });
+    }
+    if (this.row.length > 0 || this.field !== "" || this.quotedField) {
+      this.endRow();
+    }
+  }
+
+  private start(): void {
+    this.started = true;
+    const text = this.pending.replace(/^\uFEFF/, "");
+    this.pending = "";
+    if (this.delimiter === undefined) {
+      this.delimiter = detectDelimiter(text);
+    }
+    this.consume(text);
+  }
+
+  private consume(text: string): void {
+    const delimiter = this.delimiter as string;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // A CR already ended the line, so a following LF is part of the same break
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === "\n") continue;
+      }
+
+      const isNewline = char === "\n" || char === "\r";
+      if (isNewline) {
+        this.line++;
+        this.skipLineFeed = char === "\r";
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.inQuotes = false;
+          this.afterQuote = true;
+        } else {
+          this.field += isNewline ? "\n" : char;
+        }
+        continue;
+      }
+
+      if (this.afterQuote) {
+        if (char === '"') {
+          // A doubled quote inside a quoted field is a literal quote
+          this.field += '"';
+          this.inQuotes = true;
+          this.afterQuote = false;
+          continue;
+        }
+        if (char === delimiter) {
+          this.endField();
+        } else if (isNewline) {
+          this.endRow();
+        } else if (char !== " " && char !== "\t") {
+          this.issues.push({
+            line: this.line,
+            message: `Unexpected character "${char}" after a closing quote`,
+          });
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && !this.quotedField && this.field.trim() === "") {
+        this.field = "";
+        this.inQuotes = true;
+        this.quotedField = true;
+        this.quoteStartLine = this.line;
+      } else if (char === delimiter) {
+        this.endField();
+      } else if (isNewline) {
+        this.endRow();
+      } else {
+        this.field += char;
+      }
+    }
+  }
+
+  private endField(): void {
+    this.row.push(this.trim && !this.quotedField ? this.field.trim() : this.field);
+    this.field = "";
+    this.quotedField = false;
+    this.afterQuote = false;
+  }
+
+  private endRow(): void {
+    const blank = this.row.length === 0 && this.field.trim() === "" && !this.quotedField;
+    this.endField();
+    if (!blank) {
+      this.onRow(this.row, this.rowStartLine);
+    }
+    this.row = [];
+    this.rowStartLine = this.line;
+  }
+}
+
+// Builds headers and rows from parsed records, fitting each row to the header width
+class CsvTableBuilder {
+  headers: string[] = [];
+  data: string[][] = [];
+  issues: CsvParseIssue[] = [];
+
+  addRow = (fields: string[], line: number) => {
+    if (!this.headers.length) {
+      this.headers = fields.map((header, i) => header || `Column ${i + 1}`);
+      return;
+    }
+    const width = this.headers.length;
+    if (fields.length === width) {
+      this.data.push(fields);
+      return;
+    }
+    if (fields.length < width) {
+      this.issues.push({
+        line,
+        message: `Expected ${width} fields but found ${fields.length}; missing fields were left empty`,
+      });
+      this.data.push([...fields, ...Array(width - fields.length).fill("")]);
+      return;
+    }
+    const extra = fields.slice(width);
+    // Trailing delimiters with nothing after them are harmless
+    if (extra.some((value) => value !== "")) {
+      this.issues.push({
+        line,
+        message: `Expected ${width} fields but found ${fields.length}; extra fields were dropped`,
+      });
+    }
+    this.data.push(fields.slice(0, width));
+  };
+
+  result(parser: CsvStreamParser): CsvParseResult {
+    const issues = [...parser.issues, ...this.issues].sort((a, b) => a.line - b.line);
+    return {
+      headers: this.headers,
+      data: this.data,
+      delimiter: parser.delimiter ?? ",",
+      issues,
+    };
+  }
+}
+
+export function parseCSV(text: string, options: CsvParseOptions = {}): CsvParseResult {
+  const builder = new CsvTableBuilder();
+  const parser = new CsvStreamParser(builder.addRow, options);
+  parser.push(text);
+  parser.end();
+  return builder.result(parser);
+}
+
+/**
+ * Parses a byte stream (e.g. File.stream()) without holding the raw text,
+ * reporting how many bytes have been read so far.
+ */
+export async function parseCSVStream(
+  stream: ReadableStream<Uint8Array>,
+  options: CsvParseOptions & { onProgress?: (bytesRead: number) => void } = {},
+): Promise<CsvParseResult> {
+  const builder = new CsvTableBuilder();
+  const parser = new CsvStreamParser(builder.addRow, options);
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let bytesRead = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    parser.push(decoder.decode(value, { stream: true }));
+    options.onProgress?.(bytesRead);
+  }
+  parser.push(decoder.decode());
+  parser.end();
+  return builder.result(parser);
+}
+
+// Summarises parse issues for messages, e.g. "lines 4, 9, 12 and 3 more"
+export function describeIssueLines(issues: CsvParseIssue[], limit = 5): string {
+  const lines = Array.from(new Set(issues.map((issue) => issue.line)));
+  const shown = lines.slice(0, limit).join(", ");
+  const more = lines.length > limit ? ` and ${lines.length - limit} more` : "";
+  return `${lines.length === 1 ? "line" : "lines"} ${shown}${more}`;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+  canonicalValue,
+  defaultPiiPolicy,
+  findTokens,
+  formatHash,
+  formatToken,
+  maskValue,
+  normalizePiiAction,
+  parsePiiPolicy,
+  PiiError,
+  protectData,
+  revealData,
+  scanPII,
+  type Pseudonymizer,
+} from "@/lib/csv/pii";
+
+// Deterministic stand-in for the keyed digests in lib/privacy.ts
+const pseudonymize: Pseudonymizer = (kind, value, action) => {
+  const digest = Array.from(canonicalValue(kind, value))
+    .reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7)
+    .toString(16)
+    .padStart(16, "0");
+  return action === "hash" ? formatHash(digest) : formatToken(kind, digest.slice(-10));
+};
+
+describe("scanPII", () => {
+  it("flags whole columns of one kind", () => {
+    const headers = ["email", "phone", "card", "ssn", "customer_name", "city"];
+    const data = [
+      ["ann@example.com", "+1 (555) 010-2000", "4111 1111 1111 1111", "123-45-6789", "Ann Lee", "Oslo"],
+      ["bob@example.org", "555.010.3000", "5500-0000-0000-0004", "987-65-4321", "Bob", "Rome"],
+    ];
+    expect(scanPII(headers, data).map(({ column, kind, scope }) => [column, kind, scope])).toEqual([
+      ["email", "email", "column"],
+      ["phone", "phone", "column"],
+      ["card", "credit_card", "column"],
+      ["ssn", "national_id", "column"],
+      ["customer_name", "name", "column"],
+    ]);
+  });
+
+  it("reports personal data found inside free text", () => {
+    const data = [["Call me at +44 20 7946 0958"], ["Mail ann@example.com"], ["Fine"], ["Great"], ["Ok"]];
+    expect(scanPII(["note"], data)).toEqual([
+      { column: "note", kind: "phone", cells: 1, scope: "cells" },
+      { column: "note", kind: "email", cells: 1, scope: "cells" },
+    ]);
+  });
+
+  it("ignores card-like numbers that fail the checksum, dates and names in columns not named like them", () => {
+    const data = [["4111111111111112", "2024-01-05", "Blue Widget"]];
+    expect(scanPII(["reference", "date", "product"], data)).toEqual([]);
+  });
+
+  it("skips values that are already protected", () => {
+    const data = [["TKN_EMAIL_0123456789"], ["j***@example.com"], ["HASH_0123456789abcdef"]];
+    expect(scanPII(["email"], data)).toEqual([]);
+  });
+
+  it("still scans text that only contains asterisks", () => {
+    const data = [["*** urgent *** call +1 (555) 010-2000"], ["ok"]];
+    expect(scanPII(["note"], data)).toEqual([{ column: "note", kind: "phone", cells: 1, scope: "cells" }]);
+  });
+});
+
+describe("maskValue", () => {
+  it("keeps a hint of each kind", () => {
+    expect(maskValue("email", "jane@example.com")).toBe("j***@example.com");
+    expect(maskValue("name", "Jane Doe")).toBe("J*** D***");
+    expect(maskValue("phone", "555-010-2000")).toBe("***-***-2000");
+    expect(maskValue("credit_card", "4111 1111 1111 1111")).toBe("**** **** **** 1111");
+    expect(maskValue("national_id", "AB1")).toBe("***");
+  });
+});
+
+describe("protectData", () => {
+  const headers = ["email", "note", "city"];
+  const data = [
+    ["ann@example.com", "reach me at bob@example.org", "Oslo"],
+    ["ann@example.com", "", "Rome"],
+  ];
+
+  it("replaces flagged columns whole and personal data inside other text", () => {
+    const result = protectData(headers, data, { email: "tokenize", note: "mask" }, pseudonymize);
+    expect(result.data[0][0]).toMatch(/^TKN_EMAIL_[0-9a-f]{10}$/);
+    expect(result.data[1][0]).toBe(result.data[0][0]);
+    expect(result.data[0][1]).toBe("reach me at b***@example.org");
+    expect(result.data[0][2]).toBe("Oslo");
+    expect(result.cellsProtected).toBe(3);
+  });
+
+  it("leaves protected values alone, so protecting twice changes nothing", () => {
+    const policy = { email: "mask", note: "hash" } as const;
+    const once = protectData(headers, data, policy, pseudonymize);
+    const twice = protectData(headers, once.data, policy, pseudonymize);
+    expect(twice.data).toEqual(once.data);
+    expect(twice.cellsProtected).toBe(0);
+  });
+
+  it("protects values next to asterisks that aren't a mask", () => {
+    const rows = [["ann@example.com", "*** VIP *** ann@example.com", "Oslo"]];
+    const result = protectData(headers, rows, { note: "mask" }, pseudonymize);
+    expect(result.data[0][1]).toBe("*** VIP *** a***@example.com");
+  });
+
+  it("restores tokens that can be looked up", () => {
+    const result = protectData(headers, data, { email: "tokenize", note: "tokenize" }, pseudonymize);
+    const tokens = findTokens(result.data);
+    expect(tokens).toHaveLength(2);
+    const originals = new Map([[tokens[0], "ann@example.com"]]);
+    const revealed = revealData(result.data, (token) => originals.get(token));
+    expect(revealed[0][0]).toBe("ann@example.com");
+    expect(revealed[0][1]).toBe(result.data[0][1]);
+  });
+});
+
+describe("policies", () => {
+  it("protects every flagged column by default", () => {
+    const findings = scanPII(["email", "city"], [["ann@example.com", "Oslo"]]);
+    expect(defaultPiiPolicy(findings)).toEqual({ email: "tokenize" });
+    expect(defaultPiiPolicy(findings, "mask")).toEqual({ email: "mask" });
+  });
+
+  it("reads policies with action aliases and rejects unknown actions", () => {
+    expect(parsePiiPolicy({ email: "redact", phone: "keep" })).toEqual({ email: "mask", phone: "none" });
+    expect(parsePiiPolicy(undefined)).toEqual({});
+    expect(() => parsePiiPolicy({ email: "encrypt" })).toThrow(PiiError);
+    expect(() => parsePiiPolicy(["email"])).toThrow(PiiError);
+    expect(normalizePiiAction("Pseudonymize")).toBe("tokenize");
+  });
+});
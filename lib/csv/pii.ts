@@ -0,0 +1,375 @@
+// Detection and protection of personal data (PII) in CSV datasets. Protected
+// values replace the originals before any content is sent to the model; hashing
+// and tokenizing are keyed server-side (see lib/privacy.ts).
+
+import { parseDateValue, parseNumericValue } from "@/lib/csv/columnTypes";
+import { isMissing } from "@/lib/csv/imputation";
+
+export const PII_KINDS = ["email", "phone", "credit_card", "national_id", "name"] as const;
+
+export type PiiKind = (typeof PII_KINDS)[number];
+
+export const PII_KIND_LABELS: Record<PiiKind, string> = {
+  email: "email address",
+  phone: "phone number",
+  credit_card: "credit card number",
+  national_id: "national ID",
+  name: "person name",
+};
+
+export const PII_ACTIONS = ["none", "mask", "hash", "tokenize"] as const;
+
+export type PiiAction = (typeof PII_ACTIONS)[number];
+
+const ACTION_ALIASES: Record<string, PiiAction> = {
+  keep: "none",
+  off: "none",
+  redact: "mask",
+  sha256: "hash",
+  token: "tokenize",
+  pseudonymize: "tokenize",
+};
+
+// Column name → how the personal data in it is protected
+export type PiiPolicy = Record<string, PiiAction>;
+
+export interface PiiFinding {
+  column: string;
+  kind: PiiKind;
+  // Cells holding a value of this kind, alone or within other text
+  cells: number;
+  // "column" when most values are of this kind, "cells" when it appears inside some values
+  scope: "column" | "cells";
+}
+
+export interface ProtectedData {
+  data: string[][];
+  cellsProtected: number;
+}
+
+// Hashes or tokenizes one value; supplied by the server, which holds the key
+export type Pseudonymizer = (kind: PiiKind, value: string, action: "hash" | "tokenize") => string;
+
+const TOKEN_CODES: Record<PiiKind, string> = {
+  email: "EMAIL",
+  phone: "PHONE",
+  credit_card: "CARD",
+  national_id: "ID",
+  name: "NAME",
+};
+
+const TOKEN_LENGTH = 10;
+const HASH_LENGTH = 16;
+export const TOKEN_PATTERN = /\bTKN_(EMAIL|PHONE|CARD|ID|NAME)_([0-9a-f]{10})\b/gi;
+const PROTECTED_VALUE = /^(?:TKN_(?:EMAIL|PHONE|CARD|ID|NAME)_[0-9a-f]{10}|HASH_[0-9a-f]{16})$/i;
+const PROTECTED_IN_TEXT = /\b(?:TKN_(?:EMAIL|PHONE|CARD|ID|NAME)_[0-9a-f]{10}|HASH_[0-9a-f]{16})\b/gi;
+// The shapes maskValue writes: "j***@example.com", "J*** S***" and "***-***-1234" (read without separators)
+const MASKED_EMAIL = /^[^\s@]\*\*\*@[^\s@]+$/;
+const MASKED_NAME = /^\S\*\*\*(?:\s+\S\*\*\*)*$/u;
+const MASKED_CHARACTERS = /^(?:\*+[a-z0-9]{4}|\*{1,4})$/i;
+
+// A column is flagged when at least this share of its values is of one kind
+const COLUMN_THRESHOLD = 0.5;
+
+const EMAIL_VALUE = /^[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}$/i;
+const EMAIL_IN_TEXT = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi;
+const CARD_IN_TEXT = /\b\d(?:[ -]?\d){12,18}\b/g;
+const PHONE_VALUE = /^(?:\+|00)?[\d\s().-]{7,24}$/;
+const PHONE_IN_TEXT = /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)\s?|\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}\b/g;
+const SSN = /\b\d{3}-\d{2}-\d{4}\b/g;
+const SSN_VALUE = /^\d{3}-\d{2}-\d{4}$/;
+const NINO = /\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/gi;
+const NINO_VALUE = /^[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]$/i;
+const NATIONAL_ID_VALUE = /^[a-z0-9][a-z0-9 -]{3,18}[a-z0-9]$/i;
+const NAME_VALUE = /^\p{Lu}[\p{L}'’.-]*(?:\s+\p{L}[\p{L}'’.-]*){0,3}$/u;
+const FULL_NAME_VALUE = /^\p{Lu}[\p{L}'’.-]*(?:\s+\p{Lu}[\p{L}'’.-]*){1,3}$/u;
+
+const PHONE_HEADER = /(^|_)(phone|mobile|cell|tel|telephone|fax|msisdn)(_|$)/;
+const NATIONAL_ID_HEADER =
+  /(^|_)(ssn|social_security(_number)?|national_id|national_insurance(_number)?|nin|nino|sin|passport(_number|_no)?|tax_id|tin|bsn|nhs_number|aadhaar|id_number|id_card)$/;
+const NAME_HEADER =
+  /^(?:(?:first|last|full|given|family|middle|maiden|customer|contact|client|employee|patient|person|owner|account_holder|card_holder|cardholder|sender|recipient)_?)?(?:name|surname|forename)$/;
+
+export class PiiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PiiError";
+  }
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]/g, "_");
+}
+
+export function normalizePiiAction(action: string): PiiAction | null {
+  const key = normalizeKey(action);
+  if ((PII_ACTIONS as readonly string[]).includes(key)) {
+    return key as PiiAction;
+  }
+  return ACTION_ALIASES[key] ?? null;
+}
+
+function digitCount(value: string): number {
+  return value.replace(/\D/g, "").length;
+}
+
+// Luhn checksum, which every payment card number satisfies
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isCardNumber(value: string): boolean {
+  const digits = value.replace(/[ -]/g, "");
+  return /^\d{13,19}$/.test(digits) && passesLuhn(digits);
+}
+
+function isPhoneNumber(value: string, hinted: boolean): boolean {
+  const digits = digitCount(value);
+  if (!PHONE_VALUE.test(value) || digits < 7 || digits > 15 || parseDateValue(value)) {
+    return false;
+  }
+  // Plain digit runs are only phone numbers in a column named like one
+  return hinted || /^(\+|00)|[\s().-]/.test(value);
+}
+
+/**
+ * The kind of personal data a whole value is, given its column name, or null.
+ * Person names are only recognized in columns named like them.
+ */
+function classifyValue(header: string, value: string): PiiKind | null {
+  if (EMAIL_VALUE.test(value)) return "email";
+  if (isCardNumber(value)) return "credit_card";
+  if (SSN_VALUE.test(value) || NINO_VALUE.test(value)) return "national_id";
+  if (NATIONAL_ID_HEADER.test(header) && NATIONAL_ID_VALUE.test(value) && /\d/.test(value)) {
+    return "national_id";
+  }
+  if (isPhoneNumber(value, PHONE_HEADER.test(header))) return "phone";
+  if (NAME_HEADER.test(header)) {
+    // A bare "name" column may hold products or places, so it needs full names
+    return (header === "name" ? FULL_NAME_VALUE : NAME_VALUE).test(value) ? "name" : null;
+  }
+  return null;
+}
+
+// Personal data found inside free text, in the order it is replaced
+const EMBEDDED_PATTERNS: { kind: PiiKind; pattern: RegExp; accept: (match: string) => boolean }[] = [
+  { kind: "email", pattern: EMAIL_IN_TEXT, accept: () => true },
+  { kind: "credit_card", pattern: CARD_IN_TEXT, accept: isCardNumber },
+  { kind: "national_id", pattern: SSN, accept: () => true },
+  { kind: "national_id", pattern: NINO, accept: () => true },
+  {
+    kind: "phone",
+    pattern: PHONE_IN_TEXT,
+    accept: (match) => digitCount(match) >= 7 && digitCount(match) <= 15 && !parseDateValue(match),
+  },
+];
+
+// Replaces the personal data inside a text value; tokens and hashes already there are kept
+function replaceEmbedded(value: string, replace: (kind: PiiKind, match: string) => string): string {
+  const protectedParts: string[] = [];
+  let text = value.replace(PROTECTED_IN_TEXT, (part) => `\u0000${protectedParts.push(part) - 1}\u0000`);
+  for (const { kind, pattern, accept } of EMBEDDED_PATTERNS) {
+    text = text.replace(pattern, (match) => (accept(match) ? replace(kind, match) : match));
+  }
+  return text.replace(/\u0000(\d+)\u0000/g, (_, index) => protectedParts[Number(index)]);
+}
+
+// Whole values already tokenized, hashed or masked; text that merely contains asterisks is still scanned
+function isProtected(value: string): boolean {
+  const trimmed = value.trim();
+  return (
+    PROTECTED_VALUE.test(trimmed) ||
+    MASKED_EMAIL.test(trimmed) ||
+    MASKED_NAME.test(trimmed) ||
+    (trimmed.includes("*") && MASKED_CHARACTERS.test(trimmed.replace(/[^a-z0-9*]/gi, "")))
+  );
+}
+
+/**
+ * Flags the columns holding personal data. A column is flagged as a whole when
+ * most of its values are of one kind; otherwise the kinds found inside its text
+ * values are reported with the number of cells holding them.
+ */
+export function scanPII(headers: string[], data: string[][]): PiiFinding[] {
+  const findings: PiiFinding[] = [];
+  headers.forEach((column, index) => {
+    const header = normalizeKey(column);
+    const values = data.map((row) => row[index]).filter((value) => !isMissing(value) && !isProtected(value));
+    if (!values.length) return;
+
+    const counts = new Map<PiiKind, number>();
+    values.forEach((value) => {
+      const kind = classifyValue(header, value.trim());
+      if (kind) counts.set(kind, (counts.get(kind) ?? 0) + 1);
+    });
+    const top = Array.from(counts).sort((a, b) => b[1] - a[1])[0];
+    if (top && top[1] >= values.length * COLUMN_THRESHOLD) {
+      findings.push({ column, kind: top[0], cells: top[1], scope: "column" });
+      return;
+    }
+
+    // Numbers and dates can't hide personal data inside them
+    const embedded = new Map<PiiKind, number>();
+    values
+      .filter((value) => parseNumericValue(value) === null && !parseDateValue(value))
+      .forEach((value) => {
+        const kinds = new Set<PiiKind>();
+        replaceEmbedded(value, (found, match) => {
+          kinds.add(found);
+          return match;
+        });
+        kinds.forEach((found) => embedded.set(found, (embedded.get(found) ?? 0) + 1));
+      });
+    embedded.forEach((count, found) => findings.push({ column, kind: found, cells: count, scope: "cells" }));
+  });
+  return findings;
+}
+
+// Protects every flagged column; this is what uploads start with
+export function defaultPiiPolicy(findings: PiiFinding[], action: PiiAction = "tokenize"): PiiPolicy {
+  return Object.fromEntries(findings.map((finding) => [finding.column, action]));
+}
+
+export function hasProtection(policy: PiiPolicy | null | undefined): boolean {
+  return !!policy && Object.values(policy).some((action) => action !== "none");
+}
+
+/**
+ * Reads a policy sent by a client or stored with a dataset: an object mapping
+ * column names to "none", "mask", "hash" or "tokenize".
+ */
+export function parsePiiPolicy(value: unknown): PiiPolicy {
+  if (value === null || value === undefined) {
+    return {};
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new PiiError("A privacy policy must map column names to none, mask, hash or tokenize");
+  }
+  const policy: PiiPolicy = {};
+  for (const [column, action] of Object.entries(value)) {
+    const normalized = typeof action === "string" ? normalizePiiAction(action) : null;
+    if (!normalized) {
+      throw new PiiError(`Unknown privacy action "${String(action)}" for column "${column}"; use none, mask, hash or tokenize`);
+    }
+    policy[column] = normalized;
+  }
+  return policy;
+}
+
+/**
+ * Masks a value irreversibly while keeping its shape: the first letter of
+ * emails and names, and the last four characters of numbers and IDs.
+ */
+export function maskValue(kind: PiiKind, value: string): string {
+  if (kind === "email") {
+    const at = value.lastIndexOf("@");
+    return `${value[0]}***${value.slice(at)}`;
+  }
+  if (kind === "name") {
+    return value.split(/\s+/).map((word) => `${word[0]}***`).join(" ");
+  }
+  // Values too short to keep four characters are masked entirely
+  const characters = value.replace(/[^a-z0-9]/gi, "").length;
+  const hidden = characters > 4 ? characters - 4 : characters;
+  let seen = 0;
+  return value.replace(/[a-z0-9]/gi, (char) => (seen++ < hidden ? "*" : char));
+}
+
+// The form a value is keyed by, so "+1 (555) 010-2000" and "15550102000" match
+export function canonicalValue(kind: PiiKind, value: string): string {
+  const trimmed = value.trim();
+  switch (kind) {
+    case "email":
+    case "name":
+      return trimmed.toLowerCase().replace(/\s+/g, " ");
+    case "phone":
+    case "credit_card":
+      return trimmed.replace(/\D/g, "");
+    case "national_id":
+      return trimmed.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  }
+}
+
+export function formatToken(kind: PiiKind, digest: string): string {
+  return `TKN_${TOKEN_CODES[kind]}_${digest.slice(0, TOKEN_LENGTH).toLowerCase()}`;
+}
+
+export function formatHash(digest: string): string {
+  return `HASH_${digest.slice(0, HASH_LENGTH).toLowerCase()}`;
+}
+
+/**
+ * Applies a policy. Whole values are replaced in flagged columns; in other
+ * columns named by the policy only the personal data inside the text is.
+ * Values that are already masked, hashed or tokenized are left as they are.
+ */
+export function protectData(
+  headers: string[],
+  data: string[][],
+  policy: PiiPolicy,
+  pseudonymize: Pseudonymizer,
+): ProtectedData {
+  const columnKinds = new Map(
+    scanPII(headers, data)
+      .filter((finding) => finding.scope === "column")
+      .map((finding) => [finding.column, finding.kind]),
+  );
+  const protect = (action: PiiAction, kind: PiiKind, value: string) =>
+    action === "mask" ? maskValue(kind, value) : pseudonymize(kind, value, action as "hash" | "tokenize");
+
+  const actions = headers.map((header) => policy[header] ?? "none");
+  let cellsProtected = 0;
+  const protectedData = data.map((row) =>
+    row.map((cell, index) => {
+      const action = actions[index];
+      if (action === "none" || isMissing(cell) || isProtected(cell)) {
+        return cell;
+      }
+      const kind = columnKinds.get(headers[index]);
+      const value = kind ? protect(action, kind, cell.trim()) : replaceEmbedded(cell, (found, match) => protect(action, found, match));
+      if (value !== cell) cellsProtected++;
+      return value;
+    }),
+  );
+  return { data: protectedData, cellsProtected };
+}
+
+// The distinct tokens in the data, in canonical form
+export function findTokens(data: string[][], columns?: number[]): string[] {
+  const tokens = new Set<string>();
+  data.forEach((row) =>
+    row.forEach((cell, index) => {
+      if (columns && !columns.includes(index)) return;
+      for (const [, code, digest] of Array.from(cell.matchAll(TOKEN_PATTERN))) {
+        tokens.add(`TKN_${code.toUpperCase()}_${digest.toLowerCase()}`);
+      }
+    }),
+  );
+  return Array.from(tokens);
+}
+
+// Puts the original values back for tokens that can be looked up; others stay
+export function revealData(
+  data: string[][],
+  lookup: (token: string) => string | undefined,
+  columns?: number[],
+): string[][] {
+  return data.map((row) =>
+    row.map((cell, index) =>
+      columns && !columns.includes(index)
+        ? cell
+        : cell.replace(TOKEN_PATTERN, (token, code: string, digest: string) =>
+            lookup(`TKN_${code.toUpperCase()}_${digest.toLowerCase()}`) ?? token,
+          ),
+    ),
+  );
+}
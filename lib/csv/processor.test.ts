@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { FilterExpressionError } from "@/lib/csv/filterExpression";
+import { CSVDataProcessor } from "@/lib/csv/processor";
+
+describe("CSVDataProcessor filter conditions", () => {
+  const processor = new CSVDataProcessor();
+  const headers = ["region", "revenue"];
+
+  it("lets the condition leave out the given column", () => {
+    const filter = processor._parseFilter("> 5", headers, "revenue");
+    expect(filter.columns).toEqual(["revenue"]);
+    expect(filter.matches(["north", "7"])).toBe(true);
+  });
+
+  it("reports conditions that don't parse instead of searching for their text", () => {
+    expect(() => processor._parseFilter("revenue >> 5", headers, "revenue")).toThrow(FilterExpressionError);
+    expect(() => processor._parseFilter("revenue >> 5", headers, "revenue")).toThrow('found ">"');
+    expect(() => processor._parseFilter("north", headers, "region")).toThrow(FilterExpressionError);
+  });
+
+  it("reports the error of the completed condition when the column was left out", () => {
+    expect(() => processor._parseFilter("> ", headers, "revenue")).toThrow("Expected a value");
+  });
+});
@@ -0,0 +1,979 @@
+import { StructuredTool } from "@langchain/core/tools";
+import { z } from "zod";
+import {
+  IMPUTATION_METHODS,
+  imputeColumn,
+  isMissing,
+  normalizeImputationMethod,
+} from "@/lib/csv/imputation";
+import {
+  FilterExpressionError,
+  parseFilterExpression,
+  type FilterExpression,
+} from "@/lib/csv/filterExpression";
+import {
+  inferColumnType,
+  isDateType,
+  isNumericType,
+  profileColumns,
+  typedValue,
+  type ColumnProfile,
+} from "@/lib/csv/columnTypes";
+import { formatCSV, XLSX_MIME_TYPE } from "@/lib/csv/format";
+import { buildXlsx } from "@/lib/csv/xlsx";
+import { describeIssueLines, NORMALIZED_CSV, parseCSV, type CsvParseIssue } from "@/lib/csv/parser";
+import { validateCSVData } from "@/lib/csv/validation";
+import {
+  applyOutlierAction,
+  detectOutliers,
+  normalizeOutlierAction,
+  normalizeOutlierMethod,
+  OUTLIER_ACTIONS,
+  OUTLIER_METHODS,
+  OutlierError,
+  type OutlierActionResult,
+  type OutlierDetection,
+} from "@/lib/csv/outliers";
+import {
+  buildChart,
+  CHART_TYPES,
+  ChartError,
+  describeChart,
+  normalizeChartType,
+  type ChartSpec,
+} from "@/lib/csv/charts";
+import {
+  buildDataQualityReport,
+  type ReportAction,
+  type ReportSource,
+} from "@/lib/csv/report";
+import {
+  clusterValues,
+  countDuplicateRows,
+  dropDuplicateRows,
+  DUPLICATE_KEEP_POLICIES,
+  DUPLICATE_METHODS,
+  DuplicateError,
+  findDuplicateGroups,
+  findNearDuplicateClusters,
+  normalizeDuplicateMethod,
+  normalizeKeepPolicy,
+  type DuplicateGroup,
+  type NearDuplicateResult,
+} from "@/lib/csv/duplicates";
+import {
+  applyTransform,
+  isTransformOperation,
+  TRANSFORM_OPERATIONS,
+  TransformError,
+  type TransformResult,
+} from "@/lib/csv/transforms";
+import { ArithmeticExpressionError } from "@/lib/csv/arithmetic";
+import {
+  AggregationError,
+  AGGREGATIONS,
+  DEFAULT_TOP_N,
+  groupBy,
+  normalizeAggregation,
+  pivot,
+  sortRows,
+  topN,
+  unpivot,
+  type TableResult,
+} from "@/lib/csv/aggregation";
+import { tableAttachment } from "@/lib/csv/attachments";
+import {
+  appendTables,
+  JOIN_TYPES,
+  JoinError,
+  joinTables,
+  normalizeJoinType,
+  type AppendResult,
+  type JoinResult,
+} from "@/lib/csv/joins";
+import {
+  applyValidationAction,
+  normalizeValidationAction,
+  parseRules,
+  parseRuleSet,
+  referencedDatasets,
+  RULE_SCHEMA,
+  RuleError,
+  VALIDATION_ACTIONS,
+  validateRules,
+  type ValidationResult,
+  type ValidationRule,
+} from "@/lib/csv/rules";
+
+// Operations that answer with a result table
+const TABLE_OPERATIONS = ["group_by", "pivot", "unpivot", "sort", "top_n"];
+
+// A filter condition that starts with an operator leaves out its column, e.g. "> 30"
+const OMITTED_COLUMN_PATTERN = /^\s*(==|!=|<>|<=|>=|=~|!~|[=<>!~]|(not|in|is|matches|like|contains|starts|ends)\b)/i;
+
+// The csv_processor tool used by the data agent. Kept outside the route so
+// recipes can be replayed with the same operations without the model.
+
+// Generate a downloadable file content with base64 encoding
+export async function generateDownloadableFile(csvData: string, format: string): Promise<string> {
+    // For CSV, we can just use the CSV data directly with base64 encoding
+    if (format === 'csv') {
+        return `data:text/csv;base64,${Buffer.from(csvData).toString('base64')}`;
+    }
+    
+    // For Excel, build a real workbook with typed cells and a styled header
+    if (format === 'excel') {
+        const { headers, data } = parseCSV(csvData, NORMALIZED_CSV);
+        const workbook = await buildXlsx(headers, data);
+        return `data:${XLSX_MIME_TYPE};base64,${Buffer.from(workbook).toString('base64')}`;
+    }
+    
+    return '';
+}
+
+// Name downloads after the uploaded file, with the extension of the chosen format
+export function downloadFileName(sourceFileName: string | undefined, format: string): string {
+    const extension = format === 'excel' ? 'xlsx' : 'csv';
+    const baseName = sourceFileName ? sourceFileName.replace(/\.[^.]+$/, '') : 'cleaned_data';
+    return `${baseName}.${extension}`;
+}
+
+// CSV Data Processing Tool
+export class CSVDataProcessor extends StructuredTool {
+  name = "csv_processor";
+  description = "Process, clean, and analyze CSV data. Reference an uploaded dataset by dataset_id (and optionally version) instead of passing CSV text. Operations that change the data save the result as a new dataset version.";
+  schema = z.object({
+    dataset_id: z.string().optional().describe("The name or ID of a loaded dataset to operate on. Results that change it return a preview, and later operations continue from the changed data"),
+    version: z.number().int().optional().describe("The dataset version to read (defaults to the current version). Changes always apply to the current version"),
+    csv_data: z.string().optional().describe("Inline CSV data, only for a few rows the user typed into the chat. Never copy rows of a loaded dataset here; use its dataset_id"),
+    operation: z.enum([
+      "analyze", 
+      "profile",
+      "filter", 
+      "summarize", 
+      "visualize", 
+      "clean_missing", 
+      "detect_outliers", 
+      "remove_duplicates", 
+      "generate_report",
+      "rename_columns",
+      "drop_columns",
+      "reorder_columns",
+      "cast_columns",
+      "split_column",
+      "merge_columns",
+      "clean_text",
+      "format_dates",
+      "standardize_numbers",
+      "derive_column",
+      "group_by",
+      "pivot",
+      "unpivot",
+      "sort",
+      "top_n",
+      "join",
+      "append",
+      "union",
+      "validate",
+      "download_data",  // New operation to download data
+      "undo",
+      "redo",
+      "list_steps"
+    ]).describe("The operation to perform on the CSV data. rename_columns through derive_column reshape columns; group_by, pivot, unpivot, sort and top_n build result tables; join, append and union combine the data with other_dataset; validate checks business rules. undo, redo and list_steps move through or list the dataset's cleaning steps"),
+    column: z.string().optional().describe("The column to operate on (for filter, summarize, clean_missing, detect_outliers, profile, visualize, split_column and the other column transformations). For pivot, the column whose values become columns; for top_n, the column to rank by"),
+    columns: z.array(z.string()).optional().describe("Several numeric columns for detect_outliers (with method 'mahalanobis' they are checked jointly), the key columns that identify a duplicate for remove_duplicates (defaults to every column), the columns to chart for visualize (e.g. x then y for scatter), the columns to drop, reorder (listed first, in order), cast, merge, clean_text, format_dates or standardize_numbers, the group keys for group_by and top_n, the row keys for pivot, the columns to turn into rows for unpivot, the sort columns in order, or the key columns for join"),
+    condition: z.string().optional().describe("The filter expression (for filter operation), e.g. `age > 30 AND country != \"US\"`. Supports =, !=, <, <=, >, >=, IN (...), NOT IN (...), IS NULL, IS NOT NULL, CONTAINS, STARTS WITH, ENDS WITH, MATCHES \"regex\", AND, OR, NOT and parentheses. Quote text values and wrap column names containing spaces in backticks. When column is given, the expression may omit it (e.g. \"> 30\")"),
+    method: z.string().optional().describe("For clean_missing: 'drop', 'mean', 'median', 'mode', 'constant', 'forward_fill', 'backward_fill' or 'interpolate' (omit column to clean every column with missing values). For detect_outliers: 'zscore', 'iqr', 'modified_zscore' (median/MAD), 'percentile' or 'mahalanobis' (multivariate). For remove_duplicates: 'exact' (default) or 'fuzzy' (near-duplicates by edit distance on names and normalized emails/phones). For clean_text: 'trim' (default), 'lower', 'upper', 'title', 'collapse_whitespace' or 'regex_replace'. For pivot (and group_by with value_column): the aggregation, e.g. 'sum' (default) or 'mean'. For join: 'inner' (default), 'left', 'right' or 'outer'"),
+    fill_value: z.string().optional().describe("The value to fill missing cells with (for clean_missing with method 'constant')"),
+    order_by: z.string().optional().describe("Column that orders the rows for 'forward_fill', 'backward_fill' and 'interpolate' (defaults to file order)"),
+    threshold: z.number().optional().describe("The outlier threshold: standard deviations for zscore (default 3), IQR multiple for iqr (1.5), cutoff for modified_zscore (3.5), share cut from each tail for percentile (0.01), chi-square probability for mahalanobis (0.975). For fuzzy remove_duplicates, the minimum similarity from 0 to 1 (0.85)"),
+    action: z.string().optional().describe(`What detect_outliers does with the outliers: 'detect' (report only, default), 'flag' (add a true/false column), 'cap' (winsorize to the bounds) or 'remove'. What validate does with failing rows: ${VALIDATION_ACTIONS.map(a => `'${a}'`).join(', ')} ('report' lists the violations, 'flag' adds a column naming the broken rules, 'quarantine' moves failing rows to a separate table)`),
+    keep: z.string().optional().describe("Which row of each duplicate group remove_duplicates keeps: 'first' (default), 'last' or 'most_complete' (most filled cells)"),
+    normalize: z.boolean().optional().describe("For exact remove_duplicates: ignore case, extra whitespace and accents/Unicode variants when comparing"),
+    clusters: z.union([z.array(z.number().int()), z.literal("all")]).optional().describe("For fuzzy remove_duplicates: the candidate cluster numbers to deduplicate after reviewing them, or 'all'. Omit to only list the candidate clusters"),
+    chart_type: z.string().optional().describe("For visualize: 'histogram' (one numeric column), 'bar' (most frequent values of a column), 'scatter' (two numeric columns), 'line' (a date column and optionally a numeric one) or 'missing_heatmap' (missing values by row band; defaults to every column). Inferred from the column types when omitted"),
+    mapping: z.record(z.string()).optional().describe("For rename_columns: current column name → new name"),
+    to_type: z.string().optional().describe("For cast_columns: 'string', 'integer', 'float', 'boolean' or 'date' (ISO). Values that don't fit are cleared"),
+    separator: z.string().optional().describe("For split_column (default ',') and merge_columns (default ' ')"),
+    new_columns: z.array(z.string()).optional().describe("For split_column: names of the resulting columns (defaults to <column>_1, <column>_2, ...)"),
+    new_column: z.string().optional().describe("For merge_columns and derive_column: the name of the column to add. For validate with action 'flag': the flag column (default 'validation_errors')"),
+    pattern: z.string().optional().describe("For clean_text with method 'regex_replace': the regular expression to replace"),
+    replacement: z.string().optional().describe("For clean_text with method 'regex_replace': the replacement text ($1 refers to a group; defaults to empty)"),
+    expression: z.string().optional().describe("For derive_column: arithmetic over columns, e.g. `price * quantity` or round(`Unit Price` * 1.2, 2). Supports + - * / % ^, parentheses and abs, round, floor, ceil, sqrt, ln, log10, min, max"),
+    unit: z.string().optional().describe("For standardize_numbers: the unit to convert values such as '5 kg' or '12 in' into (defaults to the column's most common unit)"),
+    aggregations: z.array(z.object({
+      column: z.string().optional().describe("The column to aggregate (omit for a row count)"),
+      function: z.string().describe(`One of: ${AGGREGATIONS.join(', ')}`),
+      as: z.string().optional().describe("Name of the result column"),
+    })).optional().describe("For group_by: the aggregations per group, e.g. [{\"column\": \"revenue\", \"function\": \"mean\"}]. Defaults to a row count"),
+    value_column: z.string().optional().describe("For pivot: the column aggregated into each cell (omit to count rows). For group_by: shorthand for one aggregation of this column with method"),
+    descending: z.union([z.boolean(), z.array(z.boolean())]).optional().describe("For sort: sort descending (one flag for all columns, or one per sort column). For top_n: false for the lowest values (default true)"),
+    n: z.number().int().optional().describe(`For top_n: how many rows to keep (default ${DEFAULT_TOP_N}, per group when columns are given)`),
+    save_result: z.boolean().optional().describe("For group_by, pivot and top_n: replace the working data with the result table (saved as a new version) so later operations and download_data use it"),
+    other_dataset: z.string().optional().describe("For join, append and union: the name (or dataset_id) of the other loaded dataset to combine with"),
+    right_on: z.array(z.string()).optional().describe("For join: the key columns in other_dataset when they are named differently, in the same order as columns"),
+    rules: z.array(RULE_SCHEMA).optional().describe("For validate: the rules to check, e.g. [{\"type\": \"unique\", \"column\": \"id\"}, {\"type\": \"format\", \"column\": \"email\", \"format\": \"email\"}, {\"type\": \"range\", \"column\": \"age\", \"min\": 0, \"max\": 120}]. Empty cells pass every rule except required"),
+    rule_set: z.string().optional().describe("For validate: a rule set as JSON or YAML text, such as an uploaded rules file, instead of rules"),
+    format: z.enum(["csv", "excel"]).optional().describe("The format for downloading data (csv, or excel for an .xlsx workbook)"),
+    processed_data: z.string().optional().describe("Inline CSV data to download when no dataset is loaded. Not needed with a dataset_id: download_data reads the dataset's current data"),
+  });
+
+  async _call(input: z.infer<typeof this.schema>) {
+    try {
+      const { csv_data, operation, column, columns, condition, method, fill_value, order_by, threshold, action, keep, normalize, clusters, chart_type, mapping, to_type, separator, new_columns, new_column, pattern, replacement, expression, unit, save_result, other_dataset, right_on, rules, rule_set, format, processed_data } = input;
+      
+      // Validate operation
+      const validOperations = ["analyze", "profile", "filter", "summarize", "visualize", "clean_missing", 
+                               "detect_outliers", "remove_duplicates", "generate_report", ...TRANSFORM_OPERATIONS, ...TABLE_OPERATIONS, "join", "append", "union", "validate", "download_data",
+                               "undo", "redo", "list_steps"];
+      if (!validOperations.includes(operation)) {
+        return `Error: Invalid operation "${operation}". Valid operations are: ${validOperations.join(', ')}`;
+      }
+      
+      // Step history is kept with stored datasets only
+      if (["undo", "redo", "list_steps"].includes(operation)) {
+        return `Error: The ${operation} operation needs an uploaded dataset. Pass its dataset_id.`;
+      }
+      
+      // Special case for download operation
+      if (operation === "download_data") {
+        const dataToDownload = processed_data || csv_data || '';
+        
+        // Validate download data
+        const validation = validateCSVData(dataToDownload, NORMALIZED_CSV);
+        if (!validation.valid) {
+          return `Error: ${validation.error}`;
+        }
+        
+        const downloadFormat = format || "csv";
+        if (!["csv", "excel"].includes(downloadFormat)) {
+          return "Error: Invalid download format. Use 'csv' or 'excel'.";
+        }
+        
+        const downloadLink = await generateDownloadableFile(dataToDownload, downloadFormat);
+        return JSON.stringify({
+          download_link: downloadLink,
+          file_name: downloadFileName(undefined, downloadFormat),
+          file_format: downloadFormat,
+          message: `Your cleaned data is ready to download as a ${downloadFormat.toUpperCase()} file.`
+        });
+      }
+      
+      // Validate CSV data
+      const validation = validateCSVData(csv_data ?? '', NORMALIZED_CSV);
+      if (!validation.valid) {
+        return `Error: ${validation.error}`;
+      }
+      
+      const { headers, data, issues } = validation.parsed;
+      
+      // Validate column if provided
+      if (column && !headers.includes(column)) {
+        return `Error: Column "${column}" not found in the CSV data. Available columns: ${headers.join(', ')}`;
+      }
+      
+      // For demonstration purposes, we'll return detailed responses
+      // In a real implementation, you would process the parsed CSV according to the operation
+      
+      if (operation === "analyze") {
+        const rowCount = data.length;
+        const columnCount = headers.length;
+        const missingValues = this._countMissingValues(data, headers);
+        const columnTypes = Object.fromEntries(
+          profileColumns(headers, data).map(profile => [profile.name, profile.type])
+        );
+        
+        return `Analysis of CSV data:
+                - Total rows: ${rowCount}
+                - Total columns: ${columnCount}
+                - Columns: ${headers.join(', ')}
+                - Column types: ${JSON.stringify(columnTypes)}
+                - Missing values: ${JSON.stringify(missingValues)}
+                - Duplicate rows: ${this._countDuplicates(headers, data)}${this._describeParseIssues(issues)}`;
+      } else if (operation === "profile") {
+        const profiles = profileColumns(headers, data)
+          .filter(profile => !column || profile.name === column);
+        
+        return JSON.stringify({
+          summary: `Schema profile of ${profiles.length} column(s) over ${data.length} rows:
+                    ${profiles.map(profile => this._describeProfile(profile)).join('\n                    ')}${this._describeParseIssues(issues)}`,
+          columns: profiles
+        });
+      } else if (operation === "filter" && condition) {
+        let filter: FilterExpression;
+        try {
+          filter = this._parseFilter(condition, headers, column);
+        } catch (error) {
+          if (error instanceof FilterExpressionError) {
+            return `Error: Invalid filter expression "${condition}": ${error.message}. Example of a valid expression: age > 30 AND country != "US"`;
+          }
+          throw error;
+        }
+        
+        const filteredData = data.filter(row => filter.matches(row));
+        
+        // Format filtered data for potential download
+        const filteredCsv = formatCSV(headers, filteredData);
+        
+        return JSON.stringify({
+          summary: `Filtered CSV data with condition "${condition}"${column ? ` on column "${column}"` : ''}:
+                    - Columns used: ${filter.columns.join(', ')}
+                    - Original rows: ${data.length}
+                    - Filtered rows: ${filteredData.length}
+                    - Removed rows: ${data.length - filteredData.length}`,
+          processed_csv_data: filteredCsv
+        });
+      } else if (operation === "summarize" && column) {
+        const columnIndex = headers.indexOf(column);
+        if (columnIndex === -1) {
+          return `Column "${column}" not found in the CSV data.`;
+        }
+        
+        const profile = inferColumnType(column, data.map(row => row[columnIndex]));
+        const values = data.map(row => row[columnIndex]).filter(v => v && v.trim() !== '');
+        const typedValues = values
+          .map(v => typedValue(profile, v))
+          .filter((v): v is number => v !== null);
+        
+        if (isNumericType(profile.type) && typedValues.length > 0) {
+          const numericValues = typedValues;
+          const sum = numericValues.reduce((a, b) => a + b, 0);
+          const mean = sum / numericValues.length;
+          const sorted = [...numericValues].sort((a, b) => a - b);
+          const median = sorted.length % 2 === 0 
+            ? (sorted[sorted.length/2 - 1] + sorted[sorted.length/2]) / 2 
+            : sorted[Math.floor(sorted.length/2)];
+          
+          return `Summary of column "${column}":
+                  - Type: ${profile.type}${profile.formatted ? ' (formatted numbers)' : ''}
+                  - Count: ${values.length}
+                  - Numeric values: ${numericValues.length}
+                  - Mean: ${mean.toFixed(2)}
+                  - Median: ${median.toFixed(2)}
+                  - Min: ${Math.min(...numericValues)}
+                  - Max: ${Math.max(...numericValues)}`;
+        } else if (isDateType(profile.type) && typedValues.length > 0) {
+          const formatDate = (timestamp: number) =>
+            new Date(timestamp).toISOString().slice(0, profile.type === 'date' ? 10 : 19);
+          return `Summary of column "${column}":
+                  - Type: ${profile.type} (format ${profile.dateFormat})
+                  - Count: ${values.length}
+                  - Parsed dates: ${typedValues.length}
+                  - Earliest: ${formatDate(Math.min(...typedValues))}
+                  - Latest: ${formatDate(Math.max(...typedValues))}`;
+        } else {
+          // For non-numeric columns, count unique values
+          const uniqueValues = new Set(values);
+          return `Summary of column "${column}":
+                  - Type: ${profile.type}
+                  - Count: ${values.length}
+                  - Unique values: ${uniqueValues.size}
+                  - Sample values: ${Array.from(uniqueValues).slice(0, 5).join(', ')}`;
+        }
+      } else if (operation === "clean_missing" && method) {
+        if (order_by && !headers.includes(order_by)) {
+          return `Error: Column "${order_by}" not found in the CSV data. Available columns: ${headers.join(', ')}`;
+        }
+
+        if (method === 'drop') {
+          const columnIndex = column ? headers.indexOf(column) : -1;
+          const hasMissing = (row: string[]) =>
+            column ? isMissing(row[columnIndex]) : headers.some((_, i) => isMissing(row[i]));
+          const missingCount = data.filter(hasMissing).length;
+          const cleanedData = data.filter(row => !hasMissing(row));
+          
+          // Format cleaned data for potential download
+          const cleanedCsv = formatCSV(headers, cleanedData);
+          
+          return JSON.stringify({
+            summary: `Cleaned missing values in ${column ? `column "${column}"` : "all columns"} using method "${method}":
+                      - Original rows: ${data.length}
+                      - Rows with missing values: ${missingCount}
+                      - Remaining rows: ${cleanedData.length}
+                      - Removed rows: ${data.length - cleanedData.length}`,
+            processed_csv_data: cleanedCsv
+          });
+        }
+
+        const imputationMethod = normalizeImputationMethod(method);
+        if (!imputationMethod) {
+          return `Error: Unknown cleaning method "${method}". Valid methods are: drop, ${IMPUTATION_METHODS.join(', ')}`;
+        }
+
+        // Without a column, impute every column that has missing values
+        const missingValues = this._countMissingValues(data, headers);
+        const targetColumns = column ? [column] : headers.filter(h => missingValues[h] > 0);
+        const rowOrder = order_by ? this._rowOrder(data, headers.indexOf(order_by)) : undefined;
+
+        let imputedData = data;
+        const filledCounts: Record<string, number> = {};
+        const fillValues: Record<string, string> = {};
+        const skipped: string[] = [];
+        for (const targetColumn of targetColumns) {
+          try {
+            const result = imputeColumn(imputedData, headers.indexOf(targetColumn), imputationMethod, {
+              fillValue: fill_value,
+              rowOrder,
+            });
+            imputedData = result.data;
+            filledCounts[targetColumn] = result.filled;
+            if (result.fillValue !== undefined) {
+              fillValues[targetColumn] = result.fillValue;
+            }
+          } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            if (column) {
+              return `Error: Cannot clean column "${column}" using method "${imputationMethod}": ${reason}`;
+            }
+            skipped.push(`${targetColumn} (${reason})`);
+          }
+        }
+
+        const totalFilled = Object.values(filledCounts).reduce((a, b) => a + b, 0);
+        const unfilled = Object.entries(filledCounts)
+          .filter(([col, filled]) => filled < missingValues[col])
+          .map(([col, filled]) => `${col}: ${missingValues[col] - filled}`);
+
+        return JSON.stringify({
+          summary: `Cleaned missing values in ${column ? `column "${column}"` : "all columns"} using method "${imputationMethod}":
+                    - Rows: ${data.length}
+                    - Cells filled: ${totalFilled}
+                    - Filled per column: ${JSON.stringify(filledCounts)}${Object.keys(fillValues).length > 0 ? `
+                    - Fill values: ${JSON.stringify(fillValues)}` : ''}${unfilled.length > 0 ? `
+                    - Still missing (no neighbouring values to fill from): ${unfilled.join(', ')}` : ''}${skipped.length > 0 ? `
+                    - Skipped columns: ${skipped.join(', ')}` : ''}`,
+          processed_csv_data: formatCSV(headers, imputedData),
+          filled_counts: filledCounts
+        });
+      } else if (operation === "detect_outliers" && (column || columns?.length)) {
+        const outlierMethod = method
+          ? normalizeOutlierMethod(method)
+          : (columns?.length ?? 0) > 1 && !column ? "mahalanobis" : "zscore";
+        if (!outlierMethod) {
+          return `Error: Unknown outlier method "${method}". Use one of: ${OUTLIER_METHODS.join(', ')}`;
+        }
+        const outlierAction = action ? normalizeOutlierAction(action) : "detect";
+        if (!outlierAction) {
+          return `Error: Unknown outlier action "${action}". Use one of: ${OUTLIER_ACTIONS.join(', ')}`;
+        }
+        const targetColumns = Array.from(new Set([...(column ? [column] : []), ...(columns ?? [])]));
+        
+        let detection: OutlierDetection;
+        let result: OutlierActionResult | null = null;
+        try {
+          detection = detectOutliers(headers, data, targetColumns, outlierMethod, threshold);
+          if (outlierAction !== "detect") {
+            result = applyOutlierAction(headers, data, detection, outlierAction);
+          }
+        } catch (error) {
+          if (error instanceof OutlierError) {
+            return `Error: ${error.message}.`;
+          }
+          throw error;
+        }
+        
+        const limits = detection.bounds.length
+          ? detection.bounds.map(bound =>
+              `${bound.column}: ${bound.outlierCount} outliers outside [${bound.lower.toFixed(2)}, ${bound.upper.toFixed(2)}]`
+            ).join('\n                    - ')
+          : `Mahalanobis distance cutoff: ${(detection.distanceCutoff ?? 0).toFixed(2)}`;
+        const rowList = detection.rowIndices.slice(0, 20).join(', ') + (detection.rowIndices.length > 20 ? '...' : '');
+        const summary = `Outlier detection on ${targetColumns.map(c => `"${c}"`).join(', ')} using ${outlierMethod} (threshold ${detection.threshold}):
+                    - Values checked: ${detection.valueCount}
+                    - ${limits}
+                    - Rows with outliers: ${detection.rowIndices.length}${detection.rowIndices.length ? ` (row indices: ${rowList})` : ''}`;
+        
+        if (!result) {
+          return JSON.stringify({
+            summary,
+            row_indices: detection.rowIndices,
+            bounds: detection.bounds
+          });
+        }
+        
+        const actionSummary = outlierAction === "flag"
+          ? `Added column "${result.flagColumn}" marking ${result.affectedRows.length} rows`
+          : outlierAction === "cap"
+            ? `Capped values in ${result.affectedRows.length} rows to the detection bounds`
+            : `Removed ${result.affectedRows.length} rows (${data.length - result.affectedRows.length} remain)`;
+        return JSON.stringify({
+          summary: `${summary}
+                    - Action: ${actionSummary}`,
+          processed_csv_data: formatCSV(result.headers, result.data),
+          row_indices: result.affectedRows
+        });
+      } else if (operation === "remove_duplicates") {
+        const duplicateMethod = method ? normalizeDuplicateMethod(method) : "exact";
+        if (!duplicateMethod) {
+          return `Error: Unknown duplicate matching method "${method}". Use one of: ${DUPLICATE_METHODS.join(', ')}`;
+        }
+        const keepPolicy = keep ? normalizeKeepPolicy(keep) : "first";
+        if (!keepPolicy) {
+          return `Error: Unknown keep policy "${keep}". Use one of: ${DUPLICATE_KEEP_POLICIES.join(', ')}`;
+        }
+        const keyColumns = Array.from(new Set([...(column ? [column] : []), ...(columns ?? [])]));
+        const keyDescription = keyColumns.length ? `key columns ${keyColumns.map(c => `"${c}"`).join(', ')}` : 'all columns';
+        
+        if (duplicateMethod === "fuzzy") {
+          let nearDuplicates: NearDuplicateResult;
+          try {
+            nearDuplicates = findNearDuplicateClusters(headers, data, { columns: keyColumns, threshold, keep: keepPolicy });
+          } catch (error) {
+            if (error instanceof DuplicateError) {
+              return `Error: ${error.message}.`;
+            }
+            throw error;
+          }
+          const candidates = nearDuplicates.clusters;
+          const matchedBy = nearDuplicates.columns.map(c => `${c} (${nearDuplicates.kinds[c]})`).join(', ');
+          
+          if (!candidates.length) {
+            return `Near-duplicate detection on ${keyDescription}:
+                    - Compared by: ${matchedBy}
+                    - No candidate clusters at similarity ${nearDuplicates.threshold}`;
+          }
+          
+          // Nothing is dropped until the caller has reviewed the clusters and picked them
+          if (!clusters) {
+            const listed = candidates.slice(0, 20).map(candidate =>
+              `Cluster ${candidate.cluster} (similarity ${candidate.similarity}, keep row ${candidate.keep}): ${candidate.rows.map(row => `row ${row} ${JSON.stringify(nearDuplicates.columns.map(c => data[row][headers.indexOf(c)] ?? ''))}`).join('; ')}`
+            ).join('\n                    - ');
+            return JSON.stringify({
+              summary: `Near-duplicate review on ${keyDescription} (similarity ${nearDuplicates.threshold}, keep ${keepPolicy}):
+                    - Compared by: ${matchedBy}
+                    - Candidate clusters: ${candidates.length}, covering ${candidates.reduce((n, c) => n + c.rows.length, 0)} rows
+                    - ${listed}${candidates.length > 20 ? `
+                    - ...and ${candidates.length - 20} more clusters` : ''}
+                    Nothing was removed. Call remove_duplicates again with clusters set to the cluster numbers to deduplicate, or 'all'.`,
+              clusters: candidates
+            });
+          }
+          
+          const unknown = clusters === "all" ? [] : clusters.filter(n => !candidates.some(c => c.cluster === n));
+          if (unknown.length) {
+            return `Error: Unknown cluster${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')}. There are ${candidates.length} candidate clusters; review them again without clusters.`;
+          }
+          const chosen = clusters === "all" ? candidates : candidates.filter(c => clusters.includes(c.cluster));
+          const { data: dedupedData, removedRows } = dropDuplicateRows(data, chosen);
+          return JSON.stringify({
+            summary: `Removed ${removedRows.length} near-duplicate rows from ${chosen.length} of ${candidates.length} clusters on ${keyDescription}, keeping the ${keepPolicy.replace('_', ' ')} row of each. Kept ${dedupedData.length} rows.`,
+            processed_csv_data: formatCSV(headers, dedupedData),
+            row_indices: removedRows,
+            // Saved with the step so a recipe replay can pick the same clusters in another file
+            ...(clusters === "all" ? {} : { recipe_parameters: { cluster_values: clusterValues(headers, data, nearDuplicates, chosen) } })
+          });
+        }
+        
+        let groups: DuplicateGroup[];
+        try {
+          groups = findDuplicateGroups(headers, data, { columns: keyColumns, normalize, keep: keepPolicy });
+        } catch (error) {
+          if (error instanceof DuplicateError) {
+            return `Error: ${error.message}.`;
+          }
+          throw error;
+        }
+        const { data: cleanedData, removedRows } = dropDuplicateRows(data, groups);
+        const originalRowCount = data.length;
+        const removedCount = removedRows.length;
+        
+        // Format the cleaned data back to CSV
+        const finalCsv = formatCSV(headers, cleanedData);
+        const summary = `Removed ${removedCount} duplicate rows on ${keyDescription}${normalize ? ' (ignoring case, whitespace and accents)' : ''}, keeping the ${keepPolicy.replace('_', ' ')} row of each of ${groups.length} groups. Kept ${cleanedData.length} unique rows.`;
+        
+        // Return both the summary and the cleaned data in JSON format for further processing
+        if (removedCount > 0) {
+          return JSON.stringify({ 
+            summary: summary,
+            processed_csv_data: finalCsv,
+            row_indices: removedRows
+          });
+        } else {
+          // If no duplicates found, just return a simple message
+          return `Duplicate removal on ${keyDescription}:
+                  - Original rows: ${originalRowCount}
+                  - Unique rows: ${cleanedData.length}
+                  - Duplicate rows removed: ${removedCount}`;
+        }
+      } else if (operation === "generate_report") {
+        const report = buildDataQualityReport(headers, data, await this._reportContext(input));
+        const { overview } = report;
+        
+        return JSON.stringify({
+          summary: `Data quality report:
+                    - Dataset: ${overview.rows} rows × ${overview.columns} columns, ${(overview.completeness * 100).toFixed(1)}% complete
+                    - Duplicate rows: ${overview.duplicateRows}
+                    - Columns with outliers: ${overview.columnsWithOutliers}
+                    - Issues: ${report.issues.length ? report.issues.join('; ') : 'None found'}
+                    - Actions taken: ${report.actions.length ? report.actions.map(a => `v${a.version} ${a.operation}`).join(', ') : 'None'}
+                    - Recommendations: ${report.recommendations.length ? report.recommendations.join('; ') : 'None'}
+                    The full report is shown to the user below your reply, with Markdown, HTML and JSON downloads.`,
+          report
+        });
+      } else if (operation === "visualize") {
+        const chartType = chart_type ? normalizeChartType(chart_type) : undefined;
+        if (chartType === null) {
+          return `Error: Unknown chart type "${chart_type}". Use one of: ${CHART_TYPES.join(', ')}`;
+        }
+        const chartColumns = Array.from(new Set([...(column ? [column] : []), ...(columns ?? [])]));
+        
+        let chart: ChartSpec;
+        try {
+          chart = buildChart(headers, data, chartColumns, chartType);
+        } catch (error) {
+          if (error instanceof ChartError) {
+            return `Error: ${error.message}.`;
+          }
+          throw error;
+        }
+        
+        return JSON.stringify({
+          summary: `${chart.title} (${chart.type.replace('_', ' ')}):
+                    - ${describeChart(chart)}
+                    The chart is shown to the user below your reply, with PNG and SVG downloads.`,
+          chart
+        });
+      } else if (isTransformOperation(operation)) {
+        let result: TransformResult;
+        try {
+          result = applyTransform(operation, headers, data, {
+            column,
+            columns,
+            mapping,
+            toType: to_type,
+            separator,
+            newColumns: new_columns,
+            newColumn: new_column,
+            method,
+            pattern,
+            replacement,
+            expression,
+            unit,
+          });
+        } catch (error) {
+          if (error instanceof TransformError) {
+            return `Error: ${error.message}.`;
+          }
+          if (error instanceof ArithmeticExpressionError) {
+            return `Error: Invalid expression "${expression}": ${error.message}. Example of a valid expression: round(price * quantity, 2)`;
+          }
+          throw error;
+        }
+        const summary = `${result.title}:
+                    - ${result.details.length ? result.details.join('\n                    - ') : 'No values needed changes'}`;
+        
+        // Leave the data (and the dataset history) alone when nothing changed
+        if (!result.changed) {
+          return summary;
+        }
+        return JSON.stringify({
+          summary: `${summary}
+                    - Columns: ${result.headers.join(', ')}`,
+          processed_csv_data: formatCSV(result.headers, result.data)
+        });
+      } else if (TABLE_OPERATIONS.includes(operation)) {
+        let title: string;
+        let result: TableResult;
+        try {
+          ({ title, result } = this._tableOperation(operation, headers, data, input));
+        } catch (error) {
+          if (error instanceof AggregationError) {
+            return `Error: ${error.message}.`;
+          }
+          throw error;
+        }
+        
+        // Sorting and unpivoting reshape the data itself; other results only replace it when asked
+        const replacesData = operation === "sort" || operation === "unpivot" || save_result;
+        const preview = [result.headers, ...result.data.slice(0, 20)].map(row => row.join(' | ')).join('\n                    ');
+        return JSON.stringify({
+          summary: `${title} (${result.data.length} rows):
+                    ${preview}${result.data.length > 20 ? `
+                    ...and ${result.data.length - 20} more rows` : ''}
+                    The table is shown to the user below your reply with a CSV download.${replacesData ? '' : ' Pass save_result to keep working on it or download it as Excel.'}`,
+          table: tableAttachment(title, result.headers, result.data),
+          ...(replacesData ? { processed_csv_data: formatCSV(result.headers, result.data) } : {})
+        });
+      } else if (operation === "join" || operation === "append" || operation === "union") {
+        if (!other_dataset) {
+          return `Error: The ${operation} operation needs other_dataset, the name of the dataset to combine with.`;
+        }
+        const other = await this._resolveOtherDataset(other_dataset, input);
+        if (!other) {
+          return `Error: Dataset "${other_dataset}" not found. Upload it first or use the name of a loaded dataset.`;
+        }
+        const otherValidation = validateCSVData(other.content, NORMALIZED_CSV);
+        if (!otherValidation.valid) {
+          return `Error: Dataset "${other.name}": ${otherValidation.error}`;
+        }
+        const current = { name: 'current data', headers, data };
+        const otherTable = { name: other.name, headers: otherValidation.parsed.headers, data: otherValidation.parsed.data };
+        
+        if (operation === "join") {
+          const joinType = method ? normalizeJoinType(method) : "inner";
+          if (!joinType) {
+            return `Error: Unknown join type "${method}". Use one of: ${JOIN_TYPES.join(', ')}`;
+          }
+          const keys = Array.from(new Set([...(column ? [column] : []), ...(columns ?? [])]));
+          let joined: JoinResult;
+          try {
+            joined = joinTables(current, otherTable, { leftKeys: keys, rightKeys: right_on ?? keys, how: joinType });
+          } catch (error) {
+            if (error instanceof JoinError) {
+              return `Error: ${error.message}.`;
+            }
+            throw error;
+          }
+          const { report } = joined;
+          const conflictLines = report.conflicts.map(c =>
+            `Column "${c.column}" is in both datasets; the other one was kept as "${c.renamedTo}"${c.differingRows ? ` (values differ in ${c.differingRows} matched row${c.differingRows === 1 ? "" : "s"})` : ''}`);
+          return JSON.stringify({
+            summary: `${joinType[0].toUpperCase()}${joinType.slice(1)} join with "${other.name}" on ${keys.join(', ')}${right_on ? ` = ${right_on.join(', ')}` : ''}:
+                    - Result rows: ${joined.data.length} (current data ${data.length}, ${other.name} ${otherTable.data.length})
+                    - Matched rows: ${report.matchedLeftRows} of the current data; unmatched: ${report.unmatchedLeftRows} current, ${report.unmatchedRightRows} in ${other.name}${report.emptyKeyRows.left || report.emptyKeyRows.right ? `
+                    - Rows with an empty key (never matched): ${report.emptyKeyRows.left} current, ${report.emptyKeyRows.right} in ${other.name}` : ''}${report.duplicateKeys.left || report.duplicateKeys.right ? `
+                    - Repeated keys multiply matched rows: ${report.duplicateKeys.left} in the current data, ${report.duplicateKeys.right} in ${other.name} (e.g. ${report.duplicateKeys.examples.join('; ')})` : ''}${conflictLines.length ? `
+                    - ${conflictLines.join('\n                    - ')}` : ''}`,
+            processed_csv_data: formatCSV(joined.headers, joined.data)
+          });
+        }
+        
+        let appended: AppendResult;
+        try {
+          appended = appendTables(current, otherTable, { distinct: operation === "union" });
+        } catch (error) {
+          if (error instanceof JoinError) {
+            return `Error: ${error.message}.`;
+          }
+          throw error;
+        }
+        const { report } = appended;
+        const onlyIn = Object.entries(report.columnsOnlyIn).filter(([, names]) => names.length);
+        return JSON.stringify({
+          summary: `${operation === "union" ? 'Union' : 'Appended rows'} of "${other.name}" and the current data:
+                    - Rows: ${data.length} current + ${otherTable.data.length} from ${other.name}${report.duplicatesRemoved ? ` - ${report.duplicatesRemoved} duplicates` : ''} = ${appended.data.length}${report.aligned.length ? `
+                    - Matched columns spelled differently: ${report.aligned.map(a => `"${a.from}" → "${a.to}"`).join(', ')}` : ''}${onlyIn.length ? `
+                    - ${onlyIn.map(([name, names]) => `Only in ${name} (empty for the other rows): ${names.join(', ')}`).join('\n                    - ')}` : ''}`,
+          processed_csv_data: formatCSV(appended.headers, appended.data)
+        });
+      } else if (operation === "validate") {
+        if (!rules?.length && !rule_set) {
+          return "Error: The validate operation needs rules, or rule_set with a JSON or YAML rule set.";
+        }
+        const validationAction = action ? normalizeValidationAction(action) : "report";
+        if (!validationAction) {
+          return `Error: Unknown validate action "${action}". Use one of: ${VALIDATION_ACTIONS.join(', ')}`;
+        }
+        
+        let ruleList: ValidationRule[];
+        let result: ValidationResult;
+        try {
+          ruleList = rules?.length ? parseRules(rules) : parseRuleSet(rule_set ?? '');
+          // Referential integrity rules read the other datasets they name
+          const others: Record<string, { headers: string[]; data: string[][] }> = {};
+          for (const name of referencedDatasets(ruleList)) {
+            const other = await this._resolveOtherDataset(name, input);
+            if (!other) {
+              return `Error: Dataset "${name}" not found. Upload it first or use the name of a loaded dataset.`;
+            }
+            const otherValidation = validateCSVData(other.content, NORMALIZED_CSV);
+            if (!otherValidation.valid) {
+              return `Error: Dataset "${other.name}": ${otherValidation.error}`;
+            }
+            others[name] = { headers: otherValidation.parsed.headers, data: otherValidation.parsed.data };
+          }
+          result = validateRules(headers, data, ruleList, others);
+        } catch (error) {
+          if (error instanceof RuleError) {
+            return `Error: ${error.message}.`;
+          }
+          throw error;
+        }
+        
+        const ruleLines = result.rules.map(rule => rule.violations
+          ? `${rule.name}: ${rule.violations} violation${rule.violations === 1 ? '' : 's'} (e.g. ${rule.examples.map(e => `row ${e.row} ${JSON.stringify(e.value)}`).join('; ')})`
+          : `${rule.name}: passed`);
+        const header = `Validated ${data.length} rows against ${ruleList.length} rule${ruleList.length === 1 ? '' : 's'}:
+                    - Failing rows: ${result.failingRows.length}
+                    - ${ruleLines.join('\n                    - ')}`;
+        if (!result.failingRows.length) {
+          return `${header}
+                    All rows pass.`;
+        }
+        
+        if (validationAction === "report") {
+          return JSON.stringify({
+            summary: `${header}
+                    The violations are shown to the user below your reply. Use action 'flag' to mark failing rows or 'quarantine' to move them out.`,
+            table: tableAttachment('Rule violations', ['row', 'rule', 'column', 'value'],
+              result.violations.map(v => [String(v.row), v.rule, v.column, v.value]))
+          });
+        }
+        
+        const applied = applyValidationAction(headers, data, result, validationAction, new_column);
+        if (validationAction === "flag") {
+          return JSON.stringify({
+            summary: `${header}
+                    - Added column "${applied.flagColumn}" naming the rules each row breaks (empty when it passes)`,
+            processed_csv_data: formatCSV(applied.headers, applied.data)
+          });
+        }
+        return JSON.stringify({
+          summary: `${header}
+                    - Quarantined ${result.failingRows.length} rows; ${applied.data.length} row${applied.data.length === 1 ? '' : 's'} remain${applied.data.length === 1 ? 's' : ''}. The quarantined rows are shown to the user below your reply with a CSV download`,
+          table: tableAttachment('Quarantined rows', applied.quarantined!.headers, applied.quarantined!.data),
+          processed_csv_data: formatCSV(applied.headers, applied.data)
+        });
+      } else {
+        return "Invalid operation or missing parameters. Please specify a valid operation and required parameters.";
+      }
+    } catch (error) {
+      return `Error processing CSV data: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  
+  // Helper methods
+  _countMissingValues(data: string[][], headers: string[]): Record<string, number> {
+    const missingCounts: Record<string, number> = {};
+    
+    headers.forEach((header, colIndex) => {
+      missingCounts[header] = data.filter(row => !row[colIndex] || row[colIndex].trim() === '').length;
+    });
+    
+    return missingCounts;
+  }
+  
+  _describeProfile(profile: ColumnProfile): string {
+    const details = [
+      `${Math.round(profile.confidence * 100)}% confidence`,
+      `${(profile.nullRate * 100).toFixed(1)}% empty`,
+      `${profile.distinctCount} distinct`,
+    ];
+    if (profile.dateFormat) details.push(`format ${profile.dateFormat}`);
+    if (profile.formatted) details.push('formatted numbers');
+    return `- ${profile.name}: ${profile.type} (${details.join(', ')})`;
+  }
+
+  // Malformed rows are kept (padded or trimmed to the header width), so tell the user where they are
+  _describeParseIssues(issues: CsvParseIssue[]): string {
+    if (!issues.length) return '';
+    const examples = issues.slice(0, 3).map(issue => `line ${issue.line}: ${issue.message}`).join('; ');
+    return `\n                - Malformed rows: ${issues.length} at ${describeIssueLines(issues)} (${examples})`;
+  }
+
+  // Parse a filter condition; with a column, the condition may leave the column out
+  // ("> 30") or be plain text, which keeps the original substring match behaviour
+  // With a column the expression may leave it out ("> 30"); anything else that
+  // doesn't parse is reported rather than guessed at
+  _parseFilter(condition: string, headers: string[], column?: string): FilterExpression {
+    try {
+      return parseFilterExpression(condition, headers);
+    } catch (error) {
+      if (!column || !(error instanceof FilterExpressionError)) {
+        throw error;
+      }
+      try {
+        return parseFilterExpression(`\`${column}\` ${condition}`, headers);
+      } catch (prefixedError) {
+        // Report the error for the reading the model most likely meant
+        throw OMITTED_COLUMN_PATTERN.test(condition) ? prefixedError : error;
+      }
+    }
+  }
+
+  // Row indices sorted by a column, numerically or by date when every value parses, otherwise as text
+  _rowOrder(data: string[][], columnIndex: number): number[] {
+    const values = data.map(row => (row[columnIndex] ?? '').trim());
+    const present = values.filter(v => v !== '');
+    const keyOf = present.every(v => !isNaN(Number(v)))
+      ? (v: string) => Number(v)
+      : present.every(v => !isNaN(Date.parse(v)))
+        ? (v: string) => Date.parse(v)
+        : null;
+
+    return data
+      .map((_, i) => i)
+      .sort((a, b) => {
+        // Rows without an ordering value keep their file position at the end
+        if (values[a] === '' || values[b] === '') {
+          return values[a] === values[b] ? a - b : values[a] === '' ? 1 : -1;
+        }
+        if (keyOf) {
+          return keyOf(values[a]) - keyOf(values[b]) || a - b;
+        }
+        return values[a].localeCompare(values[b]) || a - b;
+      });
+  }
+  
+  // Runs group_by, pivot, unpivot, sort or top_n and names the result table
+  _tableOperation(
+    operation: string,
+    headers: string[],
+    data: string[][],
+    input: z.infer<typeof this.schema>,
+  ): { title: string; result: TableResult } {
+    const { column, columns = [], method, aggregations, value_column, descending, n, new_columns } = input;
+    const keyColumns = Array.from(new Set([...(column ? [column] : []), ...columns]));
+    
+    switch (operation) {
+      case "group_by": {
+        const specs = aggregations ?? (value_column ? [{ column: value_column, function: method ?? 'sum' }] : []);
+        const result = groupBy(headers, data, keyColumns, specs);
+        const measures = result.headers.slice(keyColumns.length).join(', ');
+        return { title: `${measures} ${keyColumns.length ? `by ${keyColumns.join(', ')}` : 'overall'}`, result };
+      }
+      case "pivot": {
+        if (!column) {
+          throw new AggregationError("pivot needs column, the column whose values become the new columns");
+        }
+        const aggregation = method ?? (value_column ? 'sum' : 'count');
+        const result = pivot(headers, data, { index: columns, pivotColumn: column, valueColumn: value_column, aggregation });
+        const fn = normalizeAggregation(aggregation) ?? aggregation;
+        const measure = value_column ? `${fn[0].toUpperCase()}${fn.slice(1)} of ${value_column}` : 'Row count';
+        return { title: `${measure} by ${[...columns, column].join(' and ')}`, result };
+      }
+      case "unpivot": {
+        const [variableName, valueName] = new_columns ?? [];
+        const result = unpivot(headers, data, { valueColumns: keyColumns, variableName, valueName });
+        const [variable, value] = result.headers.slice(-2);
+        return { title: `Unpivoted ${keyColumns.length} columns into ${variable} and ${value}`, result };
+      }
+      case "sort": {
+        const flags = Array.isArray(descending) ? descending : keyColumns.map(() => descending ?? false);
+        const keys = keyColumns.map((name, i) => ({ column: name, descending: flags[i] ?? false }));
+        return {
+          title: `Sorted by ${keys.map(key => `${key.column}${key.descending ? ' (descending)' : ''}`).join(', ')}`,
+          result: { headers, data: sortRows(headers, data, keys) },
+        };
+      }
+      case "top_n": {
+        if (!column) {
+          throw new AggregationError("top_n needs column, the column to rank rows by");
+        }
+        const count = n ?? DEFAULT_TOP_N;
+        const highest = Array.isArray(descending) ? descending[0] ?? true : descending ?? true;
+        return {
+          title: `${highest ? 'Top' : 'Bottom'} ${count} rows by ${column}${columns.length ? ` per ${columns.join(', ')}` : ''}`,
+          result: { headers, data: topN(headers, data, { column, n: count, descending: highest, groupBy: columns }) },
+        };
+      }
+      default:
+        throw new AggregationError(`Unknown table operation "${operation}". Use one of: ${TABLE_OPERATIONS.join(', ')}`);
+    }
+  }
+  
+  _countDuplicates(headers: string[], data: string[][]): number {
+    return countDuplicateRows(headers, data);
+  }
+  
+  // The CSV content of another dataset for join, append and union; the agents route
+  // looks it up among the datasets loaded in the chat
+  async _resolveOtherDataset(reference: string, input: z.infer<typeof this.schema>): Promise<{ name: string; content: string } | null> {
+    return null;
+  }
+  
+  // Source details and cleaning steps for reports; the agents route adds the stored dataset's history
+  async _reportContext(input: z.infer<typeof this.schema>): Promise<{ source?: ReportSource; actions?: ReportAction[] }> {
+    return {};
+  }
+}
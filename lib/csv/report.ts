@@ -0,0 +1,394 @@
+// Data-quality report for the csv_processor generate_report operation, with
+// Markdown and HTML renderings for download. Free of server-only imports so
+// the chat UI can render and export reports too.
+
+import {
+  isDateType,
+  isNumericType,
+  profileColumns,
+  typedValue,
+  type ColumnProfile,
+  type ColumnType,
+} from "@/lib/csv/columnTypes";
+import { histogramBins, type HistogramBin } from "@/lib/csv/charts";
+import { countDuplicateRows, findDuplicateGroups } from "@/lib/csv/duplicates";
+import { detectOutliers, OutlierError } from "@/lib/csv/outliers";
+
+const TOP_VALUES = 5;
+const DUPLICATE_EXAMPLES = 5;
+
+export interface DatasetMetrics {
+  rows: number;
+  columns: number;
+  missingCells: number;
+  duplicateRows: number;
+}
+
+export type ColumnDistribution =
+  | {
+      kind: "numeric";
+      min: number;
+      max: number;
+      mean: number;
+      median: number;
+      stdDev: number;
+      q1: number;
+      q3: number;
+      histogram: HistogramBin[];
+    }
+  | { kind: "date"; earliest: string; latest: string }
+  | { kind: "categorical"; topValues: { value: string; count: number }[] };
+
+export interface ColumnReport {
+  name: string;
+  type: ColumnType;
+  // Share of non-empty values that fit the type (0-1)
+  typeConfidence: number;
+  // Share of filled cells (0-1)
+  completeness: number;
+  missing: number;
+  distinct: number;
+  distribution: ColumnDistribution | null;
+  // IQR fences (1.5 × IQR) for numeric columns
+  outliers: { count: number; lower: number; upper: number } | null;
+}
+
+export interface ReportAction {
+  version: number;
+  operation: string;
+  parameters: Record<string, unknown>;
+  summary: string | null;
+  before: DatasetMetrics;
+  after: DatasetMetrics;
+  cellsChanged: number | null;
+}
+
+export interface ReportSource {
+  fileName?: string;
+  datasetId?: string;
+  version?: number;
+}
+
+export interface DataQualityReport {
+  title: string;
+  generatedAt: string;
+  source: ReportSource;
+  overview: DatasetMetrics & { completeness: number; columnsWithOutliers: number };
+  columns: ColumnReport[];
+  duplicates: { rows: number; groups: number; examples: number[][] };
+  issues: string[];
+  recommendations: string[];
+  // Steps applied in the session, oldest first; empty for inline data
+  actions: ReportAction[];
+}
+
+function isMissing(cell: string | undefined): boolean {
+  return (cell ?? "").trim() === "";
+}
+
+export function datasetMetrics(headers: string[], data: string[][]): DatasetMetrics {
+  return {
+    rows: data.length,
+    columns: headers.length,
+    missingCells: data.reduce((count, row) => count + headers.filter((_, i) => isMissing(row[i])).length, 0),
+    duplicateRows: countDuplicateRows(headers, data),
+  };
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function distribution(profile: ColumnProfile, values: string[]): ColumnDistribution | null {
+  const filled = values.filter((value) => !isMissing(value));
+  if (!filled.length) return null;
+
+  if (isNumericType(profile.type) || isDateType(profile.type)) {
+    const numbers = filled.map((value) => typedValue(profile, value)).filter((v): v is number => v !== null);
+    if (!numbers.length) return null;
+    const sorted = [...numbers].sort((a, b) => a - b);
+    if (isDateType(profile.type)) {
+      return {
+        kind: "date",
+        earliest: new Date(sorted[0]).toISOString(),
+        latest: new Date(sorted[sorted.length - 1]).toISOString(),
+      };
+    }
+    const mean = numbers.reduce((a, b) => a + b, 0) / numbers.length;
+    const variance = numbers.length > 1
+      ? numbers.reduce((a, b) => a + (b - mean) ** 2, 0) / (numbers.length - 1)
+      : 0;
+    return {
+      kind: "numeric",
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      mean: round(mean),
+      median: round(quantile(sorted, 0.5)),
+      stdDev: round(Math.sqrt(variance)),
+      q1: round(quantile(sorted, 0.25)),
+      q3: round(quantile(sorted, 0.75)),
+      histogram: histogramBins(numbers),
+    };
+  }
+
+  const counts = new Map<string, number>();
+  filled.forEach((value) => counts.set(value.trim(), (counts.get(value.trim()) ?? 0) + 1));
+  return {
+    kind: "categorical",
+    topValues: Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, TOP_VALUES)
+      .map(([value, count]) => ({ value, count })),
+  };
+}
+
+function columnOutliers(headers: string[], data: string[][], profile: ColumnProfile): ColumnReport["outliers"] {
+  if (!isNumericType(profile.type)) return null;
+  try {
+    const [bounds] = detectOutliers(headers, data, [profile.name], "iqr").bounds;
+    return bounds ? { count: bounds.outlierCount, lower: round(bounds.lower), upper: round(bounds.upper) } : null;
+  } catch (error) {
+    // Too few values to compute fences
+    if (error instanceof OutlierError) return null;
+    throw error;
+  }
+}
+
+function percent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+function findIssues(report: Omit<DataQualityReport, "issues" | "recommendations">): { issues: string[]; recommendations: string[] } {
+  const issues: string[] = [];
+  const recommendations: string[] = [];
+  const { overview, columns, duplicates } = report;
+
+  const emptyColumns = columns.filter((column) => overview.rows > 0 && column.missing === overview.rows);
+  const sparseColumns = columns.filter((column) => column.missing > 0 && column.missing < overview.rows);
+  emptyColumns.forEach((column) => issues.push(`"${column.name}" is completely empty`));
+  sparseColumns.forEach((column) =>
+    issues.push(`"${column.name}" is missing ${column.missing} values (${percent(1 - column.completeness)})`),
+  );
+  if (emptyColumns.length) {
+    recommendations.push(`Drop the empty column${emptyColumns.length > 1 ? "s" : ""} ${emptyColumns.map((c) => `"${c.name}"`).join(", ")}`);
+  }
+  if (sparseColumns.length) {
+    recommendations.push(`Clean missing values in ${sparseColumns.map((c) => `"${c.name}"`).join(", ")} with clean_missing`);
+  }
+
+  if (duplicates.rows > 0) {
+    issues.push(`${duplicates.rows} duplicate rows in ${duplicates.groups} groups`);
+    recommendations.push(`Remove the ${duplicates.rows} duplicate rows with remove_duplicates`);
+  }
+
+  const outlierColumns = columns.filter((column) => column.outliers?.count);
+  outlierColumns.forEach((column) =>
+    issues.push(`"${column.name}" has ${column.outliers!.count} values outside [${column.outliers!.lower}, ${column.outliers!.upper}]`),
+  );
+  if (outlierColumns.length) {
+    recommendations.push(`Investigate outliers in ${outlierColumns.map((c) => `"${c.name}"`).join(", ")} with detect_outliers`);
+  }
+
+  // Confidence means values fitting the type only for these types
+  const mixedColumns = columns.filter((column) =>
+    (isNumericType(column.type) || isDateType(column.type) || column.type === "boolean") && column.typeConfidence < 1,
+  );
+  mixedColumns.forEach((column) =>
+    issues.push(`${percent(1 - column.typeConfidence)} of "${column.name}" values don't fit its ${column.type} type`),
+  );
+  if (mixedColumns.length) {
+    recommendations.push(`Review the values that don't fit the types of ${mixedColumns.map((c) => `"${c.name}"`).join(", ")}`);
+  }
+
+  const constantColumns = columns.filter((column) => column.distinct === 1 && overview.rows > 1 && column.missing === 0);
+  constantColumns.forEach((column) => issues.push(`"${column.name}" holds the same value in every row`));
+
+  return { issues, recommendations };
+}
+
+/**
+ * Profiles every column (completeness, type, distribution and IQR outliers),
+ * counts exact duplicates and lists the issues found, alongside any cleaning
+ * steps already taken.
+ */
+export function buildDataQualityReport(
+  headers: string[],
+  data: string[][],
+  options: { source?: ReportSource; actions?: ReportAction[] } = {},
+): DataQualityReport {
+  const metrics = datasetMetrics(headers, data);
+  const columns: ColumnReport[] = profileColumns(headers, data).map((profile, i) => {
+    const values = data.map((row) => row[i] ?? "");
+    return {
+      name: profile.name,
+      type: profile.type,
+      typeConfidence: round(profile.confidence),
+      completeness: data.length ? round(1 - profile.nullCount / data.length) : 1,
+      missing: profile.nullCount,
+      distinct: profile.distinctCount,
+      distribution: distribution(profile, values),
+      outliers: columnOutliers(headers, data, profile),
+    };
+  });
+  const groups = findDuplicateGroups(headers, data);
+  const cells = metrics.rows * metrics.columns;
+
+  const report = {
+    title: `Data quality report${options.source?.fileName ? `: ${options.source.fileName}` : ""}`,
+    generatedAt: new Date().toISOString(),
+    source: options.source ?? {},
+    overview: {
+      ...metrics,
+      completeness: cells ? round(1 - metrics.missingCells / cells) : 1,
+      columnsWithOutliers: columns.filter((column) => column.outliers?.count).length,
+    },
+    columns,
+    duplicates: {
+      rows: metrics.duplicateRows,
+      groups: groups.length,
+      examples: groups.slice(0, DUPLICATE_EXAMPLES).map((group) => group.rows),
+    },
+    actions: options.actions ?? [],
+  };
+  return { ...report, ...findIssues(report) };
+}
+
+function describeDistribution(column: ColumnReport): string {
+  const spread = column.distribution;
+  if (!spread) return "";
+  switch (spread.kind) {
+    case "numeric":
+      return `min ${spread.min}, median ${spread.median}, max ${spread.max}, mean ${spread.mean} ± ${spread.stdDev}`;
+    case "date":
+      return `${spread.earliest.slice(0, 10)} to ${spread.latest.slice(0, 10)}`;
+    default:
+      return spread.topValues.map((top) => `${top.value} (${top.count})`).join(", ");
+  }
+}
+
+function describeParameters(parameters: Record<string, unknown>): string {
+  return Object.entries(parameters)
+    .map(([key, value]) => `${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`)
+    .join(", ");
+}
+
+function change(before: number, after: number): string {
+  return before === after ? String(after) : `${before} → ${after}`;
+}
+
+const COLUMN_HEADINGS = ["Column", "Type", "Complete", "Missing", "Distinct", "Distribution", "Outliers"];
+const ACTION_HEADINGS = ["Step", "Operation", "Parameters", "Rows", "Missing cells", "Duplicate rows", "Cells changed"];
+
+// The column and action tables, shared by the chat rendering and the downloads
+export function reportTables(report: DataQualityReport) {
+  return {
+    columnHeadings: COLUMN_HEADINGS,
+    actionHeadings: ACTION_HEADINGS,
+    columns: report.columns.map((column) => [
+      column.name,
+      column.type,
+      percent(column.completeness),
+      String(column.missing),
+      String(column.distinct),
+      describeDistribution(column),
+      column.outliers ? String(column.outliers.count) : "",
+    ]),
+    actions: report.actions.map((action) => [
+      `v${action.version}`,
+      action.operation,
+      describeParameters(action.parameters),
+      change(action.before.rows, action.after.rows),
+      change(action.before.missingCells, action.after.missingCells),
+      change(action.before.duplicateRows, action.after.duplicateRows),
+      action.cellsChanged === null ? "" : String(action.cellsChanged),
+    ]),
+  };
+}
+
+export function overviewLines(report: DataQualityReport): string[] {
+  const { overview } = report;
+  return [
+    `Rows: ${overview.rows}`,
+    `Columns: ${overview.columns}`,
+    `Completeness: ${percent(overview.completeness)} (${overview.missingCells} missing cells)`,
+    `Duplicate rows: ${overview.duplicateRows}`,
+    `Columns with outliers: ${overview.columnsWithOutliers}`,
+  ];
+}
+
+export function reportToMarkdown(report: DataQualityReport): string {
+  const cell = (value: string) => value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+  const table = (headings: string[], rows: string[][]) =>
+    [headings, headings.map(() => "---"), ...rows].map((row) => `| ${row.map(cell).join(" | ")} |`).join("\n");
+  const { columns, actions } = reportTables(report);
+
+  return [
+    `# ${report.title}`,
+    `Generated ${report.generatedAt}${report.source.version ? ` from version ${report.source.version}` : ""}`,
+    "## Overview",
+    overviewLines(report).map((line) => `- ${line}`).join("\n"),
+    "## Issues found",
+    report.issues.length ? report.issues.map((issue) => `- ${issue}`).join("\n") : "No issues found.",
+    "## Columns",
+    table(COLUMN_HEADINGS, columns),
+    "## Actions taken",
+    actions.length ? table(ACTION_HEADINGS, actions) : "No cleaning steps have been applied.",
+    "## Recommendations",
+    report.recommendations.length ? report.recommendations.map((item) => `- ${item}`).join("\n") : "None.",
+  ].join("\n\n") + "\n";
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function reportToHtml(report: DataQualityReport): string {
+  const list = (items: string[], empty: string) =>
+    items.length ? `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>` : `<p>${empty}</p>`;
+  const table = (headings: string[], rows: string[][]) =>
+    `<table><thead><tr>${headings.map((h) => `<th>${h}</th>`).join("")}</tr></thead><tbody>${rows
+      .map((row) => `<tr>${row.map((value) => `<td>${escapeHtml(value)}</td>`).join("")}</tr>`)
+      .join("")}</tbody></table>`;
+  const { columns, actions } = reportTables(report);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f3f3f3; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p>Generated ${escapeHtml(report.generatedAt)}${report.source.version ? ` from version ${report.source.version}` : ""}</p>
+<h2>Overview</h2>
+${list(overviewLines(report), "")}
+<h2>Issues found</h2>
+${list(report.issues, "No issues found.")}
+<h2>Columns</h2>
+${table(COLUMN_HEADINGS, columns)}
+<h2>Actions taken</h2>
+${actions.length ? table(ACTION_HEADINGS, actions) : "<p>No cleaning steps have been applied.</p>"}
+<h2>Recommendations</h2>
+${list(report.recommendations, "None.")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { parseRules, parseRuleSet, RuleError } from "@/lib/csv/rules";
+
+describe("parseRules format regex", () => {
+  it("accepts a safe pattern", () => {
+    const [rule] = parseRules([{ type: "format", column: "code", format: "regex", pattern: "[A-Z]{2}-\\d+" }]);
+    expect(rule).toMatchObject({ type: "format", format: "regex", name: "code matches [A-Z]{2}-\\d+" });
+  });
+
+  it("refuses patterns that could backtrack catastrophically", () => {
+    const run = () => parseRules([{ type: "format", column: "code", format: "regex", pattern: "(a+)+$" }]);
+    expect(run).toThrow(RuleError);
+    expect(run).toThrow("could take too long to match");
+  });
+
+  it("refuses them in uploaded rule sets too", () => {
+    const yaml = "rules:\n  - type: format\n    column: code\n    format: regex\n    pattern: '(\\w*)*x'\n";
+    expect(() => parseRuleSet(yaml)).toThrow("could take too long to match");
+  });
+});
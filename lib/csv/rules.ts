@@ -0,0 +1,564 @@
+// Business rules for the csv_processor validate operation. Rule sets are
+// written by the agent or uploaded as JSON or YAML.
+
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { parseDateValue, parseNumericValue } from "@/lib/csv/columnTypes";
+import { isMissing } from "@/lib/csv/imputation";
+import { unsafeRegexReason } from "@/lib/csv/filterExpression";
+
+export const RULE_TYPES = [
+  "required",
+  "unique",
+  "format",
+  "allowed_values",
+  "range",
+  "date_order",
+  "references",
+] as const;
+
+export type RuleType = (typeof RULE_TYPES)[number];
+
+const RULE_ALIASES: Record<string, RuleType> = {
+  not_null: "required",
+  not_empty: "required",
+  distinct: "unique",
+  in: "allowed_values",
+  enum: "allowed_values",
+  one_of: "allowed_values",
+  allowed: "allowed_values",
+  between: "range",
+  min_max: "range",
+  date_before: "date_order",
+  foreign_key: "references",
+  referential_integrity: "references",
+  exists_in: "references",
+};
+
+export const FORMATS = ["email", "phone", "postal_code", "regex"] as const;
+
+export type Format = (typeof FORMATS)[number];
+
+const FORMAT_LABELS: Record<Format, string> = {
+  email: "email address",
+  phone: "phone number",
+  postal_code: "postal code",
+  regex: "pattern",
+};
+
+const FORMAT_ALIASES: Record<string, Format> = {
+  e_mail: "email",
+  phone_number: "phone",
+  telephone: "phone",
+  zip: "postal_code",
+  zip_code: "postal_code",
+  postcode: "postal_code",
+  pattern: "regex",
+};
+
+export const VALIDATION_ACTIONS = ["report", "flag", "quarantine"] as const;
+
+export type ValidationAction = (typeof VALIDATION_ACTIONS)[number];
+
+const ACTION_ALIASES: Record<string, ValidationAction> = {
+  detect: "report",
+  check: "report",
+  mark: "flag",
+  remove: "quarantine",
+  isolate: "quarantine",
+};
+
+// Postal code layouts by country; other countries fall back to a loose check
+const POSTAL_CODE_PATTERNS: Record<string, RegExp> = {
+  us: /^\d{5}(-\d{4})?$/,
+  ca: /^[a-z]\d[a-z] ?\d[a-z]\d$/i,
+  uk: /^[a-z]{1,2}\d[a-z\d]? ?\d[a-z]{2}$/i,
+  gb: /^[a-z]{1,2}\d[a-z\d]? ?\d[a-z]{2}$/i,
+  de: /^\d{5}$/,
+  fr: /^\d{5}$/,
+  es: /^\d{5}$/,
+  it: /^\d{5}$/,
+  nl: /^\d{4} ?[a-z]{2}$/i,
+  au: /^\d{4}$/,
+  in: /^\d{6}$/,
+};
+const GENERIC_POSTAL_CODE = /^[a-z0-9][a-z0-9 -]{1,8}[a-z0-9]$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+const MAX_RULES = 100;
+const MAX_PATTERN_LENGTH = 200;
+// Violating values quoted back per rule
+const EXAMPLES_PER_RULE = 5;
+const DEFAULT_FLAG_COLUMN = "validation_errors";
+
+export class RuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleError";
+  }
+}
+
+export const RULE_SCHEMA = z.object({
+  type: z.string().describe(`One of: ${RULE_TYPES.join(", ")}`),
+  name: z.string().optional().describe("A short name for the rule, shown in reports and the flag column"),
+  column: z.string().optional().describe("The column the rule checks"),
+  columns: z.array(z.string()).optional().describe("For unique: several columns that must be unique together"),
+  format: z.string().optional().describe(`For format: ${FORMATS.join(", ")}`),
+  pattern: z.string().optional().describe("For format 'regex': the regular expression the whole value must match"),
+  country: z.string().optional().describe("For format 'postal_code' or 'phone': a two-letter country code such as 'us', 'uk' or 'de'"),
+  values: z.array(z.union([z.string(), z.number(), z.boolean()])).optional().describe("For allowed_values: the allowed values"),
+  case_sensitive: z.boolean().optional().describe("For allowed_values: compare case-sensitively (default false)"),
+  min: z.union([z.number(), z.string()]).optional().describe("For range: the lowest allowed number or date"),
+  max: z.union([z.number(), z.string()]).optional().describe("For range: the highest allowed number or date"),
+  other_column: z.string().optional().describe("For date_order: the column whose date may not be earlier than column. For references: the column in dataset holding the valid values (defaults to column)"),
+  allow_equal: z.boolean().optional().describe("For date_order: whether equal dates pass (default true)"),
+  dataset: z.string().optional().describe("For references: the loaded dataset whose values column must exist in"),
+});
+
+export type RuleInput = z.infer<typeof RULE_SCHEMA>;
+
+export interface ValidationRule extends RuleInput {
+  type: RuleType;
+  name: string;
+}
+
+export interface RuleReport {
+  name: string;
+  type: RuleType;
+  columns: string[];
+  violations: number;
+  examples: { row: number; value: string }[];
+}
+
+export interface RuleViolation {
+  row: number;
+  rule: string;
+  column: string;
+  value: string;
+}
+
+export interface ValidationResult {
+  rules: RuleReport[];
+  violations: RuleViolation[];
+  // Rows breaking at least one rule, in file order
+  failingRows: number[];
+}
+
+export interface ValidationActionResult {
+  headers: string[];
+  data: string[][];
+  flagColumn?: string;
+  // Rows moved out by quarantine, with the rules each one broke
+  quarantined?: { headers: string[]; data: string[][] };
+}
+
+interface Table {
+  headers: string[];
+  data: string[][];
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]/g, "_");
+}
+
+export function normalizeRuleType(type: string): RuleType | null {
+  const key = normalizeKey(type);
+  if ((RULE_TYPES as readonly string[]).includes(key)) {
+    return key as RuleType;
+  }
+  return RULE_ALIASES[key] ?? null;
+}
+
+function normalizeFormat(format: string): Format | null {
+  const key = normalizeKey(format);
+  if ((FORMATS as readonly string[]).includes(key)) {
+    return key as Format;
+  }
+  return FORMAT_ALIASES[key] ?? null;
+}
+
+export function normalizeValidationAction(action: string): ValidationAction | null {
+  const key = normalizeKey(action);
+  if ((VALIDATION_ACTIONS as readonly string[]).includes(key)) {
+    return key as ValidationAction;
+  }
+  return ACTION_ALIASES[key] ?? null;
+}
+
+function ruleColumns(rule: RuleInput): string[] {
+  return Array.from(new Set([...(rule.column ? [rule.column] : []), ...(rule.columns ?? [])]));
+}
+
+function defaultName(rule: RuleInput, type: RuleType): string {
+  const columns = ruleColumns(rule).join(" + ");
+  switch (type) {
+    case "required":
+      return `${columns} is required`;
+    case "unique":
+      return `${columns} is unique`;
+    case "format":
+      return rule.format === "regex"
+        ? `${columns} matches ${rule.pattern}`
+        : `${columns} is a valid ${FORMAT_LABELS[rule.format as Format] ?? rule.format}`;
+    case "allowed_values":
+      return `${columns} is an allowed value`;
+    case "range":
+      return rule.min !== undefined && rule.max !== undefined
+        ? `${columns} between ${rule.min} and ${rule.max}`
+        : rule.min !== undefined ? `${columns} >= ${rule.min}` : `${columns} <= ${rule.max}`;
+    case "date_order":
+      return `${columns} ${rule.allow_equal === false ? "before" : "on or before"} ${rule.other_column}`;
+    case "references":
+      return `${columns} exists in ${rule.dataset}.${rule.other_column ?? columns}`;
+  }
+}
+
+// Checks the fields each rule type needs; columns are checked against the data later
+function checkRule(rule: RuleInput, number: number): ValidationRule {
+  const type = normalizeRuleType(rule.type);
+  const label = `Rule ${number}${rule.name ? ` ("${rule.name}")` : ""}`;
+  if (!type) {
+    throw new RuleError(`${label}: unknown type "${rule.type}". Use one of: ${RULE_TYPES.join(", ")}`);
+  }
+  const columns = ruleColumns(rule);
+  if (!columns.length) {
+    throw new RuleError(`${label}: ${type} needs a column`);
+  }
+  if (type !== "unique" && columns.length > 1) {
+    throw new RuleError(`${label}: ${type} checks one column; write one rule per column`);
+  }
+
+  let format = rule.format;
+  if (type === "format") {
+    const normalized = rule.format ? normalizeFormat(rule.format) : null;
+    if (!normalized) {
+      throw new RuleError(`${label}: format needs format, one of: ${FORMATS.join(", ")}`);
+    }
+    if (normalized === "regex") {
+      if (!rule.pattern) {
+        throw new RuleError(`${label}: format 'regex' needs a pattern`);
+      }
+      if (rule.pattern.length > MAX_PATTERN_LENGTH) {
+        throw new RuleError(`${label}: the pattern is too long (max ${MAX_PATTERN_LENGTH} characters)`);
+      }
+      const unsafe = unsafeRegexReason(rule.pattern);
+      if (unsafe) {
+        throw new RuleError(`${label}: the pattern could take too long to match because ${unsafe}`);
+      }
+      try {
+        new RegExp(rule.pattern);
+      } catch (error) {
+        throw new RuleError(`${label}: ${error instanceof Error ? error.message : "invalid pattern"}`);
+      }
+    }
+    format = normalized;
+  }
+  if (type === "allowed_values" && !rule.values?.length) {
+    throw new RuleError(`${label}: allowed_values needs the list of values`);
+  }
+  if (type === "range") {
+    if (rule.min === undefined && rule.max === undefined) {
+      throw new RuleError(`${label}: range needs min, max or both`);
+    }
+    for (const bound of [rule.min, rule.max]) {
+      if (typeof bound === "string" && parseNumericValue(bound) === null && !parseDateValue(bound)) {
+        throw new RuleError(`${label}: "${bound}" is neither a number nor a date`);
+      }
+    }
+  }
+  if (type === "date_order" && !rule.other_column) {
+    throw new RuleError(`${label}: date_order needs other_column, the column that may not be earlier`);
+  }
+  if (type === "references" && !rule.dataset) {
+    throw new RuleError(`${label}: references needs dataset, the loaded dataset holding the valid values`);
+  }
+
+  const checked = { ...rule, type, format };
+  return { ...checked, name: rule.name?.trim() || defaultName(checked, type) };
+}
+
+/**
+ * Checks rules written by the agent. Throws RuleError naming the first rule
+ * that is malformed.
+ */
+export function parseRules(rules: unknown[]): ValidationRule[] {
+  if (!rules.length) {
+    throw new RuleError("The rule set has no rules");
+  }
+  if (rules.length > MAX_RULES) {
+    throw new RuleError(`The rule set has ${rules.length} rules; the limit is ${MAX_RULES}`);
+  }
+  const names = new Set<string>();
+  return rules.map((rule, i) => {
+    const parsed = RULE_SCHEMA.safeParse(rule);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new RuleError(`Rule ${i + 1}: ${issue.path.join(".") || "rule"} ${issue.message.toLowerCase()}`);
+    }
+    const checked = checkRule(parsed.data, i + 1);
+    if (names.has(checked.name)) {
+      throw new RuleError(`Rule ${i + 1}: another rule is already named "${checked.name}"`);
+    }
+    names.add(checked.name);
+    return checked;
+  });
+}
+
+/**
+ * Reads a rule set from JSON or YAML text: a list of rules, or an object with
+ * a "rules" list.
+ */
+export function parseRuleSet(text: string): ValidationRule[] {
+  let parsed: unknown;
+  try {
+    parsed = /^\s*[[{]/.test(text) ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new RuleError(`The rule set is not valid JSON or YAML: ${error instanceof Error ? error.message.split("\n")[0] : String(error)}`);
+  }
+  const rules = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object" && Array.isArray((parsed as { rules?: unknown }).rules)
+      ? (parsed as { rules: unknown[] }).rules
+      : null;
+  if (!rules) {
+    throw new RuleError('The rule set must be a list of rules or an object with a "rules" list');
+  }
+  return parseRules(rules);
+}
+
+// Datasets named by references rules, to load before validating
+export function referencedDatasets(rules: ValidationRule[]): string[] {
+  return Array.from(new Set(rules.filter((rule) => rule.type === "references").map((rule) => rule.dataset!)));
+}
+
+function columnIndex(headers: string[], column: string, where: string): number {
+  const index = headers.indexOf(column);
+  if (index === -1) {
+    throw new RuleError(`Column "${column}" not found in ${where}. Available columns: ${headers.join(", ")}`);
+  }
+  return index;
+}
+
+function isValidPhone(value: string, country?: string): boolean {
+  if (!/^\+?[\d\s().-]+$/.test(value.trim())) return false;
+  const digits = value.replace(/\D/g, "");
+  if (country && ["us", "ca"].includes(country.toLowerCase())) {
+    return digits.length === 10 || (digits.length === 11 && digits.startsWith("1"));
+  }
+  // E.164 allows up to 15 digits
+  return digits.length >= 7 && digits.length <= 15;
+}
+
+// Day-first when any value can only be read that way
+function isDayFirst(values: string[]): boolean {
+  const parsed = values.map((v) => parseDateValue(v));
+  return parsed.some((d) => d?.dayFirst) && !parsed.some((d) => d?.monthFirst);
+}
+
+// Returns the reason a non-empty value breaks the rule, or null when it passes
+type ValueCheck = (value: string, row: string[]) => string | null;
+
+function valueCheck(rule: ValidationRule, headers: string[], data: string[][], others: Record<string, Table>): ValueCheck {
+  const index = columnIndex(headers, rule.column ?? rule.columns![0], "the data");
+  const columnValues = () => data.map((row) => row[index] ?? "").filter((v) => !isMissing(v));
+
+  switch (rule.type) {
+    case "format": {
+      if (rule.format === "email") {
+        return (value) => (EMAIL_PATTERN.test(value.trim()) ? null : "not a valid email address");
+      }
+      if (rule.format === "phone") {
+        return (value) => (isValidPhone(value, rule.country) ? null : "not a valid phone number");
+      }
+      if (rule.format === "postal_code") {
+        const pattern = POSTAL_CODE_PATTERNS[rule.country?.toLowerCase() ?? ""] ?? GENERIC_POSTAL_CODE;
+        return (value) => (pattern.test(value.trim()) ? null : "not a valid postal code");
+      }
+      const pattern = new RegExp(`^(?:${rule.pattern})$`);
+      return (value) => (pattern.test(value.trim()) ? null : "does not match the pattern");
+    }
+    case "allowed_values": {
+      const fold = (value: string) => (rule.case_sensitive ? value.trim() : value.trim().toLowerCase());
+      const allowed = new Set(rule.values!.map((value) => fold(String(value))));
+      return (value) => (allowed.has(fold(value)) ? null : "not an allowed value");
+    }
+    case "range": {
+      const numeric = [rule.min, rule.max].every((bound) => bound === undefined || typeof bound === "number" || parseNumericValue(bound) !== null);
+      if (numeric) {
+        const toNumber = (bound: number | string | undefined) =>
+          bound === undefined ? null : typeof bound === "number" ? bound : parseNumericValue(bound);
+        const [min, max] = [toNumber(rule.min), toNumber(rule.max)];
+        return (value) => {
+          const number = parseNumericValue(value);
+          if (number === null) return "not a number";
+          if (min !== null && number < min) return `below ${rule.min}`;
+          if (max !== null && number > max) return `above ${rule.max}`;
+          return null;
+        };
+      }
+      const dayFirst = isDayFirst(columnValues());
+      const toTimestamp = (bound: number | string | undefined) =>
+        bound === undefined ? null : parseDateValue(String(bound))?.timestamp ?? null;
+      const [min, max] = [toTimestamp(rule.min), toTimestamp(rule.max)];
+      return (value) => {
+        const date = parseDateValue(value, dayFirst);
+        if (!date) return "not a date";
+        if (min !== null && date.timestamp < min) return `before ${rule.min}`;
+        if (max !== null && date.timestamp > max) return `after ${rule.max}`;
+        return null;
+      };
+    }
+    case "date_order": {
+      const otherIndex = columnIndex(headers, rule.other_column!, "the data");
+      const dayFirst = isDayFirst(columnValues());
+      const otherDayFirst = isDayFirst(data.map((row) => row[otherIndex] ?? "").filter((v) => !isMissing(v)));
+      return (value, row) => {
+        const other = row[otherIndex] ?? "";
+        if (isMissing(other)) return null;
+        const date = parseDateValue(value, dayFirst);
+        const otherDate = parseDateValue(other, otherDayFirst);
+        if (!date || !otherDate) return "not a date";
+        if (date.timestamp > otherDate.timestamp) return `after ${rule.other_column} (${other.trim()})`;
+        if (date.timestamp === otherDate.timestamp && rule.allow_equal === false) return `same as ${rule.other_column}`;
+        return null;
+      };
+    }
+    case "references": {
+      const other = others[rule.dataset!];
+      if (!other) {
+        throw new RuleError(`Dataset "${rule.dataset}" is not loaded`);
+      }
+      const otherIndex = columnIndex(other.headers, rule.other_column ?? rule.column!, `"${rule.dataset}"`);
+      const known = new Set(other.data.map((row) => (row[otherIndex] ?? "").trim()));
+      return (value) => (known.has(value.trim()) ? null : `not found in ${rule.dataset}`);
+    }
+    default:
+      return () => null;
+  }
+}
+
+function checkRuleOnData(rule: ValidationRule, headers: string[], data: string[][], others: Record<string, Table>): RuleViolation[] {
+  const columns = ruleColumns(rule);
+  const indices = columns.map((column) => columnIndex(headers, column, "the data"));
+  const violations: RuleViolation[] = [];
+  const column = columns.join(" + ");
+
+  if (rule.type === "required") {
+    data.forEach((row, i) => {
+      if (isMissing(row[indices[0]])) violations.push({ row: i, rule: rule.name, column, value: "" });
+    });
+    return violations;
+  }
+
+  if (rule.type === "unique") {
+    // Every occurrence after the first breaks the rule; rows with an empty key cell are left to required
+    const firstRow = new Map<string, number>();
+    data.forEach((row, i) => {
+      const values = indices.map((index) => (row[index] ?? "").trim());
+      if (values.some((value) => value === "")) return;
+      const key = JSON.stringify(values);
+      const first = firstRow.get(key);
+      if (first === undefined) {
+        firstRow.set(key, i);
+      } else {
+        violations.push({ row: i, rule: rule.name, column, value: `${values.join(" / ")} (same as row ${first})` });
+      }
+    });
+    return violations;
+  }
+
+  // Empty cells pass value rules; add a required rule to catch them
+  const check = valueCheck(rule, headers, data, others);
+  data.forEach((row, i) => {
+    const value = row[indices[0]] ?? "";
+    if (isMissing(value)) return;
+    const reason = check(value, row);
+    if (reason) violations.push({ row: i, rule: rule.name, column, value: `${value.trim()} (${reason})` });
+  });
+  return violations;
+}
+
+/**
+ * Checks every rule against the data. others holds the datasets named by
+ * references rules, keyed by the name used in the rule.
+ */
+export function validateRules(
+  headers: string[],
+  data: string[][],
+  rules: ValidationRule[],
+  others: Record<string, Table> = {},
+): ValidationResult {
+  const reports: RuleReport[] = [];
+  const violations: RuleViolation[] = [];
+  rules.forEach((rule) => {
+    let found: RuleViolation[];
+    try {
+      found = checkRuleOnData(rule, headers, data, others);
+    } catch (error) {
+      if (error instanceof RuleError) {
+        throw new RuleError(`Rule "${rule.name}": ${error.message}`);
+      }
+      throw error;
+    }
+    reports.push({
+      name: rule.name,
+      type: rule.type,
+      columns: ruleColumns(rule),
+      violations: found.length,
+      examples: found.slice(0, EXAMPLES_PER_RULE).map(({ row, value }) => ({ row, value })),
+    });
+    violations.push(...found);
+  });
+  violations.sort((a, b) => a.row - b.row);
+  return {
+    rules: reports,
+    violations,
+    failingRows: Array.from(new Set(violations.map((violation) => violation.row))),
+  };
+}
+
+function uniqueColumnName(headers: string[], name: string): string {
+  let candidate = name;
+  for (let i = 2; headers.includes(candidate); i++) {
+    candidate = `${name}_${i}`;
+  }
+  return candidate;
+}
+
+/**
+ * Applies flag (a column listing the rules each row breaks) or quarantine
+ * (failing rows moved to a separate table) to the validated data.
+ */
+export function applyValidationAction(
+  headers: string[],
+  data: string[][],
+  result: ValidationResult,
+  action: Exclude<ValidationAction, "report">,
+  flagColumn = DEFAULT_FLAG_COLUMN,
+): ValidationActionResult {
+  const brokenRules = new Map<number, string[]>();
+  result.violations.forEach(({ row, rule }) => {
+    const rules = brokenRules.get(row) ?? [];
+    if (!rules.includes(rule)) rules.push(rule);
+    brokenRules.set(row, rules);
+  });
+
+  if (action === "flag") {
+    const column = uniqueColumnName(headers, flagColumn);
+    return {
+      headers: [...headers, column],
+      data: data.map((row, i) => [...headers.map((_, c) => row[c] ?? ""), (brokenRules.get(i) ?? []).join("; ")]),
+      flagColumn: column,
+    };
+  }
+
+  const failedColumn = uniqueColumnName(headers, "failed_rules");
+  return {
+    headers,
+    data: data.filter((_, i) => !brokenRules.has(i)),
+    quarantined: {
+      headers: [...headers, failedColumn],
+      data: result.failingRows.map((i) => [...headers.map((_, c) => data[i][c] ?? ""), brokenRules.get(i)!.join("; ")]),
+    },
+  };
+}
@@ -0,0 +1,208 @@
+import { describe, expect, it } from "vitest";
+import { parseSqlQuery, SqlError, type SqlTable } from "@/lib/csv/sql";
+
+const tables: Record<string, SqlTable> = {
+  orders: {
+    headers: ["id", "customer_id", "region", "amount"],
+    data: [
+      ["1", "10", "north", "100"],
+      ["2", "10", "north", "50"],
+      ["3", "11", "south", "75"],
+      ["4", "12", "north", ""],
+      ["5", "", "east", "20"],
+      ["6", "11", "south", "1,200"],
+    ],
+  },
+  customers: {
+    headers: ["id", "name"],
+    data: [
+      ["10", "Ann"],
+      ["11", "Bob"],
+      ["13", "Cy"],
+    ],
+  },
+};
+
+function run(query: string) {
+  return parseSqlQuery(query).execute(tables);
+}
+
+function rows(query: string) {
+  return run(query).data;
+}
+
+describe("parseSqlQuery", () => {
+  it("lists the tables a query reads, once each", () => {
+    expect(parseSqlQuery("SELECT * FROM orders o JOIN customers c ON o.customer_id = c.id JOIN orders p ON p.id = o.id").tables)
+      .toEqual(["orders", "customers"]);
+  });
+
+  it.each([
+    ["INSERT INTO orders VALUES (1)", "INSERT is not allowed"],
+    ["drop table orders", "DROP is not allowed"],
+    ["DELETE FROM orders", "DELETE is not allowed"],
+    ["SELECT * FROM orders; DELETE FROM orders", "Only one statement"],
+    ["WITH t AS (SELECT 1) SELECT * FROM t", "WITH (common table expressions) is not supported"],
+    ["SELECT id FROM orders UNION SELECT id FROM customers", "UNION is not supported"],
+    ["", "The query is empty"],
+  ])("refuses %j", (query, message) => {
+    expect(() => parseSqlQuery(query)).toThrow(SqlError);
+    expect(() => parseSqlQuery(query)).toThrow(message);
+  });
+
+  it("allows a trailing semicolon", () => {
+    expect(parseSqlQuery("SELECT id FROM orders;").tables).toEqual(["orders"]);
+  });
+
+  it("reports syntax errors with their position", () => {
+    expect(() => parseSqlQuery("SELECT id FROM")).toThrow(SqlError);
+    expect(() => parseSqlQuery("SELECT id FROM orders WHERE amount > 1 extra")).toThrow("at position 40");
+  });
+});
+
+describe("SELECT", () => {
+  it("projects expressions and names columns by alias or text", () => {
+    const result = run("SELECT id, amount * 2 AS doubled, upper(region) FROM orders WHERE id = 1");
+    expect(result.headers).toEqual(["id", "doubled", "upper(region)"]);
+    expect(result.data).toEqual([["1", "200", "NORTH"]]);
+  });
+
+  it("compares values as numbers when both sides read as numbers", () => {
+    expect(rows("SELECT id FROM orders WHERE amount > 100")).toEqual([["6"]]);
+    expect(rows("SELECT id FROM orders WHERE region LIKE 'NO%' AND amount BETWEEN 50 AND 100")).toEqual([["1"], ["2"]]);
+  });
+
+  it("matches LIKE patterns with % and _, ignoring case", () => {
+    expect(rows("SELECT id FROM orders WHERE region LIKE '%TH'")).toEqual([["1"], ["2"], ["3"], ["4"], ["6"]]);
+    expect(rows("SELECT id FROM orders WHERE region LIKE 's_u%h' OR region NOT LIKE '%o%'")).toEqual([["3"], ["5"], ["6"]]);
+    expect(rows("SELECT id FROM orders WHERE region LIKE '%%e%_t' AND region LIKE 'east%'")).toEqual([["5"]]);
+    expect(rows("SELECT id FROM orders WHERE region LIKE 'north_'")).toEqual([]);
+  });
+
+  it("matches patterns with many % against long values quickly", () => {
+    const long = { headers: ["v"], data: [["a".repeat(5000)], [`${"a".repeat(5000)}b`]] };
+    const started = Date.now();
+    const result = parseSqlQuery("SELECT * FROM t WHERE v LIKE '%a%a%a%a%a%a%b'").execute({ t: long });
+    expect(result.data).toHaveLength(1);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("reports unknown tables and columns", () => {
+    expect(() => run("SELECT id FROM missing")).toThrow('Unknown table "missing"');
+    expect(() => run("SELECT total FROM orders")).toThrow('Unknown column "total". Available columns: id, customer_id, region, amount');
+  });
+});
+
+describe("joins", () => {
+  it("matches rows for inner joins and requires ambiguous columns to be qualified", () => {
+    expect(rows("SELECT o.id, c.name FROM orders o JOIN customers c ON o.customer_id = c.id ORDER BY o.id")).toEqual([
+      ["1", "Ann"],
+      ["2", "Ann"],
+      ["3", "Bob"],
+      ["6", "Bob"],
+    ]);
+    expect(() => run("SELECT id FROM orders o JOIN customers c ON o.customer_id = c.id")).toThrow("qualify it");
+  });
+
+  it("keeps unmatched rows on the preserved side of outer joins", () => {
+    expect(rows("SELECT o.id, c.name FROM orders o LEFT JOIN customers c ON o.customer_id = c.id WHERE c.id IS NULL")).toEqual([
+      ["4", ""],
+      ["5", ""],
+    ]);
+    expect(rows("SELECT c.name FROM orders o RIGHT JOIN customers c ON o.customer_id = c.id WHERE o.id IS NULL")).toEqual([["Cy"]]);
+    expect(rows("SELECT COUNT(*) FROM orders o FULL OUTER JOIN customers c ON o.customer_id = c.id")).toEqual([["7"]]);
+  });
+
+  it("pairs every row for cross joins", () => {
+    expect(rows("SELECT COUNT(*) FROM orders CROSS JOIN customers")).toEqual([["18"]]);
+  });
+
+  it("refuses the same alias for two tables", () => {
+    expect(() => run("SELECT * FROM orders JOIN orders ON orders.id = orders.id")).toThrow("is used for two tables");
+  });
+});
+
+describe("grouping", () => {
+  it("aggregates per group", () => {
+    expect(rows("SELECT region, COUNT(*), SUM(amount), AVG(amount), MIN(id), MAX(id) FROM orders GROUP BY region ORDER BY region")).toEqual([
+      ["east", "1", "20", "20", "5", "5"],
+      ["north", "3", "150", "75", "1", "4"],
+      ["south", "2", "1275", "637.5", "3", "6"],
+    ]);
+  });
+
+  it("groups by output alias or position", () => {
+    expect(rows("SELECT upper(region) AS r, COUNT(*) FROM orders GROUP BY r ORDER BY 2 DESC, 1")).toEqual([
+      ["NORTH", "3"],
+      ["SOUTH", "2"],
+      ["EAST", "1"],
+    ]);
+    expect(rows("SELECT region, COUNT(*) FROM orders GROUP BY 1 ORDER BY 1 LIMIT 1")).toEqual([["east", "1"]]);
+  });
+
+  it("filters groups with HAVING, by aggregate or by a select-list alias", () => {
+    expect(rows("SELECT region FROM orders GROUP BY region HAVING COUNT(*) > 1 ORDER BY region")).toEqual([["north"], ["south"]]);
+    expect(rows("SELECT region, COUNT(*) c FROM orders GROUP BY 1 HAVING c > 2")).toEqual([["north", "3"]]);
+    expect(rows("SELECT region, SUM(amount) AS total FROM orders GROUP BY region HAVING total >= 150 AND region <> 'north'")).toEqual([
+      ["south", "1275"],
+    ]);
+  });
+
+  it("prefers a table column over an alias of the same name in HAVING", () => {
+    expect(rows("SELECT region, COUNT(*) AS amount FROM orders GROUP BY region HAVING MAX(amount) > 100")).toEqual([["south", "2"]]);
+  });
+
+  it("summarizes every row without GROUP BY, even when none match", () => {
+    expect(rows("SELECT COUNT(*), SUM(amount) FROM orders WHERE id > 100")).toEqual([["0", ""]]);
+  });
+
+  it("refuses ungrouped columns and aggregates in WHERE", () => {
+    expect(() => run("SELECT region, id FROM orders GROUP BY region")).toThrow("must be in GROUP BY");
+    expect(() => run("SELECT region FROM orders WHERE COUNT(*) > 1 GROUP BY region")).toThrow("use HAVING");
+    expect(() => run("SELECT SUM(COUNT(*)) FROM orders")).toThrow("can't be nested");
+  });
+});
+
+describe("NULL semantics", () => {
+  it("reads empty cells as NULL, which matches no comparison", () => {
+    expect(rows("SELECT id FROM orders WHERE amount < 1000 OR amount >= 1000")).toHaveLength(5);
+    expect(rows("SELECT id FROM orders WHERE NOT amount < 1000")).toEqual([["6"]]);
+    expect(rows("SELECT id FROM orders WHERE amount IS NULL")).toEqual([["4"]]);
+    expect(rows("SELECT id FROM orders WHERE customer_id NOT IN (10, NULL)")).toEqual([]);
+  });
+
+  it("skips NULL in aggregates, except COUNT(*)", () => {
+    expect(rows("SELECT COUNT(*), COUNT(amount), COUNT(DISTINCT customer_id) FROM orders")).toEqual([["6", "5", "3"]]);
+  });
+
+  it("propagates NULL through expressions and replaces it with COALESCE", () => {
+    expect(rows("SELECT amount + 1, COALESCE(amount, 0), amount / 0 FROM orders WHERE id = 4")).toEqual([["", "0", ""]]);
+    expect(rows("SELECT NULLIF(region, 'north') FROM orders WHERE id = 1")).toEqual([[""]]);
+  });
+
+  it("keeps NULL and FALSE apart in three-valued logic", () => {
+    expect(rows("SELECT id FROM orders WHERE amount > 0 AND id = 4")).toEqual([]);
+    expect(rows("SELECT id FROM orders WHERE amount > 0 OR id = 4 ORDER BY id DESC LIMIT 2")).toEqual([["6"], ["5"]]);
+  });
+});
+
+describe("ORDER BY, LIMIT and OFFSET", () => {
+  it("sorts numerically and puts NULL last in both directions", () => {
+    expect(rows("SELECT id FROM orders ORDER BY amount")).toEqual([["5"], ["2"], ["3"], ["1"], ["6"], ["4"]]);
+    expect(rows("SELECT id FROM orders ORDER BY amount DESC")).toEqual([["6"], ["1"], ["3"], ["2"], ["5"], ["4"]]);
+  });
+
+  it("sorts by several keys and by expressions not in the output", () => {
+    expect(rows("SELECT id FROM orders ORDER BY region DESC, amount * -1")).toEqual([["6"], ["3"], ["1"], ["2"], ["4"], ["5"]]);
+  });
+
+  it("pages with LIMIT and OFFSET after sorting and DISTINCT", () => {
+    expect(rows("SELECT id FROM orders ORDER BY id LIMIT 2 OFFSET 3")).toEqual([["4"], ["5"]]);
+    expect(rows("SELECT DISTINCT region FROM orders ORDER BY region LIMIT 2 OFFSET 1")).toEqual([["north"], ["south"]]);
+    expect(rows("SELECT id FROM orders LIMIT 0")).toEqual([]);
+  });
+
+  it("reports out-of-range column positions", () => {
+    expect(() => run("SELECT id FROM orders ORDER BY 3")).toThrow("Column position 3 is out of range");
+  });
+});
@@ -0,0 +1,1473 @@
+/**
+ * A read-only SQL subset over loaded datasets, run in-process for the
+ * sql_query tool. Queries are tokenized and parsed into a tree, then
+ * evaluated against the parsed CSV rows; nothing is ever passed to eval, the
+ * Function constructor or a database.
+ *
+ * Supported:
+ *   SELECT [DISTINCT] expressions [AS alias], *, table.*
+ *   FROM table [AS alias]
+ *   [INNER | LEFT | RIGHT | FULL] [OUTER] JOIN table [AS alias] ON condition, CROSS JOIN table
+ *   WHERE, GROUP BY, HAVING, ORDER BY ... [ASC | DESC], LIMIT n [OFFSET m]
+ *   (GROUP BY, HAVING and ORDER BY may name select-list aliases)
+ *
+ * Expressions support =, != / <>, <, <=, >, >=, AND, OR, NOT, IS [NOT] NULL,
+ * [NOT] IN (...), [NOT] BETWEEN, [NOT] LIKE (case-insensitive, % and _),
+ * + - * / %, || for text, CASE WHEN, CAST(x AS INTEGER | REAL | TEXT), the
+ * aggregates COUNT, SUM, AVG, MIN and MAX (with DISTINCT), and the functions
+ * listed in SCALAR_FUNCTIONS.
+ *
+ * Empty cells are NULL. Values are compared as numbers when both sides read as
+ * numbers (including "1,200" and "$5") and otherwise as case-sensitive text.
+ * Division is never integer division, and dividing by zero gives NULL.
+ */
+
+import { parseNumericValue } from "@/lib/csv/columnTypes";
+
+export class SqlError extends Error {
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} (at position ${position + 1})`);
+    this.name = "SqlError";
+  }
+}
+
+export interface SqlTable {
+  headers: string[];
+  data: string[][];
+}
+
+export interface SqlResult {
+  headers: string[];
+  data: string[][];
+}
+
+type SqlValue = string | number | boolean | null;
+
+type CastType = "integer" | "real" | "text";
+
+type Expr =
+  | { kind: "literal"; value: SqlValue }
+  // A column as written; binding turns it into a ref to a position in the joined row
+  | { kind: "column"; table?: string; name: string; quoted: boolean; position: number }
+  | { kind: "ref"; index: number }
+  | { kind: "unary"; operator: "-" | "not"; operand: Expr }
+  | { kind: "binary"; operator: string; left: Expr; right: Expr }
+  | { kind: "in"; operand: Expr; values: Expr[]; negated: boolean }
+  | { kind: "between"; operand: Expr; low: Expr; high: Expr; negated: boolean }
+  | { kind: "like"; operand: Expr; pattern: Expr; negated: boolean }
+  | { kind: "null"; operand: Expr; negated: boolean }
+  | { kind: "call"; name: string; args: Expr[] }
+  | { kind: "aggregate"; name: string; arg: Expr | null; distinct: boolean }
+  | { kind: "cast"; operand: Expr; type: CastType }
+  | { kind: "case"; operand: Expr | null; branches: { when: Expr; then: Expr }[]; otherwise: Expr | null };
+
+type SelectItem =
+  | { kind: "star"; table?: string; position: number }
+  | { kind: "expr"; expr: Expr; alias?: string; text: string };
+
+type JoinType = "inner" | "left" | "right" | "full" | "cross";
+
+interface TableReference {
+  table: string;
+  alias: string;
+  position: number;
+}
+
+interface JoinClause {
+  type: JoinType;
+  source: TableReference;
+  on: Expr | null;
+}
+
+interface OrderItem {
+  expr: Expr;
+  descending: boolean;
+}
+
+interface SelectStatement {
+  distinct: boolean;
+  items: SelectItem[];
+  from: TableReference;
+  joins: JoinClause[];
+  where: Expr | null;
+  groupBy: Expr[];
+  having: Expr | null;
+  orderBy: OrderItem[];
+  limit: number | null;
+  offset: number;
+}
+
+type Token =
+  | { type: "word"; value: string; position: number; end: number }
+  | { type: "identifier"; value: string; quote: string; position: number; end: number }
+  | { type: "string"; value: string; position: number; end: number }
+  | { type: "number"; value: string; position: number; end: number }
+  | { type: "operator"; value: string; position: number; end: number }
+  | { type: "punctuation"; value: "(" | ")" | "," | "." | ";"; position: number; end: number };
+
+const MAX_QUERY_LENGTH = 5000;
+// Rows a join may produce before the query is refused
+const MAX_JOINED_ROWS = 1_000_000;
+
+const AGGREGATE_FUNCTIONS = new Set(["count", "sum", "avg", "min", "max"]);
+
+// Name → allowed argument counts
+const SCALAR_FUNCTIONS: Record<string, [number, number]> = {
+  lower: [1, 1],
+  upper: [1, 1],
+  trim: [1, 1],
+  length: [1, 1],
+  substr: [2, 3],
+  replace: [3, 3],
+  abs: [1, 1],
+  round: [1, 2],
+  coalesce: [1, Infinity],
+  nullif: [2, 2],
+};
+
+const CAST_TYPES: Record<string, CastType> = {
+  integer: "integer",
+  int: "integer",
+  bigint: "integer",
+  real: "real",
+  float: "real",
+  double: "real",
+  numeric: "real",
+  decimal: "real",
+  text: "text",
+  varchar: "text",
+  string: "text",
+  char: "text",
+};
+
+const KEYWORDS = new Set([
+  "select",
+  "distinct",
+  "all",
+  "from",
+  "where",
+  "group",
+  "by",
+  "having",
+  "order",
+  "asc",
+  "desc",
+  "limit",
+  "offset",
+  "join",
+  "inner",
+  "left",
+  "right",
+  "full",
+  "outer",
+  "cross",
+  "on",
+  "as",
+  "and",
+  "or",
+  "not",
+  "in",
+  "is",
+  "null",
+  "like",
+  "between",
+  "case",
+  "when",
+  "then",
+  "else",
+  "end",
+  "true",
+  "false",
+  "union",
+  "using",
+]);
+
+// First words of statements that change data, refused with a clear message
+const WRITE_STATEMENTS = new Set([
+  "insert",
+  "update",
+  "delete",
+  "drop",
+  "create",
+  "alter",
+  "truncate",
+  "replace",
+  "merge",
+  "grant",
+  "attach",
+  "pragma",
+]);
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (input.startsWith("--", i)) {
+      const end = input.indexOf("\n", i);
+      i = end === -1 ? input.length : end + 1;
+      continue;
+    }
+    if (input.startsWith("/*", i)) {
+      const end = input.indexOf("*/", i + 2);
+      if (end === -1) {
+        throw new SqlError("Unterminated comment", i);
+      }
+      i = end + 2;
+      continue;
+    }
+
+    const start = i;
+
+    if (char === "(" || char === ")" || char === "," || char === "." || char === ";") {
+      // A dot followed by digits starts a number such as .5
+      if (!(char === "." && /\d/.test(input[i + 1] ?? ""))) {
+        tokens.push({ type: "punctuation", value: char, position: start, end: start + 1 });
+        i++;
+        continue;
+      }
+    }
+
+    if (char === "'") {
+      // Quotes inside text are doubled, as in 'O''Brien'
+      let value = "";
+      i++;
+      while (i < input.length && !(input[i] === "'" && input[i + 1] !== "'")) {
+        value += input[i];
+        i += input[i] === "'" ? 2 : 1;
+      }
+      if (i >= input.length) {
+        throw new SqlError("Unterminated text literal", start);
+      }
+      i++;
+      tokens.push({ type: "string", value, position: start, end: i });
+      continue;
+    }
+
+    if (char === '"' || char === "`" || char === "[") {
+      const close = char === "[" ? "]" : char;
+      const end = input.indexOf(close, i + 1);
+      if (end === -1) {
+        throw new SqlError(`Unterminated name, expected ${close}`, start);
+      }
+      tokens.push({ type: "identifier", value: input.slice(i + 1, end), quote: char, position: start, end: end + 1 });
+      i = end + 1;
+      continue;
+    }
+
+    const operator = input.slice(i).match(/^(<=|>=|<>|!=|==|\|\||[=<>+\-*/%])/);
+    if (operator) {
+      tokens.push({ type: "operator", value: operator[1], position: start, end: start + operator[1].length });
+      i += operator[1].length;
+      continue;
+    }
+
+    const number = input.slice(i).match(/^(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?(?![\p{L}\p{N}_])/iu);
+    if (number) {
+      tokens.push({ type: "number", value: number[0], position: start, end: start + number[0].length });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = input.slice(i).match(/^[\p{L}\p{N}_$]+/u);
+    if (word) {
+      tokens.push({ type: "word", value: word[0], position: start, end: start + word[0].length });
+      i += word[0].length;
+      continue;
+    }
+
+    throw new SqlError(`Unexpected character "${char}"`, start);
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly source: string,
+  ) {}
+
+  parse(): SelectStatement {
+    const first = this.peek();
+    if (!first) {
+      throw new SqlError("The query is empty");
+    }
+    const firstWord = first.type === "word" ? first.value.toLowerCase() : "";
+    if (WRITE_STATEMENTS.has(firstWord)) {
+      throw new SqlError(`Only read-only SELECT queries can be run; ${first.value.toUpperCase()} is not allowed`, first.position);
+    }
+    if (firstWord === "with") {
+      throw new SqlError("WITH (common table expressions) is not supported; use joins instead", first.position);
+    }
+    const statement = this.parseSelect();
+
+    if (this.acceptPunctuation(";") && this.peek()) {
+      throw new SqlError("Only one statement can be run at a time", this.peek()!.position);
+    }
+    const extra = this.peek();
+    if (extra) {
+      if (this.isKeyword(extra, "union")) {
+        throw new SqlError("UNION is not supported; use the csv_processor union operation", extra.position);
+      }
+      throw new SqlError(`Unexpected "${extra.value}"`, extra.position);
+    }
+    return statement;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(token: Token | undefined, keyword: string): boolean {
+    return token?.type === "word" && token.value.toLowerCase() === keyword;
+  }
+
+  private acceptKeyword(...keywords: string[]): boolean {
+    if (keywords.every((keyword, offset) => this.isKeyword(this.peek(offset), keyword))) {
+      this.index += keywords.length;
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw this.unexpected(this.peek(), keyword.toUpperCase());
+    }
+  }
+
+  private isPunctuation(token: Token | undefined, value: string): boolean {
+    return token?.type === "punctuation" && token.value === value;
+  }
+
+  private acceptPunctuation(value: string): boolean {
+    if (this.isPunctuation(this.peek(), value)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.acceptPunctuation(value)) {
+      throw this.unexpected(this.peek(), `"${value}"`);
+    }
+  }
+
+  private acceptOperator(...values: string[]): string | null {
+    const token = this.peek();
+    if (token?.type === "operator" && values.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private unexpected(token: Token | undefined, expected: string): SqlError {
+    if (!token) {
+      return new SqlError(`Expected ${expected} but the query ended`);
+    }
+    return new SqlError(`Expected ${expected} but found "${token.value}"`, token.position);
+  }
+
+  // A table, column or alias name: a bare word that isn't a keyword, or a quoted name
+  private parseName(what: string): { value: string; position: number } {
+    const token = this.next();
+    if (token?.type === "identifier" || (token?.type === "word" && !KEYWORDS.has(token.value.toLowerCase()))) {
+      return { value: token.value, position: token.position };
+    }
+    throw this.unexpected(token, what);
+  }
+
+  private parseAlias(): string | undefined {
+    if (this.acceptKeyword("as")) {
+      return this.parseName("an alias").value;
+    }
+    const token = this.peek();
+    if (token?.type === "identifier" || (token?.type === "word" && !KEYWORDS.has(token.value.toLowerCase()))) {
+      this.index++;
+      return token.value;
+    }
+    return undefined;
+  }
+
+  private parseTableReference(): TableReference {
+    const token = this.peek();
+    if (this.isPunctuation(token, "(")) {
+      throw new SqlError("Subqueries are not supported; query the datasets directly", token!.position);
+    }
+    const { value, position } = this.parseName("a table name");
+    return { table: value, alias: this.parseAlias() ?? value, position };
+  }
+
+  private parseSelect(): SelectStatement {
+    this.expectKeyword("select");
+    const distinct = this.acceptKeyword("distinct");
+    if (!distinct) this.acceptKeyword("all");
+
+    const items: SelectItem[] = [this.parseSelectItem()];
+    while (this.acceptPunctuation(",")) {
+      items.push(this.parseSelectItem());
+    }
+
+    if (!this.acceptKeyword("from")) {
+      throw this.unexpected(this.peek(), "FROM and a table name");
+    }
+    const from = this.parseTableReference();
+
+    const joins: JoinClause[] = [];
+    for (;;) {
+      if (this.isPunctuation(this.peek(), ",")) {
+        throw new SqlError("List tables with JOIN ... ON instead of commas", this.peek()!.position);
+      }
+      let type: JoinType | null = null;
+      if (this.acceptKeyword("join") || this.acceptKeyword("inner", "join")) {
+        type = "inner";
+      } else if (this.acceptKeyword("cross", "join")) {
+        type = "cross";
+      } else {
+        for (const side of ["left", "right", "full"] as const) {
+          if (this.acceptKeyword(side, "join") || this.acceptKeyword(side, "outer", "join")) {
+            type = side;
+            break;
+          }
+        }
+      }
+      if (!type) break;
+      const source = this.parseTableReference();
+      let on: Expr | null = null;
+      if (type !== "cross") {
+        if (this.isKeyword(this.peek(), "using")) {
+          throw new SqlError("JOIN ... USING is not supported; write the condition with ON", this.peek()!.position);
+        }
+        this.expectKeyword("on");
+        on = this.parseExpression();
+      }
+      joins.push({ type, source, on });
+    }
+
+    const where = this.acceptKeyword("where") ? this.parseExpression() : null;
+
+    const groupBy: Expr[] = [];
+    if (this.acceptKeyword("group")) {
+      this.expectKeyword("by");
+      do {
+        groupBy.push(this.parseExpression());
+      } while (this.acceptPunctuation(","));
+    }
+    const having = this.acceptKeyword("having") ? this.parseExpression() : null;
+
+    const orderBy: OrderItem[] = [];
+    if (this.acceptKeyword("order")) {
+      this.expectKeyword("by");
+      do {
+        const expr = this.parseExpression();
+        const descending = this.acceptKeyword("desc");
+        if (!descending) this.acceptKeyword("asc");
+        orderBy.push({ expr, descending });
+      } while (this.acceptPunctuation(","));
+    }
+
+    let limit: number | null = null;
+    let offset = 0;
+    if (this.acceptKeyword("limit")) {
+      limit = this.parseCount("LIMIT");
+      if (this.acceptPunctuation(",")) {
+        // LIMIT offset, count
+        offset = limit;
+        limit = this.parseCount("LIMIT");
+      }
+    }
+    if (this.acceptKeyword("offset")) {
+      offset = this.parseCount("OFFSET");
+    }
+
+    return { distinct, items, from, joins, where, groupBy, having, orderBy, limit, offset };
+  }
+
+  private parseCount(clause: string): number {
+    const token = this.next();
+    if (token?.type !== "number" || !/^\d+$/.test(token.value)) {
+      throw this.unexpected(token, `a whole number after ${clause}`);
+    }
+    return Number(token.value);
+  }
+
+  private parseSelectItem(): SelectItem {
+    const start = this.peek();
+    if (start?.type === "operator" && start.value === "*") {
+      this.index++;
+      return { kind: "star", position: start.position };
+    }
+    // table.*
+    if (
+      (start?.type === "word" || start?.type === "identifier") &&
+      this.isPunctuation(this.peek(1), ".") &&
+      this.peek(2)?.type === "operator" &&
+      this.peek(2)?.value === "*"
+    ) {
+      this.index += 3;
+      return { kind: "star", table: start.value, position: start.position };
+    }
+    const expr = this.parseExpression();
+    const end = this.tokens[this.index - 1];
+    const text = start && end ? this.source.slice(start.position, end.end) : "";
+    return { kind: "expr", expr, alias: this.parseAlias(), text };
+  }
+
+  parseExpression(): Expr {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.acceptKeyword("or")) {
+      left = { kind: "binary", operator: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.acceptKeyword("and")) {
+      left = { kind: "binary", operator: "and", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.acceptKeyword("not")) {
+      return { kind: "unary", operator: "not", operand: this.parseNot() };
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Expr {
+    const operand = this.parseConcat();
+
+    const comparison = this.acceptOperator("=", "==", "!=", "<>", "<", "<=", ">", ">=");
+    if (comparison) {
+      const operator = comparison === "==" ? "=" : comparison === "<>" ? "!=" : comparison;
+      return { kind: "binary", operator, left: operand, right: this.parseConcat() };
+    }
+
+    if (this.acceptKeyword("is")) {
+      const negated = this.acceptKeyword("not");
+      this.expectKeyword("null");
+      return { kind: "null", operand, negated };
+    }
+
+    const negated = this.acceptKeyword("not");
+    if (this.acceptKeyword("in")) {
+      this.expectPunctuation("(");
+      if (this.isKeyword(this.peek(), "select")) {
+        throw new SqlError("Subqueries are not supported; query the datasets directly", this.peek()!.position);
+      }
+      const values = [this.parseExpression()];
+      while (this.acceptPunctuation(",")) {
+        values.push(this.parseExpression());
+      }
+      this.expectPunctuation(")");
+      return { kind: "in", operand, values, negated };
+    }
+    if (this.acceptKeyword("between")) {
+      const low = this.parseConcat();
+      this.expectKeyword("and");
+      return { kind: "between", operand, low, high: this.parseConcat(), negated };
+    }
+    if (this.acceptKeyword("like")) {
+      return { kind: "like", operand, pattern: this.parseConcat(), negated };
+    }
+    if (negated) {
+      throw this.unexpected(this.peek(), "IN, BETWEEN or LIKE after NOT");
+    }
+    return operand;
+  }
+
+  private parseConcat(): Expr {
+    let left = this.parseSum();
+    while (this.acceptOperator("||")) {
+      left = { kind: "binary", operator: "||", left, right: this.parseSum() };
+    }
+    return left;
+  }
+
+  private parseSum(): Expr {
+    let left = this.parseProduct();
+    for (let operator = this.acceptOperator("+", "-"); operator; operator = this.acceptOperator("+", "-")) {
+      left = { kind: "binary", operator, left, right: this.parseProduct() };
+    }
+    return left;
+  }
+
+  private parseProduct(): Expr {
+    let left = this.parseUnary();
+    for (let operator = this.acceptOperator("*", "/", "%"); operator; operator = this.acceptOperator("*", "/", "%")) {
+      left = { kind: "binary", operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    const operator = this.acceptOperator("-", "+");
+    if (operator === "-") {
+      return { kind: "unary", operator: "-", operand: this.parseUnary() };
+    }
+    return operator ? this.parseUnary() : this.parsePrimary();
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.next();
+    if (!token) {
+      throw this.unexpected(token, "a value");
+    }
+
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: Number(token.value) };
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "identifier":
+        return this.parseColumn(token.value, token.position, token.quote === '"');
+      case "punctuation":
+        if (token.value === "(") {
+          if (this.isKeyword(this.peek(), "select")) {
+            throw new SqlError("Subqueries are not supported; query the datasets directly", this.peek()!.position);
+          }
+          const expr = this.parseExpression();
+          this.expectPunctuation(")");
+          return expr;
+        }
+        break;
+      case "word": {
+        const word = token.value.toLowerCase();
+        if (word === "null") return { kind: "literal", value: null };
+        if (word === "true" || word === "false") return { kind: "literal", value: word === "true" };
+        if (word === "case") return this.parseCase();
+        if (this.isPunctuation(this.peek(), "(")) {
+          return this.parseCall(token.value, token.position);
+        }
+        if (KEYWORDS.has(word)) break;
+        return this.parseColumn(token.value, token.position, false);
+      }
+    }
+    throw this.unexpected(token, "a value");
+  }
+
+  private parseColumn(name: string, position: number, quoted: boolean): Expr {
+    if (this.acceptPunctuation(".")) {
+      const column = this.parseName("a column name");
+      return { kind: "column", table: name, name: column.value, quoted: false, position };
+    }
+    return { kind: "column", name, quoted, position };
+  }
+
+  private parseCase(): Expr {
+    const operand = this.isKeyword(this.peek(), "when") ? null : this.parseExpression();
+    const branches: { when: Expr; then: Expr }[] = [];
+    while (this.acceptKeyword("when")) {
+      const when = this.parseExpression();
+      this.expectKeyword("then");
+      branches.push({ when, then: this.parseExpression() });
+    }
+    if (!branches.length) {
+      throw this.unexpected(this.peek(), "WHEN");
+    }
+    const otherwise = this.acceptKeyword("else") ? this.parseExpression() : null;
+    this.expectKeyword("end");
+    return { kind: "case", operand, branches, otherwise };
+  }
+
+  private parseCall(name: string, position: number): Expr {
+    const lower = name.toLowerCase();
+    this.expectPunctuation("(");
+
+    if (lower === "cast") {
+      const operand = this.parseExpression();
+      this.expectKeyword("as");
+      const typeName = this.parseName("a type such as INTEGER, REAL or TEXT");
+      const type = CAST_TYPES[typeName.value.toLowerCase()];
+      if (!type) {
+        throw new SqlError(`Unknown type "${typeName.value}"; use INTEGER, REAL or TEXT`, typeName.position);
+      }
+      // VARCHAR(255) and DECIMAL(10, 2) are accepted; the sizes are ignored
+      if (this.acceptPunctuation("(")) {
+        while (!this.acceptPunctuation(")")) {
+          if (!this.next()) throw this.unexpected(undefined, '")"');
+        }
+      }
+      this.expectPunctuation(")");
+      return { kind: "cast", operand, type };
+    }
+
+    if (AGGREGATE_FUNCTIONS.has(lower)) {
+      const distinct = this.acceptKeyword("distinct");
+      let arg: Expr | null = null;
+      if (lower === "count" && !distinct && this.acceptOperator("*")) {
+        arg = null;
+      } else {
+        arg = this.parseExpression();
+      }
+      this.expectPunctuation(")");
+      return { kind: "aggregate", name: lower, arg, distinct };
+    }
+
+    const arity = SCALAR_FUNCTIONS[lower];
+    if (!arity) {
+      throw new SqlError(
+        `Unknown function "${name}". Available functions: ${[...Array.from(AGGREGATE_FUNCTIONS), ...Object.keys(SCALAR_FUNCTIONS), "cast"].join(", ")}`,
+        position,
+      );
+    }
+    const args: Expr[] = [];
+    if (!this.acceptPunctuation(")")) {
+      do {
+        args.push(this.parseExpression());
+      } while (this.acceptPunctuation(","));
+      this.expectPunctuation(")");
+    }
+    const [min, max] = arity;
+    if (args.length < min || args.length > max) {
+      throw new SqlError(
+        `${lower.toUpperCase()} takes ${min === max ? min : max === Infinity ? `at least ${min}` : `${min} or ${max}`} argument${max === 1 ? "" : "s"}`,
+        position,
+      );
+    }
+    return { kind: "call", name: lower, args };
+  }
+}
+
+// Columns visible to a query: every column of every table in FROM and JOIN
+interface ScopeColumn {
+  table: string;
+  alias: string;
+  name: string;
+}
+
+function findColumns(scope: ScopeColumn[], expr: { table?: string; name: string }): number[] {
+  const candidates = scope
+    .map((column, index) => ({ column, index }))
+    .filter(({ column }) =>
+      expr.table === undefined ||
+      column.alias.toLowerCase() === expr.table.toLowerCase() ||
+      column.table.toLowerCase() === expr.table.toLowerCase(),
+    );
+  const exact = candidates.filter(({ column }) => column.name === expr.name);
+  const matches = exact.length
+    ? exact
+    : candidates.filter(({ column }) => column.name.toLowerCase() === expr.name.toLowerCase());
+  return matches.map(({ index }) => index);
+}
+
+// Replaces column names with positions in the joined row. With outputColumn, a bare
+// name that matches no table column may name an output column by its alias
+function bind(expr: Expr, scope: ScopeColumn[], outputColumn?: (name: string) => Expr | null): Expr {
+  const recurse = (child: Expr) => bind(child, scope, outputColumn);
+  switch (expr.kind) {
+    case "literal":
+    case "ref":
+      return expr;
+    case "column": {
+      const matches = findColumns(scope, expr);
+      if (matches.length === 1) {
+        return { kind: "ref", index: matches[0] };
+      }
+      if (matches.length > 1) {
+        const tables = matches.map((index) => scope[index].alias);
+        throw new SqlError(
+          `Column "${expr.name}" is in ${tables.join(" and ")}; qualify it, e.g. ${tables[0]}.${expr.name}`,
+          expr.position,
+        );
+      }
+      const output = expr.table === undefined ? outputColumn?.(expr.name) : null;
+      if (output) {
+        return output;
+      }
+      // Like SQLite, a double-quoted name that matches no column is read as text
+      if (expr.quoted) {
+        return { kind: "literal", value: expr.name };
+      }
+      if (expr.table !== undefined && !scope.some((c) => c.alias.toLowerCase() === expr.table!.toLowerCase() || c.table.toLowerCase() === expr.table!.toLowerCase())) {
+        throw new SqlError(`Unknown table "${expr.table}" in "${expr.table}.${expr.name}"`, expr.position);
+      }
+      const available = scope
+        .filter((c) => expr.table === undefined || c.alias.toLowerCase() === expr.table.toLowerCase() || c.table.toLowerCase() === expr.table.toLowerCase())
+        .map((c) => c.name);
+      throw new SqlError(
+        `Unknown column "${expr.table ? `${expr.table}.` : ""}${expr.name}". Available columns: ${Array.from(new Set(available)).join(", ")}`,
+        expr.position,
+      );
+    }
+    case "unary":
+      return { ...expr, operand: recurse(expr.operand) };
+    case "binary":
+      return { ...expr, left: recurse(expr.left), right: recurse(expr.right) };
+    case "in":
+      return { ...expr, operand: recurse(expr.operand), values: expr.values.map(recurse) };
+    case "between":
+      return { ...expr, operand: recurse(expr.operand), low: recurse(expr.low), high: recurse(expr.high) };
+    case "like":
+      return { ...expr, operand: recurse(expr.operand), pattern: recurse(expr.pattern) };
+    case "null":
+    case "cast":
+      return { ...expr, operand: recurse(expr.operand) };
+    case "call":
+      return { ...expr, args: expr.args.map(recurse) };
+    case "aggregate":
+      return { ...expr, arg: expr.arg && recurse(expr.arg) };
+    case "case":
+      return {
+        ...expr,
+        operand: expr.operand && recurse(expr.operand),
+        branches: expr.branches.map((branch) => ({ when: recurse(branch.when), then: recurse(branch.then) })),
+        otherwise: expr.otherwise && recurse(expr.otherwise),
+      };
+  }
+}
+
+function children(expr: Expr): Expr[] {
+  switch (expr.kind) {
+    case "literal":
+    case "column":
+    case "ref":
+      return [];
+    case "unary":
+    case "null":
+    case "cast":
+      return [expr.operand];
+    case "binary":
+      return [expr.left, expr.right];
+    case "in":
+      return [expr.operand, ...expr.values];
+    case "between":
+      return [expr.operand, expr.low, expr.high];
+    case "like":
+      return [expr.operand, expr.pattern];
+    case "call":
+      return expr.args;
+    case "aggregate":
+      return expr.arg ? [expr.arg] : [];
+    case "case":
+      return [
+        ...(expr.operand ? [expr.operand] : []),
+        ...expr.branches.flatMap((branch) => [branch.when, branch.then]),
+        ...(expr.otherwise ? [expr.otherwise] : []),
+      ];
+  }
+}
+
+function containsAggregate(expr: Expr): boolean {
+  return expr.kind === "aggregate" || children(expr).some(containsAggregate);
+}
+
+function refusesAggregate(expr: Expr | null, clause: string): void {
+  if (expr && containsAggregate(expr)) {
+    throw new SqlError(`Aggregates such as COUNT or SUM can't be used in ${clause}${clause === "WHERE" ? "; use HAVING" : ""}`);
+  }
+}
+
+// Grouped queries may only use grouped expressions outside aggregates
+function checkGrouped(expr: Expr, groupKeys: Set<string>, columnName: (index: number) => string): void {
+  if (groupKeys.has(JSON.stringify(expr))) return;
+  if (expr.kind === "aggregate") {
+    if (expr.arg && containsAggregate(expr.arg)) {
+      throw new SqlError("Aggregates can't be nested");
+    }
+    return;
+  }
+  if (expr.kind === "ref") {
+    throw new SqlError(
+      `Column "${columnName(expr.index)}" must be in GROUP BY or inside an aggregate such as COUNT, SUM or MAX`,
+    );
+  }
+  children(expr).forEach((child) => checkGrouped(child, groupKeys, columnName));
+}
+
+function asNumber(value: SqlValue): number | null {
+  if (value === null) return null;
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return parseNumericValue(value);
+}
+
+function asText(value: SqlValue): string {
+  if (value === null) return "";
+  if (typeof value === "number") return String(Number(value.toPrecision(12)));
+  return String(value);
+}
+
+function asBoolean(value: SqlValue): boolean | null {
+  if (value === null || typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  const number = parseNumericValue(value);
+  if (number !== null) return number !== 0;
+  return ["true", "yes", "y"].includes(value.trim().toLowerCase());
+}
+
+// Orders two non-null values: numerically when both read as numbers, otherwise as text
+function compareValues(left: SqlValue, right: SqlValue): number {
+  const leftNumber = asNumber(left);
+  const rightNumber = asNumber(right);
+  if (leftNumber !== null && rightNumber !== null) {
+    return leftNumber - rightNumber;
+  }
+  const leftText = asText(left);
+  const rightText = asText(right);
+  return leftText < rightText ? -1 : leftText > rightText ? 1 : 0;
+}
+
+// Equal values share a key, so "10" and "10.0" group and join together
+function valueKey(value: SqlValue): string {
+  const number = asNumber(value);
+  return number !== null ? `n:${number}` : `s:${asText(value)}`;
+}
+
+// LIKE ignores case; % matches any run of characters and _ exactly one. Two pointers, going
+// back to just after the last % on a mismatch, keep this at O(value × pattern) for any pattern
+function likeMatches(value: string, pattern: string): boolean {
+  const text = Array.from(value.toLowerCase());
+  const wildcards = Array.from(pattern.toLowerCase());
+  let t = 0;
+  let p = 0;
+  let lastPercent = -1;
+  let resumeAt = 0;
+  while (t < text.length) {
+    if (p < wildcards.length && wildcards[p] === "%") {
+      lastPercent = p++;
+      resumeAt = t;
+    } else if (p < wildcards.length && (wildcards[p] === "_" || wildcards[p] === text[t])) {
+      p++;
+      t++;
+    } else if (lastPercent >= 0) {
+      // Let the last % take one more character and try the rest of the pattern again
+      p = lastPercent + 1;
+      t = ++resumeAt;
+    } else {
+      return false;
+    }
+  }
+  while (p < wildcards.length && wildcards[p] === "%") {
+    p++;
+  }
+  return p === wildcards.length;
+}
+
+function arithmetic(operator: string, left: SqlValue, right: SqlValue): SqlValue {
+  const a = asNumber(left);
+  const b = asNumber(right);
+  if (a === null || b === null) return null;
+  switch (operator) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      return b === 0 ? null : a / b;
+    default:
+      return b === 0 ? null : a % b;
+  }
+}
+
+interface EvaluationContext {
+  row: SqlValue[];
+  // Rows of the current group, for aggregates
+  group: SqlValue[][] | null;
+}
+
+function evaluate(expr: Expr, context: EvaluationContext): SqlValue {
+  const value = (child: Expr) => evaluate(child, context);
+
+  switch (expr.kind) {
+    case "literal":
+      return expr.value;
+    case "ref":
+      return context.row[expr.index] ?? null;
+    case "column":
+      throw new SqlError(`Column "${expr.name}" was not resolved`);
+    case "unary": {
+      const operand = value(expr.operand);
+      if (expr.operator === "not") {
+        const truth = asBoolean(operand);
+        return truth === null ? null : !truth;
+      }
+      const number = asNumber(operand);
+      return number === null ? null : -number;
+    }
+    case "binary": {
+      if (expr.operator === "and" || expr.operator === "or") {
+        // Three-valued logic: NULL AND false is false, NULL OR true is true
+        const left = asBoolean(value(expr.left));
+        if (expr.operator === "and" && left === false) return false;
+        if (expr.operator === "or" && left === true) return true;
+        const right = asBoolean(value(expr.right));
+        if (expr.operator === "and") return right === false ? false : left === null || right === null ? null : true;
+        return right === true ? true : left === null || right === null ? null : false;
+      }
+      const left = value(expr.left);
+      const right = value(expr.right);
+      if (left === null || right === null) return null;
+      if (expr.operator === "||") return asText(left) + asText(right);
+      if (["+", "-", "*", "/", "%"].includes(expr.operator)) {
+        return arithmetic(expr.operator, left, right);
+      }
+      const result = compareValues(left, right);
+      switch (expr.operator) {
+        case "=":
+          return result === 0;
+        case "!=":
+          return result !== 0;
+        case "<":
+          return result < 0;
+        case "<=":
+          return result <= 0;
+        case ">":
+          return result > 0;
+        default:
+          return result >= 0;
+      }
+    }
+    case "in": {
+      const operand = value(expr.operand);
+      if (operand === null) return null;
+      const values = expr.values.map(value);
+      if (values.some((candidate) => candidate !== null && compareValues(operand, candidate) === 0)) {
+        return !expr.negated;
+      }
+      return values.includes(null) ? null : expr.negated;
+    }
+    case "between": {
+      const operand = value(expr.operand);
+      const low = value(expr.low);
+      const high = value(expr.high);
+      if (operand === null || low === null || high === null) return null;
+      const inside = compareValues(operand, low) >= 0 && compareValues(operand, high) <= 0;
+      return inside !== expr.negated;
+    }
+    case "like": {
+      const operand = value(expr.operand);
+      const pattern = value(expr.pattern);
+      if (operand === null || pattern === null) return null;
+      return likeMatches(asText(operand), asText(pattern)) !== expr.negated;
+    }
+    case "null":
+      return (value(expr.operand) === null) !== expr.negated;
+    case "cast": {
+      const operand = value(expr.operand);
+      if (operand === null) return null;
+      if (expr.type === "text") return asText(operand);
+      const number = asNumber(operand);
+      if (number === null) return null;
+      return expr.type === "integer" ? Math.trunc(number) : number;
+    }
+    case "case": {
+      const subject = expr.operand ? value(expr.operand) : null;
+      for (const branch of expr.branches) {
+        const when = value(branch.when);
+        const matched = expr.operand
+          ? subject !== null && when !== null && compareValues(subject, when) === 0
+          : asBoolean(when) === true;
+        if (matched) return value(branch.then);
+      }
+      return expr.otherwise ? value(expr.otherwise) : null;
+    }
+    case "call":
+      return callFunction(expr.name, expr.args.map(value));
+    case "aggregate":
+      return aggregate(expr, context);
+  }
+}
+
+function callFunction(name: string, args: SqlValue[]): SqlValue {
+  if (name === "coalesce") {
+    return args.find((arg) => arg !== null) ?? null;
+  }
+  if (name === "nullif") {
+    return args[0] !== null && args[1] !== null && compareValues(args[0], args[1]) === 0 ? null : args[0];
+  }
+  if (args.some((arg) => arg === null)) return null;
+  const text = asText(args[0]);
+  switch (name) {
+    case "lower":
+      return text.toLowerCase();
+    case "upper":
+      return text.toUpperCase();
+    case "trim":
+      return text.trim();
+    case "length":
+      return text.length;
+    case "substr": {
+      // 1-based, as in SQL
+      const start = Math.max((asNumber(args[1]) ?? 1) - 1, 0);
+      const length = args.length > 2 ? asNumber(args[2]) : null;
+      return length === null ? text.slice(start) : text.slice(start, start + Math.max(length, 0));
+    }
+    case "replace":
+      return text.split(asText(args[1])).join(asText(args[2]));
+    case "abs": {
+      const number = asNumber(args[0]);
+      return number === null ? null : Math.abs(number);
+    }
+    default: {
+      // round
+      const number = asNumber(args[0]);
+      const digits = args.length > 1 ? asNumber(args[1]) ?? 0 : 0;
+      if (number === null) return null;
+      const factor = Math.pow(10, Math.trunc(digits));
+      return Math.round(number * factor) / factor;
+    }
+  }
+}
+
+function aggregate(expr: Extract<Expr, { kind: "aggregate" }>, context: EvaluationContext): SqlValue {
+  const rows = context.group ?? [context.row];
+  if (expr.arg === null) {
+    // COUNT(*)
+    return rows.length;
+  }
+  const arg = expr.arg;
+  let values = rows
+    .map((row) => evaluate(arg, { row, group: null }))
+    .filter((value): value is Exclude<SqlValue, null> => value !== null);
+  if (expr.distinct) {
+    const seen = new Set<string>();
+    values = values.filter((value) => {
+      const key = valueKey(value);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  switch (expr.name) {
+    case "count":
+      return values.length;
+    case "min":
+    case "max": {
+      if (!values.length) return null;
+      const sign = expr.name === "min" ? 1 : -1;
+      return values.reduce((best, value) => (sign * compareValues(value, best) < 0 ? value : best));
+    }
+    default: {
+      // sum and avg
+      if (!values.length) return null;
+      let total = 0;
+      for (const value of values) {
+        const number = asNumber(value);
+        if (number === null) {
+          throw new SqlError(`${expr.name.toUpperCase()} needs numbers but found ${JSON.stringify(asText(value))}; filter those rows out with WHERE or use CAST`);
+        }
+        total += number;
+      }
+      return expr.name === "sum" ? total : total / values.length;
+    }
+  }
+}
+
+// Pairs of columns compared with = in a join condition, used to match rows by hash
+function equalityPairs(on: Expr, leftWidth: number): { left: number; right: number }[] {
+  if (on.kind === "binary" && on.operator === "and") {
+    return [...equalityPairs(on.left, leftWidth), ...equalityPairs(on.right, leftWidth)];
+  }
+  if (on.kind === "binary" && on.operator === "=" && on.left.kind === "ref" && on.right.kind === "ref") {
+    const [a, b] = [on.left.index, on.right.index];
+    if (a < leftWidth && b >= leftWidth) return [{ left: a, right: b }];
+    if (b < leftWidth && a >= leftWidth) return [{ left: b, right: a }];
+  }
+  return [];
+}
+
+function joinRows(
+  leftRows: SqlValue[][],
+  leftWidth: number,
+  rightRows: SqlValue[][],
+  type: JoinType,
+  on: Expr | null,
+): SqlValue[][] {
+  const rightWidth = rightRows[0]?.length ?? 0;
+  const pairs = on ? equalityPairs(on, leftWidth) : [];
+  const matchedRight = new Set<number>();
+  const result: SqlValue[][] = [];
+  const push = (row: SqlValue[]) => {
+    if (result.length >= MAX_JOINED_ROWS) {
+      throw new SqlError(`The join would produce more than ${MAX_JOINED_ROWS} rows; check the ON condition`);
+    }
+    result.push(row);
+  };
+
+  // Equality conditions narrow the candidates by hash; the full condition is still checked
+  let candidatesFor: (row: SqlValue[]) => number[];
+  if (pairs.length) {
+    const index = new Map<string, number[]>();
+    rightRows.forEach((row, r) => {
+      const values = pairs.map((pair) => row[pair.right - leftWidth]);
+      if (values.includes(null)) return;
+      const key = values.map(valueKey).join("\u0000");
+      const bucket = index.get(key);
+      if (bucket) bucket.push(r);
+      else index.set(key, [r]);
+    });
+    candidatesFor = (row) => {
+      const values = pairs.map((pair) => row[pair.left]);
+      return values.includes(null) ? [] : index.get(values.map(valueKey).join("\u0000")) ?? [];
+    };
+  } else {
+    const all = rightRows.map((_, r) => r);
+    candidatesFor = () => all;
+  }
+
+  const emptyRight: SqlValue[] = new Array(rightWidth).fill(null);
+  for (const leftRow of leftRows) {
+    let matched = false;
+    for (const r of candidatesFor(leftRow)) {
+      const row = [...leftRow, ...rightRows[r]];
+      if (on && asBoolean(evaluate(on, { row, group: null })) !== true) continue;
+      matched = true;
+      matchedRight.add(r);
+      push(row);
+    }
+    if (!matched && (type === "left" || type === "full")) {
+      push([...leftRow, ...emptyRight]);
+    }
+  }
+  if (type === "right" || type === "full") {
+    const emptyLeft: SqlValue[] = new Array(leftWidth).fill(null);
+    rightRows.forEach((row, r) => {
+      if (!matchedRight.has(r)) push([...emptyLeft, ...row]);
+    });
+  }
+  return result;
+}
+
+function tableRows(table: SqlTable): SqlValue[][] {
+  return table.data.map((row) =>
+    table.headers.map((_, i) => {
+      const cell = row[i] ?? "";
+      return cell.trim() === "" ? null : cell;
+    }),
+  );
+}
+
+// Output names must be unique to make a valid CSV
+function uniqueNames(names: string[]): string[] {
+  const taken = new Set<string>();
+  return names.map((name) => {
+    let candidate = name || "column";
+    for (let i = 2; taken.has(candidate); i++) {
+      candidate = `${name || "column"}_${i}`;
+    }
+    taken.add(candidate);
+    return candidate;
+  });
+}
+
+export interface SqlQuery {
+  // Tables named in FROM and JOIN, in order and without repeats
+  tables: string[];
+  execute: (tables: Record<string, SqlTable>) => SqlResult;
+}
+
+function execute(statement: SelectStatement, tables: Record<string, SqlTable>): SqlResult {
+  const sources = [statement.from, ...statement.joins.map((join) => join.source)];
+  const aliases = new Set<string>();
+  sources.forEach((source) => {
+    if (aliases.has(source.alias.toLowerCase())) {
+      throw new SqlError(`"${source.alias}" is used for two tables; give one of them an alias`, source.position);
+    }
+    aliases.add(source.alias.toLowerCase());
+  });
+  const tableFor = (source: TableReference) => {
+    const table = tables[source.table];
+    if (!table) {
+      throw new SqlError(`Unknown table "${source.table}"`, source.position);
+    }
+    return table;
+  };
+
+  // FROM and JOIN, each join condition seeing the tables joined so far
+  const first = tableFor(statement.from);
+  const scope: ScopeColumn[] = first.headers.map((name) => ({ table: statement.from.table, alias: statement.from.alias, name }));
+  let rows = tableRows(first);
+  for (const join of statement.joins) {
+    const table = tableFor(join.source);
+    const leftWidth = scope.length;
+    scope.push(...table.headers.map((name) => ({ table: join.source.table, alias: join.source.alias, name })));
+    refusesAggregate(join.on, "ON");
+    const on = join.on && bind(join.on, scope);
+    rows = joinRows(rows, leftWidth, tableRows(table), join.type, on);
+  }
+
+  refusesAggregate(statement.where, "WHERE");
+  const where = statement.where && bind(statement.where, scope);
+  if (where) {
+    rows = rows.filter((row) => asBoolean(evaluate(where, { row, group: null })) === true);
+  }
+
+  // Output columns; * expands to every column, suffixed by table when names clash
+  const outputs: { expr: Expr; name: string }[] = [];
+  statement.items.forEach((item) => {
+    if (item.kind === "star") {
+      const indices = scope
+        .map((column, index) => ({ column, index }))
+        .filter(({ column }) => item.table === undefined || column.alias.toLowerCase() === item.table.toLowerCase() || column.table.toLowerCase() === item.table.toLowerCase());
+      if (!indices.length) {
+        throw new SqlError(`Unknown table "${item.table}" in ${item.table}.*`, item.position);
+      }
+      indices.forEach(({ column, index }) => {
+        const clashes = scope.filter((other) => other.name === column.name).length > 1;
+        const firstWithName = scope.findIndex((other) => other.name === column.name) === index;
+        outputs.push({ expr: { kind: "ref", index }, name: clashes && !firstWithName ? `${column.name}_${column.alias}` : column.name });
+      });
+    } else {
+      const name = item.alias ?? (item.expr.kind === "column" ? item.expr.name : item.text);
+      outputs.push({ expr: bind(item.expr, scope), name });
+    }
+  });
+  const outputNames = uniqueNames(outputs.map((output) => output.name));
+
+  // GROUP BY and ORDER BY may name an output column by alias or position
+  const outputReference = (expr: Expr): number | null => {
+    if (expr.kind === "literal" && typeof expr.value === "number" && Number.isInteger(expr.value)) {
+      if (expr.value < 1 || expr.value > outputs.length) {
+        throw new SqlError(`Column position ${expr.value} is out of range; the query has ${outputs.length} columns`);
+      }
+      return expr.value - 1;
+    }
+    if (expr.kind === "column" && expr.table === undefined) {
+      const index = outputNames.findIndex((name) => name.toLowerCase() === expr.name.toLowerCase());
+      return index === -1 ? null : index;
+    }
+    return null;
+  };
+
+  // GROUP BY prefers a table column, ORDER BY an output column, when both have the name
+  const groupBy = statement.groupBy.map((expr) => {
+    const output = expr.kind === "column" && findColumns(scope, expr).length ? null : outputReference(expr);
+    const bound = output === null ? bind(expr, scope) : outputs[output].expr;
+    refusesAggregate(bound, "GROUP BY");
+    return bound;
+  });
+  const outputColumn = (name: string) => {
+    const index = outputNames.findIndex((outputName) => outputName.toLowerCase() === name.toLowerCase());
+    return index === -1 ? null : outputs[index].expr;
+  };
+  const having = statement.having && bind(statement.having, scope, outputColumn);
+  const orderBy = statement.orderBy.map((item) => {
+    const output = outputReference(item.expr);
+    return { output, expr: output === null ? bind(item.expr, scope) : null, descending: item.descending };
+  });
+
+  const grouped =
+    groupBy.length > 0 ||
+    having !== null ||
+    outputs.some((output) => containsAggregate(output.expr)) ||
+    orderBy.some((item) => item.expr && containsAggregate(item.expr));
+
+  let contexts: EvaluationContext[];
+  if (grouped) {
+    const groupKeys = new Set(groupBy.map((expr) => JSON.stringify(expr)));
+    const columnName = (index: number) => `${scope[index].alias}.${scope[index].name}`;
+    outputs.forEach((output) => checkGrouped(output.expr, groupKeys, columnName));
+    if (having) checkGrouped(having, groupKeys, columnName);
+    orderBy.forEach((item) => item.expr && checkGrouped(item.expr, groupKeys, columnName));
+
+    const groups = new Map<string, SqlValue[][]>();
+    rows.forEach((row) => {
+      const key = JSON.stringify(groupBy.map((expr) => {
+        const value = evaluate(expr, { row, group: null });
+        return value === null ? null : valueKey(value);
+      }));
+      const group = groups.get(key);
+      if (group) group.push(row);
+      else groups.set(key, [row]);
+    });
+    // Without GROUP BY, aggregates summarize every row, even when there are none
+    if (!groupBy.length && !groups.size) {
+      groups.set("[]", []);
+    }
+    contexts = Array.from(groups.values()).map((group) => ({
+      row: group[0] ?? new Array(scope.length).fill(null),
+      group,
+    }));
+    if (having) {
+      contexts = contexts.filter((context) => asBoolean(evaluate(having, context)) === true);
+    }
+  } else {
+    contexts = rows.map((row) => ({ row, group: null }));
+  }
+
+  let results = contexts.map((context) => {
+    const values = outputs.map((output) => evaluate(output.expr, context));
+    return {
+      values,
+      keys: orderBy.map((item) => (item.output === null ? evaluate(item.expr!, context) : values[item.output])),
+    };
+  });
+
+  if (orderBy.length) {
+    // Empty values sort last in both directions
+    results.sort((a, b) => {
+      for (let k = 0; k < orderBy.length; k++) {
+        const left = a.keys[k];
+        const right = b.keys[k];
+        if (left === null || right === null) {
+          if (left !== right) return left === null ? 1 : -1;
+          continue;
+        }
+        const result = compareValues(left, right);
+        if (result !== 0) return orderBy[k].descending ? -result : result;
+      }
+      return 0;
+    });
+  }
+
+  let data = results.map((result) => result.values.map(asText));
+  if (statement.distinct) {
+    const seen = new Set<string>();
+    data = data.filter((row) => {
+      const key = JSON.stringify(row);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+  data = data.slice(statement.offset, statement.limit === null ? undefined : statement.offset + statement.limit);
+
+  return { headers: outputNames, data };
+}
+
+/**
+ * Parses a read-only SELECT query. The tables it names are listed so the
+ * caller can load them before running execute.
+ * Throws SqlError with a readable message when the query is malformed or
+ * tries anything other than reading.
+ */
+export function parseSqlQuery(query: string): SqlQuery {
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new SqlError(`The query is too long (max ${MAX_QUERY_LENGTH} characters)`);
+  }
+  const statement = new Parser(tokenize(query), query).parse();
+  const tables: string[] = [];
+  [statement.from, ...statement.joins.map((join) => join.source)].forEach((source) => {
+    if (!tables.includes(source.table)) tables.push(source.table);
+  });
+  return {
+    tables,
+    execute: (data: Record<string, SqlTable>) => execute(statement, data),
+  };
+}
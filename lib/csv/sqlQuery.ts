@@ -0,0 +1,86 @@
+import { StructuredTool } from "@langchain/core/tools";
+import { z } from "zod";
+import { parseSqlQuery, SqlError, type SqlQuery, type SqlResult, type SqlTable } from "@/lib/csv/sql";
+import { formatCSV } from "@/lib/csv/format";
+import { NORMALIZED_CSV } from "@/lib/csv/parser";
+import { validateCSVData } from "@/lib/csv/validation";
+import { tableAttachment } from "@/lib/csv/attachments";
+
+// Result rows quoted back to the model; the full table is attached for the user
+const PREVIEW_ROWS = 20;
+
+// The sql_query tool used by the data agent. Datasets are exposed as tables by
+// name; the route resolves the names to stored datasets or the CSV sent inline.
+export class SQLQueryTool extends StructuredTool {
+  name = "sql_query";
+  description = "Run a read-only SQL query over the loaded datasets, each available as a table named after the dataset. Supports SELECT with DISTINCT, JOIN ... ON (inner, left, right, full, cross), WHERE, GROUP BY, HAVING, ORDER BY and LIMIT, with COUNT, SUM, AVG, MIN, MAX, CASE, CAST and common text and number functions. Data can't be changed with SQL; use csv_processor for that.";
+  schema = z.object({
+    query: z.string().describe("A single SELECT statement, e.g. SELECT region, SUM(revenue) AS revenue FROM sales GROUP BY region ORDER BY revenue DESC. Quote table or column names with spaces in double quotes or backticks, and text values in single quotes"),
+    save_result: z.boolean().optional().describe("Save the result as a new version of the dataset in the FROM clause, so later operations continue from it"),
+  });
+
+  async _call(input: z.infer<typeof this.schema>) {
+    let query: SqlQuery;
+    try {
+      query = parseSqlQuery(input.query);
+    } catch (error) {
+      if (error instanceof SqlError) {
+        return `Error: ${error.message}.`;
+      }
+      throw error;
+    }
+
+    const tables: Record<string, SqlTable> = {};
+    for (const name of query.tables) {
+      const source = await this._resolveTable(name);
+      if (!source) {
+        return `Error: Table "${name}" not found. Use the name of a loaded dataset.`;
+      }
+      const validation = validateCSVData(source.content, NORMALIZED_CSV);
+      if (!validation.valid) {
+        return `Error: Dataset "${name}": ${validation.error}`;
+      }
+      tables[name] = { headers: validation.parsed.headers, data: validation.parsed.data };
+    }
+
+    let result: SqlResult;
+    try {
+      result = query.execute(tables);
+    } catch (error) {
+      if (error instanceof SqlError) {
+        return `Error: ${error.message}.`;
+      }
+      throw error;
+    }
+
+    const preview = [result.headers, ...result.data.slice(0, PREVIEW_ROWS)].map(row => row.join(' | ')).join('\n                    ');
+    const output = {
+      summary: `Query result (${result.data.length} row${result.data.length === 1 ? '' : 's'}):
+                    ${preview}${result.data.length > PREVIEW_ROWS ? `
+                    ...and ${result.data.length - PREVIEW_ROWS} more rows` : ''}
+                    The table is shown to the user below your reply with a CSV download.${input.save_result ? '' : ' Pass save_result to keep working on it.'}`,
+      table: tableAttachment("Query result", result.headers, result.data),
+    };
+    if (!input.save_result) {
+      return JSON.stringify(output);
+    }
+    if (!result.headers.length) {
+      return "Error: The query returned no columns to save.";
+    }
+    return this._saveResult(
+      JSON.stringify({ ...output, processed_csv_data: formatCSV(result.headers, result.data) }),
+      query.tables[0],
+      input,
+    );
+  }
+
+  // Resolves a table name to the CSV content of a dataset; overridden by the agents route
+  async _resolveTable(name: string): Promise<{ name: string; content: string } | null> {
+    return null;
+  }
+
+  // Hands the result back as CSV; the agents route stores it as a dataset version instead
+  async _saveResult(result: string, table: string, input: z.infer<typeof this.schema>): Promise<string> {
+    return result;
+  }
+}
@@ -0,0 +1,69 @@
+// Compact descriptions of a dataset for the model: column types and statistics
+// with a few sample rows, so the full CSV never has to be in its context.
+
+import { isDateType, isNumericType, profileColumns, typedValue, type ColumnProfile } from "@/lib/csv/columnTypes";
+
+// Rows quoted in the dataset summary and in tool results that change the data
+export const SAMPLE_ROWS = 3;
+export const PREVIEW_ROWS = 5;
+
+// Longer cells are cut so one free-text column can't crowd out the rest
+const MAX_CELL_LENGTH = 40;
+const TOP_CATEGORIES = 3;
+
+function shorten(value: string): string {
+  return value.length > MAX_CELL_LENGTH ? `${value.slice(0, MAX_CELL_LENGTH - 3)}...` : value;
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(6)));
+}
+
+// Range and mean for numbers, earliest and latest for dates, most common values for categories
+function columnStats(profile: ColumnProfile, values: string[]): string {
+  const present = values.filter((value) => value.trim() !== "");
+  if (isNumericType(profile.type) || isDateType(profile.type)) {
+    const typed = present
+      .map((value) => ({ value, typed: typedValue(profile, value) }))
+      .filter((entry): entry is { value: string; typed: number } => entry.typed !== null);
+    if (!typed.length) return "";
+    const min = typed.reduce((a, b) => (b.typed < a.typed ? b : a));
+    const max = typed.reduce((a, b) => (b.typed > a.typed ? b : a));
+    if (isDateType(profile.type)) {
+      return `${min.value} to ${max.value}`;
+    }
+    const mean = typed.reduce((sum, entry) => sum + entry.typed, 0) / typed.length;
+    return `${formatNumber(min.typed)} to ${formatNumber(max.typed)}, mean ${formatNumber(mean)}`;
+  }
+  if (profile.type === "categorical" || profile.type === "boolean") {
+    const counts = new Map<string, number>();
+    present.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+    const top = Array.from(counts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_CATEGORIES)
+      .map(([value, count]) => `${shorten(value)} (${count})`);
+    return `${profile.distinctCount} distinct: ${top.join(", ")}${profile.distinctCount > TOP_CATEGORIES ? ", ..." : ""}`;
+  }
+  return `${profile.distinctCount} distinct`;
+}
+
+// Rows as "a | b | c" lines, header first
+export function previewLines(headers: string[], data: string[][], rows = PREVIEW_ROWS): string[] {
+  return [headers, ...data.slice(0, rows)].map((row) => row.map(shorten).join(" | "));
+}
+
+/**
+ * Describes a dataset in a few lines per column, e.g.
+ * `- revenue: float, 3 missing, 0.5 to 9999, mean 1200.5`, followed by sample rows.
+ */
+export function describeDataset(name: string, headers: string[], data: string[][], sampleRows = SAMPLE_ROWS): string {
+  const profiles = profileColumns(headers, data);
+  const columns = profiles.map((profile, index) => {
+    const stats = columnStats(profile, data.map((row) => row[index] ?? ""));
+    return `- ${profile.name}: ${profile.type}${profile.nullCount ? `, ${profile.nullCount} missing` : ""}${stats ? `, ${stats}` : ""}`;
+  });
+  return `Dataset "${name}": ${data.length} row${data.length === 1 ? "" : "s"}, ${headers.length} column${headers.length === 1 ? "" : "s"}
+${columns.join("\n")}
+Sample rows:
+${previewLines(headers, data, sampleRows).join("\n")}`;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { applyTransform, TransformError } from "@/lib/csv/transforms";
+
+describe("clean_text regex_replace", () => {
+  const headers = ["code"];
+  const data = [["AB-12"], ["cd-034"]];
+
+  it("replaces every match in the chosen columns", () => {
+    const result = applyTransform("clean_text", headers, data, { column: "code", method: "regex_replace", pattern: "-0*", replacement: "_" });
+    expect(result.data).toEqual([["AB_12"], ["cd_34"]]);
+  });
+
+  it("refuses patterns that could backtrack catastrophically", () => {
+    const run = () => applyTransform("clean_text", headers, data, { column: "code", method: "regex_replace", pattern: "(a+)+$" });
+    expect(run).toThrow(TransformError);
+    expect(run).toThrow("could take too long to match");
+  });
+
+  it("refuses invalid patterns", () => {
+    expect(() => applyTransform("clean_text", headers, data, { method: "regex_replace", pattern: "(" })).toThrow("Invalid pattern");
+  });
+});
+
+describe("standardize_numbers", () => {
+  it("reads currency strings", () => {
+    const result = applyTransform("standardize_numbers", ["price"], [["$1,200"], ["$3.50"]], { column: "price" });
+    expect(result.data).toEqual([["1200"], ["3.5"]]);
+  });
+});
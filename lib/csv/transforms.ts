@@ -0,0 +1,749 @@
+// Column transformations for the csv_processor reshaping operations: rename,
+// drop, reorder and cast columns, split/merge them, clean text, reformat
+// dates, standardize numbers with units and derive columns from expressions
+
+import {
+  inferColumnType,
+  isDateType,
+  parseDateValue,
+  parseNumericValue,
+} from "@/lib/csv/columnTypes";
+import { parseArithmeticExpression } from "@/lib/csv/arithmetic";
+import { unsafeRegexReason } from "@/lib/csv/filterExpression";
+
+export const TRANSFORM_OPERATIONS = [
+  "rename_columns",
+  "drop_columns",
+  "reorder_columns",
+  "cast_columns",
+  "split_column",
+  "merge_columns",
+  "clean_text",
+  "format_dates",
+  "standardize_numbers",
+  "derive_column",
+] as const;
+
+export type TransformOperation = (typeof TRANSFORM_OPERATIONS)[number];
+
+export const CAST_TYPES = ["string", "integer", "float", "boolean", "date"] as const;
+
+export type CastType = (typeof CAST_TYPES)[number];
+
+export const TEXT_METHODS = [
+  "trim",
+  "lower",
+  "upper",
+  "title",
+  "collapse_whitespace",
+  "regex_replace",
+] as const;
+
+export type TextMethod = (typeof TEXT_METHODS)[number];
+
+const CAST_ALIASES: Record<string, CastType> = {
+  text: "string",
+  str: "string",
+  int: "integer",
+  number: "float",
+  numeric: "float",
+  decimal: "float",
+  double: "float",
+  bool: "boolean",
+  datetime: "date",
+  timestamp: "date",
+};
+
+const TEXT_METHOD_ALIASES: Record<string, TextMethod> = {
+  strip: "trim",
+  lowercase: "lower",
+  upper_case: "upper",
+  uppercase: "upper",
+  lower_case: "lower",
+  title_case: "title",
+  titlecase: "title",
+  proper: "title",
+  whitespace: "collapse_whitespace",
+  normalize_whitespace: "collapse_whitespace",
+  squish: "collapse_whitespace",
+  replace: "regex_replace",
+  regex: "regex_replace",
+};
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "t", "1", "on"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "f", "0", "off"]);
+const MAX_REGEX_LENGTH = 200;
+const MAX_SPLIT_PARTS = 20;
+// How many failing values to quote back in the summary
+const FAILED_EXAMPLES = 3;
+
+type Dimension = "length" | "mass" | "volume" | "duration";
+
+// Factors convert each unit to the first unit of its dimension (m, kg, l, s)
+const UNITS: Record<string, { dimension: Dimension; factor: number }> = {
+  m: { dimension: "length", factor: 1 },
+  mm: { dimension: "length", factor: 0.001 },
+  cm: { dimension: "length", factor: 0.01 },
+  km: { dimension: "length", factor: 1000 },
+  in: { dimension: "length", factor: 0.0254 },
+  ft: { dimension: "length", factor: 0.3048 },
+  yd: { dimension: "length", factor: 0.9144 },
+  mi: { dimension: "length", factor: 1609.344 },
+  kg: { dimension: "mass", factor: 1 },
+  mg: { dimension: "mass", factor: 0.000001 },
+  g: { dimension: "mass", factor: 0.001 },
+  t: { dimension: "mass", factor: 1000 },
+  oz: { dimension: "mass", factor: 0.028349523125 },
+  lb: { dimension: "mass", factor: 0.45359237 },
+  l: { dimension: "volume", factor: 1 },
+  ml: { dimension: "volume", factor: 0.001 },
+  cl: { dimension: "volume", factor: 0.01 },
+  gal: { dimension: "volume", factor: 3.785411784 },
+  s: { dimension: "duration", factor: 1 },
+  ms: { dimension: "duration", factor: 0.001 },
+  min: { dimension: "duration", factor: 60 },
+  h: { dimension: "duration", factor: 3600 },
+  d: { dimension: "duration", factor: 86400 },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  meter: "m",
+  meters: "m",
+  metre: "m",
+  metres: "m",
+  millimeters: "mm",
+  centimeters: "cm",
+  kilometers: "km",
+  kms: "km",
+  inch: "in",
+  inches: "in",
+  feet: "ft",
+  foot: "ft",
+  yards: "yd",
+  miles: "mi",
+  mile: "mi",
+  kilo: "kg",
+  kilos: "kg",
+  kgs: "kg",
+  kilograms: "kg",
+  kilogram: "kg",
+  grams: "g",
+  gram: "g",
+  gr: "g",
+  tonnes: "t",
+  tonne: "t",
+  ounces: "oz",
+  ounce: "oz",
+  lbs: "lb",
+  pound: "lb",
+  pounds: "lb",
+  liter: "l",
+  liters: "l",
+  litre: "l",
+  litres: "l",
+  milliliters: "ml",
+  gallons: "gal",
+  gallon: "gal",
+  sec: "s",
+  secs: "s",
+  seconds: "s",
+  second: "s",
+  mins: "min",
+  minute: "min",
+  minutes: "min",
+  hr: "h",
+  hrs: "h",
+  hour: "h",
+  hours: "h",
+  day: "d",
+  days: "d",
+};
+
+const CURRENCIES: Record<string, string> = {
+  $: "USD",
+  usd: "USD",
+  "€": "EUR",
+  eur: "EUR",
+  "£": "GBP",
+  gbp: "GBP",
+  "¥": "JPY",
+  "₹": "INR",
+};
+
+export class TransformError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransformError";
+  }
+}
+
+export interface TransformOptions {
+  column?: string;
+  columns?: string[];
+  // rename_columns: old name → new name
+  mapping?: Record<string, string>;
+  // cast_columns
+  toType?: string;
+  // split_column and merge_columns
+  separator?: string;
+  // split_column: names of the resulting columns
+  newColumns?: string[];
+  // merge_columns and derive_column
+  newColumn?: string;
+  // clean_text
+  method?: string;
+  pattern?: string;
+  replacement?: string;
+  // derive_column
+  expression?: string;
+  // standardize_numbers: the unit to convert values into
+  unit?: string;
+}
+
+export interface TransformResult {
+  headers: string[];
+  data: string[][];
+  title: string;
+  // One line per changed column
+  details: string[];
+  // False when the operation left the data as it was
+  changed: boolean;
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]/g, "_");
+}
+
+export function normalizeCastType(type: string): CastType | null {
+  const key = normalizeKey(type);
+  if ((CAST_TYPES as readonly string[]).includes(key)) {
+    return key as CastType;
+  }
+  return CAST_ALIASES[key] ?? null;
+}
+
+export function normalizeTextMethod(method: string): TextMethod | null {
+  const key = normalizeKey(method);
+  if ((TEXT_METHODS as readonly string[]).includes(key)) {
+    return key as TextMethod;
+  }
+  return TEXT_METHOD_ALIASES[key] ?? null;
+}
+
+function normalizeUnit(unit: string): string | null {
+  const key = unit.trim().toLowerCase().replace(/\.$/, "");
+  if (UNITS[key]) return key;
+  return UNIT_ALIASES[key] ?? null;
+}
+
+// Drops float noise such as 0.30000000000000004 without rounding real precision away
+function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(12)));
+}
+
+function describeFailures(count: number, examples: string[], cleared: boolean): string {
+  if (!count) return "";
+  return `; ${count} value${count === 1 ? "" : "s"} could not be converted${cleared ? " and " + (count === 1 ? "was" : "were") + " cleared" : ""} (e.g. ${examples.map((v) => JSON.stringify(v)).join(", ")})`;
+}
+
+function checkColumns(headers: string[], columns: string[]) {
+  const missing = columns.filter((c) => !headers.includes(c));
+  if (missing.length) {
+    throw new TransformError(
+      `Column${missing.length > 1 ? "s" : ""} ${missing.map((c) => `"${c}"`).join(", ")} not found. Available columns: ${headers.join(", ")}`,
+    );
+  }
+}
+
+function checkNewName(headers: string[], name: string) {
+  if (!name.trim()) {
+    throw new TransformError("New column names can't be empty");
+  }
+  if (headers.includes(name)) {
+    throw new TransformError(`Column "${name}" already exists; pick another name or drop the existing column first`);
+  }
+}
+
+// The column and columns parameters together, in the order given
+function targetColumns(headers: string[], options: TransformOptions): string[] {
+  const targets = Array.from(new Set([...(options.column ? [options.column] : []), ...(options.columns ?? [])]));
+  checkColumns(headers, targets);
+  return targets;
+}
+
+function requireTargets(headers: string[], options: TransformOptions, operation: string): string[] {
+  const targets = targetColumns(headers, options);
+  if (!targets.length) {
+    throw new TransformError(`${operation} needs the columns to change`);
+  }
+  return targets;
+}
+
+/**
+ * Rewrites each target column cell by cell. convert returns the new value,
+ * or null when the cell can't be converted (counted and reported).
+ */
+function mapCells(
+  headers: string[],
+  data: string[][],
+  targets: string[],
+  convert: (value: string, column: string) => string | null,
+  onFailure: "keep" | "clear",
+): { data: string[][]; details: string[]; changed: boolean } {
+  const next = data.map((row) => [...row]);
+  const details: string[] = [];
+  let changed = false;
+
+  for (const column of targets) {
+    const index = headers.indexOf(column);
+    let changedCells = 0;
+    let failed = 0;
+    const examples: string[] = [];
+    next.forEach((row) => {
+      const value = row[index] ?? "";
+      let converted = convert(value, column);
+      if (converted === null) {
+        failed++;
+        if (examples.length < FAILED_EXAMPLES) examples.push(value);
+        converted = onFailure === "clear" ? "" : value;
+      }
+      if (converted !== value) {
+        row[index] = converted;
+        changedCells++;
+      }
+    });
+    changed ||= changedCells > 0;
+    details.push(
+      `${column}: ${changedCells} cell${changedCells === 1 ? "" : "s"} changed${describeFailures(failed, examples, onFailure === "clear")}`,
+    );
+  }
+
+  return { data: next, details, changed };
+}
+
+function renameColumns(headers: string[], data: string[][], options: TransformOptions): TransformResult {
+  const mapping = options.mapping ?? {};
+  const renames = Object.entries(mapping).filter(([from, to]) => from !== to);
+  if (!Object.keys(mapping).length) {
+    throw new TransformError("rename_columns needs a mapping of current to new column names");
+  }
+  checkColumns(headers, Object.keys(mapping));
+  const next = headers.map((header) => mapping[header] ?? header);
+  renames.forEach(([, to]) => {
+    if (!to.trim()) throw new TransformError("New column names can't be empty");
+  });
+  const clash = next.find((name, i) => next.indexOf(name) !== i);
+  if (clash) {
+    throw new TransformError(`Renaming would create two columns named "${clash}"`);
+  }
+  return {
+    headers: next,
+    data,
+    title: `Renamed ${renames.length} column${renames.length === 1 ? "" : "s"}`,
+    details: renames.map(([from, to]) => `"${from}" → "${to}"`),
+    changed: renames.length > 0,
+  };
+}
+
+function dropColumns(headers: string[], data: string[][], options: TransformOptions): TransformResult {
+  const targets = requireTargets(headers, options, "drop_columns");
+  if (targets.length === headers.length) {
+    throw new TransformError("Can't drop every column");
+  }
+  const keep = headers.map((header, i) => (targets.includes(header) ? -1 : i)).filter((i) => i !== -1);
+  return {
+    headers: keep.map((i) => headers[i]),
+    data: data.map((row) => keep.map((i) => row[i] ?? "")),
+    title: `Dropped ${targets.length} column${targets.length === 1 ? "" : "s"}`,
+    details: [`Dropped: ${targets.join(", ")}`, `Remaining: ${keep.map((i) => headers[i]).join(", ")}`],
+    changed: true,
+  };
+}
+
+// Listed columns move to the front in the given order; the rest follow as they were
+function reorderColumns(headers: string[], data: string[][], options: TransformOptions): TransformResult {
+  const targets = requireTargets(headers, options, "reorder_columns");
+  const order = [...targets, ...headers.filter((h) => !targets.includes(h))].map((h) => headers.indexOf(h));
+  const next = order.map((i) => headers[i]);
+  return {
+    headers: next,
+    data: data.map((row) => order.map((i) => row[i] ?? "")),
+    title: "Reordered columns",
+    details: [`New order: ${next.join(", ")}`],
+    changed: order.some((index, i) => index !== i),
+  };
+}
+
+// Day-first when any value can only be read that way, as in inferColumnType
+function isDayFirstColumn(values: string[]): boolean {
+  const profile = inferColumnType("", values);
+  if (isDateType(profile.type)) {
+    return profile.dateFormat?.startsWith("DD") ?? false;
+  }
+  const parsed = values.map((v) => parseDateValue(v));
+  return parsed.some((d) => d?.dayFirst) && !parsed.some((d) => d?.monthFirst);
+}
+
+function isoDate(value: string, dayFirst: boolean): string | null {
+  const parsed = parseDateValue(value, dayFirst);
+  if (!parsed) return null;
+  const iso = new Date(parsed.timestamp).toISOString();
+  return parsed.hasTime ? iso.slice(0, 19) : iso.slice(0, 10);
+}
+
+function columnValues(headers: string[], data: string[][], column: string): string[] {
+  const index = headers.indexOf(column);
+  return data.map((row) => row[index] ?? "");
+}
+
+// Empty cells stay empty; cells that don't fit the type are cleared
+function castColumns(headers: string[], data: string[][], options: TransformOptions): TransformResult {
+  const targets = requireTargets(headers, options, "cast_columns");
+  if (!options.toType) {
+    throw new TransformError(`cast_columns needs to_type, one of: ${CAST_TYPES.join(", ")}`);
+  }
+  const type = normalizeCastType(options.toType);
+  if (!type) {
+    throw new TransformError(`Unknown type "${options.toType}". Use one of: ${CAST_TYPES.join(", ")}`);
+  }
+  const dayFirst = Object.fromEntries(
+    type === "date" ? targets.map((c) => [c, isDayFirstColumn(columnValues(headers, data, c))]) : [],
+  );
+
+  const result = mapCells(
+    headers,
+    data,
+    targets,
+    (value, column) => {
+      const text = value.trim();
+      if (text === "") return "";
+      switch (type) {
+        case "string":
+          return text;
+        case "integer": {
+          const number = parseNumericValue(text);
+          return number === null ? null : formatNumber(Math.round(number));
+        }
+        case "float": {
+          const number = parseNumericValue(text);
+          return number === null ? null : formatNumber(number);
+        }
+        case "boolean": {
+          const key = text.toLowerCase();
+          return TRUE_VALUES.has(key) ? "true" : FALSE_VALUES.has(key) ? "false" : null;
+        }
+        case "date":
+          return isoDate(text, dayFirst[column]);
+      }
+    },
+    "clear",
+  );
+  return { headers, ...result, title: `Cast ${targets.length} column${targets.length === 1 ? "" : "s"} to ${type}` };
+}
+
+// New columns go right after the source column, which is kept
+function splitColumn(headers: string[], data: string[][], options: TransformOptions): TransformResult {
+  const [column, ...rest] = requireTargets(headers, options, "split_column");
+  if (rest.length) {
+    throw new TransformError("split_column splits one column at a time");
+  }
+  const separator = options.separator ?? ",";
+  if (!separator) {
+    throw new TransformError("The separator can't be empty");
+  }
+  const index = headers.indexOf(column);
+  const parts = data.map((row) => (row[index] ?? "").split(separator).map((part) => part.trim()));
+  const names = options.newColumns?.length
+    ? options.newColumns
+    : Array.from(
+        { length: Math.min(MAX_SPLIT_PARTS, parts.reduce((most, p) => Math.max(most, p.length), 1)) },
+        (_, i) => `${column}_${i + 1}`,
+      );
+  names.forEach((name) => checkNewName(headers, name));
+  if (new Set(names).size !== names.length) {
+    throw new TransformError("The new column names must be different from each other");
+  }
+
+  let overflow = 0;
+  const next = data.map((row, r) => {
+    const pieces = parts[r];
+    // Anything beyond the last new column stays joined in it
+    const values = names.map((_, i) =>
+      i === names.length - 1 ? pieces.slice(i).join(separator) : (pieces[i] ?? ""),
+    );
+    if (pieces.length > names.length) overflow++;
+    return [...row.slice(0, index + 1), ...values, ...row.slice(index + 1)];
+  });
+  return {
+    headers: [...headers.slice(0, index + 1), ...names, ...headers.slice(index + 1)],
+    data: next,
+    title: `Split "${column}" on ${JSON.stringify(separator)}`,
+    details: [
+      `New columns: ${names.join(", ")}`,
+      ...(overflow ? [`${overflow} row${overflow === 1 ? "" : "s"} had more parts than columns; the extra parts stay in "${names[names.length - 1]}"`] : []),
+    ],
+    changed: true,
+  };
+}
+
+// The merged column goes after the last source column; empty parts are skipped
+function mergeColumns(headers: string[], data: string[][], options: TransformOptions): TransformResult {
+  const targets = requireTargets(headers, options, "merge_columns");
+  if (targets.length < 2) {
+    throw new TransformError("merge_columns needs at least two columns");
+  }
+  const separator = options.separator ?? " ";
+  const name = options.newColumn ?? targets.join("_");
+  checkNewName(headers, name);
+  const indices = targets.map((c) => headers.indexOf(c));
+  const position = Math.max(...indices) + 1;
+  return {
+    headers: [...headers.slice(0, position), name, ...headers.slice(position)],
+    data: data.map((row) => {
+      const merged = indices.map((i) => (row[i] ?? "").trim()).filter(Boolean).join(separator);
+      return [...row.slice(0, position), merged, ...row.slice(position)];
+    }),
+    title: `Merged ${targets.join(", ")} into "${name}"`,
+    details: [`Separator: ${JSON.stringify(separator)}`],
+    changed: true,
+  };
+}
+
+function titleCase(value: string): string {
+  return value.toLowerCase().replace(/(^|[\s\-'’(/])(\p{L})/gu, (_, before: string, letter: string) => before + letter.toUpperCase());
+}
+
+// Without columns every column is cleaned
+function cleanText(headers: string[], data: string[][], options: TransformOptions): TransformResult {
+  const targets = targetColumns(headers, options);
+  const columns = targets.length ? targets : headers;
+  const method = normalizeTextMethod(options.method ?? "trim");
+  if (!method) {
+    throw new TransformError(`Unknown text cleaning method "${options.method}". Use one of: ${TEXT_METHODS.join(", ")}`);
+  }
+
+  let convert: (value: string) => string;
+  switch (method) {
+    case "trim":
+      convert = (value) => value.trim();
+      break;
+    case "lower":
+      convert = (value) => value.toLowerCase();
+      break;
+    case "upper":
+      convert = (value) => value.toUpperCase();
+      break;
+    case "title":
+      convert = titleCase;
+      break;
+    case "collapse_whitespace":
+      convert = (value) => value.replace(/\s+/g, " ").trim();
+      break;
+    case "regex_replace": {
+      if (!options.pattern) {
+        throw new TransformError("regex_replace needs a pattern");
+      }
+      if (options.pattern.length > MAX_REGEX_LENGTH) {
+        throw new TransformError(`The pattern is too long (max ${MAX_REGEX_LENGTH} characters)`);
+      }
+      const unsafe = unsafeRegexReason(options.pattern);
+      if (unsafe) {
+        throw new TransformError(`The pattern could take too long to match because ${unsafe}`);
+      }
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(options.pattern, "g");
+      } catch (error) {
+        throw new TransformError(`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      const replacement = options.replacement ?? "";
+      convert = (value) => value.replace(pattern, replacement);
+      break;
+    }
+  }
+
+  const result = mapCells(headers, data, columns, convert, "keep");
+  return {
+    headers,
+    data: result.data,
+    details: result.details.filter((line) => !line.endsWith(": 0 cells changed")),
+    changed: result.changed,
+    title: `Cleaned text with ${method.replace("_", " ")}${method === "regex_replace" ? ` (${JSON.stringify(options.pattern)} → ${JSON.stringify(options.replacement ?? "")})` : ""} in ${targets.length ? columns.join(", ") : "every column"}`,
+  };
+}
+
+// Without columns every date column is reformatted; values that don't parse are kept for review
+function formatDates(headers: string[], data: string[][], options: TransformOptions): TransformResult {
+  let targets = targetColumns(headers, options);
+  if (!targets.length) {
+    targets = headers.filter((header) => isDateType(inferColumnType(header, columnValues(headers, data, header)).type));
+    if (!targets.length) {
+      throw new TransformError("No date columns found; pass the columns to reformat");
+    }
+  }
+  const dayFirst = Object.fromEntries(targets.map((c) => [c, isDayFirstColumn(columnValues(headers, data, c))]));
+  const result = mapCells(
+    headers,
+    data,
+    targets,
+    (value, column) => (value.trim() === "" ? value : isoDate(value, dayFirst[column])),
+    "keep",
+  );
+  return {
+    headers,
+    ...result,
+    details: result.details.map((line, i) => `${line}${dayFirst[targets[i]] ? " (read day-first)" : ""}`),
+    title: "Reformatted dates as ISO 8601 (YYYY-MM-DD, with THH:mm:ss when a time is present)",
+  };
+}
+
+interface Measurement {
+  value: number;
+  unit?: string;
+  currency?: string;
+}
+
+function parseMeasurement(text: string): Measurement | null {
+  const number = parseNumericValue(text);
+  if (number !== null) {
+    const symbol = text.toLowerCase().match(/[$€£¥₹]|usd|eur|gbp/)?.[0];
+    return { value: number, currency: symbol ? CURRENCIES[symbol] : undefined };
+  }
+  const match = text.match(/^([-+]?(?:\d[\d,]*\.?\d*|\.\d+))\s*([a-zµ]+\.?)$/i);
+  if (!match) return null;
+  const value = parseNumericValue(match[1]);
+  const unit = normalizeUnit(match[2]);
+  if (value === null || !unit) return null;
+  return { value, unit };
+}
+
+function mostCommonUnit(measurements: (Measurement | null)[]): string | undefined {
+  const counts = new Map<string, number>();
+  measurements.forEach((m) => {
+    if (m?.unit) counts.set(m.unit, (counts.get(m.unit) ?? 0) + 1);
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Turns "$1,200", "12%", "(300)" and "5 kg" style strings into plain numbers.
+ * Values with units are converted into the requested unit, or into the most
+ * common unit of the column; values without a unit are taken to be in it
+ * already. Currencies are only stripped, so a column that mixes currencies
+ * is refused rather than silently added up.
+ */
+function standardizeNumbers(headers: string[], data: string[][], options: TransformOptions): TransformResult {
+  const targets = requireTargets(headers, options, "standardize_numbers");
+  const requestedUnit = options.unit ? normalizeUnit(options.unit) : undefined;
+  if (requestedUnit === null) {
+    throw new TransformError(`Unknown unit "${options.unit}". Known units: ${Object.keys(UNITS).join(", ")}`);
+  }
+
+  const targetUnits: Record<string, string | undefined> = {};
+  for (const column of targets) {
+    const measurements = columnValues(headers, data, column).map((v) => (v.trim() === "" ? null : parseMeasurement(v.trim())));
+    const currencies = new Set(measurements.map((m) => m?.currency).filter(Boolean));
+    if (currencies.size > 1) {
+      throw new TransformError(
+        `Column "${column}" mixes currencies (${Array.from(currencies).join(", ")}); filter or split it by currency before standardizing`,
+      );
+    }
+    targetUnits[column] = requestedUnit ?? mostCommonUnit(measurements);
+  }
+
+  const result = mapCells(
+    headers,
+    data,
+    targets,
+    (value, column) => {
+      if (value.trim() === "") return value;
+      const measurement = parseMeasurement(value.trim());
+      if (!measurement) return null;
+      const target = targetUnits[column];
+      if (!measurement.unit || !target || measurement.unit === target) {
+        return formatNumber(measurement.value);
+      }
+      const from = UNITS[measurement.unit];
+      const to = UNITS[target];
+      if (from.dimension !== to.dimension) return null;
+      return formatNumber((measurement.value * from.factor) / to.factor);
+    },
+    "keep",
+  );
+  return {
+    headers,
+    ...result,
+    details: result.details.map((line, i) => {
+      const unit = targetUnits[targets[i]];
+      return unit ? `${line} (in ${unit})` : line;
+    }),
+    title: `Standardized ${targets.join(", ")} as plain numbers`,
+  };
+}
+
+// Rows where a referenced cell isn't numeric (or the result isn't finite) get an empty cell
+function deriveColumn(headers: string[], data: string[][], options: TransformOptions): TransformResult {
+  if (!options.expression) {
+    throw new TransformError("derive_column needs an expression, e.g. price * quantity");
+  }
+  if (!options.newColumn) {
+    throw new TransformError("derive_column needs new_column, the name of the column to add");
+  }
+  checkNewName(headers, options.newColumn);
+  const expression = parseArithmeticExpression(options.expression, headers);
+  let empty = 0;
+  const next = data.map((row) => {
+    const value = expression.evaluate(row);
+    if (value === null) empty++;
+    return [...row, value === null ? "" : formatNumber(value)];
+  });
+  return {
+    headers: [...headers, options.newColumn],
+    data: next,
+    title: `Added "${options.newColumn}" = ${options.expression}`,
+    details: [
+      `Uses: ${expression.columns.length ? expression.columns.join(", ") : "no columns"}`,
+      ...(empty ? [`${empty} row${empty === 1 ? "" : "s"} left empty (missing or non-numeric values, or division by zero)`] : []),
+    ],
+    changed: true,
+  };
+}
+
+/**
+ * Applies one reshaping operation. Throws TransformError (or
+ * ArithmeticExpressionError for derive_column) when the options don't fit
+ * the data.
+ */
+export function applyTransform(
+  operation: TransformOperation,
+  headers: string[],
+  data: string[][],
+  options: TransformOptions,
+): TransformResult {
+  switch (operation) {
+    case "rename_columns":
+      return renameColumns(headers, data, options);
+    case "drop_columns":
+      return dropColumns(headers, data, options);
+    case "reorder_columns":
+      return reorderColumns(headers, data, options);
+    case "cast_columns":
+      return castColumns(headers, data, options);
+    case "split_column":
+      return splitColumn(headers, data, options);
+    case "merge_columns":
+      return mergeColumns(headers, data, options);
+    case "clean_text":
+      return cleanText(headers, data, options);
+    case "format_dates":
+      return formatDates(headers, data, options);
+    case "standardize_numbers":
+      return standardizeNumbers(headers, data, options);
+    case "derive_column":
+      return deriveColumn(headers, data, options);
+  }
+}
+
+export function isTransformOperation(operation: string): operation is TransformOperation {
+  return (TRANSFORM_OPERATIONS as readonly string[]).includes(operation);
+}
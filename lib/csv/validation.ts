@@ -0,0 +1,55 @@
+import { describeIssueLines, parseCSV, type CsvParseOptions, type CsvParseResult } from "@/lib/csv/parser";
+
+// Size, structure and safety checks for CSV text sent by clients. Also parses
+// the data so callers can reuse the result
+export function validateCSVData(
+  csvData: string,
+  options: CsvParseOptions = {},
+): { valid: true; parsed: CsvParseResult } | { valid: false; error: string } {
+  if (!csvData || !csvData.trim()) {
+    return { valid: false, error: "Empty CSV data" };
+  }
+
+  // Size check
+  const sizeInMB = csvData.length / (1024 * 1024);
+  if (sizeInMB > 15) { // Server-side limit slightly higher than client
+    return { valid: false, error: `CSV data too large (${sizeInMB.toFixed(2)}MB)` };
+  }
+
+  // Security checks
+  const dangerousPatterns = [
+    /<script/i,
+    /javascript:/i,
+    /eval\(/i,
+    /function\(/i,
+    /setTimeout/i,
+    /document\./i
+  ];
+  
+  for (const pattern of dangerousPatterns) {
+    if (pattern.test(csvData)) {
+      return { valid: false, error: "CSV contains potentially unsafe content" };
+    }
+  }
+
+  // Basic structure validation
+  const parsed = parseCSV(csvData, options);
+  if (parsed.headers.length === 0) {
+    return { valid: false, error: "No columns detected in CSV" };
+  }
+  
+  if (parsed.headers.length > 1000) {
+    return { valid: false, error: "Too many columns (max: 1000)" };
+  }
+  
+  // Row count validation
+  if (parsed.data.length > 200000) {
+    return { valid: false, error: "Too many rows (max: 200,000)" };
+  }
+
+  if (parsed.issues.length) {
+    console.warn(`CSV Parse Warning: ${parsed.issues.length} malformed row(s) at ${describeIssueLines(parsed.issues)}`);
+  }
+  
+  return { valid: true, parsed };
+}
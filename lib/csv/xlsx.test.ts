@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import ExcelJS from "exceljs";
+import { buildXlsx, cellToString, readWorkbook, worksheetToRows } from "@/lib/csv/xlsx";
+
+async function roundTrip(headers: string[], data: string[][]) {
+  const bytes = await buildXlsx(headers, data);
+  const workbook = await readWorkbook(bytes.slice().buffer);
+  return { worksheet: workbook.worksheets[0], ...worksheetToRows(workbook.worksheets[0]) };
+}
+
+describe("buildXlsx", () => {
+  it("reads back exactly the values it was given", async () => {
+    const headers = ["zip", "share", "price", "active", "day", "qty"];
+    const data = [
+      ["02134", "12%", "$1,200", "true", "2024-01-05", "1200"],
+      ["00501", "7.5%", "$30", "maybe", "2024-02-29", "7"],
+      ["10001", "0.5%", "$4.50", "false", "2024-03-01", "12"],
+    ];
+    const result = await roundTrip(headers, data);
+    expect(result.headers).toEqual(headers);
+    expect(result.data).toEqual(data);
+  });
+
+  it("writes typed cells for values that convert losslessly", async () => {
+    const { worksheet } = await roundTrip(
+      ["qty", "ratio", "active", "day"],
+      [
+        ["1200", "0.25", "true", "2024-01-05"],
+        ["7", "1.50", "false", "2024-01-06"],
+      ],
+    );
+    const row = worksheet.getRow(2);
+    expect(row.getCell(1).value).toBe(1200);
+    expect(row.getCell(2).value).toBe(0.25);
+    expect(row.getCell(3).value).toBe(true);
+    expect(row.getCell(4).value).toEqual(new Date(Date.UTC(2024, 0, 5)));
+    // "1.50" would read back as "1.5"
+    expect(worksheet.getRow(3).getCell(2).value).toBe("1.50");
+  });
+
+  it("keeps codes and formatted numbers as text without number formats", async () => {
+    const { worksheet } = await roundTrip(["id", "amount"], [["00123", "$1,000"], ["04567", "$20"]]);
+    expect(worksheet.getRow(2).getCell(1).value).toBe("00123");
+    expect(worksheet.getRow(2).getCell(2).value).toBe("$1,000");
+    expect(worksheet.getColumn(1).numFmt).toBeUndefined();
+  });
+
+  it("leaves empty cells empty and styles the header", async () => {
+    const { worksheet, data } = await roundTrip(["a", "b"], [["1", ""], ["", "x"]]);
+    expect(data).toEqual([["1", ""], ["", "x"]]);
+    expect(worksheet.getRow(1).font?.bold).toBe(true);
+    expect(worksheet.views[0]).toMatchObject({ state: "frozen", ySplit: 1 });
+  });
+});
+
+describe("cellToString", () => {
+  it("converts typed cells to pipeline text", () => {
+    expect(cellToString(null)).toBe("");
+    expect(cellToString(3.5)).toBe("3.5");
+    expect(cellToString(new Date(Date.UTC(2024, 0, 5)))).toBe("2024-01-05");
+    expect(cellToString(new Date(Date.UTC(2024, 0, 5, 9, 30)))).toBe("2024-01-05T09:30:00");
+    expect(cellToString({ richText: [{ text: "a" }, { text: "b" }] } as ExcelJS.CellValue)).toBe("ab");
+    expect(cellToString({ formula: "A1*2", result: 4 } as ExcelJS.CellValue)).toBe("4");
+    expect(cellToString({ error: "#DIV/0!" } as ExcelJS.CellValue)).toBe("");
+  });
+});
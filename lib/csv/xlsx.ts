@@ -0,0 +1,149 @@
+import ExcelJS from "exceljs";
+import {
+  inferColumnType,
+  isDateType,
+  isNumericType,
+  parseNumericValue,
+  typedValue,
+  type ColumnProfile,
+} from "@/lib/csv/columnTypes";
+
+export interface SheetData {
+  headers: string[];
+  data: string[][];
+}
+
+export async function readWorkbook(buffer: ArrayBuffer): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as ExcelJS.Buffer);
+  return workbook;
+}
+
+export function listSheetNames(workbook: ExcelJS.Workbook): string[] {
+  return workbook.worksheets.map((worksheet) => worksheet.name);
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+// Excel stores wall-clock dates; midnight values are written as plain dates
+function formatDate(date: Date): string {
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  if (date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0) {
+    return day;
+  }
+  return `${day}T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+/**
+ * Converts a typed Excel cell to the text the CSV pipeline works with:
+ * numbers and booleans as written, dates as ISO 8601, formulas as their result.
+ */
+export function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value === "number" || typeof value === "boolean") return value.toString();
+  if (typeof value === "string") return value;
+  if ("richText" in value) return value.richText.map((part) => part.text).join("");
+  if ("formula" in value || "sharedFormula" in value) {
+    return cellToString((value as ExcelJS.CellFormulaValue).result as ExcelJS.CellValue);
+  }
+  if ("hyperlink" in value) return value.text?.toString() ?? value.hyperlink;
+  // Error cells such as #DIV/0! have no usable value
+  if ("error" in value) return "";
+  return String(value);
+}
+
+/**
+ * Reads a worksheet into header and row arrays. The first non-empty row is the
+ * header row; trailing empty rows are dropped.
+ */
+export function worksheetToRows(worksheet: ExcelJS.Worksheet): SheetData {
+  const rows: string[][] = [];
+  const columnCount = worksheet.actualColumnCount || worksheet.columnCount;
+  worksheet.eachRow({ includeEmpty: true }, (row) => {
+    const values: string[] = [];
+    for (let i = 1; i <= columnCount; i++) {
+      values.push(cellToString(row.getCell(i).value).trim());
+    }
+    rows.push(values);
+  });
+
+  const isEmptyRow = (row: string[]) => row.every((cell) => cell === "");
+  while (rows.length && isEmptyRow(rows[0])) rows.shift();
+  while (rows.length && isEmptyRow(rows[rows.length - 1])) rows.pop();
+  if (!rows.length) return { headers: [], data: [] };
+
+  const headers = rows[0].map((header, i) => header || `Column ${i + 1}`);
+  return { headers, data: rows.slice(1) };
+}
+
+/**
+ * The typed Excel value for a cell of a numeric, date or boolean column. Cells
+ * that wouldn't read back as the same text, such as "02134", "12%", "$5" or
+ * "maybe", stay strings so nothing is lost.
+ */
+function typedCell(profile: ColumnProfile, value: string): ExcelJS.CellValue {
+  let typed: ExcelJS.CellValue = null;
+  if (isNumericType(profile.type)) {
+    typed = parseNumericValue(value);
+  } else if (isDateType(profile.type)) {
+    const timestamp = typedValue(profile, value);
+    typed = timestamp === null ? null : new Date(timestamp);
+  } else if (profile.type === "boolean") {
+    const lower = value.trim().toLowerCase();
+    typed = lower === "true" ? true : lower === "false" ? false : null;
+  }
+  return typed !== null && cellToString(typed) === value.trim() ? typed : value;
+}
+
+/**
+ * Writes rows to an .xlsx workbook with a styled, frozen header row. Cells of
+ * columns profiled as numeric, date or boolean are written as typed Excel
+ * cells when they read back unchanged.
+ */
+export async function buildXlsx(
+  headers: string[],
+  data: string[][],
+  sheetName = "Data",
+): Promise<Uint8Array> {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheetName.slice(0, 31) || "Data", {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+
+  const profiles = headers.map((header, i) => inferColumnType(header, data.map((row) => row[i] ?? "")));
+  worksheet.columns = headers.map((header, i) => {
+    const profile = profiles[i];
+    const longest = Math.max(header.length, ...data.slice(0, 200).map((row) => (row[i] ?? "").length));
+    return {
+      header,
+      key: `c${i}`,
+      width: Math.min(Math.max(longest + 2, 10), 60),
+      style: isDateType(profile.type)
+        ? { numFmt: profile.type === "date" ? "yyyy-mm-dd" : "yyyy-mm-dd hh:mm:ss" }
+        : {},
+    };
+  });
+
+  for (const row of data) {
+    worksheet.addRow(
+      headers.map((_, i) => {
+        const value = row[i] ?? "";
+        return value.trim() === "" ? null : typedCell(profiles[i], value);
+      }),
+    );
+  }
+
+  const headerRow = worksheet.getRow(1);
+  headerRow.font = { bold: true, color: { argb: "FFFFFFFF" } };
+  headerRow.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FF1F4E79" } };
+  headerRow.alignment = { vertical: "middle" };
+  if (headers.length) {
+    worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: headers.length } };
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Uint8Array(buffer as ArrayBuffer);
+}
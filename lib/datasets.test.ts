@@ -0,0 +1,40 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    dataset: { create: vi.fn(async (args: unknown) => args) },
+    piiToken: { createMany: vi.fn(async () => ({ count: 0 })) },
+  },
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma }));
+
+import { createDataset } from "@/lib/datasets";
+
+beforeAll(() => {
+  process.env.PII_SECRET = "test-secret";
+});
+
+const upload = "contact_email,city\nann@example.com,Oslo\nbob@example.org,Rome\n";
+
+describe("createDataset", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("tokenizes the columns a scan flags when the upload has no policy", async () => {
+    await createDataset("u1", "people.csv", upload);
+    const { data } = prisma.dataset.create.mock.calls[0][0] as { data: { piiPolicy: unknown; versions: { create: { content: string } } } };
+    expect(data.piiPolicy).toEqual({ contact_email: "tokenize" });
+    expect(data.versions.create.content).not.toContain("@");
+    expect(data.versions.create.content).toContain("TKN_EMAIL_");
+    expect(prisma.piiToken.createMany).toHaveBeenCalled();
+  });
+
+  it("keeps the policy the user chose", async () => {
+    await createDataset("u1", "people.csv", upload, { contact_email: "none" });
+    const { data } = prisma.dataset.create.mock.calls[0][0] as { data: { piiPolicy: unknown; versions: { create: { content: string } } } };
+    expect(data.piiPolicy).toEqual({ contact_email: "none" });
+    expect(data.versions.create.content).toContain("ann@example.com");
+  });
+});
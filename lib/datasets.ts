@@ -0,0 +1,301 @@
+import type { Dataset, DatasetVersion, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { formatCSV } from "@/lib/csv/format";
+import { NORMALIZED_CSV, parseCSV, type CsvParseOptions } from "@/lib/csv/parser";
+import { datasetMetrics, type DatasetMetrics, type ReportAction } from "@/lib/csv/report";
+import { defaultPiiPolicy, parsePiiPolicy, scanPII, type PiiPolicy } from "@/lib/csv/pii";
+import { protectCSV, revealCSV, storePiiTokens } from "@/lib/privacy";
+
+// Versions made by changing a dataset's privacy policy; they aren't cleaning steps
+export const PROTECT_PII_OPERATION = "protect_pii";
+
+// Version metadata without the CSV content, for listings
+export type DatasetVersionInfo = Omit<DatasetVersion, "content">;
+
+export type DatasetWithVersions = Dataset & { versions: DatasetVersionInfo[] };
+
+export class DatasetHistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetHistoryError";
+  }
+}
+
+export interface NewDatasetVersion {
+  content: string;
+  operation: string;
+  parameters?: Prisma.InputJsonValue;
+  summary?: string;
+  parentVersion?: number;
+}
+
+const versionInfoSelect = {
+  id: true,
+  version: true,
+  headers: true,
+  rowCount: true,
+  operation: true,
+  parameters: true,
+  summary: true,
+  rowsAffected: true,
+  cellsAffected: true,
+  parentVersion: true,
+  createdAt: true,
+  datasetId: true,
+} satisfies Prisma.DatasetVersionSelect;
+
+// Stored content is always comma-separated, whatever the uploaded delimiter was;
+// createDataset converts uploads before anything else reads them
+function normalizeContent(content: string) {
+  const { headers, data } = parseCSV(content, NORMALIZED_CSV);
+  return { content: formatCSV(headers, data), headers, rowCount: data.length };
+}
+
+/**
+ * Counts what a step changed. Same-shaped data is compared cell by cell;
+ * when only the row count changed, the removed or added rows are counted.
+ * Steps that change the columns are left uncounted.
+ */
+function changeStats(before: string, after: string) {
+  const previous = parseCSV(before, NORMALIZED_CSV);
+  const next = parseCSV(after, NORMALIZED_CSV);
+  if (previous.headers.join("\u0000") !== next.headers.join("\u0000")) {
+    return { rowsAffected: null, cellsAffected: null };
+  }
+  if (previous.data.length !== next.data.length) {
+    const rowsAffected = Math.abs(previous.data.length - next.data.length);
+    return { rowsAffected, cellsAffected: rowsAffected * next.headers.length };
+  }
+  let rowsAffected = 0;
+  let cellsAffected = 0;
+  next.data.forEach((row, i) => {
+    const changed = row.filter((cell, j) => cell !== previous.data[i][j]).length;
+    if (changed) rowsAffected++;
+    cellsAffected += changed;
+  });
+  return { rowsAffected, cellsAffected };
+}
+
+function describeProtection(cellsProtected: number): string | undefined {
+  return cellsProtected ? `Personal data protected in ${cellsProtected} cell${cellsProtected === 1 ? "" : "s"}` : undefined;
+}
+
+/**
+ * Stores an upload as version 1. Personal data is protected before it is
+ * stored, by the given privacy policy or else by tokenizing the columns a scan
+ * flags; tokenized values are kept for downloads. The delimiter is detected
+ * unless the parse options name it.
+ */
+export async function createDataset(
+  userId: string,
+  fileName: string,
+  content: string,
+  piiPolicy?: PiiPolicy,
+  parseOptions: CsvParseOptions = {},
+): Promise<DatasetWithVersions> {
+  const uploaded = parseCSV(content, parseOptions);
+  const policy = piiPolicy ?? defaultPiiPolicy(scanPII(uploaded.headers, uploaded.data));
+  const { content: protectedContent, cellsProtected, tokens } = protectCSV(
+    formatCSV(uploaded.headers, uploaded.data),
+    policy,
+  );
+  await storePiiTokens(userId, tokens);
+  return prisma.dataset.create({
+    data: {
+      userId,
+      fileName,
+      name: fileName.replace(/\.[^.]+$/, "") || fileName,
+      piiPolicy: policy,
+      versions: {
+        create: {
+          version: 1,
+          operation: "upload",
+          summary: describeProtection(cellsProtected),
+          ...normalizeContent(protectedContent),
+        },
+      },
+    },
+    include: { versions: { select: versionInfoSelect } },
+  });
+}
+
+export async function listDatasets(userId: string): Promise<Dataset[]> {
+  return prisma.dataset.findMany({
+    where: { userId },
+    orderBy: { updatedAt: "desc" },
+  });
+}
+
+/**
+ * Loads a dataset and its version history. Returns null when the dataset does
+ * not exist or belongs to someone else.
+ */
+export async function findDataset(
+  userId: string,
+  datasetId: string,
+): Promise<DatasetWithVersions | null> {
+  const dataset = await prisma.dataset.findUnique({
+    where: { id: datasetId },
+    include: { versions: { select: versionInfoSelect, orderBy: { version: "asc" } } },
+  });
+  return dataset?.userId === userId ? dataset : null;
+}
+
+/**
+ * Loads one version with its content, the latest when no version is given.
+ */
+export async function getDatasetVersion(
+  userId: string,
+  datasetId: string,
+  version?: number,
+): Promise<(DatasetVersion & { dataset: Dataset }) | null> {
+  const dataset = await prisma.dataset.findUnique({ where: { id: datasetId } });
+  if (!dataset || dataset.userId !== userId) return null;
+
+  const datasetVersion = await prisma.datasetVersion.findUnique({
+    where: {
+      datasetId_version: { datasetId, version: version ?? dataset.headVersion },
+    },
+  });
+  return datasetVersion ? { ...datasetVersion, dataset } : null;
+}
+
+/**
+ * Lists the steps that led to a version (the current one by default) with
+ * row, missing-cell and duplicate counts before and after each step.
+ */
+export async function getDatasetActionLog(
+  userId: string,
+  datasetId: string,
+  version?: number,
+): Promise<ReportAction[] | null> {
+  const dataset = await prisma.dataset.findUnique({ where: { id: datasetId } });
+  if (!dataset || dataset.userId !== userId) return null;
+
+  const versions = await prisma.datasetVersion.findMany({
+    where: { datasetId, version: { lte: version ?? dataset.headVersion } },
+    orderBy: { version: "asc" },
+  });
+  const metrics = new Map<number, DatasetMetrics>();
+  versions.forEach((entry) => {
+    const { headers, data } = parseCSV(entry.content, NORMALIZED_CSV);
+    metrics.set(entry.version, datasetMetrics(headers, data));
+  });
+
+  return versions
+    .filter((entry) => entry.version > 1)
+    .map((entry) => {
+      const { operation, ...parameters } = (entry.parameters ?? {}) as Record<string, unknown>;
+      return {
+        version: entry.version,
+        operation: entry.operation,
+        parameters,
+        summary: entry.summary,
+        before: metrics.get(entry.parentVersion ?? entry.version - 1)!,
+        after: metrics.get(entry.version)!,
+        cellsChanged: entry.cellsAffected,
+      };
+    });
+}
+
+/**
+ * Stores derived data as the version after the current head and moves the head
+ * to it. History is linear, so versions left over from an undo are discarded.
+ */
+export async function addDatasetVersion(
+  datasetId: string,
+  input: NewDatasetVersion,
+): Promise<DatasetVersionInfo> {
+  const normalized = normalizeContent(input.content);
+  return prisma.$transaction(async (tx) => {
+    const dataset = await tx.dataset.findUniqueOrThrow({ where: { id: datasetId } });
+    if (input.parentVersion !== undefined && input.parentVersion !== dataset.headVersion) {
+      throw new DatasetHistoryError(
+        `Changes can only be applied to the current version (${dataset.headVersion}); version ${input.parentVersion} is not current`,
+      );
+    }
+    const parent = await tx.datasetVersion.findUniqueOrThrow({
+      where: { datasetId_version: { datasetId, version: dataset.headVersion } },
+    });
+    const version = dataset.headVersion + 1;
+
+    await tx.datasetVersion.deleteMany({ where: { datasetId, version: { gte: version } } });
+    await tx.dataset.update({
+      where: { id: datasetId },
+      data: { headVersion: version, latestVersion: version },
+    });
+    return tx.datasetVersion.create({
+      data: {
+        datasetId,
+        version,
+        operation: input.operation,
+        parameters: input.parameters,
+        summary: input.summary,
+        parentVersion: parent.version,
+        ...changeStats(parent.content, normalized.content),
+        ...normalized,
+      },
+      select: versionInfoSelect,
+    });
+  });
+}
+
+/**
+ * Moves the head one step back (undo) or forward (redo) and returns the
+ * version that is now current.
+ */
+export async function moveDatasetHead(
+  userId: string,
+  datasetId: string,
+  direction: "undo" | "redo",
+): Promise<DatasetVersionInfo | null> {
+  const dataset = await prisma.dataset.findUnique({ where: { id: datasetId } });
+  if (!dataset || dataset.userId !== userId) return null;
+
+  if (direction === "undo" && dataset.headVersion <= 1) {
+    throw new DatasetHistoryError("Nothing to undo: the dataset is at its uploaded version");
+  }
+  if (direction === "redo" && dataset.headVersion >= dataset.latestVersion) {
+    throw new DatasetHistoryError("Nothing to redo: the dataset is at its newest version");
+  }
+
+  const headVersion = dataset.headVersion + (direction === "undo" ? -1 : 1);
+  await prisma.dataset.update({ where: { id: datasetId }, data: { headVersion } });
+  return prisma.datasetVersion.findUniqueOrThrow({
+    where: { datasetId_version: { datasetId, version: headVersion } },
+    select: versionInfoSelect,
+  });
+}
+
+/**
+ * Changes how personal data in a dataset is protected. Tokens in the columns of
+ * the old and new policy are restored first, then the new policy is applied to
+ * the current version; a new version is saved when that changes the data.
+ * Masked and hashed values stay as they are.
+ */
+export async function setDatasetPiiPolicy(
+  userId: string,
+  datasetId: string,
+  piiPolicy: PiiPolicy,
+): Promise<{ dataset: Dataset; version: DatasetVersionInfo | null; cellsProtected: number } | null> {
+  const head = await getDatasetVersion(userId, datasetId);
+  if (!head) return null;
+
+  const columns = Object.keys({ ...parsePiiPolicy(head.dataset.piiPolicy), ...piiPolicy });
+  const revealed = await revealCSV(userId, head.content, columns);
+  const { content, cellsProtected, tokens } = protectCSV(revealed, piiPolicy);
+  await storePiiTokens(userId, tokens);
+
+  const dataset = await prisma.dataset.update({ where: { id: datasetId }, data: { piiPolicy } });
+  if (content === head.content) {
+    return { dataset, version: null, cellsProtected };
+  }
+  const version = await addDatasetVersion(datasetId, {
+    content,
+    operation: PROTECT_PII_OPERATION,
+    parameters: { operation: PROTECT_PII_OPERATION, policy: piiPolicy },
+    summary: describeProtection(cellsProtected) ?? "Privacy policy changed",
+    parentVersion: head.version,
+  });
+  return { dataset, version, cellsProtected };
+}
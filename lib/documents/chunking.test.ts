@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import { splitSections } from "@/lib/documents/chunking";
+import { DEFAULT_CHUNKING, type ChunkingConfig } from "@/lib/documents/chunkingConfig";
+
+// Sizes are counted in characters unless a test says otherwise
+const config = (overrides: Partial<ChunkingConfig>): ChunkingConfig => ({ ...DEFAULT_CHUNKING, ...overrides });
+
+const sentences = "One is short. Two is also short. Three goes on a little longer. Four ends it.";
+
+describe("splitSections", () => {
+  it("keeps chunks within the size and tags them with the section they came from", async () => {
+    const text = Array.from({ length: 30 }, (_, i) => `word${i}`).join(" ");
+    const { chunks, parents } = await splitSections(
+      [{ text, page: 2, section: "Intro > Scope" }],
+      { documentId: "d1" },
+      config({ chunkSize: 50, chunkOverlap: 10 }),
+    );
+    expect(parents).toEqual([]);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.pageContent.length).toBeLessThanOrEqual(50);
+      expect(chunk.metadata).toEqual({ documentId: "d1", page: 2, section: "Intro > Scope", headings: ["Intro", "Scope"] });
+    }
+    expect(chunks.map((chunk) => chunk.pageContent).join(" ")).toContain("word0 word1");
+    expect(chunks[chunks.length - 1].pageContent).toContain("word29");
+  });
+
+  it("counts sizes in cl100k_base tokens for the tokens unit", async () => {
+    const encoding = new Tiktoken(cl100k_base);
+    const text = Array.from({ length: 60 }, (_, i) => `word${i}`).join(" ");
+    const { chunks } = await splitSections([{ text }], {}, config({ unit: "tokens", chunkSize: 20, chunkOverlap: 4 }));
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(encoding.encode(chunk.pageContent).length).toBeLessThanOrEqual(20);
+    }
+    // Twenty tokens of this text run well past twenty characters
+    expect(Math.max(...chunks.map((chunk) => chunk.pageContent.length))).toBeGreaterThan(40);
+    expect(chunks[chunks.length - 1].pageContent).toContain("word59");
+  });
+
+  it("splits at headings for the markdown strategy and keeps the heading path", async () => {
+    const markdown = "# Guide\nIntro text.\n## Install\nRun the installer.\n## Use\nOpen the app.";
+    const { chunks } = await splitSections([{ text: markdown, section: "Docs" }], {}, config({ strategy: "markdown" }));
+    expect(chunks.map((chunk) => [chunk.metadata.section, chunk.pageContent])).toEqual([
+      ["Docs > Guide", "# Guide\nIntro text."],
+      ["Docs > Guide > Install", "## Install\nRun the installer."],
+      ["Docs > Guide > Use", "## Use\nOpen the app."],
+    ]);
+  });
+
+  it("packs whole sentences and repeats trailing ones that fit in the overlap", async () => {
+    const text = "Cats nap. Dogs run. Birds sing. Fish swim.";
+    const { chunks } = await splitSections([{ text }], {}, config({ strategy: "sentence", chunkSize: 25, chunkOverlap: 12 }));
+    expect(chunks.map((chunk) => chunk.pageContent)).toEqual(["Cats nap. Dogs run.", "Dogs run. Birds sing.", "Birds sing. Fish swim."]);
+  });
+
+  it("doesn't repeat a sentence that would push the next chunk over the size", async () => {
+    const { chunks } = await splitSections([{ text: sentences }], {}, config({ strategy: "sentence", chunkSize: 45, chunkOverlap: 20 }));
+    expect(chunks.map((chunk) => chunk.pageContent)).toEqual([
+      "One is short. Two is also short.",
+      "Three goes on a little longer. Four ends it.",
+    ]);
+  });
+
+  it("splits a sentence longer than a chunk further", async () => {
+    const long = `${"x".repeat(30)} ${"y".repeat(30)}.`;
+    const { chunks } = await splitSections([{ text: long }], {}, config({ strategy: "sentence", chunkSize: 40, chunkOverlap: 0 }));
+    expect(chunks.map((chunk) => chunk.pageContent)).toEqual(["x".repeat(30), `${"y".repeat(30)}.`]);
+  });
+
+  it("embeds small chunks that point at the larger parent they belong to", async () => {
+    const { chunks, parents } = await splitSections(
+      [{ text: sentences }],
+      { documentId: "d1" },
+      config({ strategy: "sentence", chunkSize: 35, chunkOverlap: 0, parentChunkSize: 50 }),
+    );
+    expect(parents.map((parent) => parent.content)).toEqual([
+      "One is short. Two is also short.",
+      "Three goes on a little longer. Four ends it.",
+    ]);
+    expect(chunks.map((chunk) => [chunk.metadata.parentIndex, chunk.pageContent])).toEqual([
+      [0, "One is short. Two is also short."],
+      [1, "Three goes on a little longer."],
+      [1, "Four ends it."],
+    ]);
+    for (const chunk of chunks) {
+      expect(parents[chunk.metadata.parentIndex].content).toContain(chunk.pageContent);
+      expect(chunk.metadata.documentId).toBe("d1");
+    }
+  });
+
+  it("follows a language's syntax for the code strategy", async () => {
+    const code = "function a() {\n  return 1;\n}\n\nfunction b() {\n  return 2;\n}";
+    const { chunks } = await splitSections([{ text: code }], {}, config({ strategy: "code", language: "js", chunkSize: 30, chunkOverlap: 0 }));
+    expect(chunks.map((chunk) => chunk.pageContent)).toEqual(["function a() {\n  return 1;\n}", "function b() {\n  return 2;\n}"]);
+  });
+
+  it("returns no chunks for empty sections", async () => {
+    expect(await splitSections([{ text: "" }], {})).toEqual({ chunks: [], parents: [] });
+  });
+});
@@ -0,0 +1,140 @@
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import { Document } from "@langchain/core/documents";
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import { markdownSections, type ExtractedSection } from "@/lib/documents/extract";
+import { DEFAULT_CHUNKING, type ChunkingConfig, type ChunkSizeUnit } from "@/lib/documents/chunkingConfig";
+
+// cl100k_base is the encoding of OpenAI's current chat and embedding models; its ranks
+// ship with js-tiktoken, so counting tokens needs no download. Built on first use
+let encoding: Tiktoken | undefined;
+
+// A parent chunk; the embedded chunks inside it carry its index as parentIndex
+export interface ParentChunk {
+  index: number;
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface SplitResult {
+  chunks: Document[];
+  parents: ParentChunk[];
+}
+
+function lengthFunction(unit: ChunkSizeUnit): (text: string) => number {
+  if (unit === "characters") {
+    return (text) => text.length;
+  }
+  const tokens = (encoding ??= new Tiktoken(cl100k_base));
+  return (text) => tokens.encode(text).length;
+}
+
+// Whole sentences up to the size, repeating trailing sentences that fit in the overlap;
+// sentences longer than a chunk are split further
+async function packSentences(
+  text: string,
+  size: number,
+  overlap: number,
+  length: (text: string) => number,
+  fallback: RecursiveCharacterTextSplitter,
+): Promise<string[]> {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: "sentence" });
+  const sentences: string[] = [];
+  for (const { segment } of Array.from(segmenter.segment(text))) {
+    if (length(segment) > size) {
+      sentences.push(...(await fallback.splitText(segment)));
+    } else if (segment.trim()) {
+      sentences.push(segment);
+    }
+  }
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+  for (const sentence of sentences) {
+    const sentenceLength = length(sentence);
+    if (current.length && currentLength + sentenceLength > size) {
+      chunks.push(current.join("").trim());
+      const carried: string[] = [];
+      let carriedLength = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const candidate = length(current[i]);
+        if (carriedLength + candidate > overlap || carriedLength + candidate + sentenceLength > size) break;
+        carried.unshift(current[i]);
+        carriedLength += candidate;
+      }
+      current = carried;
+      currentLength = carriedLength;
+    }
+    current.push(sentence);
+    currentLength += sentenceLength;
+  }
+  if (current.length) {
+    chunks.push(current.join("").trim());
+  }
+  return chunks.filter(Boolean);
+}
+
+function createTextSplitter(config: ChunkingConfig, size: number, length: (text: string) => number) {
+  const splitter = RecursiveCharacterTextSplitter.fromLanguage(
+    config.strategy === "code" && config.language ? config.language : "markdown",
+    { chunkSize: size, chunkOverlap: Math.min(config.chunkOverlap, size - 1), lengthFunction: length },
+  );
+  return (text: string) =>
+    config.strategy === "sentence"
+      ? packSentences(text, size, config.chunkOverlap, length, splitter)
+      : splitter.splitText(text);
+}
+
+// The heading-aware strategy splits every section at its own headings, under the section's path
+function headingSections(section: ExtractedSection): ExtractedSection[] {
+  return markdownSections(section.text).map((part) => ({
+    ...part,
+    page: section.page,
+    section: [section.section, part.section].filter(Boolean).join(" > ") || undefined,
+  }));
+}
+
+function sectionMetadata(section: ExtractedSection, metadata: Record<string, unknown>): Record<string, unknown> {
+  return {
+    ...metadata,
+    ...(section.page !== undefined ? { page: section.page } : {}),
+    ...(section.section ? { section: section.section, headings: section.section.split(" > ") } : {}),
+  };
+}
+
+/**
+ * Splits extracted sections into chunks for embedding. Each chunk carries the
+ * given metadata plus the page and section it came from. With a parentChunkSize
+ * the sections are split into parents first, and chunks note their parentIndex.
+ */
+export async function splitSections(
+  sections: ExtractedSection[],
+  metadata: Record<string, unknown>,
+  config: ChunkingConfig = DEFAULT_CHUNKING,
+): Promise<SplitResult> {
+  const length = lengthFunction(config.unit);
+  const splitChunks = createTextSplitter(config, config.chunkSize, length);
+  const splitParents = config.parentChunkSize ? createTextSplitter(config, config.parentChunkSize, length) : null;
+  const parts = config.strategy === "markdown" ? sections.flatMap(headingSections) : sections;
+
+  const chunks: Document[] = [];
+  const parents: ParentChunk[] = [];
+  for (const part of parts) {
+    const partMetadata = sectionMetadata(part, metadata);
+    if (!splitParents) {
+      for (const text of await splitChunks(part.text)) {
+        chunks.push(new Document({ pageContent: text, metadata: partMetadata }));
+      }
+      continue;
+    }
+    for (const parentText of await splitParents(part.text)) {
+      const parent = { index: parents.length, content: parentText, metadata: partMetadata };
+      parents.push(parent);
+      for (const text of await splitChunks(parentText)) {
+        chunks.push(new Document({ pageContent: text, metadata: { ...partMetadata, parentIndex: parent.index } }));
+      }
+    }
+  }
+  return { chunks, parents };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { ChunkingError, DEFAULT_CHUNKING, parseChunkingConfig } from "@/lib/documents/chunkingConfig";
+
+describe("parseChunkingConfig", () => {
+  it("fills missing settings with the defaults", () => {
+    expect(parseChunkingConfig(null)).toEqual(DEFAULT_CHUNKING);
+    expect(parseChunkingConfig({ chunkSize: 500 })).toEqual({ ...DEFAULT_CHUNKING, chunkSize: 500 });
+    expect(parseChunkingConfig({ chunkOverlap: 0 }).chunkOverlap).toBe(0);
+  });
+
+  it("keeps the language only for the code strategy and parent sizes above the chunk size", () => {
+    expect(parseChunkingConfig({ strategy: "code", language: "python" })).toMatchObject({ strategy: "code", language: "python" });
+    expect(parseChunkingConfig({ strategy: "recursive", language: "python" })).not.toHaveProperty("language");
+    expect(parseChunkingConfig({ chunkSize: 100, parentChunkSize: 400 }).parentChunkSize).toBe(400);
+  });
+
+  it.each([
+    [[], "must be an object"],
+    [{ strategy: "semantic" }, 'Unknown chunking strategy "semantic"'],
+    [{ unit: "words" }, "counted in characters or tokens"],
+    [{ chunkSize: 0 }, "chunkSize must be a whole number from 1 to 8000"],
+    [{ chunkSize: 10.5 }, "chunkSize must be a whole number"],
+    [{ chunkSize: 100, chunkOverlap: 100 }, "chunkOverlap must be smaller than chunkSize"],
+    [{ strategy: "code" }, "The code strategy needs a language"],
+    [{ chunkSize: 100, parentChunkSize: 100 }, "parentChunkSize must be larger than chunkSize"],
+  ])("rejects %j", (value, message) => {
+    expect(() => parseChunkingConfig(value)).toThrow(ChunkingError);
+    expect(() => parseChunkingConfig(value)).toThrow(message);
+  });
+});
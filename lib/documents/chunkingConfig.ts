@@ -0,0 +1,87 @@
+// Chunking settings of a document collection, shared by the settings form and ingestion
+
+import { SupportedTextSplitterLanguages, type SupportedTextSplitterLanguage } from "@langchain/textsplitters";
+
+// "recursive" splits at paragraphs, lines and words; "markdown" first splits at headings
+// and keeps the heading path; "sentence" packs whole sentences; "code" follows a language's syntax
+export const CHUNKING_STRATEGIES = ["recursive", "markdown", "sentence", "code"] as const;
+export type ChunkingStrategy = (typeof CHUNKING_STRATEGIES)[number];
+
+export const CHUNK_SIZE_UNITS = ["characters", "tokens"] as const;
+export type ChunkSizeUnit = (typeof CHUNK_SIZE_UNITS)[number];
+
+export interface ChunkingConfig {
+  strategy: ChunkingStrategy;
+  unit: ChunkSizeUnit;
+  chunkSize: number;
+  chunkOverlap: number;
+  // Programming language for the "code" strategy
+  language?: SupportedTextSplitterLanguage;
+  // When set, chunks of chunkSize are embedded and retrieved, and the larger parent
+  // chunk of this size they belong to is what the model reads
+  parentChunkSize?: number;
+}
+
+export const DEFAULT_CHUNKING: ChunkingConfig = {
+  strategy: "recursive",
+  unit: "characters",
+  chunkSize: 256,
+  chunkOverlap: 20,
+};
+
+const MAX_CHUNK_SIZE = 8000;
+
+export class ChunkingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChunkingError";
+  }
+}
+
+function positiveInteger(value: unknown, field: string, max = MAX_CHUNK_SIZE): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > max) {
+    throw new ChunkingError(`${field} must be a whole number from 1 to ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Validates a chunking config from a collection or a request; missing fields
+ * take their defaults and a missing config is the default one.
+ */
+export function parseChunkingConfig(value: unknown): ChunkingConfig {
+  if (value === undefined || value === null) {
+    return DEFAULT_CHUNKING;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new ChunkingError("Chunking settings must be an object");
+  }
+  const input = { ...DEFAULT_CHUNKING, ...(value as Record<string, unknown>) };
+
+  if (!CHUNKING_STRATEGIES.includes(input.strategy as ChunkingStrategy)) {
+    throw new ChunkingError(`Unknown chunking strategy "${input.strategy}"; use ${CHUNKING_STRATEGIES.join(", ")}`);
+  }
+  if (!CHUNK_SIZE_UNITS.includes(input.unit as ChunkSizeUnit)) {
+    throw new ChunkingError(`Chunk sizes are counted in ${CHUNK_SIZE_UNITS.join(" or ")}`);
+  }
+  const chunkSize = positiveInteger(input.chunkSize, "chunkSize");
+  const chunkOverlap = input.chunkOverlap === 0 ? 0 : positiveInteger(input.chunkOverlap, "chunkOverlap");
+  if (chunkOverlap >= chunkSize) {
+    throw new ChunkingError("chunkOverlap must be smaller than chunkSize");
+  }
+
+  const config: ChunkingConfig = { strategy: input.strategy, unit: input.unit, chunkSize, chunkOverlap };
+  if (config.strategy === "code") {
+    if (!SupportedTextSplitterLanguages.includes(input.language as SupportedTextSplitterLanguage)) {
+      throw new ChunkingError(`The code strategy needs a language: ${SupportedTextSplitterLanguages.join(", ")}`);
+    }
+    config.language = input.language;
+  }
+  if (input.parentChunkSize !== undefined && input.parentChunkSize !== null) {
+    config.parentChunkSize = positiveInteger(input.parentChunkSize, "parentChunkSize");
+    if (config.parentChunkSize <= chunkSize) {
+      throw new ChunkingError("parentChunkSize must be larger than chunkSize");
+    }
+  }
+  return config;
+}
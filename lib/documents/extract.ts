@@ -0,0 +1,139 @@
+// Text extraction for files uploaded to the retrieval page. Each format becomes
+// sections of text that keep where they came from: the page of a PDF or the
+// heading of an HTML or Markdown section.
+
+import { WebPDFLoader } from "@langchain/community/document_loaders/web/pdf";
+import { DocxLoader } from "@langchain/community/document_loaders/fs/docx";
+import { parseCSV } from "@/lib/csv/parser";
+import { detectFormat, type DocumentFormat } from "@/lib/documents/formats";
+
+export interface ExtractedSection {
+  text: string;
+  // 1-based page of a PDF
+  page?: number;
+  // Heading path of an HTML or Markdown section, e.g. "Setup > Install"
+  section?: string;
+}
+
+export class DocumentExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentExtractionError";
+  }
+}
+
+const HEADING_LINE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+// Splits Markdown at its headings; text before the first heading has no section
+export function markdownSections(markdown: string): ExtractedSection[] {
+  const sections: ExtractedSection[] = [];
+  const path: string[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = lines.join("\n").trim();
+    if (text) {
+      sections.push(path.length ? { text, section: path.filter(Boolean).join(" > ") } : { text });
+    }
+    lines = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    const heading = inFence ? null : line.match(HEADING_LINE);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      path.length = level;
+      path[level - 1] = heading[2];
+    }
+    lines.push(line);
+  }
+  flush();
+  return sections;
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Keeps headings as Markdown so sections can be found, and block elements as line breaks
+function htmlToMarkdown(html: string): string {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  return decodeEntities(
+    body
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<(script|style|noscript|template|svg|head|nav|footer)\b[\s\S]*?<\/\1>/gi, "")
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+        `\n\n${"#".repeat(Number(level))} ${text.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim()}\n\n`)
+      .replace(/<li[^>]*>/gi, "\n- ")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|section|article|ul|ol|tr|table|blockquote|pre|header|main)>/gi, "\n\n")
+      .replace(/<\/t[dh]>/gi, " | ")
+      .replace(/<[^>]+>/g, ""),
+  )
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Each row as "column: value" pairs, so a chunk reads on its own without the header row
+function csvText(content: string): string {
+  const { headers, data } = parseCSV(content);
+  return data
+    .map((row) => headers.map((header, index) => `${header}: ${row[index] ?? ""}`).join("; "))
+    .join("\n");
+}
+
+/**
+ * Extracts the text of an uploaded file as sections. Throws DocumentExtractionError
+ * for unsupported formats and files without any text.
+ */
+export async function extractSections(
+  file: Blob,
+  fileName: string,
+): Promise<{ format: DocumentFormat; sections: ExtractedSection[] }> {
+  const format = detectFormat(fileName, file.type);
+  if (!format) {
+    throw new DocumentExtractionError("Unsupported file type; upload PDF, DOCX, HTML, Markdown, text or CSV files");
+  }
+
+  let sections: ExtractedSection[];
+  if (format === "pdf") {
+    const pages = await new WebPDFLoader(file, { splitPages: true }).load();
+    sections = pages.map((page, index) => ({
+      text: page.pageContent.trim(),
+      page: page.metadata.loc?.pageNumber ?? index + 1,
+    }));
+  } else if (format === "docx") {
+    const documents = await new DocxLoader(file).load();
+    sections = documents.map((document) => ({ text: document.pageContent.trim() }));
+  } else {
+    const content = await file.text();
+    sections = format === "html"
+      ? markdownSections(htmlToMarkdown(content))
+      : format === "markdown"
+        ? markdownSections(content)
+        : [{ text: (format === "csv" ? csvText(content) : content).trim() }];
+  }
+
+  sections = sections.filter((section) => section.text);
+  if (!sections.length) {
+    throw new DocumentExtractionError(
+      format === "pdf" ? "No text found; scanned PDFs need to be run through OCR first" : "The file has no text",
+    );
+  }
+  return { format, sections };
+}
@@ -0,0 +1,34 @@
+// Document formats the retrieval page ingests, shared by the upload form and the ingest route
+
+export const DOCUMENT_FORMATS = ["pdf", "docx", "html", "markdown", "text", "csv"] as const;
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number];
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  pdf: "pdf",
+  docx: "docx",
+  html: "html",
+  htm: "html",
+  md: "markdown",
+  markdown: "markdown",
+  txt: "text",
+  text: "text",
+  csv: "csv",
+};
+
+const MIME_TYPES: Record<string, DocumentFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "text/html": "html",
+  "text/markdown": "markdown",
+  "text/plain": "text",
+  "text/csv": "csv",
+};
+
+// Accepted by the upload input
+export const DOCUMENT_ACCEPT = Object.keys(EXTENSIONS).map((extension) => `.${extension}`).join(",");
+
+// The extension decides; the MIME type covers files without one
+export function detectFormat(fileName: string, mimeType = ""): DocumentFormat | null {
+  const extension = fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase() : "";
+  return EXTENSIONS[extension] ?? MIME_TYPES[mimeType.split(";")[0].trim()] ?? null;
+}
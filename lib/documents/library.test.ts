@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Document } from "@langchain/core/documents";
+
+// Records prisma calls in the order they run; a transaction runs its operations together
+const { calls, db, vectorstore } = vi.hoisted(() => {
+  const calls: string[] = [];
+  const operation = (name: string, result: unknown = {}) =>
+    vi.fn((...args: unknown[]) => ({ name, args, result }));
+  const db = {
+    document: {
+      findFirst: vi.fn(),
+      findUniqueOrThrow: vi.fn(async () => ({ id: "d1" })),
+      update: operation("document.update"),
+    },
+    documentChunk: {
+      findMany: vi.fn(async () => [{ vectorId: "old-1" }, { vectorId: "old-2" }]),
+      createMany: operation("documentChunk.createMany"),
+      deleteMany: operation("documentChunk.deleteMany"),
+    },
+    documentParentChunk: {
+      createMany: operation("documentParentChunk.createMany"),
+      deleteMany: operation("documentParentChunk.deleteMany"),
+    },
+    $transaction: vi.fn(async (operations: { name: string }[]) => {
+      calls.push(`transaction: ${operations.map((op) => op.name).join(", ")}`);
+    }),
+  };
+  const vectorstore = {
+    addDocuments: vi.fn(async (chunks: unknown[]) => {
+      calls.push(`add ${chunks.length}`);
+      return chunks.map((_, i) => `new-${i + 1}`);
+    }),
+    delete: vi.fn(async ({ ids }: { ids: string[] }) => {
+      calls.push(`delete ${ids.join(", ")}`);
+    }),
+  };
+  return { calls, db, vectorstore };
+});
+
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+vi.mock("@/lib/documents/vectorStore", () => ({
+  createVectorStore: () => vectorstore,
+  embeddingModelName: () => "test-embedding",
+}));
+vi.mock("@/lib/documents/chunking", () => ({
+  splitSections: async () => ({
+    chunks: [new Document({ pageContent: "a", metadata: {} }), new Document({ pageContent: "b", metadata: {} })],
+    parents: [],
+  }),
+}));
+
+import { reingestDocument } from "@/lib/documents/library";
+
+const stored = {
+  id: "d1",
+  userId: "u1",
+  collectionId: "c1",
+  title: "Doc",
+  fileName: "doc.md",
+  sourceType: "markdown",
+  sections: [],
+  collection: { chunking: null },
+};
+
+describe("reingestDocument", () => {
+  beforeEach(() => {
+    calls.length = 0;
+    vi.clearAllMocks();
+    db.document.findFirst.mockResolvedValue(stored);
+  });
+
+  it("embeds first, swaps the chunk records in one transaction, then deletes the old vectors", async () => {
+    await reingestDocument("u1", "d1");
+    expect(calls).toEqual([
+      "add 2",
+      "transaction: documentChunk.deleteMany, documentParentChunk.deleteMany, documentParentChunk.createMany, documentChunk.createMany, document.update",
+      "delete old-1, old-2",
+    ]);
+  });
+
+  it("keeps the old chunks when embedding fails", async () => {
+    vectorstore.addDocuments.mockRejectedValueOnce(new Error("rate limited"));
+    await expect(reingestDocument("u1", "d1")).rejects.toThrow("rate limited");
+    expect(db.$transaction).not.toHaveBeenCalled();
+    expect(vectorstore.delete).not.toHaveBeenCalled();
+  });
+
+  it("deletes the new vectors when the swap fails", async () => {
+    db.$transaction.mockRejectedValueOnce(new Error("deadlock"));
+    await expect(reingestDocument("u1", "d1")).rejects.toThrow("deadlock");
+    expect(calls).toEqual(["add 2", "delete new-1, new-2"]);
+  });
+
+  it("returns null for documents of other users", async () => {
+    db.document.findFirst.mockResolvedValueOnce(null);
+    expect(await reingestDocument("u2", "d1")).toBeNull();
+    expect(vectorstore.addDocuments).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,265 @@
+import type { Document as DocumentRecord, DocumentChunk, DocumentCollection, Prisma } from "@prisma/client";
+import { Document } from "@langchain/core/documents";
+import { prisma } from "@/lib/prisma";
+import { chunkOwnerMetadata } from "@/lib/collections";
+import { splitSections } from "@/lib/documents/chunking";
+import { parseChunkingConfig } from "@/lib/documents/chunkingConfig";
+import type { ExtractedSection } from "@/lib/documents/extract";
+import type { DocumentFormat } from "@/lib/documents/formats";
+import { createVectorStore, embeddingModelName, type DocumentVectorStore } from "@/lib/documents/vectorStore";
+
+const MAX_TITLE_LENGTH = 120;
+
+// Document metadata without the extracted text, for listings
+export type DocumentInfo = Omit<DocumentRecord, "sections"> & {
+  collection: Pick<DocumentCollection, "id" | "name">;
+};
+
+export type DocumentWithChunks = DocumentInfo & {
+  chunks: Pick<DocumentChunk, "id" | "index" | "content" | "metadata">[];
+};
+
+export interface NewDocument {
+  title: string;
+  fileName?: string;
+  sourceType: DocumentFormat;
+  size: number;
+  sections: ExtractedSection[];
+}
+
+export class DocumentLibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentLibraryError";
+  }
+}
+
+const documentInfoSelect = {
+  id: true,
+  title: true,
+  fileName: true,
+  sourceType: true,
+  size: true,
+  chunkCount: true,
+  embeddingModel: true,
+  createdAt: true,
+  updatedAt: true,
+  collectionId: true,
+  userId: true,
+  collection: { select: { id: true, name: true } },
+} satisfies Prisma.DocumentSelect;
+
+// Trims and collapses whitespace; long titles are cut
+export function normalizeTitle(value: string): string {
+  const title = value.replace(/\s+/g, " ").trim();
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 3)}...` : title;
+}
+
+/**
+ * Splits a document's sections as its collection is configured and embeds the
+ * chunks, keeping each with the id of its vector row. With replace, the chunk
+ * records already there are swapped for the new ones in the same transaction.
+ * The new vector rows are deleted again when the records can't be written.
+ * Returns the number of chunks.
+ */
+async function embedDocument(
+  document: Pick<DocumentRecord, "id" | "userId" | "collectionId" | "title" | "fileName" | "sourceType" | "sections">,
+  chunking: Prisma.JsonValue,
+  vectorstore: DocumentVectorStore,
+  replace = false,
+): Promise<number> {
+  const { chunks, parents } = await splitSections(
+    document.sections as unknown as ExtractedSection[],
+    {
+      ...chunkOwnerMetadata({ id: document.collectionId, userId: document.userId }),
+      documentId: document.id,
+      source: document.fileName ?? document.title,
+      format: document.sourceType,
+    },
+    parseChunkingConfig(chunking),
+  );
+  const vectorIds = chunks.length ? await vectorstore.addDocuments(chunks) : [];
+
+  try {
+    await prisma.$transaction([
+      ...(replace
+        ? [
+            prisma.documentChunk.deleteMany({ where: { documentId: document.id } }),
+            prisma.documentParentChunk.deleteMany({ where: { documentId: document.id } }),
+          ]
+        : []),
+      prisma.documentParentChunk.createMany({
+        data: parents.map((parent) => ({
+          documentId: document.id,
+          index: parent.index,
+          content: parent.content,
+          metadata: parent.metadata as Prisma.InputJsonValue,
+        })),
+      }),
+      prisma.documentChunk.createMany({
+        data: chunks.map((chunk, index) => ({
+          documentId: document.id,
+          index,
+          content: chunk.pageContent,
+          metadata: chunk.metadata as Prisma.InputJsonValue,
+          vectorId: String(vectorIds[index]),
+        })),
+      }),
+      prisma.document.update({
+        where: { id: document.id },
+        data: { chunkCount: chunks.length, embeddingModel: embeddingModelName(vectorstore) },
+      }),
+    ]);
+  } catch (error) {
+    if (vectorIds.length) {
+      await vectorstore.delete({ ids: vectorIds }).catch(() => undefined);
+    }
+    throw error;
+  }
+  return chunks.length;
+}
+
+// Removes a document's rows from the vector store and its chunk records
+async function removeChunks(documentId: string, vectorstore: DocumentVectorStore): Promise<void> {
+  const chunks = await prisma.documentChunk.findMany({
+    where: { documentId },
+    select: { vectorId: true },
+  });
+  if (chunks.length) {
+    await vectorstore.delete({ ids: chunks.map((chunk) => chunk.vectorId) });
+  }
+  await prisma.documentChunk.deleteMany({ where: { documentId } });
+  await prisma.documentParentChunk.deleteMany({ where: { documentId } });
+}
+
+/**
+ * Records an ingested source and embeds its chunks into the collection. The
+ * record is removed again when embedding fails, so the library only lists
+ * documents that can be retrieved.
+ */
+export async function ingestDocument(collection: DocumentCollection, input: NewDocument): Promise<DocumentInfo> {
+  const vectorstore = createVectorStore();
+  const document = await prisma.document.create({
+    data: {
+      title: normalizeTitle(input.title) || "Untitled",
+      fileName: input.fileName,
+      sourceType: input.sourceType,
+      size: input.size,
+      embeddingModel: embeddingModelName(vectorstore),
+      sections: input.sections as unknown as Prisma.InputJsonValue,
+      collectionId: collection.id,
+      userId: collection.userId,
+    },
+  });
+
+  try {
+    await embedDocument(document, collection.chunking, vectorstore);
+  } catch (error) {
+    await prisma.document.delete({ where: { id: document.id } });
+    throw error;
+  }
+  return prisma.document.findUniqueOrThrow({ where: { id: document.id }, select: documentInfoSelect });
+}
+
+export async function listDocuments(userId: string, collectionId?: string): Promise<DocumentInfo[]> {
+  return prisma.document.findMany({
+    where: { userId, ...(collectionId ? { collectionId } : {}) },
+    select: documentInfoSelect,
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+export async function findDocument(userId: string, documentId: string): Promise<DocumentWithChunks | null> {
+  return prisma.document.findFirst({
+    where: { id: documentId, userId },
+    select: {
+      ...documentInfoSelect,
+      chunks: {
+        select: { id: true, index: true, content: true, metadata: true },
+        orderBy: { index: "asc" },
+      },
+    },
+  });
+}
+
+// Returns null when the document doesn't exist or belongs to someone else
+export async function renameDocument(userId: string, documentId: string, title: string): Promise<DocumentInfo | null> {
+  const name = normalizeTitle(title);
+  if (!name) {
+    throw new DocumentLibraryError("Title cannot be empty");
+  }
+  const { count } = await prisma.document.updateMany({
+    where: { id: documentId, userId },
+    data: { title: name },
+  });
+  return count ? prisma.document.findUniqueOrThrow({ where: { id: documentId }, select: documentInfoSelect }) : null;
+}
+
+/**
+ * Splits and embeds a document again from its stored text, replacing its
+ * chunks, e.g. after the embedding model or the collection's chunking changed.
+ * The old chunks stay searchable until the new ones are embedded and recorded,
+ * and a failure leaves them in place.
+ */
+export async function reingestDocument(userId: string, documentId: string): Promise<DocumentInfo | null> {
+  const document = await prisma.document.findFirst({
+    where: { id: documentId, userId },
+    include: { collection: { select: { chunking: true } } },
+  });
+  if (!document) {
+    return null;
+  }
+  const vectorstore = createVectorStore();
+  const previous = await prisma.documentChunk.findMany({
+    where: { documentId: document.id },
+    select: { vectorId: true },
+  });
+  await embedDocument(document, document.collection.chunking, vectorstore, true);
+  // The swap is done, so a failure here is only logged; the old rows stay in the vector store
+  if (previous.length) {
+    await vectorstore.delete({ ids: previous.map((chunk) => chunk.vectorId) }).catch((error) => {
+      console.error(`Failed to delete the previous vectors of document ${document.id}`, error);
+    });
+  }
+  return prisma.document.findUniqueOrThrow({ where: { id: documentId }, select: documentInfoSelect });
+}
+
+// Deletes the document with its chunks and vector rows; false when it wasn't found
+export async function deleteDocument(userId: string, documentId: string): Promise<boolean> {
+  const document = await prisma.document.findFirst({ where: { id: documentId, userId }, select: { id: true } });
+  if (!document) {
+    return false;
+  }
+  await removeChunks(document.id, createVectorStore());
+  await prisma.document.delete({ where: { id: document.id } });
+  return true;
+}
+
+/**
+ * Swaps retrieved chunks that belong to a parent chunk for the parent, once per
+ * parent and in retrieval order. Other chunks are passed through unchanged.
+ */
+export async function expandToParents(documents: Document[]): Promise<Document[]> {
+  const keys = documents
+    .filter((document) => typeof document.metadata.documentId === "string" && typeof document.metadata.parentIndex === "number")
+    .map((document) => ({ documentId: document.metadata.documentId as string, index: document.metadata.parentIndex as number }));
+  if (!keys.length) {
+    return documents;
+  }
+
+  const parents = await prisma.documentParentChunk.findMany({ where: { OR: keys } });
+  const byKey = new Map(parents.map((parent) => [`${parent.documentId}:${parent.index}`, parent]));
+  const seen = new Set<string>();
+  const expanded: Document[] = [];
+  for (const document of documents) {
+    const key = `${document.metadata.documentId}:${document.metadata.parentIndex}`;
+    const parent = byKey.get(key);
+    if (!parent) {
+      expanded.push(document);
+    } else if (!seen.has(key)) {
+      seen.add(key);
+      expanded.push(new Document({ pageContent: parent.content, metadata: { ...document.metadata, parentIndex: parent.index } }));
+    }
+  }
+  return expanded;
+}
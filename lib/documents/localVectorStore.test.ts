@@ -0,0 +1,53 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { Document } from "@langchain/core/documents";
+import { FakeEmbeddings } from "@langchain/core/utils/testing";
+import { LocalVectorStore } from "@/lib/documents/localVectorStore";
+
+const embeddings = new FakeEmbeddings();
+const directory = mkdtemp(join(tmpdir(), "local-vectors-"));
+
+afterAll(async () => {
+  await rm(await directory, { recursive: true, force: true });
+});
+
+const documents = [
+  new Document({ pageContent: "north", metadata: { userId: "u1", collectionId: "c1" } }),
+  new Document({ pageContent: "east", metadata: { userId: "u1", collectionId: "c2" } }),
+  new Document({ pageContent: "other", metadata: { userId: "u2", collectionId: "c1" } }),
+];
+
+describe("LocalVectorStore", () => {
+  it("ranks by cosine similarity within the filter", async () => {
+    const store = new LocalVectorStore(embeddings, { path: join(await directory, "rank.json") });
+    await store.addVectors([[1, 0], [0.6, 0.8], [1, 0]], documents, { ids: ["a", "b", "c"] });
+
+    const results = await store.similaritySearchVectorWithScore([1, 0], 5, { userId: "u1", collectionId: ["c1", "c2"] });
+    expect(results.map(([document, score]) => [document.id, Number(score.toFixed(2))])).toEqual([["a", 1], ["b", 0.6]]);
+    expect(await store.similaritySearchVectorWithScore([1, 0], 1, { userId: "u1" })).toHaveLength(1);
+    expect(await store.similaritySearchVectorWithScore([1, 0], 5, { collectionId: [] })).toEqual([]);
+  });
+
+  it("saves to its file and loads it in a fresh table", async () => {
+    const path = join(await directory, "saved.json");
+    const store = new LocalVectorStore(embeddings, { path });
+    const ids = await store.addVectors([[1, 0], [0, 1]], documents.slice(0, 2));
+    await store.delete({ ids: [ids[0]] });
+    const saved = JSON.parse(await readFile(path, "utf8"));
+    expect(saved.map((row: { id: string }) => row.id)).toEqual([ids[1]]);
+
+    global.localVectorTables?.delete(path);
+    const reloaded = new LocalVectorStore(embeddings, { path });
+    const [[document]] = await reloaded.similaritySearchVectorWithScore([0, 1], 1);
+    expect(document.pageContent).toBe("east");
+  });
+
+  it("embeds documents when they are added", async () => {
+    const store = new LocalVectorStore(embeddings, { path: join(await directory, "embedded.json") });
+    const [id] = await store.addDocuments([documents[0]]);
+    const [[document]] = await store.similaritySearchVectorWithScore([0.1, 0.2, 0.3, 0.4], 1);
+    expect(document.id).toBe(id);
+  });
+});
@@ -0,0 +1,149 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { Document, type DocumentInterface } from "@langchain/core/documents";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { VectorStore } from "@langchain/core/vectorstores";
+import type { MetadataFilter } from "@/lib/documents/vectorStore";
+
+interface StoredVector {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  embedding: number[];
+}
+
+interface VectorTable {
+  rows: Map<string, StoredVector>;
+  loaded?: Promise<void>;
+  // Writes of one file run one after another
+  saving: Promise<void>;
+}
+
+// Tables outlive a request and, in development, a hot reload; keyed by file path, "" is memory only
+declare global {
+  var localVectorTables: Map<string, VectorTable> | undefined;
+}
+
+const tables = (global.localVectorTables ??= new Map());
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// A metadata key equals the value, or one of the values of a list; an empty list matches nothing
+function matchesFilter(metadata: Record<string, unknown>, filter: MetadataFilter = {}): boolean {
+  return Object.entries(filter).every(([key, value]) =>
+    Array.isArray(value) ? value.includes(String(metadata[key])) : String(metadata[key]) === value,
+  );
+}
+
+/**
+ * Keeps embeddings in the server's memory and searches them by brute force, for
+ * development and tests without a database extension or a hosted store. With a
+ * path the vectors are also saved to that JSON file and loaded on first use.
+ */
+export class LocalVectorStore extends VectorStore {
+  declare FilterType: MetadataFilter;
+
+  private path: string;
+
+  constructor(embeddings: EmbeddingsInterface, options: { path?: string } = {}) {
+    super(embeddings, options);
+    this.path = options.path ?? "";
+  }
+
+  _vectorstoreType(): string {
+    return "local";
+  }
+
+  private async table(): Promise<VectorTable> {
+    let table: VectorTable | undefined = tables.get(this.path);
+    if (!table) {
+      table = { rows: new Map(), saving: Promise.resolve() };
+      tables.set(this.path, table);
+    }
+    table.loaded ??= this.load(table.rows);
+    await table.loaded;
+    return table;
+  }
+
+  private async load(rows: Map<string, StoredVector>): Promise<void> {
+    if (!this.path) return;
+    try {
+      const stored: StoredVector[] = JSON.parse(await readFile(this.path, "utf8"));
+      for (const row of stored) {
+        rows.set(row.id, row);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+
+  // Replaces the file in one step so a crash mid-write keeps the previous vectors
+  private async save(table: VectorTable): Promise<void> {
+    if (!this.path) return;
+    const write = async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(`${this.path}.tmp`, JSON.stringify(Array.from(table.rows.values())));
+      await rename(`${this.path}.tmp`, this.path);
+    };
+    table.saving = table.saving.then(write, write);
+    await table.saving;
+  }
+
+  async addDocuments(documents: DocumentInterface[], options?: { ids?: string[] }): Promise<string[]> {
+    const vectors = await this.embeddings.embedDocuments(documents.map((document) => document.pageContent));
+    return this.addVectors(vectors, documents, options);
+  }
+
+  async addVectors(vectors: number[][], documents: DocumentInterface[], options?: { ids?: string[] }): Promise<string[]> {
+    const table = await this.table();
+    const ids = options?.ids ?? documents.map(() => randomUUID());
+    documents.forEach((document, index) => {
+      table.rows.set(ids[index], {
+        id: ids[index],
+        content: document.pageContent,
+        metadata: document.metadata,
+        embedding: vectors[index],
+      });
+    });
+    await this.save(table);
+    return ids;
+  }
+
+  async delete(params: { ids: string[] }): Promise<void> {
+    const table = await this.table();
+    for (const id of params.ids) {
+      table.rows.delete(id);
+    }
+    await this.save(table);
+  }
+
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: MetadataFilter,
+  ): Promise<[Document, number][]> {
+    const table = await this.table();
+    return Array.from(table.rows.values())
+      .filter((row) => matchesFilter(row.metadata, filter))
+      .map((row) => [row, cosineSimilarity(query, row.embedding)] as const)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k)
+      .map(([row, similarity]) => [
+        new Document({ id: row.id, pageContent: row.content, metadata: row.metadata }),
+        similarity,
+      ]);
+  }
+}
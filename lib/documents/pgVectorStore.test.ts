@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Document } from "@langchain/core/documents";
+import { FakeEmbeddings } from "@langchain/core/utils/testing";
+import { Prisma } from "@prisma/client";
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    $executeRaw: vi.fn(async () => 1),
+    $queryRaw: vi.fn(async () => [{ id: "e1", content: "chunk", metadata: { documentId: "d1" }, similarity: "0.75" }]),
+    documentEmbedding: { deleteMany: vi.fn(async () => ({ count: 1 })) },
+  },
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma }));
+
+import { PG_VECTOR_DIMENSIONS, PgVectorStore, PgVectorStoreError } from "@/lib/documents/pgVectorStore";
+
+const store = new PgVectorStore(new FakeEmbeddings());
+const vector = (value: number) => Array(PG_VECTOR_DIMENSIONS).fill(value);
+// The raw queries are tagged templates; rebuilt here to read their text and values
+const sqlOf = (call: unknown[]) => Prisma.sql(call[0] as TemplateStringsArray, ...call.slice(1));
+
+describe("PgVectorStore", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("inserts rows with their vectors as pgvector literals", async () => {
+    const ids = await store.addVectors([vector(0.5)], [new Document({ pageContent: "chunk", metadata: { documentId: "d1" } })], { ids: ["e1"] });
+    expect(ids).toEqual(["e1"]);
+    const sql = sqlOf(prisma.$executeRaw.mock.calls[0]);
+    expect(sql.sql).toContain('INSERT INTO "DocumentEmbedding" (id, content, metadata, embedding)');
+    expect(sql.values).toEqual(["e1", "chunk", '{"documentId":"d1"}', `[${vector(0.5).join(",")}]`]);
+  });
+
+  it("refuses vectors of another dimension before writing anything", async () => {
+    const documents = [new Document({ pageContent: "a" }), new Document({ pageContent: "b" })];
+    await expect(store.addVectors([vector(0.1), [0.1, 0.2]], documents)).rejects.toThrow(PgVectorStoreError);
+    await expect(store.addVectors([vector(0.1), [0.1, 0.2]], documents)).rejects.toThrow("must have 1536 dimensions to be stored in pgvector, got 2");
+    await expect(store.addVectors([[...vector(0.1).slice(1), NaN]], [documents[0]])).rejects.toThrow("finite numbers");
+    expect(prisma.$executeRaw).not.toHaveBeenCalled();
+  });
+
+  it("writes large batches in several statements", async () => {
+    const documents = Array.from({ length: 1200 }, (_, i) => new Document({ pageContent: String(i) }));
+    const ids = await store.addVectors(documents.map(() => vector(0.1)), documents);
+    expect(ids).toHaveLength(1200);
+    expect(prisma.$executeRaw).toHaveBeenCalledTimes(3);
+  });
+
+  it("searches the vector column directly with the metadata filter", async () => {
+    const results = await store.similaritySearchVectorWithScore(vector(0.2), 3, { userId: "u1", collectionId: ["c1", "c2"] });
+    const sql = sqlOf(prisma.$queryRaw.mock.calls[0]);
+    expect(sql.sql).not.toContain("embedding::vector");
+    expect(sql.sql).toContain("ORDER BY embedding <=> ?::vector");
+    expect(sql.values).toEqual([`[${vector(0.2).join(",")}]`, "userId", "u1", "collectionId", "c1", "c2", `[${vector(0.2).join(",")}]`, 3]);
+    expect(results).toEqual([[new Document({ id: "e1", pageContent: "chunk", metadata: { documentId: "d1" } }), 0.75]]);
+  });
+
+  it("refuses query vectors of another dimension", async () => {
+    await expect(store.similaritySearchVectorWithScore([0.1], 3)).rejects.toThrow(PgVectorStoreError);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it("deletes rows by id", async () => {
+    await store.delete({ ids: ["e1", "e2"] });
+    expect(prisma.documentEmbedding.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ["e1", "e2"] } } });
+  });
+});
@@ -0,0 +1,111 @@
+import { randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
+import { Document, type DocumentInterface } from "@langchain/core/documents";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { prisma } from "@/lib/prisma";
+import type { MetadataFilter } from "@/lib/documents/vectorStore";
+
+// The size of the embedding column; OpenAI's text-embedding-3-small and ada-002 embed in 1536 dimensions
+export const PG_VECTOR_DIMENSIONS = 1536;
+
+// Rows per INSERT, well below Postgres' limit of bind parameters in one statement
+const INSERT_BATCH_SIZE = 500;
+
+export class PgVectorStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PgVectorStoreError";
+  }
+}
+
+interface EmbeddingMatch {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  similarity: number;
+}
+
+// A metadata key equals the value, or one of the values of a list; an empty list matches nothing
+function filterSql(filter: MetadataFilter = {}): Prisma.Sql {
+  const conditions = Object.entries(filter).map(([key, value]) => {
+    if (!Array.isArray(value)) {
+      return Prisma.sql`metadata->>${key} = ${value}`;
+    }
+    return value.length ? Prisma.sql`metadata->>${key} IN (${Prisma.join(value)})` : Prisma.sql`FALSE`;
+  });
+  return conditions.length ? Prisma.join(conditions, " AND ") : Prisma.sql`TRUE`;
+}
+
+// A vector as pgvector's text input, e.g. [0.1,0.2]; the column only takes its own dimension
+function vectorLiteral(vector: number[]): string {
+  if (vector.length !== PG_VECTOR_DIMENSIONS) {
+    throw new PgVectorStoreError(
+      `Embeddings must have ${PG_VECTOR_DIMENSIONS} dimensions to be stored in pgvector, got ${vector.length}`,
+    );
+  }
+  if (!vector.every(Number.isFinite)) {
+    throw new PgVectorStoreError("Embeddings must only contain finite numbers");
+  }
+  return `[${vector.join(",")}]`;
+}
+
+/**
+ * Keeps embeddings in the app's own Postgres database through Prisma and ranks
+ * them by cosine distance with pgvector, using the HNSW index of the embedding
+ * column. The column holds vectors of PG_VECTOR_DIMENSIONS; others are refused.
+ */
+export class PgVectorStore extends VectorStore {
+  declare FilterType: MetadataFilter;
+
+  constructor(embeddings: EmbeddingsInterface) {
+    super(embeddings, {});
+  }
+
+  _vectorstoreType(): string {
+    return "pgvector";
+  }
+
+  async addDocuments(documents: DocumentInterface[], options?: { ids?: string[] }): Promise<string[]> {
+    const vectors = await this.embeddings.embedDocuments(documents.map((document) => document.pageContent));
+    return this.addVectors(vectors, documents, options);
+  }
+
+  async addVectors(vectors: number[][], documents: DocumentInterface[], options?: { ids?: string[] }): Promise<string[]> {
+    const ids = options?.ids ?? documents.map(() => randomUUID());
+    // Every vector is checked before any row is written
+    const rows = documents.map((document, index) =>
+      Prisma.sql`(${ids[index]}, ${document.pageContent}, ${JSON.stringify(document.metadata)}::jsonb, ${vectorLiteral(vectors[index])}::vector)`,
+    );
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      await prisma.$executeRaw`
+        INSERT INTO "DocumentEmbedding" (id, content, metadata, embedding)
+        VALUES ${Prisma.join(rows.slice(start, start + INSERT_BATCH_SIZE))}
+      `;
+    }
+    return ids;
+  }
+
+  async delete(params: { ids: string[] }): Promise<void> {
+    await prisma.documentEmbedding.deleteMany({ where: { id: { in: params.ids } } });
+  }
+
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: MetadataFilter,
+  ): Promise<[Document, number][]> {
+    const vector = vectorLiteral(query);
+    const matches = await prisma.$queryRaw<EmbeddingMatch[]>`
+      SELECT id, content, metadata, 1 - (embedding <=> ${vector}::vector) AS similarity
+      FROM "DocumentEmbedding"
+      WHERE ${filterSql(filter)}
+      ORDER BY embedding <=> ${vector}::vector
+      LIMIT ${k}
+    `;
+    return matches.map((match) => [
+      new Document({ id: match.id, pageContent: match.content, metadata: match.metadata }),
+      Number(match.similarity),
+    ]);
+  }
+}
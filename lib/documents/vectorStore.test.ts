@@ -0,0 +1,35 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
+import { collectionFilter, createVectorStore } from "@/lib/documents/vectorStore";
+
+beforeAll(() => {
+  process.env.OPENAI_API_KEY = "test-key";
+  process.env.SUPABASE_URL = "http://localhost:54321";
+  process.env.SUPABASE_PRIVATE_KEY = "test-key";
+});
+
+describe("collectionFilter", () => {
+  it("filters Supabase searches inside the RPC, before match_count limits them", async () => {
+    process.env.VECTOR_STORE = "supabase";
+    const store = createVectorStore() as SupabaseVectorStore;
+    const calls: [string, Record<string, unknown>][] = [];
+    store.client = {
+      rpc: async (name: string, params: Record<string, unknown>) => {
+        calls.push([name, params]);
+        return { data: [{ content: "chunk", metadata: { collectionId: "c1" }, similarity: 0.9 }], error: null };
+      },
+    } as unknown as SupabaseVectorStore["client"];
+
+    const filter = collectionFilter(store, "u1", ["c1", "c2"]) as SupabaseVectorStore["FilterType"];
+    const results = await store.similaritySearchVectorWithScore([0.1, 0.2], 4, filter);
+    expect(calls).toEqual([
+      ["match_collection_documents", { query_embedding: [0.1, 0.2], match_count: 4, filter: { userId: "u1", collectionIds: ["c1", "c2"] } }],
+    ]);
+    expect(results[0][0].pageContent).toBe("chunk");
+  });
+
+  it("matches metadata keys for the other backends", () => {
+    process.env.VECTOR_STORE = "local";
+    expect(collectionFilter(createVectorStore(), "u1", ["c1"])).toEqual({ userId: "u1", collectionId: ["c1"] });
+  });
+});
@@ -0,0 +1,70 @@
+import { createClient } from "@supabase/supabase-js";
+import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
+import type { DocumentInterface } from "@langchain/core/documents";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { OpenAIEmbeddings } from "@langchain/openai";
+import { LocalVectorStore } from "@/lib/documents/localVectorStore";
+import { PgVectorStore } from "@/lib/documents/pgVectorStore";
+
+// VECTOR_STORE picks where chunks are embedded: "supabase" (the default), "pgvector"
+// for the app's own Postgres database, or "local" for memory, saved to
+// VECTOR_STORE_PATH when it's set. For Supabase, first follow the set-up at
+// https://js.langchain.com/v0.2/docs/integrations/vectorstores/supabase, then run
+// supabase/match_collection_documents.sql, which searches within collections
+export const VECTOR_STORE_BACKENDS = ["supabase", "pgvector", "local"] as const;
+export type VectorStoreBackend = (typeof VECTOR_STORE_BACKENDS)[number];
+
+// Metadata keys and the value, or any of the values, a chunk must have
+export type MetadataFilter = Record<string, string | string[]>;
+
+// Every backend returns the ids of the rows it adds, so chunks can be deleted later
+export interface DocumentVectorStore extends VectorStore {
+  addDocuments(documents: DocumentInterface[]): Promise<string[]>;
+}
+
+function vectorStoreBackend(): VectorStoreBackend {
+  const backend = process.env.VECTOR_STORE || "supabase";
+  if (!VECTOR_STORE_BACKENDS.includes(backend as VectorStoreBackend)) {
+    throw new Error(`Unknown VECTOR_STORE "${backend}"; use ${VECTOR_STORE_BACKENDS.join(", ")}`);
+  }
+  return backend as VectorStoreBackend;
+}
+
+/**
+ * The store ingested chunks are embedded into. Ingestion uses the server's
+ * OpenAI key; chats pass the user's key for embedding their questions.
+ */
+export function createVectorStore(apiKey?: string): DocumentVectorStore {
+  const embeddings = new OpenAIEmbeddings(apiKey ? { openAIApiKey: apiKey } : {});
+  switch (vectorStoreBackend()) {
+    case "pgvector":
+      return new PgVectorStore(embeddings);
+    case "local":
+      return new LocalVectorStore(embeddings, { path: process.env.VECTOR_STORE_PATH });
+    case "supabase":
+      return new SupabaseVectorStore(embeddings, {
+        client: createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_PRIVATE_KEY!),
+        tableName: "documents",
+        queryName: "match_collection_documents",
+      });
+  }
+}
+
+// Recorded with each document so stale embeddings can be spotted and re-ingested
+export function embeddingModelName(vectorstore: VectorStore): string {
+  const embeddings = vectorstore.embeddings as { model?: string };
+  return embeddings.model ?? "unknown";
+}
+
+// Limits vector store matches to chunks of the given collections of one user. Supabase
+// applies it inside match_collection_documents, before the number of matches is cut
+export function collectionFilter(
+  vectorstore: VectorStore,
+  userId: string,
+  collectionIds: string[],
+): VectorStore["FilterType"] {
+  if (vectorstore instanceof SupabaseVectorStore) {
+    return { userId, collectionIds };
+  }
+  return { userId, collectionId: collectionIds } satisfies MetadataFilter;
+}
@@ -0,0 +1,65 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { formatCSV } from "@/lib/csv/format";
+import { inlinePiiPolicy, protectCSV, protectForModel, revealTokens } from "@/lib/privacy";
+
+beforeAll(() => {
+  process.env.PII_SECRET = "test-secret";
+});
+
+const content = formatCSV(
+  ["contact_email", "city"],
+  [
+    ["ann@example.com", "Oslo"],
+    ["bob@example.org", "Rome"],
+  ],
+);
+
+describe("inlinePiiPolicy", () => {
+  it("protects flagged columns when the client sent no policy", () => {
+    expect(inlinePiiPolicy(content)).toEqual({ contact_email: "tokenize" });
+  });
+
+  it("protects flagged columns the client's policy doesn't name, e.g. after a rename", () => {
+    expect(inlinePiiPolicy(content, { email: "mask" })).toEqual({ contact_email: "tokenize", email: "mask" });
+  });
+
+  it("keeps the choices the client made", () => {
+    expect(inlinePiiPolicy(content, { contact_email: "hash" })).toEqual({ contact_email: "hash" });
+    expect(inlinePiiPolicy(content, { contact_email: "none" })).toEqual({ contact_email: "none" });
+  });
+});
+
+describe("protectCSV and revealTokens", () => {
+  it("tokenizes with keyed digests and restores the values from the returned tokens", () => {
+    const result = protectCSV(content, { contact_email: "tokenize" });
+    expect(result.cellsProtected).toBe(2);
+    expect(result.content).not.toContain("@");
+    expect(result.tokens.size).toBe(2);
+    expect(protectCSV(content, { contact_email: "tokenize" }).content).toBe(result.content);
+    expect(revealTokens(result.content, result.tokens)).toBe(content);
+  });
+
+  it("leaves tokens it has no value for", () => {
+    const result = protectCSV(content, { contact_email: "tokenize" });
+    const [first] = Array.from(result.tokens);
+    const revealed = revealTokens(result.content, new Map([first]));
+    expect(revealed).toContain("ann@example.com");
+    expect(revealed).toContain("TKN_EMAIL_");
+  });
+
+  it("returns content unchanged without a protecting policy", () => {
+    expect(protectCSV(content, { contact_email: "none" })).toEqual({ content, cellsProtected: 0, tokens: new Map() });
+  });
+});
+
+describe("protectForModel", () => {
+  it("tokenizes flagged columns of datasets stored without a policy", async () => {
+    const protectedContent = await protectForModel(content, null);
+    expect(protectedContent).not.toContain("@");
+    expect(protectedContent).toContain("Oslo");
+  });
+
+  it("follows a stored policy, even one that protects nothing", async () => {
+    expect(await protectForModel(content, { contact_email: "none" })).toBe(content);
+  });
+});
@@ -0,0 +1,133 @@
+import { createHmac } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { formatCSV } from "@/lib/csv/format";
+import { NORMALIZED_CSV, parseCSV } from "@/lib/csv/parser";
+import {
+  canonicalValue,
+  defaultPiiPolicy,
+  findTokens,
+  formatHash,
+  formatToken,
+  hasProtection,
+  parsePiiPolicy,
+  PiiError,
+  protectData,
+  revealData,
+  scanPII,
+  type PiiKind,
+  type PiiPolicy,
+} from "@/lib/csv/pii";
+
+// Postgres allows 32767 bind parameters per query
+const TOKEN_BATCH_SIZE = 5000;
+
+export interface ProtectedCSV {
+  content: string;
+  cellsProtected: number;
+  // Token → original value for the values tokenized here
+  tokens: Map<string, string>;
+}
+
+function piiSecret(): string {
+  const secret = process.env.PII_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new PiiError("Set PII_SECRET (or NEXTAUTH_SECRET) to hash or tokenize personal data");
+  }
+  return secret;
+}
+
+// Keyed, so hashes and tokens can't be reversed by hashing guessed values
+function digest(purpose: "hash" | "token", kind: PiiKind, value: string): string {
+  return createHmac("sha256", piiSecret()).update(`${purpose}:${kind}:${canonicalValue(kind, value)}`).digest("hex");
+}
+
+/**
+ * Applies a privacy policy to CSV content. Equal values get equal hashes and
+ * tokens across datasets, so joins and duplicate checks keep working.
+ */
+export function protectCSV(content: string, policyValue: unknown): ProtectedCSV {
+  const policy = parsePiiPolicy(policyValue);
+  const tokens = new Map<string, string>();
+  if (!hasProtection(policy)) {
+    return { content, cellsProtected: 0, tokens };
+  }
+
+  const { headers, data } = parseCSV(content, NORMALIZED_CSV);
+  const result = protectData(headers, data, policy, (kind, value, action) => {
+    if (action === "hash") {
+      return formatHash(digest("hash", kind, value));
+    }
+    const token = formatToken(kind, digest("token", kind, value));
+    if (!tokens.has(token)) tokens.set(token, value);
+    return token;
+  });
+  return { content: formatCSV(headers, result.data), cellsProtected: result.cellsProtected, tokens };
+}
+
+// Keeps the original values so downloads can restore them; known tokens are skipped
+export async function storePiiTokens(userId: string, tokens: Map<string, string>): Promise<void> {
+  const entries = Array.from(tokens, ([token, value]) => ({ userId, token, value }));
+  for (let i = 0; i < entries.length; i += TOKEN_BATCH_SIZE) {
+    await prisma.piiToken.createMany({ data: entries.slice(i, i + TOKEN_BATCH_SIZE), skipDuplicates: true });
+  }
+}
+
+/**
+ * Protects content on its way to the model. For signed-in users the tokens are
+ * stored; without a user they can't be restored later. Without a policy, as for
+ * datasets stored before uploads got a default one, the flagged columns are tokenized.
+ */
+export async function protectForModel(content: string, policy: unknown, userId?: string): Promise<string> {
+  const result = protectCSV(content, policy ?? inlinePiiPolicy(content));
+  if (userId && result.tokens.size) {
+    await storePiiTokens(userId, result.tokens);
+  }
+  return result.content;
+}
+
+/**
+ * The policy for a dataset sent inline. The client's policy may be missing or
+ * name columns that were renamed since, so the server scans the data too and
+ * tokenizes the flagged columns the policy doesn't mention.
+ */
+export function inlinePiiPolicy(content: string, policy: PiiPolicy = {}): PiiPolicy {
+  const { headers, data } = parseCSV(content, NORMALIZED_CSV);
+  return { ...defaultPiiPolicy(scanPII(headers, data)), ...policy };
+}
+
+// Puts the original values back for the given tokens, e.g. the ones created for one request
+export function revealTokens(content: string, tokens: Map<string, string>): string {
+  if (!tokens.size) {
+    return content;
+  }
+  const { headers, data } = parseCSV(content, NORMALIZED_CSV);
+  return formatCSV(headers, revealData(data, (token) => tokens.get(token)));
+}
+
+// Tokens whose original value is kept for the user
+async function lookupTokens(userId: string, tokens: string[]): Promise<Map<string, string>> {
+  const values = new Map<string, string>();
+  for (let i = 0; i < tokens.length; i += TOKEN_BATCH_SIZE) {
+    const stored = await prisma.piiToken.findMany({
+      where: { userId, token: { in: tokens.slice(i, i + TOKEN_BATCH_SIZE) } },
+      select: { token: true, value: true },
+    });
+    stored.forEach((entry) => values.set(entry.token, entry.value));
+  }
+  return values;
+}
+
+/**
+ * Puts the original values back in place of the user's tokens, in all columns
+ * or only the named ones. Masked and hashed values can't be restored.
+ */
+export async function revealCSV(userId: string, content: string, columns?: string[]): Promise<string> {
+  const { headers, data } = parseCSV(content, NORMALIZED_CSV);
+  const indexes = columns?.map((column) => headers.indexOf(column)).filter((index) => index >= 0);
+  const tokens = findTokens(data, indexes);
+  if (!tokens.length) {
+    return content;
+  }
+  const values = await lookupTokens(userId, tokens);
+  return formatCSV(headers, revealData(data, (token) => values.get(token), indexes));
+}
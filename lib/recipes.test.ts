@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { CSVDataProcessor } from "@/lib/csv/processor";
+import { formatCSV } from "@/lib/csv/format";
+import { RECIPE_FORMAT, replayRecipe, type CleaningRecipe } from "@/lib/recipes";
+
+const headers = ["company", "city"];
+
+function recipeOf(steps: CleaningRecipe["steps"]): CleaningRecipe {
+  return { format: RECIPE_FORMAT, version: 1, name: "test", steps };
+}
+
+describe("replayRecipe near-duplicate reviews", () => {
+  it("records the values of reviewed clusters when they are picked by number", async () => {
+    const content = formatCSV(headers, [
+      ["Acme Inc", "Berlin"],
+      ["ACME Inc.", "Berlin"],
+      ["Globex", "Paris"],
+      ["Globex", "Pariss"],
+    ]);
+    const output = JSON.parse(
+      await new CSVDataProcessor().invoke({
+        operation: "remove_duplicates",
+        method: "fuzzy",
+        clusters: [1],
+        csv_data: content,
+      }),
+    );
+    expect(output.recipe_parameters).toEqual({
+      cluster_values: [[["Acme Inc", "Berlin"], ["ACME Inc.", "Berlin"]]],
+    });
+  });
+
+  it("applies the reviewed clusters to other data and leaves unreviewed ones alone", async () => {
+    const content = formatCSV(headers, [
+      ["Globex", "Paris"],
+      ["Globex", "Pariss"],
+      ["ACME Inc.", "Berlin"],
+      ["Initech", "Austin"],
+      ["Acme Inc", "Berlin"],
+    ]);
+    const { content: replayed, results } = await replayRecipe(
+      content,
+      recipeOf([
+        {
+          operation: "remove_duplicates",
+          parameters: {
+            method: "fuzzy",
+            clusters: [1],
+            cluster_values: [[["Acme Inc", "Berlin"], ["ACME Inc.", "Berlin"]]],
+          },
+        },
+      ]),
+    );
+    expect(results[0].status).toBe("applied");
+    expect(replayed).toBe(
+      formatCSV(headers, [
+        ["Globex", "Paris"],
+        ["Globex", "Pariss"],
+        ["ACME Inc.", "Berlin"],
+        ["Initech", "Austin"],
+      ]),
+    );
+  });
+
+  it("leaves the data unchanged when no reviewed cluster occurs in it", async () => {
+    const content = formatCSV(headers, [
+      ["Globex", "Paris"],
+      ["Globex", "Pariss"],
+    ]);
+    const { content: replayed, results } = await replayRecipe(
+      content,
+      recipeOf([
+        {
+          operation: "remove_duplicates",
+          parameters: { method: "fuzzy", clusters: [1], cluster_values: [[["Acme Inc", "Berlin"], ["ACME Inc.", "Berlin"]]] },
+        },
+      ]),
+    );
+    expect(results[0].status).toBe("unchanged");
+    expect(replayed).toBe(content);
+  });
+
+  it("skips cluster numbers saved without their values", async () => {
+    const content = formatCSV(headers, [["Acme Inc", "Berlin"]]);
+    const { results } = await replayRecipe(
+      content,
+      recipeOf([{ operation: "remove_duplicates", parameters: { method: "fuzzy", clusters: [1] } }]),
+    );
+    expect(results[0].status).toBe("skipped");
+  });
+});
@@ -0,0 +1,232 @@
+import { z } from "zod";
+import { CSVDataProcessor } from "@/lib/csv/processor";
+import { NORMALIZED_CSV, parseCSV } from "@/lib/csv/parser";
+import { formatCSV } from "@/lib/csv/format";
+import { parseSqlQuery, SqlError } from "@/lib/csv/sql";
+import { DuplicateError, findNearDuplicateClusters, matchReviewedClusters } from "@/lib/csv/duplicates";
+import { PROTECT_PII_OPERATION, type DatasetWithVersions } from "@/lib/datasets";
+
+// A recipe is the list of csv_processor operations (and saved sql_query results) that produced a dataset's
+// current version, replayable on another file without the model.
+
+export const RECIPE_FORMAT = "csv-cleaning-recipe";
+
+const recipeStepSchema = z.object({
+  operation: z.string(),
+  parameters: z.record(z.unknown()).default({}),
+});
+
+const recipeSchema = z.object({
+  format: z.literal(RECIPE_FORMAT),
+  version: z.literal(1),
+  name: z.string(),
+  source: z.string().optional(),
+  createdAt: z.string().optional(),
+  steps: z.array(recipeStepSchema),
+});
+
+export type RecipeStep = z.infer<typeof recipeStepSchema>;
+export type CleaningRecipe = z.infer<typeof recipeSchema>;
+
+export interface ReplayStepResult {
+  step: number;
+  operation: string;
+  parameters: Record<string, unknown>;
+  // "unchanged" steps ran but found nothing to change, e.g. no duplicates
+  status: "applied" | "unchanged" | "skipped";
+  message: string;
+  rowCount: number;
+}
+
+export class RecipeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecipeError";
+  }
+}
+
+// Parameters that name columns (or lists of columns), checked before a step runs
+const COLUMN_PARAMETERS = ["column", "columns", "order_by", "value_column"];
+
+export function buildRecipe(dataset: DatasetWithVersions): CleaningRecipe {
+  const steps = dataset.versions
+    .filter((version) => version.version > 1 && version.version <= dataset.headVersion)
+    .filter((version) => version.operation !== PROTECT_PII_OPERATION)
+    .sort((a, b) => a.version - b.version)
+    .map((version) => {
+      const { operation, ...parameters } = (version.parameters ?? {}) as Record<string, unknown>;
+      return { operation: version.operation, parameters };
+    });
+
+  return {
+    format: RECIPE_FORMAT,
+    version: 1,
+    name: `${dataset.name} cleaning recipe`,
+    source: dataset.fileName,
+    createdAt: new Date().toISOString(),
+    steps,
+  };
+}
+
+export function parseRecipe(json: unknown): CleaningRecipe {
+  const parsed = recipeSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new RecipeError(`Invalid recipe: ${issue.path.join(".") || "recipe"} ${issue.message.toLowerCase()}`);
+  }
+  return parsed.data;
+}
+
+// A saved SQL result re-runs with the data being replayed as the table in FROM
+function replaySqlQuery(query: unknown, headers: string[], data: string[][]): string {
+  try {
+    const parsed = parseSqlQuery(typeof query === "string" ? query : "");
+    if (parsed.tables.length > 1) {
+      return `Error: The query joins other datasets (${parsed.tables.slice(1).join(", ")}), which a recipe can't replay.`;
+    }
+    const result = parsed.execute({ [parsed.tables[0]]: { headers, data } });
+    return JSON.stringify({
+      summary: `Query result (${result.data.length} rows)`,
+      processed_csv_data: formatCSV(result.headers, result.data),
+    });
+  } catch (error) {
+    if (error instanceof SqlError) {
+      return `Error: ${error.message}.`;
+    }
+    throw error;
+  }
+}
+
+function isClusterValues(value: unknown): value is string[][][] {
+  return Array.isArray(value) && value.every((rows) =>
+    Array.isArray(rows) && rows.every((values) => Array.isArray(values) && values.every((v) => typeof v === "string")),
+  );
+}
+
+// Cluster numbers picked in a near-duplicate review only identify rows of the reviewed
+// data; here they are the clusters whose rows all have values of one reviewed cluster
+function replayedClusters(parameters: Record<string, unknown>, headers: string[], data: string[][]): number[] {
+  const { column, columns, threshold, cluster_values } = parameters;
+  const keyColumns = [
+    ...(typeof column === "string" ? [column] : []),
+    ...(Array.isArray(columns) ? columns.filter((c): c is string => typeof c === "string") : []),
+  ];
+  const result = findNearDuplicateClusters(headers, data, {
+    columns: Array.from(new Set(keyColumns)),
+    threshold: typeof threshold === "number" ? threshold : undefined,
+  });
+  return matchReviewedClusters(headers, data, result, cluster_values as string[][][]).map((c) => c.cluster);
+}
+
+// Tool summaries span several indented lines; reports show them on one
+function oneLine(text: string, maxLength = 300): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > maxLength ? `${line.slice(0, maxLength - 3)}...` : line;
+}
+
+/**
+ * Applies each recipe step in order. Steps that reference missing columns or
+ * fail are reported as skipped and the rest of the recipe still runs.
+ * onStepApplied is called with the data after every step that changed it.
+ */
+export async function replayRecipe(
+  csvContent: string,
+  recipe: CleaningRecipe,
+  onStepApplied?: (step: RecipeStep, content: string, summary: string | undefined) => Promise<void>,
+): Promise<{ content: string; results: ReplayStepResult[] }> {
+  const processor = new CSVDataProcessor();
+  const results: ReplayStepResult[] = [];
+  let content = csvContent;
+  let { headers, data } = parseCSV(content, NORMALIZED_CSV);
+
+  for (const [i, step] of recipe.steps.entries()) {
+    const result = {
+      step: i + 1,
+      operation: step.operation,
+      parameters: step.parameters,
+      rowCount: data.length,
+    };
+
+    const { mapping } = step.parameters;
+    const missingColumns = COLUMN_PARAMETERS
+      .flatMap((key) => step.parameters[key] ?? [])
+      // rename_columns names its columns by the mapping keys
+      .concat(mapping && typeof mapping === "object" ? Object.keys(mapping) : [])
+      .filter((value): value is string => typeof value === "string" && !headers.includes(value));
+    if (missingColumns.length) {
+      results.push({
+        ...result,
+        status: "skipped",
+        message: `Column${missingColumns.length > 1 ? "s" : ""} ${missingColumns.map((c) => `"${c}"`).join(", ")} not found`,
+      });
+      continue;
+    }
+
+    const { cluster_values, ...parameters } = step.parameters;
+    if (Array.isArray(parameters.clusters)) {
+      // Recipes saved before reviewed values were recorded have nothing to match
+      if (!isClusterValues(cluster_values)) {
+        results.push({
+          ...result,
+          status: "skipped",
+          message: "Near-duplicate clusters were picked by review; run remove_duplicates with clusters \"all\" or review again",
+        });
+        continue;
+      }
+      let clusters: number[];
+      try {
+        clusters = replayedClusters(step.parameters, headers, data);
+      } catch (error) {
+        if (!(error instanceof DuplicateError)) throw error;
+        results.push({ ...result, status: "skipped", message: error.message });
+        continue;
+      }
+      parameters.clusters = clusters;
+      if (!clusters.length) {
+        results.push({ ...result, status: "unchanged", message: "None of the reviewed near-duplicate clusters occur in this data" });
+        continue;
+      }
+    }
+
+    let output: string;
+    try {
+      output = step.operation === "sql_query"
+        ? replaySqlQuery(step.parameters.query, headers, data)
+        : await processor.invoke({ ...parameters, operation: step.operation, csv_data: content });
+    } catch (error) {
+      // The tool rejects parameters that don't match its schema
+      results.push({
+        ...result,
+        status: "skipped",
+        message: error instanceof Error ? oneLine(error.message) : String(error),
+      });
+      continue;
+    }
+
+    let parsed: { processed_csv_data?: unknown; summary?: unknown } | null = null;
+    try {
+      parsed = JSON.parse(output);
+    } catch {
+      parsed = null;
+    }
+
+    if (parsed && typeof parsed.processed_csv_data === "string") {
+      content = parsed.processed_csv_data;
+      ({ headers, data } = parseCSV(content, NORMALIZED_CSV));
+      const summary = typeof parsed.summary === "string" ? parsed.summary : undefined;
+      await onStepApplied?.(step, content, summary);
+      results.push({
+        ...result,
+        status: "applied",
+        message: summary ? oneLine(summary) : "Applied",
+        rowCount: data.length,
+      });
+    } else if (/^(Error|Column |Invalid operation)/.test(output.trim())) {
+      results.push({ ...result, status: "skipped", message: oneLine(output) });
+    } else {
+      results.push({ ...result, status: "unchanged", message: oneLine(output) });
+    }
+  }
+
+  return { content, results };
+}
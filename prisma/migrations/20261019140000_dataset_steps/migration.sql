@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Dataset" ADD COLUMN     "headVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "DatasetVersion" ADD COLUMN     "cellsAffected" INTEGER,
+ADD COLUMN     "rowsAffected" INTEGER;
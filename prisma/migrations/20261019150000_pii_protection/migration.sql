@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Dataset" ADD COLUMN     "piiPolicy" JSONB;
+
+-- CreateTable
+CREATE TABLE "PiiToken" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "PiiToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PiiToken_userId_token_key" ON "PiiToken"("userId", "token");
+
+-- AddForeignKey
+ALTER TABLE "PiiToken" ADD CONSTRAINT "PiiToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "DocumentCollection" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "DocumentCollection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentCollection_userId_name_key" ON "DocumentCollection"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "DocumentCollection" ADD CONSTRAINT "DocumentCollection_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
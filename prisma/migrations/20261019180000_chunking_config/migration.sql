@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "DocumentCollection" ADD COLUMN     "chunking" JSONB;
+
+-- CreateTable
+CREATE TABLE "DocumentParentChunk" (
+    "id" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "metadata" JSONB NOT NULL,
+    "documentId" TEXT NOT NULL,
+
+    CONSTRAINT "DocumentParentChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentParentChunk_documentId_index_key" ON "DocumentParentChunk"("documentId", "index");
+
+-- AddForeignKey
+ALTER TABLE "DocumentParentChunk" ADD CONSTRAINT "DocumentParentChunk_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
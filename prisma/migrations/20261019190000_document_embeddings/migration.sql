@@ -0,0 +1,15 @@
+-- Needs pgvector installed on the database server
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- CreateTable
+CREATE TABLE "DocumentEmbedding" (
+    "id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "metadata" JSONB NOT NULL,
+    "embedding" vector(1536) NOT NULL,
+
+    CONSTRAINT "DocumentEmbedding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DocumentEmbedding_embedding_idx" ON "DocumentEmbedding" USING hnsw ("embedding" vector_cosine_ops);
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "AttachmentFile" (
+    "id" TEXT NOT NULL,
+    "content" BYTEA NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT,
+
+    CONSTRAINT "AttachmentFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AttachmentFile_userId_createdAt_idx" ON "AttachmentFile"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AttachmentFile_expiresAt_idx" ON "AttachmentFile"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "AttachmentFile" ADD CONSTRAINT "AttachmentFile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- Similarity search over the chunks of some of one user's collections, for the Supabase
+-- vector store (lib/documents/vectorStore.ts). Run it once in the SQL editor after the
+-- LangChain set-up that creates the documents table and match_documents.
+--
+-- The filter is {"userId": "...", "collectionIds": ["...", ...]}. It is applied before
+-- the limit, so a search returns match_count chunks from those collections even when
+-- other users' chunks are closer. Both keys are required; a missing one matches nothing.
+create or replace function match_collection_documents (
+  query_embedding vector(1536),
+  match_count int default null,
+  filter jsonb default '{}'
+) returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  embedding jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+#variable_conflict use_column
+begin
+  return query
+  select
+    id,
+    content,
+    metadata,
+    (embedding::text)::jsonb as embedding,
+    1 - (documents.embedding <=> query_embedding) as similarity
+  from documents
+  where metadata->>'userId' = filter->>'userId'
+    and metadata->>'collectionId' in (
+      select jsonb_array_elements_text(coalesce(filter->'collectionIds', '[]'::jsonb))
+    )
+  order by documents.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
+
+-- Keeps the filter cheap as the table grows
+create index if not exists documents_user_collection_idx
+  on documents ((metadata->>'userId'), (metadata->>'collectionId'));